@@ -0,0 +1,56 @@
+// -----------------------------------------------------------------------
+// <copyright file="LeadIdentityTests.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Text.Json;
+using OutreachGenie.Api.Domain.Services;
+using Shouldly;
+
+namespace OutreachGenie.Api.Tests.Domain.Services;
+
+/// <summary>
+/// Tests for <see cref="LeadIdentity"/>.
+/// </summary>
+public sealed class LeadIdentityTests
+{
+    /// <summary>
+    /// A stored lead and an imported row with the same profile URL, written differently, share a key.
+    /// </summary>
+    [Fact]
+    public void MatchesProfileUrlsThatDifferOnlyInSchemeCaseAndQuery()
+    {
+        string slug = $"jürgen-{Guid.NewGuid():N}";
+        string stored = JsonSerializer.Serialize(new Dictionary<string, string> { ["ProfileUrl"] = $"https://www.linkedin.com/in/{slug}/" });
+
+        IReadOnlyList<string> imported = LeadIdentity.Of(new Dictionary<string, string> { ["profileUrl"] = $"LinkedIn.com/in/{slug.ToUpperInvariant()}?trk=ç" }).Keys;
+
+        LeadIdentity.Of(stored).Keys.Intersect(imported).ShouldNotBeEmpty("Two spellings of one profile URL did not match");
+    }
+
+    /// <summary>
+    /// Name and company identify a person only together, built from first and last name when no full name is given.
+    /// </summary>
+    [Fact]
+    public void MatchesFullNameAgainstFirstAndLastNameAtTheSameCompany()
+    {
+        string company = $"Ærø Čokoláda {Random.Shared.Next()}";
+        IReadOnlyList<string> parts = LeadIdentity.Of(new Dictionary<string, string> { ["firstName"] = "Zoë", ["lastName"] = "Ñúñez", ["company"] = company }).Keys;
+
+        IReadOnlyList<string> full = LeadIdentity.Of(new Dictionary<string, string> { ["name"] = "zoë ñúñez", ["Company"] = company }).Keys;
+
+        full.ShouldBe(parts, "A full name did not match the same first and last name at one company");
+    }
+
+    /// <summary>
+    /// Lead data that is not JSON, such as a free-text note, identifies nobody.
+    /// </summary>
+    [Fact]
+    public void HasNoKeysForDataThatIsNotJson()
+    {
+        string note = $"Lead notiert am {Random.Shared.Next()} — ☕ kein JSON";
+
+        LeadIdentity.Of(note).Keys.ShouldBeEmpty("Free-text lead data produced identity keys");
+    }
+}
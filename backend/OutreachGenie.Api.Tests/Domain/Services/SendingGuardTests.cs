@@ -0,0 +1,52 @@
+// -----------------------------------------------------------------------
+// <copyright file="SendingGuardTests.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using OutreachGenie.Api.Data;
+using OutreachGenie.Api.Domain.Services;
+using Shouldly;
+
+namespace OutreachGenie.Api.Tests.Domain.Services;
+
+/// <summary>
+/// Tests for <see cref="SendingGuard"/>.
+/// </summary>
+public sealed class SendingGuardTests
+{
+    /// <summary>
+    /// Outreach of two campaigns sharing a sender is recorded one after the other, never side by side.
+    /// </summary>
+    [Fact]
+    public async Task RecordsOutreachOfDifferentCampaignsOneAtATime()
+    {
+        string first = $"Kampagne Ä {Guid.NewGuid():N}";
+        string second = $"活动 ✉ {Guid.NewGuid():N}";
+        using FileSenderRoster roster = new(Path.Combine(Path.GetTempPath(), $"senders-{Guid.NewGuid():N}.json"));
+        using SendingGuard guard = new(
+            new EventLog(new PooledDbContextFactory<OutreachGenieDbContext>(
+                new DbContextOptionsBuilder<OutreachGenieDbContext>().UseSqlite("Data Source=:memory:").Options)),
+            roster);
+        TaskCompletionSource held = new();
+        List<string> recorded = [];
+
+        Task<string> running = guard.Exclusively(async () =>
+        {
+            await held.Task;
+            recorded.Add(first);
+            return first;
+        });
+        Task<string> waiting = guard.Exclusively(() =>
+        {
+            recorded.Add(second);
+            return Task.FromResult(second);
+        });
+        held.SetResult();
+        await Task.WhenAll(running, waiting);
+
+        recorded.ShouldBe([first, second], "Outreach of another campaign was recorded while the first was still checking its limits");
+    }
+}
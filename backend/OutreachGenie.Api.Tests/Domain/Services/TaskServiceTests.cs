@@ -0,0 +1,210 @@
+// -----------------------------------------------------------------------
+// <copyright file="TaskServiceTests.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using OutreachGenie.Api.Data;
+using OutreachGenie.Api.Domain.Entities;
+using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Hubs;
+using OutreachGenie.Api.Infrastructure.Repositories;
+using Shouldly;
+using TaskStatus = OutreachGenie.Api.Domain.Entities.TaskStatus;
+
+namespace OutreachGenie.Api.Tests.Domain.Services;
+
+/// <summary>
+/// Tests for <see cref="TaskService"/> against a SQLite database in a temporary directory.
+/// </summary>
+public sealed class TaskServiceTests : IDisposable
+{
+    private readonly string directory = Path.Combine(Path.GetTempPath(), $"outreachgenie-{Guid.NewGuid():N}");
+    private readonly SqliteContextFactory factory;
+    private readonly RecordingHub hub = new();
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="TaskServiceTests"/> class with an empty database.
+    /// </summary>
+    public TaskServiceTests()
+    {
+        Directory.CreateDirectory(this.directory);
+        this.factory = new SqliteContextFactory(Path.Combine(this.directory, "tasks.db"));
+        using OutreachGenieDbContext context = this.factory.CreateDbContext();
+        context.Database.EnsureCreated();
+    }
+
+    /// <summary>
+    /// A task after a rejected one can still be completed, since the rejected task never runs.
+    /// </summary>
+    [Fact]
+    public async Task CompletesTaskThatFollowsRejectedTask()
+    {
+        Guid campaignId = await this.Seed(TaskStatus.Rejected, TaskStatus.Pending);
+        CampaignTask following = (await this.Service().GetTasks(campaignId)).Value[1];
+
+        bool completed = (await this.Service().CompleteTask(following.Id)).IsSuccess;
+
+        completed.ShouldBeTrue("A rejected task did not let the task after it complete");
+    }
+
+    /// <summary>
+    /// A rejected task is settled, so the next required task is the one after it.
+    /// </summary>
+    [Fact]
+    public async Task SkipsRejectedTaskWhenPickingNextRequiredTask()
+    {
+        Guid campaignId = await this.Seed(TaskStatus.Rejected, TaskStatus.Pending);
+
+        int? current = (await this.Service().NextRequiredTask(campaignId))?.OrderIndex;
+
+        current.ShouldBe(1, "The rejected task did not stop being the current task");
+    }
+
+    /// <summary>
+    /// A task that waits for approval still holds back the tasks after it.
+    /// </summary>
+    [Fact]
+    public async Task CannotCompleteTaskThatFollowsTaskAwaitingApproval()
+    {
+        Guid campaignId = await this.Seed(TaskStatus.AwaitingApproval, TaskStatus.Pending);
+        CampaignTask following = (await this.Service().GetTasks(campaignId)).Value[1];
+
+        bool completed = (await this.Service().CompleteTask(following.Id)).IsSuccess;
+
+        completed.ShouldBeFalse("A task completed before the task awaiting approval ahead of it");
+    }
+
+    /// <summary>
+    /// The approvals inbox gathers the tasks awaiting approval from every campaign.
+    /// </summary>
+    [Fact]
+    public async Task GathersTasksAwaitingApprovalFromEveryCampaign()
+    {
+        await this.Seed(TaskStatus.AwaitingApproval, TaskStatus.Pending);
+        await this.Seed(TaskStatus.Completed, TaskStatus.AwaitingApproval);
+
+        IReadOnlyList<CampaignTask> waiting = await this.Service().GetTasksWithStatus(TaskStatus.AwaitingApproval);
+
+        waiting.Count.ShouldBe(2, "The approvals inbox did not hold the waiting task of each campaign");
+    }
+
+    /// <summary>
+    /// Approving a task tells every open page its new status through the hub.
+    /// </summary>
+    [Fact]
+    public async Task SendsApprovedTaskStatusToTheHub()
+    {
+        Guid campaignId = await this.Seed(TaskStatus.AwaitingApproval);
+        CampaignTask waiting = (await this.Service().GetTasks(campaignId)).Value[0];
+
+        await this.Service().ApproveTask(campaignId, waiting.Id, $"Passt — weiter so ✓ {Random.Shared.Next()}");
+
+        this.hub.Sent.ShouldBe(
+            [$"{nameof(TaskStatusChanged)} {waiting.Id} {TaskStatus.Pending}"],
+            "The approved task did not reach the hub with its new status");
+    }
+
+    /// <inheritdoc />
+    public void Dispose()
+    {
+        Microsoft.Data.Sqlite.SqliteConnection.ClearAllPools();
+        Directory.Delete(this.directory, recursive: true);
+    }
+
+    private TaskService Service()
+    {
+        return new TaskService(new CampaignRepository(this.factory), new EventLog(this.factory), this.hub);
+    }
+
+    private async Task<Guid> Seed(params TaskStatus[] statuses)
+    {
+        Campaign campaign = new(
+            Guid.NewGuid(),
+            $"Кампания «{Guid.NewGuid():N}» 营销",
+            CampaignPhase.Outreach,
+            DateTime.UtcNow,
+            "{}");
+        for (int index = 0; index < statuses.Length; index++)
+        {
+            campaign.Tasks.Add(new CampaignTask(
+                Guid.NewGuid(),
+                campaign.Id,
+                $"Schritt {index} — {Guid.NewGuid():N} ✉",
+                $"Ünïcode Beschreibung {Random.Shared.Next()}",
+                statuses[index],
+                index,
+                statuses[index] == TaskStatus.AwaitingApproval,
+                true,
+                DateTime.UtcNow.AddSeconds(index)));
+        }
+
+        await using OutreachGenieDbContext context = await this.factory.CreateDbContextAsync();
+        await context.Campaigns.AddAsync(campaign);
+        await context.SaveChangesAsync();
+        return campaign.Id;
+    }
+
+    private sealed class SqliteContextFactory : IDbContextFactory<OutreachGenieDbContext>
+    {
+        private readonly DbContextOptions<OutreachGenieDbContext> options;
+
+        public SqliteContextFactory(string path)
+        {
+            this.options = new DbContextOptionsBuilder<OutreachGenieDbContext>()
+                .UseSqlite($"Data Source={path}")
+                .Options;
+        }
+
+        public OutreachGenieDbContext CreateDbContext()
+        {
+            return new OutreachGenieDbContext(this.options);
+        }
+    }
+
+    // Keeps every message sent to all clients as "{name} {task} {status}"
+    private sealed class RecordingHub : IHubContext<AgentHub>, IClientProxy
+    {
+        public List<string> Sent { get; } = [];
+
+        public IHubClients Clients => new AllClients(this);
+
+        public IGroupManager Groups => throw new NotSupportedException();
+
+        public Task SendCoreAsync(string method, object?[] args, CancellationToken cancellationToken = default)
+        {
+            this.Sent.Add(args is [TaskStatusChanged changed] ? $"{method} {changed.TaskId} {changed.Status}" : method);
+            return Task.CompletedTask;
+        }
+    }
+
+    private sealed class AllClients : IHubClients
+    {
+        private readonly IClientProxy proxy;
+
+        public AllClients(IClientProxy proxy)
+        {
+            this.proxy = proxy;
+        }
+
+        public IClientProxy All => this.proxy;
+
+        public IClientProxy AllExcept(IReadOnlyList<string> excludedConnectionIds) => throw new NotSupportedException();
+
+        public IClientProxy Client(string connectionId) => throw new NotSupportedException();
+
+        public IClientProxy Clients(IReadOnlyList<string> connectionIds) => throw new NotSupportedException();
+
+        public IClientProxy Group(string groupName) => throw new NotSupportedException();
+
+        public IClientProxy GroupExcept(string groupName, IReadOnlyList<string> excludedConnectionIds) => throw new NotSupportedException();
+
+        public IClientProxy Groups(IReadOnlyList<string> groupNames) => throw new NotSupportedException();
+
+        public IClientProxy User(string userId) => throw new NotSupportedException();
+
+        public IClientProxy Users(IReadOnlyList<string> userIds) => throw new NotSupportedException();
+    }
+}
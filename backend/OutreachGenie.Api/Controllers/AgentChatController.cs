@@ -4,25 +4,50 @@
 // </copyright>
 // -----------------------------------------------------------------------
 
+using System.Text;
 using System.Text.Json;
 using Microsoft.Agents.AI;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.SignalR;
 using Microsoft.Extensions.AI;
+using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Hubs;
+using OutreachGenie.Api.Models;
 
 namespace OutreachGenie.Api.Controllers;
 
 /// <summary>
 /// Controller for agent chat interactions that bypasses MapAGUI bug.
 /// This properly merges agent tools with client tools.
+/// Runs execute independently of the HTTP connection and are buffered in the
+/// <see cref="IRunJournal"/>, so a dropped client can resume with Last-Event-ID.
+/// Every conversation is kept in the <see cref="IChatHistory"/>, so it survives a page reload.
 /// </summary>
 [ApiController]
 [Route("api/[controller]")]
 public sealed class AgentChatController : ControllerBase
 {
+    private const string PlanModePrompt = """
+        PLAN MODE: the user wants to review the plan before anything is executed.
+        Do not create campaigns or tasks and do not discover or score leads.
+        Propose the ordered task list for the campaign as a fenced code block tagged `plan` containing JSON:
+        ```plan
+        {"tasks": [{"title": "...", "description": "...", "requiresApproval": false}]}
+        ```
+        Set requiresApproval to true for tasks that contact people or spend budget.
+        Keep any explanation short and outside the code block.
+        """;
+
+    /// <summary>
+    /// Tools that only read campaign state; the only ones offered while planning.
+    /// </summary>
+    private static readonly HashSet<string> PlanningTools = ["GetCampaignStatus"];
+
     private readonly IChatClient chatClient;
     private readonly IReadOnlyList<AITool> tools;
     private readonly string systemPrompt;
     private readonly ILogger<AgentChatController> logger;
+    private readonly IRunJournal journal;
 
     /// <summary>
     /// Initializes a new instance of the <see cref="AgentChatController"/> class.
@@ -31,24 +56,34 @@ public sealed class AgentChatController : ControllerBase
         IChatClient chatClient,
         IReadOnlyList<AITool> tools,
         string systemPrompt,
-        ILogger<AgentChatController> logger)
+        ILogger<AgentChatController> logger,
+        IRunJournal journal)
     {
         this.chatClient = chatClient;
         this.tools = tools;
         this.systemPrompt = systemPrompt;
         this.logger = logger;
+        this.journal = journal;
     }
 
     /// <summary>
     /// Streams chat responses from the agent with proper tool support.
     /// </summary>
     /// <param name="request">The chat request containing messages.</param>
+    /// <param name="history">Conversations the new message and the answer are added to.</param>
+    /// <param name="hub">Hub the saved answer is announced on, so other open pages show it.</param>
     /// <param name="cancellationToken">Cancellation token.</param>
     /// <returns>Server-Sent Events stream of chat responses.</returns>
     [HttpPost("stream")]
-    public async Task StreamChat([FromBody] ChatRequest request, CancellationToken cancellationToken)
+    public async Task StreamChat(
+        [FromBody] ChatRequest request,
+        [FromServices] IChatHistory history,
+        [FromServices] IHubContext<AgentHub> hub,
+        CancellationToken cancellationToken)
     {
         ArgumentNullException.ThrowIfNull(request);
+        ArgumentNullException.ThrowIfNull(history);
+        ArgumentNullException.ThrowIfNull(hub);
 
         this.logger.LogInformation("Starting chat stream with {MessageCount} messages", request.Messages.Count);
 
@@ -62,7 +97,23 @@ public sealed class AgentChatController : ControllerBase
                 contents: [new TextContent(msg.Content)]))
         ];
 
-        this.logger.LogInformation("Processing {MessageCount} messages with {ToolCount} tools", chatMessages.Count, this.tools.Count);
+        // Scope the run to the campaign selected in the chat
+        if (request.CampaignId.HasValue)
+        {
+            chatMessages.Insert(1, new ChatMessage(
+                ChatRole.System,
+                $"The user is working on campaign {request.CampaignId.Value}. Use this campaign id for campaign tools unless told otherwise."));
+        }
+
+        // Planning must not touch the backend: nothing is created until the user approves the plan
+        List<AITool> tools = this.tools.ToList();
+        if (request.PlanMode)
+        {
+            chatMessages.Insert(1, new ChatMessage(ChatRole.System, PlanModePrompt));
+            tools = tools.Where(t => PlanningTools.Contains(t.Name)).ToList();
+        }
+
+        this.logger.LogInformation("Processing {MessageCount} messages with {ToolCount} tools", chatMessages.Count, tools.Count);
 
         // Log EXACTLY what we're sending
         foreach (var msg in chatMessages)
@@ -73,23 +124,118 @@ public sealed class AgentChatController : ControllerBase
 
         this.logger.LogInformation("ToolMode: {ToolMode}, Tools: [{Tools}]",
             "RequireAny",
-            string.Join(", ", this.tools.Select(t => t.Name)));
+            string.Join(", ", tools.Select(t => t.Name)));
+
+        // The client sends the whole conversation; only its newest message is not persisted yet
+        SimpleChatMessage? latest = request.Messages.LastOrDefault();
+        if (latest is not null && latest.Role.Equals("user", StringComparison.OrdinalIgnoreCase))
+        {
+            await history.Append(
+                request.CampaignId,
+                new ChatEntry(Guid.NewGuid(), "user", latest.Content, DateTime.UtcNow),
+                cancellationToken);
+        }
+
+        Guid run = Guid.NewGuid();
+        CancellationToken runToken = this.journal.Open(run);
+        Guid? campaignId = request.CampaignId;
+
+        // The run is not bound to this request - a dropped connection must not stop the agent
+        _ = Task.Run(() => this.Execute(run, chatMessages, tools, history, hub, campaignId, runToken), CancellationToken.None);
+
+        await this.Relay(run, 0, cancellationToken);
+    }
+
+    /// <summary>
+    /// Gets the persisted messages of a conversation, oldest first.
+    /// </summary>
+    /// <param name="campaignId">Campaign of the conversation; omitted for the general one.</param>
+    /// <param name="history">Persisted conversations.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>The conversation's messages.</returns>
+    [HttpGet("history")]
+    public async Task<ActionResult<IEnumerable<ChatMessageDto>>> GetHistory(
+        [FromQuery] Guid? campaignId,
+        [FromServices] IChatHistory history,
+        CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(history);
+
+        IReadOnlyList<ChatEntry> messages = await history.Messages(campaignId, cancellationToken);
+        return this.Ok(messages.Select(m => ChatMessageDto.FromEntry(m, campaignId)));
+    }
+
+    /// <summary>
+    /// Resumes the event stream of a run after a dropped connection.
+    /// </summary>
+    /// <param name="runId">The run to resume.</param>
+    /// <param name="lastEventId">Id of the last event the client received; later events are replayed.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>Server-Sent Events stream of the remaining run events.</returns>
+    [HttpGet("runs/{runId:guid}/stream")]
+    public async Task ResumeChat(
+        Guid runId,
+        [FromHeader(Name = "Last-Event-ID")] long? lastEventId,
+        CancellationToken cancellationToken)
+    {
+        if (!this.journal.Contains(runId))
+        {
+            this.Response.StatusCode = StatusCodes.Status404NotFound;
+            return;
+        }
+
+        this.logger.LogInformation("Resuming run {RunId} after event {LastEventId}", runId, lastEventId ?? 0);
+        await this.Relay(runId, lastEventId ?? 0, cancellationToken);
+    }
+
+    /// <summary>
+    /// Cancels a running agent run.
+    /// </summary>
+    /// <param name="runId">The run to cancel.</param>
+    /// <returns>No content, or not found for unknown runs.</returns>
+    [HttpPost("runs/{runId:guid}/cancel")]
+    public IActionResult CancelRun(Guid runId)
+    {
+        return this.journal.Cancel(runId) ? this.NoContent() : this.NotFound();
+    }
 
+    private async Task Relay(Guid run, long after, CancellationToken cancellationToken)
+    {
         // Set response headers for Server-Sent Events
         this.Response.Headers.Append("Content-Type", "text/event-stream");
         this.Response.Headers.Append("Cache-Control", "no-cache");
         this.Response.Headers.Append("Connection", "keep-alive");
 
+        try
+        {
+            await this.journal.Replay(run, after, entry => this.WriteSseEvent(entry, cancellationToken), cancellationToken);
+        }
+        catch (OperationCanceledException ex)
+        {
+            this.logger.LogInformation(ex, "Client left the stream of run {RunId}; the run keeps going", run);
+        }
+    }
+
+    private async Task Execute(
+        Guid run,
+        List<ChatMessage> chatMessages,
+        List<AITool> tools,
+        IChatHistory history,
+        IHubContext<AgentHub> hub,
+        Guid? campaignId,
+        CancellationToken cancellationToken)
+    {
+        StringBuilder answer = new();
         try
         {
             // Send start event
-            await this.WriteSseEvent("start", new { status = "running" }, cancellationToken);
+            this.Append(run, "start", new { status = "running", runId = run });
 
             // Call IChatClient directly with tools
             // UseFunctionInvocation middleware handles function calling automatically
             ChatOptions options = new()
             {
-                Tools = this.tools.ToList(), // Convert IReadOnlyList to IList
+                Tools = tools,
                 ToolMode = ChatToolMode.Auto, // Let the LLM decide when to call tools
             };
 
@@ -98,6 +244,10 @@ public sealed class AgentChatController : ControllerBase
                 options,
                 cancellationToken))
             {
+                // Surface tool invocations so the UI can track each call
+                this.AppendToolEvents(run, update);
+                answer.Append(update.Text);
+
                 // Convert streaming update to our SSE format
                 object sseData = new
                 {
@@ -108,31 +258,79 @@ public sealed class AgentChatController : ControllerBase
                     ResponseId = update.ResponseId,
                 };
 
-                await this.WriteSseEvent("update", sseData, cancellationToken);
+                this.Append(run, "update", sseData);
             }
 
             // Send completion event
-            await this.WriteSseEvent("done", new { status = "completed" }, cancellationToken);
-            this.logger.LogInformation("Chat stream completed successfully");
+            this.Append(run, "done", new { status = "completed" });
+            this.logger.LogInformation("Chat run {RunId} completed successfully", run);
         }
         catch (OperationCanceledException ex)
         {
-            this.logger.LogInformation(ex, "Chat stream cancelled");
-            await this.WriteSseEvent("done", new { status = "cancelled" }, cancellationToken);
+            this.logger.LogInformation(ex, "Chat run {RunId} cancelled", run);
+            this.Append(run, "done", new { status = "cancelled" });
         }
         catch (Exception ex) when (ex is not OperationCanceledException)
         {
-            this.logger.LogError(ex, "Error during chat stream");
-            await this.WriteSseEvent("error", new { message = ex.Message }, cancellationToken);
+            this.logger.LogError(ex, "Error during chat run {RunId}", run);
+            this.Append(run, "error", new { message = ex.Message });
+        }
+        finally
+        {
+            await this.Remember(history, hub, campaignId, run, answer.ToString());
+            this.journal.Close(run);
         }
     }
 
-    private async Task WriteSseEvent(string eventType, object data, CancellationToken cancellationToken)
+    // A stopped run keeps its partial answer; a failed save is logged rather than breaking the stream.
+    // The answer is kept under the run id, which the client names it by, so references to it survive a reload.
+    private async Task Remember(IChatHistory history, IHubContext<AgentHub> hub, Guid? campaignId, Guid run, string answer)
     {
-        string json = JsonSerializer.Serialize(data);
-        await this.Response.WriteAsync($"event: {eventType}\n", cancellationToken);
-        await this.Response.WriteAsync($"data: {json}\n\n", cancellationToken);
+        if (string.IsNullOrWhiteSpace(answer))
+        {
+            return;
+        }
+
+        try
+        {
+            ChatEntry entry = new(run, "assistant", answer, DateTime.UtcNow);
+            await history.Append(campaignId, entry, CancellationToken.None);
+            await hub.Clients.All.SendAsync(
+                nameof(ChatMessageReceived),
+                new ChatMessageReceived(entry.Id, campaignId, entry.Content, entry.Role, entry.Timestamp),
+                CancellationToken.None);
+        }
+        catch (IOException ex)
+        {
+            this.logger.LogError(ex, "Could not save the answer to the chat history of campaign {CampaignId}", campaignId);
+        }
+    }
+
+    private void AppendToolEvents(Guid run, ChatResponseUpdate update)
+    {
+        foreach (AIContent content in update.Contents)
+        {
+            if (content is FunctionCallContent call)
+            {
+                this.Append(run, "tool_call", new { callId = call.CallId, name = call.Name, arguments = call.Arguments });
+            }
+            else if (content is FunctionResultContent result)
+            {
+                this.Append(run, "tool_result", new { callId = result.CallId, result = result.Result, error = result.Exception?.Message });
+            }
+        }
+    }
+
+    private void Append(Guid run, string eventType, object data)
+    {
+        this.journal.Append(run, eventType, JsonSerializer.Serialize(data));
+    }
+
+    private async Task WriteSseEvent(RunEntry entry, CancellationToken cancellationToken)
+    {
+        await this.Response.WriteAsync($"id: {entry.Sequence}\n", cancellationToken);
+        await this.Response.WriteAsync($"event: {entry.Name}\n", cancellationToken);
+        await this.Response.WriteAsync($"data: {entry.Payload}\n\n", cancellationToken);
         await this.Response.Body.FlushAsync(cancellationToken);
     }
 }
-
@@ -0,0 +1,97 @@
+// -----------------------------------------------------------------------
+// <copyright file="ArtifactsController.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using Microsoft.AspNetCore.Mvc;
+using OutreachGenie.Api.Domain.Entities;
+using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Infrastructure.Repositories;
+using OutreachGenie.Api.Models;
+
+namespace OutreachGenie.Api.Controllers;
+
+/// <summary>
+/// Controller for the versioned artifacts of a campaign.
+/// </summary>
+[ApiController]
+[Route("api/campaigns/{campaignId}/artifacts")]
+public sealed class ArtifactsController : ControllerBase
+{
+    private readonly IArtifactArchive archive;
+    private readonly ICampaignRepository campaignRepository;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="ArtifactsController"/> class.
+    /// </summary>
+    public ArtifactsController(IArtifactArchive archive, ICampaignRepository campaignRepository)
+    {
+        this.archive = archive;
+        this.campaignRepository = campaignRepository;
+    }
+
+    /// <summary>
+    /// Gets every stored version of the campaign's artifacts, optionally of one type.
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<ArtifactDto>>> GetArtifacts(
+        Guid campaignId,
+        [FromQuery] string? type,
+        CancellationToken cancellationToken)
+    {
+        Campaign? campaign = await this.campaignRepository.FindById(campaignId, cancellationToken);
+        if (campaign is null)
+        {
+            return this.NotFound();
+        }
+
+        IReadOnlyList<ArtifactVersion> versions = await this.archive.Versions(campaignId, type, cancellationToken);
+        return this.Ok(versions.Select(ArtifactDto.FromVersion));
+    }
+
+    /// <summary>
+    /// Stores a new version of one of the campaign's artifacts.
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<ArtifactDto>> CreateArtifact(
+        Guid campaignId,
+        [FromBody] CreateArtifactRequest request,
+        CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(request);
+
+        // Versions are named "{type}/{key}", so the type cannot contain the separator
+        if (string.IsNullOrWhiteSpace(request.Type) || request.Type.Contains('/', StringComparison.Ordinal))
+        {
+            return this.BadRequest("Type is required and cannot contain '/'.");
+        }
+
+        if (string.IsNullOrWhiteSpace(request.Key))
+        {
+            return this.BadRequest("Key is required.");
+        }
+
+        if (!Enum.TryParse(request.Source, ignoreCase: true, out EventActor source)
+            || !Enum.IsDefined(source)
+            || source == EventActor.System)
+        {
+            return this.BadRequest($"Unknown source '{request.Source}'");
+        }
+
+        Campaign? campaign = await this.campaignRepository.FindById(campaignId, cancellationToken);
+        if (campaign is null)
+        {
+            return this.NotFound();
+        }
+
+        ArtifactVersion version = await this.archive.Save(
+            campaignId,
+            request.Type,
+            request.Key,
+            request.Content,
+            source,
+            cancellationToken);
+        return this.Ok(ArtifactDto.FromVersion(version));
+    }
+}
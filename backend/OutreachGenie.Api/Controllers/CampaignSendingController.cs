@@ -0,0 +1,154 @@
+// -----------------------------------------------------------------------
+// <copyright file="CampaignSendingController.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using Microsoft.AspNetCore.Mvc;
+using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Infrastructure.Repositories;
+using OutreachGenie.Api.Models;
+
+namespace OutreachGenie.Api.Controllers;
+
+/// <summary>
+/// Controller for how a campaign sends: its senders and rotation, its own sending limits and today's quota.
+/// </summary>
+[ApiController]
+[Route("api/campaigns/{campaignId}")]
+public sealed class CampaignSendingController : ControllerBase
+{
+    private readonly ICampaignRepository campaignRepository;
+    private readonly ISenderRoster roster;
+    private readonly ISendingGuard guard;
+    private readonly ILogger<CampaignSendingController> logger;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="CampaignSendingController"/> class.
+    /// </summary>
+    public CampaignSendingController(
+        ICampaignRepository campaignRepository,
+        ISenderRoster roster,
+        ISendingGuard guard,
+        ILogger<CampaignSendingController> logger)
+    {
+        this.campaignRepository = campaignRepository;
+        this.roster = roster;
+        this.guard = guard;
+        this.logger = logger;
+    }
+
+    /// <summary>
+    /// Gets the senders a campaign reaches out from.
+    /// </summary>
+    [HttpGet("senders")]
+    public async Task<ActionResult<CampaignSendersDto>> GetCampaignSenders(
+        Guid campaignId,
+        CancellationToken cancellationToken)
+    {
+        if (!await this.Exists(campaignId, cancellationToken))
+        {
+            return this.NotFound();
+        }
+
+        return CampaignSendersDto.FromAssignment(await this.roster.Assignment(campaignId, cancellationToken));
+    }
+
+    /// <summary>
+    /// Replaces the senders a campaign reaches out from and their rotation.
+    /// </summary>
+    [HttpPut("senders")]
+    public async Task<ActionResult<CampaignSendersDto>> AssignCampaignSenders(
+        Guid campaignId,
+        [FromBody] CampaignSendersDto request,
+        CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(request);
+
+        IReadOnlyList<Sender> known = await this.roster.Senders(cancellationToken);
+        (CampaignSenders? senders, string? error) = CampaignSendersDto.ToAssignment(request.SenderIds, request.Rotation, known);
+        if (senders is null)
+        {
+            return this.BadRequest(error);
+        }
+
+        if (!await this.Exists(campaignId, cancellationToken))
+        {
+            return this.NotFound();
+        }
+
+        await this.roster.Assign(campaignId, senders, cancellationToken);
+        this.logger.LogInformation("Campaign {CampaignId} assigned {Count} senders", campaignId, senders.SenderIds.Count);
+        return CampaignSendersDto.FromAssignment(senders);
+    }
+
+    /// <summary>
+    /// Gets the sending limits a campaign applies on top of its senders' own.
+    /// </summary>
+    [HttpGet("limits")]
+    public async Task<ActionResult<CampaignLimitsDto>> GetCampaignLimits(
+        Guid campaignId,
+        CancellationToken cancellationToken)
+    {
+        if (!await this.Exists(campaignId, cancellationToken))
+        {
+            return this.NotFound();
+        }
+
+        SendingLimits? limits = await this.roster.Limits(campaignId, cancellationToken);
+        return new CampaignLimitsDto { Limits = limits is null ? null : SendingLimitsDto.FromLimits(limits) };
+    }
+
+    /// <summary>
+    /// Replaces the sending limits of a campaign, or removes them when none are sent.
+    /// </summary>
+    [HttpPut("limits")]
+    public async Task<ActionResult<CampaignLimitsDto>> SaveCampaignLimits(
+        Guid campaignId,
+        [FromBody] CampaignLimitsDto request,
+        CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(request);
+
+        SendingLimits? limits = null;
+        if (request.Limits is not null)
+        {
+            (limits, string? error) = request.Limits.ToLimits();
+            if (limits is null)
+            {
+                return this.BadRequest(error);
+            }
+        }
+
+        if (!await this.Exists(campaignId, cancellationToken))
+        {
+            return this.NotFound();
+        }
+
+        await this.roster.Restrict(campaignId, limits, cancellationToken);
+        this.logger.LogInformation("Campaign {CampaignId} sending limits {Change}", campaignId, limits is null ? "removed" : "saved");
+        return new CampaignLimitsDto { Limits = limits is null ? null : SendingLimitsDto.FromLimits(limits) };
+    }
+
+    /// <summary>
+    /// Gets how much of today's sending limits a campaign and its senders used, and when they may send next.
+    /// </summary>
+    [HttpGet("quota")]
+    public async Task<ActionResult<CampaignQuotaDto>> GetCampaignQuota(
+        Guid campaignId,
+        CancellationToken cancellationToken)
+    {
+        if (!await this.Exists(campaignId, cancellationToken))
+        {
+            return this.NotFound();
+        }
+
+        CampaignThrottle throttle = await this.guard.Throttle(campaignId, cancellationToken);
+        return CampaignQuotaDto.FromThrottle(throttle, DateTime.UtcNow);
+    }
+
+    private async Task<bool> Exists(Guid campaignId, CancellationToken cancellationToken)
+    {
+        return await this.campaignRepository.FindById(campaignId, cancellationToken) is not null;
+    }
+}
@@ -4,10 +4,16 @@
 // </copyright>
 // -----------------------------------------------------------------------
 
+using System.Text.Json;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.SignalR;
 using OutreachGenie.Api.Domain.Entities;
+using OutreachGenie.Api.Domain.Models;
+using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Hubs;
 using OutreachGenie.Api.Infrastructure.Repositories;
 using OutreachGenie.Api.Models;
+using OutreachGenie.Api.Orchestrators.Models;
 
 namespace OutreachGenie.Api.Controllers;
 
@@ -18,7 +24,11 @@ namespace OutreachGenie.Api.Controllers;
 [Route("api/[controller]")]
 public sealed class CampaignsController : ControllerBase
 {
+    private const int MaxImportBatch = 100;
+
     private readonly ICampaignRepository campaignRepository;
+    private readonly IEventLog eventLog;
+    private readonly ISenderRoster roster;
     private readonly ILogger<CampaignsController> logger;
 
     /// <summary>
@@ -26,9 +36,13 @@ public sealed class CampaignsController : ControllerBase
     /// </summary>
     public CampaignsController(
         ICampaignRepository campaignRepository,
+        IEventLog eventLog,
+        ISenderRoster roster,
         ILogger<CampaignsController> logger)
     {
         this.campaignRepository = campaignRepository;
+        this.eventLog = eventLog;
+        this.roster = roster;
         this.logger = logger;
     }
 
@@ -38,20 +52,40 @@ public sealed class CampaignsController : ControllerBase
     [HttpPost]
     public async Task<ActionResult<CampaignDto>> CreateCampaign(
         [FromBody] CreateCampaignRequest request,
+        [FromServices] IHubContext<AgentHub> hub,
         CancellationToken cancellationToken)
     {
         ArgumentNullException.ThrowIfNull(request);
+        ArgumentNullException.ThrowIfNull(hub);
+
+        if (string.IsNullOrWhiteSpace(request.Name) || string.IsNullOrWhiteSpace(request.TargetAudience))
+        {
+            return this.BadRequest("Name and target audience are required.");
+        }
+
+        IReadOnlyList<Sender> known = await this.roster.Senders(cancellationToken);
+        (CampaignSenders? senders, string? error) = CampaignSendersDto.ToAssignment(request.SenderIds, request.Rotation, known);
+        if (senders is null)
+        {
+            return this.BadRequest(error);
+        }
 
         this.logger.LogInformation("Creating new campaign: {Name}", request.Name);
 
+        // The target audience describes the campaign, as the description the agent creates one with does
         Campaign campaign = new(
             Guid.NewGuid(),
-            request.Name,
+            request.Name.Trim(),
             CampaignPhase.Planning,
             DateTime.UtcNow,
-            "{}");
+            request.TargetAudience.Trim());
 
         await this.campaignRepository.Add(campaign, cancellationToken);
+        await this.roster.Assign(campaign.Id, senders, cancellationToken);
+        await hub.Clients.All.SendAsync(
+            nameof(CampaignStateChanged),
+            new CampaignStateChanged(campaign.Id, campaign.Phase.ToString(), campaign.CreatedAt),
+            cancellationToken);
 
         return this.CreatedAtAction(
             nameof(this.GetCampaign),
@@ -59,6 +93,29 @@ public sealed class CampaignsController : ControllerBase
             CampaignDto.FromEntity(campaign));
     }
 
+    /// <summary>
+    /// Deletes a campaign with its tasks, leads and artifacts, and frees its senders.
+    /// </summary>
+    [HttpDelete("{id}")]
+    public async Task<IActionResult> DeleteCampaign(
+        Guid id,
+        CancellationToken cancellationToken)
+    {
+        Campaign? campaign = await this.campaignRepository.FindById(id, cancellationToken);
+
+        if (campaign == null)
+        {
+            return this.NotFound();
+        }
+
+        await this.campaignRepository.Remove(campaign, cancellationToken);
+        await this.roster.Assign(id, CampaignSenders.None, cancellationToken);
+        await this.roster.Restrict(id, null, cancellationToken);
+        this.logger.LogInformation("Deleted campaign {CampaignId}", id);
+
+        return this.NoContent();
+    }
+
     /// <summary>
     /// Gets a campaign by ID.
     /// </summary>
@@ -107,6 +164,180 @@ public sealed class CampaignsController : ControllerBase
         };
     }
 
+    /// <summary>
+    /// Gets the agent's view of campaign progress, including the task it is working on.
+    /// </summary>
+    [HttpGet("{id}/state")]
+    public async Task<ActionResult<CampaignState>> GetCampaignState(
+        Guid id,
+        CancellationToken cancellationToken)
+    {
+        Campaign? campaign = await this.campaignRepository.LoadComplete(id, cancellationToken);
+
+        if (campaign == null)
+        {
+            return this.NotFound();
+        }
+
+        CampaignTask? current = campaign.Tasks
+            .Where(t => t.Status is not (Domain.Entities.TaskStatus.Completed or Domain.Entities.TaskStatus.Rejected))
+            .OrderBy(t => t.OrderIndex)
+            .FirstOrDefault();
+
+        return new CampaignState
+        {
+            CampaignId = campaign.Id,
+            Name = campaign.Name,
+            Phase = campaign.Phase.ToString(),
+            CompletedTasks = campaign.Tasks.Count(t => t.Status == Domain.Entities.TaskStatus.Completed),
+            TotalTasks = campaign.Tasks.Count,
+            CurrentTask = current == null
+                ? null
+                : new TaskState
+                {
+                    Id = current.Id,
+                    Title = current.Title,
+                    Description = current.Description,
+                    Status = current.Status.ToString(),
+                    OrderIndex = current.OrderIndex,
+                },
+            LeadsDiscovered = campaign.Leads.Count,
+            LeadsScored = campaign.Leads.Count(l => l.Score.HasValue),
+            LastUpdated = campaign.UpdatedAt,
+        };
+    }
+
+    /// <summary>
+    /// Gets the audit events of a campaign in chronological order.
+    /// </summary>
+    [HttpGet("{id}/events")]
+    public async Task<ActionResult<IEnumerable<EventDto>>> GetCampaignEvents(
+        Guid id,
+        CancellationToken cancellationToken)
+    {
+        if (await this.campaignRepository.FindById(id, cancellationToken) == null)
+        {
+            return this.NotFound();
+        }
+
+        IEnumerable<DomainEvent> events = await this.eventLog.GetEvents(id, cancellationToken);
+        return this.Ok(events.Select(EventDto.FromEntity));
+    }
+
+    /// <summary>
+    /// Gets the leads of a campaign.
+    /// </summary>
+    [HttpGet("{id}/leads")]
+    public async Task<ActionResult<IEnumerable<LeadDto>>> GetCampaignLeads(
+        Guid id,
+        CancellationToken cancellationToken)
+    {
+        Campaign? campaign = await this.campaignRepository.LoadComplete(id, cancellationToken);
+
+        if (campaign == null)
+        {
+            return this.NotFound();
+        }
+
+        IEnumerable<DomainEvent> progress = await this.eventLog.GetEvents(id, "LeadStageChangedEvent", cancellationToken);
+        IReadOnlyDictionary<Guid, LeadStage> reached = LeadDto.StagesReached(progress);
+        IReadOnlyDictionary<Guid, Guid> senders = LeadDto.SendersUsed(progress);
+
+        return this.Ok(campaign.Leads.Select(lead => LeadDto.FromEntity(lead, reached, senders)));
+    }
+
+    /// <summary>
+    /// Adds a batch of imported leads to a campaign. Leads sharing a profile URL, email, or name and company
+    /// with a lead of the campaign or an earlier one in the batch are skipped; only the added leads are returned.
+    /// </summary>
+    [HttpPost("{id}/leads")]
+    public async Task<ActionResult<IEnumerable<LeadDto>>> ImportLeads(
+        Guid id,
+        [FromBody] ImportLeadsRequest request,
+        [FromServices] IHubContext<AgentHub> hub,
+        CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(request);
+        ArgumentNullException.ThrowIfNull(hub);
+
+        if (request.Leads.Count == 0 || request.Leads.Count > MaxImportBatch)
+        {
+            return this.BadRequest($"A batch must contain between 1 and {MaxImportBatch} leads.");
+        }
+
+        if (string.IsNullOrWhiteSpace(request.Source))
+        {
+            return this.BadRequest("Source is required.");
+        }
+
+        Campaign? campaign = await this.campaignRepository.LoadComplete(id, cancellationToken);
+
+        if (campaign == null)
+        {
+            return this.NotFound();
+        }
+
+        // Skip anyone already in the campaign or earlier in the batch, so a retried batch adds nobody twice
+        HashSet<string> seen = campaign.Leads.SelectMany(lead => LeadIdentity.Of(lead.Data).Keys).ToHashSet(StringComparer.Ordinal);
+        DateTime now = DateTime.UtcNow;
+        List<Lead> leads = [];
+        foreach (Dictionary<string, string> fields in request.Leads)
+        {
+            IReadOnlyList<string> keys = LeadIdentity.Of(fields).Keys;
+            if (keys.Any(seen.Contains))
+            {
+                continue;
+            }
+
+            seen.UnionWith(keys);
+            leads.Add(new Lead(Guid.NewGuid(), id, request.Source, JsonSerializer.Serialize(fields), now));
+        }
+
+        this.logger.LogInformation(
+            "Importing {Count} leads into campaign {CampaignId}, skipping {Duplicates} duplicates",
+            leads.Count,
+            id,
+            request.Leads.Count - leads.Count);
+
+        if (leads.Count > 0)
+        {
+            leads.ForEach(campaign.Leads.Add);
+            await this.campaignRepository.Update(campaign, cancellationToken);
+            await this.eventLog.Append(new LeadsDiscoveredEvent(id, leads.Count, request.Source), EventActor.User, cancellationToken);
+            await hub.Clients.All.SendAsync(
+                nameof(CampaignStateChanged),
+                new CampaignStateChanged(id, campaign.Phase.ToString(), now),
+                cancellationToken);
+        }
+
+        Dictionary<Guid, LeadStage> fresh = [];
+        Dictionary<Guid, Guid> uncontacted = [];
+        return this.Ok(leads.Select(lead => LeadDto.FromEntity(lead, fresh, uncontacted)));
+    }
+
+    /// <summary>
+    /// Gets every score a lead received, oldest first.
+    /// </summary>
+    [HttpGet("{id}/leads/{leadId}/scores")]
+    public async Task<ActionResult<IEnumerable<LeadScoreDto>>> GetLeadScores(
+        Guid id,
+        Guid leadId,
+        CancellationToken cancellationToken)
+    {
+        if (await this.campaignRepository.FindById(id, cancellationToken) == null)
+        {
+            return this.NotFound();
+        }
+
+        IEnumerable<DomainEvent> scored = await this.eventLog.GetEvents(id, nameof(LeadScoredEvent), cancellationToken);
+
+        return this.Ok(scored
+            .Select(e => JsonSerializer.Deserialize<LeadScoredEvent>(e.Payload))
+            .OfType<LeadScoredEvent>()
+            .Where(e => e.LeadId == leadId)
+            .Select(LeadScoreDto.FromEvent));
+    }
+
     /// <summary>
     /// Gets all campaigns.
     /// </summary>
@@ -117,4 +348,3 @@ public sealed class CampaignsController : ControllerBase
         return this.Ok(campaigns.Select(CampaignDto.FromEntity));
     }
 }
-
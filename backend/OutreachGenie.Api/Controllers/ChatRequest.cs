@@ -16,5 +16,15 @@ public sealed class ChatRequest
     /// Gets or initializes the list of simple chat messages.
     /// </summary>
     public required List<SimpleChatMessage> Messages { get; init; }
+
+    /// <summary>
+    /// Gets or initializes the campaign the conversation belongs to, if any.
+    /// </summary>
+    public Guid? CampaignId { get; init; }
+
+    /// <summary>
+    /// Gets or initializes a value indicating whether the agent should only propose a plan, without executing anything.
+    /// </summary>
+    public bool PlanMode { get; init; }
 }
 
@@ -19,5 +19,7 @@ namespace OutreachGenie.Api.Controllers;
 /// <param name="Description">Task description.</param>
 /// <param name="OrderIndex">Task order index.</param>
 /// <param name="RequiresApproval">Whether task requires approval.</param>
-public record CreateTaskRequest(string Title, string Description, int? OrderIndex, bool? RequiresApproval);
+/// <param name="PlanId">Approved plan the task is a step of; the step is <paramref name="OrderIndex"/>.
+/// A step already created for the plan is returned instead of being created again.</param>
+public record CreateTaskRequest(string Title, string Description, int? OrderIndex, bool? RequiresApproval, Guid? PlanId = null);
 
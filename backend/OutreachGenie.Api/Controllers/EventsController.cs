@@ -0,0 +1,87 @@
+// -----------------------------------------------------------------------
+// <copyright file="EventsController.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using Microsoft.AspNetCore.Mvc;
+using OutreachGenie.Api.Domain.Entities;
+using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Models;
+
+namespace OutreachGenie.Api.Controllers;
+
+/// <summary>
+/// API controller for browsing the append-only audit log across campaigns.
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+public sealed class EventsController : ControllerBase
+{
+    private const int DefaultPageSize = 50;
+    private const int MaxPageSize = 200;
+
+    private readonly IEventLog eventLog;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="EventsController"/> class.
+    /// </summary>
+    public EventsController(IEventLog eventLog)
+    {
+        this.eventLog = eventLog;
+    }
+
+    /// <summary>
+    /// Gets one page of audit events, newest first.
+    /// </summary>
+    /// <param name="campaignId">Only events of this campaign.</param>
+    /// <param name="eventType">Only events of this type.</param>
+    /// <param name="actor">Only events caused by this actor (user, agent or system).</param>
+    /// <param name="from">Only events at or after this instant.</param>
+    /// <param name="to">Only events at or before this instant.</param>
+    /// <param name="cursor">Next-page cursor returned by the previous call.</param>
+    /// <param name="limit">Page size, capped at 200.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    [HttpGet]
+    public async Task<ActionResult<EventPageDto>> GetEvents(
+        [FromQuery] Guid? campaignId,
+        [FromQuery] string? eventType,
+        [FromQuery] string? actor,
+        [FromQuery] DateTime? from,
+        [FromQuery] DateTime? to,
+        [FromQuery] string? cursor,
+        [FromQuery] int limit = DefaultPageSize,
+        CancellationToken cancellationToken = default)
+    {
+        EventActor? who = null;
+        if (!string.IsNullOrEmpty(actor))
+        {
+            // TryParse also accepts numbers, so "7" would otherwise filter on an actor that does not exist
+            if (!Enum.TryParse(actor, ignoreCase: true, out EventActor parsed) || !Enum.IsDefined(parsed))
+            {
+                return this.BadRequest($"Unknown actor '{actor}'");
+            }
+
+            who = parsed;
+        }
+
+        EventCursor? after = null;
+        if (!string.IsNullOrEmpty(cursor) && !EventCursor.TryParse(cursor, out after))
+        {
+            return this.BadRequest($"Invalid cursor '{cursor}'");
+        }
+
+        int size = Math.Clamp(limit, 1, MaxPageSize);
+        var filter = new EventFilter(campaignId, eventType, who, from, to);
+
+        // One extra row tells whether an older page exists without a separate count query
+        IReadOnlyList<DomainEvent> events = await this.eventLog.Query(filter, after, size + 1, cancellationToken);
+        List<DomainEvent> page = events.Take(size).ToList();
+
+        return this.Ok(new EventPageDto
+        {
+            Items = page.Select(EventDto.FromEntity).ToList(),
+            NextCursor = events.Count > size ? new EventCursor(page[^1].Timestamp, page[^1].Id).ToString() : null,
+        });
+    }
+}
@@ -0,0 +1,242 @@
+// -----------------------------------------------------------------------
+// <copyright file="SendersController.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using Microsoft.AspNetCore.Mvc;
+using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Models;
+
+namespace OutreachGenie.Api.Controllers;
+
+/// <summary>
+/// API controller for the LinkedIn accounts outreach is sent from. A sender's cookie can be
+/// written and cleared, but every response only describes it; the value itself is never returned.
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+public sealed class SendersController : ControllerBase
+{
+    private const string VerificationUnavailable = "LinkedIn could not be reached to verify the cookie.";
+
+    private readonly ISenderRoster roster;
+    private readonly IVault vault;
+    private readonly ILinkedIn linkedIn;
+    private readonly ILogger<SendersController> logger;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="SendersController"/> class.
+    /// </summary>
+    public SendersController(ISenderRoster roster, IVault vault, ILinkedIn linkedIn, ILogger<SendersController> logger)
+    {
+        this.roster = roster;
+        this.vault = vault;
+        this.linkedIn = linkedIn;
+        this.logger = logger;
+    }
+
+    /// <summary>
+    /// Gets every sender with the status of its cookie.
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<SenderDto>>> GetSenders(CancellationToken cancellationToken)
+    {
+        List<SenderDto> senders = [];
+        foreach (Sender sender in await this.roster.Senders(cancellationToken))
+        {
+            senders.Add(SenderDto.FromSender(sender, await this.vault.Credential(sender.Id, cancellationToken)));
+        }
+
+        return senders;
+    }
+
+    /// <summary>
+    /// Adds a sender. Its cookie is stored separately.
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<SenderDto>> CreateSender(
+        [FromBody] SaveSenderRequest request,
+        CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(request);
+
+        (SendingLimits? limits, string? error) = Validate(request);
+        if (limits is null)
+        {
+            return this.BadRequest(error);
+        }
+
+        Sender sender = new(Guid.NewGuid(), request.Name.Trim(), request.AvatarUrl, limits, DateTime.UtcNow);
+        await this.roster.Save(sender, cancellationToken);
+        this.logger.LogInformation("Sender {SenderId} added", sender.Id);
+        return this.Ok(SenderDto.FromSender(sender, null));
+    }
+
+    /// <summary>
+    /// Edits a sender's name, avatar and sending limits.
+    /// </summary>
+    [HttpPut("{id}")]
+    public async Task<ActionResult<SenderDto>> UpdateSender(
+        Guid id,
+        [FromBody] SaveSenderRequest request,
+        CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(request);
+
+        (SendingLimits? limits, string? error) = Validate(request);
+        if (limits is null)
+        {
+            return this.BadRequest(error);
+        }
+
+        Sender? sender = await this.Find(id, cancellationToken);
+        if (sender is null)
+        {
+            return this.NotFound();
+        }
+
+        Sender edited = sender with { Name = request.Name.Trim(), AvatarUrl = request.AvatarUrl, Limits = limits };
+        await this.roster.Save(edited, cancellationToken);
+        return SenderDto.FromSender(edited, await this.vault.Credential(id, cancellationToken));
+    }
+
+    /// <summary>
+    /// Removes a sender, its cookie and its campaign assignments, and returns the removed sender.
+    /// </summary>
+    [HttpDelete("{id}")]
+    public async Task<ActionResult<SenderDto>> DeleteSender(Guid id, CancellationToken cancellationToken)
+    {
+        Sender? sender = await this.Find(id, cancellationToken);
+        if (sender is null)
+        {
+            return this.NotFound();
+        }
+
+        await this.roster.Remove(id, cancellationToken);
+        await this.vault.Clear(id, cancellationToken);
+        this.logger.LogInformation("Sender {SenderId} removed", id);
+        return SenderDto.FromSender(sender, null);
+    }
+
+    /// <summary>
+    /// Verifies a new LinkedIn cookie for a sender and, once LinkedIn accepts it, stores it in place of the previous one.
+    /// A cookie LinkedIn rejects, or cannot check right now, is not stored.
+    /// </summary>
+    [HttpPut("{id}/credential")]
+    public async Task<ActionResult<CredentialDto>> SaveCredential(
+        Guid id,
+        [FromBody] SaveCredentialRequest request,
+        CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(request);
+
+        string cookie = request.Cookie.Trim();
+        if (cookie.Length == 0 || cookie.Any(char.IsWhiteSpace))
+        {
+            return this.BadRequest("The cookie must be a single value without spaces.");
+        }
+
+        if (await this.Find(id, cancellationToken) is null)
+        {
+            return this.NotFound();
+        }
+
+        bool? accepted = await this.Check(id, cookie, cancellationToken);
+        if (accepted is not bool valid)
+        {
+            return this.StatusCode(StatusCodes.Status502BadGateway, VerificationUnavailable);
+        }
+
+        if (!valid)
+        {
+            return this.BadRequest("LinkedIn did not accept the cookie. Sign in again and copy a fresh li_at value.");
+        }
+
+        await this.vault.Store(id, cookie, request.ExpiresAt, cancellationToken);
+        await this.vault.Stamp(id, cookie, true, cancellationToken);
+        this.logger.LogInformation("LinkedIn cookie of sender {SenderId} replaced", id);
+        return CredentialDto.FromCredential(await this.vault.Credential(id, cancellationToken));
+    }
+
+    /// <summary>
+    /// Asks LinkedIn whether a sender's stored cookie still signs in.
+    /// </summary>
+    [HttpPost("{id}/credential/verify")]
+    public async Task<ActionResult<CredentialDto>> VerifyCredential(Guid id, CancellationToken cancellationToken)
+    {
+        Credential? credential = await this.vault.Credential(id, cancellationToken);
+        if (credential is null)
+        {
+            return this.NotFound();
+        }
+
+        bool? accepted = await this.Check(id, credential.Cookie, cancellationToken);
+        if (accepted is not bool valid)
+        {
+            return this.StatusCode(StatusCodes.Status502BadGateway, VerificationUnavailable);
+        }
+
+        await this.vault.Stamp(id, credential.Cookie, valid, cancellationToken);
+        return CredentialDto.FromCredential(await this.vault.Credential(id, cancellationToken));
+    }
+
+    /// <summary>
+    /// Removes a sender's stored LinkedIn cookie.
+    /// </summary>
+    [HttpDelete("{id}/credential")]
+    public async Task<ActionResult<CredentialDto>> ClearCredential(Guid id, CancellationToken cancellationToken)
+    {
+        if (await this.Find(id, cancellationToken) is null)
+        {
+            return this.NotFound();
+        }
+
+        await this.vault.Clear(id, cancellationToken);
+        this.logger.LogInformation("LinkedIn cookie of sender {SenderId} cleared", id);
+        return CredentialDto.FromCredential(null);
+    }
+
+    private static (SendingLimits? Limits, string? Error) Validate(SaveSenderRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name))
+        {
+            return (null, "Name is required.");
+        }
+
+        bool webAddress = Uri.TryCreate(request.AvatarUrl, UriKind.Absolute, out Uri? avatar)
+            && (avatar.Scheme == Uri.UriSchemeHttp || avatar.Scheme == Uri.UriSchemeHttps);
+        if (request.AvatarUrl is not null && !webAddress)
+        {
+            return (null, "The avatar must be an http or https URL.");
+        }
+
+        return request.Limits.ToLimits();
+    }
+
+    private async Task<Sender?> Find(Guid id, CancellationToken cancellationToken)
+    {
+        IReadOnlyList<Sender> senders = await this.roster.Senders(cancellationToken);
+        return senders.FirstOrDefault(s => s.Id == id);
+    }
+
+    // Whether LinkedIn accepts the cookie, or null when it failed or did not answer in time
+    private async Task<bool?> Check(Guid id, string cookie, CancellationToken cancellationToken)
+    {
+        try
+        {
+            return await this.linkedIn.Accepts(cookie, cancellationToken);
+        }
+        catch (HttpRequestException ex)
+        {
+            this.logger.LogWarning(ex, "LinkedIn cookie verification of sender {SenderId} failed with {Status}", id, ex.StatusCode);
+            return null;
+        }
+        catch (TaskCanceledException ex) when (!cancellationToken.IsCancellationRequested)
+        {
+            // HttpClient reports its own timeout as a cancellation the caller did not ask for
+            this.logger.LogWarning(ex, "LinkedIn cookie verification of sender {SenderId} timed out", id);
+            return null;
+        }
+    }
+}
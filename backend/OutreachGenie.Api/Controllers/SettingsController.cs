@@ -0,0 +1,59 @@
+// -----------------------------------------------------------------------
+// <copyright file="SettingsController.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using Microsoft.AspNetCore.Mvc;
+using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Models;
+
+namespace OutreachGenie.Api.Controllers;
+
+/// <summary>
+/// Controller for the user's settings.
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+public sealed class SettingsController : ControllerBase
+{
+    private readonly ISettingsStore store;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="SettingsController"/> class.
+    /// </summary>
+    public SettingsController(ISettingsStore store)
+    {
+        this.store = store;
+    }
+
+    /// <summary>
+    /// Gets the saved settings; 204 No Content until they are first saved, so the client's defaults apply.
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<SettingsDto>> GetSettings(CancellationToken cancellationToken)
+    {
+        UserSettings? settings = await this.store.Load(cancellationToken);
+        return settings is null ? this.NoContent() : this.Ok(SettingsDto.FromSettings(settings));
+    }
+
+    /// <summary>
+    /// Replaces the saved settings.
+    /// </summary>
+    [HttpPut]
+    public async Task<IActionResult> UpdateSettings(
+        [FromBody] SettingsDto request,
+        CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(request);
+
+        (UserSettings? settings, string? error) = request.ToSettings();
+        if (settings is null)
+        {
+            return this.BadRequest(error);
+        }
+
+        await this.store.Save(settings, cancellationToken);
+        return this.NoContent();
+    }
+}
@@ -0,0 +1,13 @@
+// -----------------------------------------------------------------------
+// <copyright file="TaskDecisionRequest.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Controllers;
+
+/// <summary>
+/// Request model for approving or rejecting a task.
+/// </summary>
+/// <param name="Comment">Note for the agent; optional to approve, required to reject.</param>
+public record TaskDecisionRequest(string? Comment);
@@ -30,6 +30,39 @@ public class TasksController : ControllerBase
         this.taskService = taskService;
     }
 
+    /// <summary>
+    /// Gets the tasks of a campaign in execution order.
+    /// </summary>
+    [HttpGet]
+    public async Task<IActionResult> GetTasks(Guid campaignId, CancellationToken cancellationToken)
+    {
+        Result<IReadOnlyList<CampaignTask>> result = await this.taskService.GetTasks(campaignId, cancellationToken);
+
+        if (!result.IsSuccess)
+        {
+            return NotFound(result.ErrorMessage);
+        }
+
+        return Ok(result.Value.Select(TaskDto.FromEntity));
+    }
+
+    /// <summary>
+    /// Gets the tasks of every campaign in a status, such as <c>?status=AwaitingApproval</c> for the approvals inbox.
+    /// </summary>
+    [HttpGet("/api/tasks")]
+    public async Task<IActionResult> GetTasksWithStatus(
+        [FromQuery] string? status,
+        CancellationToken cancellationToken)
+    {
+        if (!Enum.TryParse(status, ignoreCase: true, out Domain.Entities.TaskStatus wanted) || !Enum.IsDefined(wanted))
+        {
+            return BadRequest($"Unknown task status '{status}'");
+        }
+
+        IReadOnlyList<CampaignTask> tasks = await this.taskService.GetTasksWithStatus(wanted, cancellationToken);
+        return Ok(tasks.Select(TaskDto.FromEntity));
+    }
+
     /// <summary>
     /// Creates a new task for a campaign.
     /// </summary>
@@ -44,19 +77,102 @@ public class TasksController : ControllerBase
             return BadRequest("Request body is required");
         }
 
-        Result<CampaignTask> result = await this.taskService.CreateTask(
+        if (request.PlanId is not null && request.OrderIndex is null)
+        {
+            return BadRequest("OrderIndex is required for a plan step");
+        }
+
+        Result<CampaignTask> result = request.PlanId is Guid planId
+            ? await this.taskService.CreatePlanTask(
+                campaignId,
+                planId,
+                request.OrderIndex ?? 0,
+                request.Title,
+                request.Description,
+                request.RequiresApproval ?? false,
+                cancellationToken)
+            : await this.taskService.CreateTask(
+                campaignId,
+                request.Title,
+                request.Description,
+                request.RequiresApproval ?? false,
+                EventActor.User,
+                cancellationToken: cancellationToken);
+
+        if (!result.IsSuccess)
+        {
+            return NotFound(result.ErrorMessage);
+        }
+
+        return Ok(TaskDto.FromEntity(result.Value));
+    }
+
+    /// <summary>
+    /// Approves a task awaiting approval so the agent may run it.
+    /// </summary>
+    [HttpPost("{taskId}/approve")]
+    public async Task<IActionResult> ApproveTask(
+        Guid campaignId,
+        Guid taskId,
+        [FromBody] TaskDecisionRequest? request,
+        CancellationToken cancellationToken)
+    {
+        if (!await this.HasTask(campaignId, taskId, cancellationToken))
+        {
+            return NotFound($"Task {taskId} not found in campaign {campaignId}");
+        }
+
+        Result<CampaignTask> result = await this.taskService.ApproveTask(
             campaignId,
-            request.Title,
-            request.Description,
-            request.RequiresApproval ?? false,
+            taskId,
+            string.IsNullOrWhiteSpace(request?.Comment) ? null : request.Comment.Trim(),
             cancellationToken);
 
         if (!result.IsSuccess)
         {
-            return NotFound(result.ErrorMessage);
+            return Conflict(result.ErrorMessage);
         }
 
         return Ok(TaskDto.FromEntity(result.Value));
     }
-}
 
+    /// <summary>
+    /// Rejects a task awaiting approval. A comment is required so the agent knows what to change.
+    /// </summary>
+    [HttpPost("{taskId}/reject")]
+    public async Task<IActionResult> RejectTask(
+        Guid campaignId,
+        Guid taskId,
+        [FromBody] TaskDecisionRequest? request,
+        CancellationToken cancellationToken)
+    {
+        if (string.IsNullOrWhiteSpace(request?.Comment))
+        {
+            return BadRequest("A comment is required to reject a task");
+        }
+
+        if (!await this.HasTask(campaignId, taskId, cancellationToken))
+        {
+            return NotFound($"Task {taskId} not found in campaign {campaignId}");
+        }
+
+        Result<CampaignTask> result = await this.taskService.RejectTask(
+            campaignId,
+            taskId,
+            request.Comment.Trim(),
+            cancellationToken);
+
+        if (!result.IsSuccess)
+        {
+            return Conflict(result.ErrorMessage);
+        }
+
+        return Ok(TaskDto.FromEntity(result.Value));
+    }
+
+    private async Task<bool> HasTask(Guid campaignId, Guid taskId, CancellationToken cancellationToken)
+    {
+        Result<IReadOnlyList<CampaignTask>> tasks = await this.taskService.GetTasks(campaignId, cancellationToken);
+        return tasks.IsSuccess && tasks.Value.Any(t => t.Id == taskId);
+    }
+}
@@ -0,0 +1,32 @@
+// -----------------------------------------------------------------------
+// <copyright file="LeadStage.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Entities;
+
+/// <summary>
+/// Represents how far a lead has progressed through outreach.
+/// Stages are ordered; a lead at one stage has passed every earlier stage.
+/// </summary>
+public enum LeadStage
+{
+    /// <summary>Lead found by discovery.</summary>
+    Discovered,
+
+    /// <summary>Lead scored for fit and priority.</summary>
+    Scored,
+
+    /// <summary>Connection request sent.</summary>
+    ConnectionSent,
+
+    /// <summary>Connection request accepted.</summary>
+    Accepted,
+
+    /// <summary>Lead replied to a message.</summary>
+    Replied,
+
+    /// <summary>Meeting booked with the lead.</summary>
+    MeetingBooked,
+}
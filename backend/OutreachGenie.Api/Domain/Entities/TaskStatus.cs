@@ -14,6 +14,9 @@ public enum TaskStatus
     /// <summary>Task created but not started.</summary>
     Pending,
 
+    /// <summary>Task waits for a user to approve it before it may run.</summary>
+    AwaitingApproval,
+
     /// <summary>Task currently being executed.</summary>
     InProgress,
 
@@ -22,5 +25,8 @@ public enum TaskStatus
 
     /// <summary>Task blocked by dependencies.</summary>
     Blocked,
+
+    /// <summary>Task turned down by a user; it never runs.</summary>
+    Rejected,
 }
 
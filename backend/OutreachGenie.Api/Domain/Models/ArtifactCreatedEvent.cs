@@ -0,0 +1,31 @@
+// -----------------------------------------------------------------------
+// <copyright file="ArtifactCreatedEvent.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Abstractions;
+using OutreachGenie.Api.Domain.Entities;
+
+namespace OutreachGenie.Api.Domain.Models;
+
+/// <summary>
+/// Event logged when a new version of an artifact is stored.
+/// </summary>
+internal sealed record ArtifactCreatedEvent(
+    Guid ArtifactId,
+    Guid CampaignId,
+    string Type,
+    string Key,
+    int Version,
+    EventActor Source) : IDomainEvent
+{
+    /// <inheritdoc />
+    public Guid EventId { get; init; } = Guid.NewGuid();
+
+    /// <inheritdoc />
+    public DateTime Timestamp { get; init; } = DateTime.UtcNow;
+
+    /// <inheritdoc />
+    public string EventType => nameof(ArtifactCreatedEvent);
+}
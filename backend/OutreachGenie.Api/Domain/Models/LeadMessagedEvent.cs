@@ -0,0 +1,30 @@
+// -----------------------------------------------------------------------
+// <copyright file="LeadMessagedEvent.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Abstractions;
+
+namespace OutreachGenie.Api.Domain.Models;
+
+/// <summary>
+/// Event logged when a message is sent to a lead.
+/// </summary>
+/// <param name="LeadId">Lead identifier.</param>
+/// <param name="CampaignId">Campaign identifier.</param>
+/// <param name="SenderId">Sender the message went out from; null when the campaign has no senders assigned.</param>
+internal sealed record LeadMessagedEvent(
+    Guid LeadId,
+    Guid CampaignId,
+    Guid? SenderId) : IDomainEvent
+{
+    /// <inheritdoc />
+    public Guid EventId { get; init; } = Guid.NewGuid();
+
+    /// <inheritdoc />
+    public DateTime Timestamp { get; init; } = DateTime.UtcNow;
+
+    /// <inheritdoc />
+    public string EventType => nameof(LeadMessagedEvent);
+}
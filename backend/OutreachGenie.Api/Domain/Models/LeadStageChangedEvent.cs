@@ -0,0 +1,32 @@
+// -----------------------------------------------------------------------
+// <copyright file="LeadStageChangedEvent.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Abstractions;
+
+namespace OutreachGenie.Api.Domain.Models;
+
+/// <summary>
+/// Event logged when outreach moves a lead to a later stage.
+/// </summary>
+/// <param name="LeadId">Lead identifier.</param>
+/// <param name="CampaignId">Campaign identifier.</param>
+/// <param name="Stage">Name of the <see cref="Entities.LeadStage"/> reached.</param>
+/// <param name="SenderId">Sender the lead is contacted from; null when the campaign has no senders assigned.</param>
+internal sealed record LeadStageChangedEvent(
+    Guid LeadId,
+    Guid CampaignId,
+    string Stage,
+    Guid? SenderId = null) : IDomainEvent
+{
+    /// <inheritdoc />
+    public Guid EventId { get; init; } = Guid.NewGuid();
+
+    /// <inheritdoc />
+    public DateTime Timestamp { get; init; } = DateTime.UtcNow;
+
+    /// <inheritdoc />
+    public string EventType => nameof(LeadStageChangedEvent);
+}
@@ -0,0 +1,28 @@
+// -----------------------------------------------------------------------
+// <copyright file="TaskApprovedEvent.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Abstractions;
+
+namespace OutreachGenie.Api.Domain.Models;
+
+/// <summary>
+/// Event logged when a user approves a task, letting the agent run it.
+/// </summary>
+internal sealed record TaskApprovedEvent(
+    Guid TaskId,
+    Guid CampaignId,
+    string Title,
+    string? Comment) : IDomainEvent
+{
+    /// <inheritdoc />
+    public Guid EventId { get; init; } = Guid.NewGuid();
+
+    /// <inheritdoc />
+    public DateTime Timestamp { get; init; } = DateTime.UtcNow;
+
+    /// <inheritdoc />
+    public string EventType => nameof(TaskApprovedEvent);
+}
@@ -58,5 +58,15 @@ public sealed class TaskCreatedEvent : IDomainEvent
     /// Order index.
     /// </summary>
     public int OrderIndex { get; }
+
+    /// <summary>
+    /// Approved plan the task was created from, if any.
+    /// </summary>
+    public Guid? PlanId { get; init; }
+
+    /// <summary>
+    /// Position of the task in that plan.
+    /// </summary>
+    public int? PlanStep { get; init; }
 }
 
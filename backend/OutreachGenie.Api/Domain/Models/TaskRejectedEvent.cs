@@ -0,0 +1,28 @@
+// -----------------------------------------------------------------------
+// <copyright file="TaskRejectedEvent.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Abstractions;
+
+namespace OutreachGenie.Api.Domain.Models;
+
+/// <summary>
+/// Event logged when a user rejects a task; the comment tells the agent what to change.
+/// </summary>
+internal sealed record TaskRejectedEvent(
+    Guid TaskId,
+    Guid CampaignId,
+    string Title,
+    string Comment) : IDomainEvent
+{
+    /// <inheritdoc />
+    public Guid EventId { get; init; } = Guid.NewGuid();
+
+    /// <inheritdoc />
+    public DateTime Timestamp { get; init; } = DateTime.UtcNow;
+
+    /// <inheritdoc />
+    public string EventType => nameof(TaskRejectedEvent);
+}
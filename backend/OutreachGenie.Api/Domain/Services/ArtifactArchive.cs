@@ -0,0 +1,155 @@
+// -----------------------------------------------------------------------
+// <copyright file="ArtifactArchive.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Diagnostics.CodeAnalysis;
+using System.Text.Json;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using OutreachGenie.Api.Data;
+using OutreachGenie.Api.Domain.Entities;
+using OutreachGenie.Api.Domain.Models;
+using OutreachGenie.Api.Hubs;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Artifact versions kept as Artifacts rows, named "{type}/{key}", whose content is the file at their path.
+/// Who wrote each version is read from its ArtifactCreatedEvent; each new version is announced on the <see cref="AgentHub"/>.
+/// </summary>
+[SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated via dependency injection")]
+public sealed class ArtifactArchive : IArtifactArchive, IDisposable
+{
+    private const string MimeType = "text/plain";
+
+    private readonly IDbContextFactory<OutreachGenieDbContext> contextFactory;
+    private readonly IEventLog eventLog;
+    private readonly IHubContext<AgentHub> hub;
+    private readonly string directory;
+    private readonly SemaphoreSlim gate = new(1, 1);
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="ArtifactArchive"/> class.
+    /// </summary>
+    /// <param name="contextFactory">Factory of the database holding the Artifacts rows.</param>
+    /// <param name="eventLog">Event log the versions are recorded in.</param>
+    /// <param name="hub">Hub new versions are announced on.</param>
+    /// <param name="directory">Directory the content of new versions is written to, one subdirectory per campaign.</param>
+    public ArtifactArchive(
+        IDbContextFactory<OutreachGenieDbContext> contextFactory,
+        IEventLog eventLog,
+        IHubContext<AgentHub> hub,
+        string directory)
+    {
+        ArgumentNullException.ThrowIfNull(contextFactory);
+        ArgumentNullException.ThrowIfNull(eventLog);
+        ArgumentNullException.ThrowIfNull(hub);
+        this.contextFactory = contextFactory;
+        this.eventLog = eventLog;
+        this.hub = hub;
+        this.directory = directory;
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<ArtifactVersion>> Versions(Guid campaignId, string? type, CancellationToken cancellationToken)
+    {
+        await using OutreachGenieDbContext context = await this.contextFactory.CreateDbContextAsync(cancellationToken);
+        IQueryable<Artifact> rows = context.Artifacts.Where(a => a.CampaignId == campaignId && a.DeletedAt == null);
+        if (!string.IsNullOrEmpty(type))
+        {
+            string prefix = type + "/";
+            rows = rows.Where(a => a.FileName.StartsWith(prefix));
+        }
+
+        List<Artifact> artifacts = await rows.OrderBy(a => a.CreatedAt).ToListAsync(cancellationToken);
+        IReadOnlyDictionary<Guid, EventActor> sources = await this.Sources(campaignId, cancellationToken);
+
+        List<ArtifactVersion> versions = [];
+        foreach (Artifact artifact in artifacts)
+        {
+            // A file lost from the volume is skipped rather than failing the whole listing
+            if (!File.Exists(artifact.FilePath))
+            {
+                continue;
+            }
+
+            string[] name = artifact.FileName.Split('/', 2);
+            versions.Add(new ArtifactVersion(
+                artifact.Id,
+                artifact.CampaignId,
+                name[0],
+                name.Length > 1 ? name[1] : string.Empty,
+                await File.ReadAllTextAsync(artifact.FilePath, cancellationToken),
+                sources.TryGetValue(artifact.Id, out EventActor source) ? source : EventActor.Agent,
+                artifact.Version,
+                artifact.CreatedAt));
+        }
+
+        return versions;
+    }
+
+    /// <inheritdoc />
+    public async Task<ArtifactVersion> Save(
+        Guid campaignId,
+        string type,
+        string key,
+        string content,
+        EventActor source,
+        CancellationToken cancellationToken)
+    {
+        string name = $"{type}/{key}";
+
+        // Numbering and inserting under one lock so two saves of the same artifact get different versions
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            await using OutreachGenieDbContext context = await this.contextFactory.CreateDbContextAsync(cancellationToken);
+            int latest = await context.Artifacts
+                .Where(a => a.CampaignId == campaignId && a.FileName == name)
+                .Select(a => (int?)a.Version)
+                .MaxAsync(cancellationToken) ?? 0;
+
+            Guid id = Guid.NewGuid();
+            string campaignDirectory = Path.Combine(this.directory, campaignId.ToString());
+            string path = Path.Combine(campaignDirectory, id.ToString());
+            Directory.CreateDirectory(campaignDirectory);
+            await File.WriteAllTextAsync(path, content, cancellationToken);
+
+            Artifact artifact = new(id, campaignId, name, path, MimeType, latest + 1, DateTime.UtcNow);
+            context.Artifacts.Add(artifact);
+            await context.SaveChangesAsync(cancellationToken);
+
+            await this.eventLog.Append(
+                new ArtifactCreatedEvent(id, campaignId, type, key, artifact.Version, source),
+                source,
+                cancellationToken);
+            await this.hub.Clients.All.SendAsync(
+                nameof(ArtifactCreated),
+                new ArtifactCreated(type, key, campaignId, artifact.CreatedAt),
+                cancellationToken);
+
+            return new ArtifactVersion(id, campaignId, type, key, content, source, artifact.Version, artifact.CreatedAt);
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public void Dispose()
+    {
+        this.gate.Dispose();
+    }
+
+    private async Task<IReadOnlyDictionary<Guid, EventActor>> Sources(Guid campaignId, CancellationToken cancellationToken)
+    {
+        IEnumerable<DomainEvent> created = await this.eventLog.GetEvents(campaignId, nameof(ArtifactCreatedEvent), cancellationToken);
+        return created
+            .Select(e => JsonSerializer.Deserialize<ArtifactCreatedEvent>(e.Payload))
+            .OfType<ArtifactCreatedEvent>()
+            .ToDictionary(e => e.ArtifactId, e => e.Source);
+    }
+}
@@ -0,0 +1,30 @@
+// -----------------------------------------------------------------------
+// <copyright file="ArtifactVersion.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Entities;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// One stored version of a campaign artifact, such as the campaign plan or a message template.
+/// </summary>
+/// <param name="Id">Version identifier.</param>
+/// <param name="CampaignId">Campaign the artifact belongs to.</param>
+/// <param name="Type">Kind of artifact, such as "plan".</param>
+/// <param name="Key">Name of the artifact among those of its type.</param>
+/// <param name="Content">Text of this version.</param>
+/// <param name="Source">Who wrote this version.</param>
+/// <param name="Version">Version number, counting from 1 per type and key.</param>
+/// <param name="CreatedAt">When the version was stored.</param>
+public sealed record ArtifactVersion(
+    Guid Id,
+    Guid CampaignId,
+    string Type,
+    string Key,
+    string Content,
+    EventActor Source,
+    int Version,
+    DateTime CreatedAt);
@@ -0,0 +1,48 @@
+// -----------------------------------------------------------------------
+// <copyright file="CampaignSenders.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// The senders a campaign reaches out from, in order of preference.
+/// </summary>
+/// <param name="SenderIds">Assigned senders; empty when the campaign has none.</param>
+/// <param name="Rotation">How new leads are spread over the senders.</param>
+public sealed record CampaignSenders(IReadOnlyList<Guid> SenderIds, SenderRotation Rotation)
+{
+    /// <summary>
+    /// Assignment of a campaign no sender has been assigned to.
+    /// </summary>
+    public static CampaignSenders None { get; } = new([], SenderRotation.RoundRobin);
+
+    /// <summary>
+    /// Picks the sender for the next lead, skipping senders that were removed or may not send now.
+    /// </summary>
+    /// <param name="roster">Every configured sender.</param>
+    /// <param name="ready">Whether a sender's limits let it send a connection request now.</param>
+    /// <param name="previous">Sender of the campaign's last connection request, if any.</param>
+    /// <returns>The sender to use, or null when none of the assigned senders can send.</returns>
+    public Sender? Next(IEnumerable<Sender> roster, Func<Sender, bool> ready, Guid? previous)
+    {
+        ArgumentNullException.ThrowIfNull(roster);
+        ArgumentNullException.ThrowIfNull(ready);
+
+        Dictionary<Guid, Sender> known = roster.ToDictionary(s => s.Id);
+        List<Sender> assigned = this.SenderIds
+            .Where(known.ContainsKey)
+            .Select(id => known[id])
+            .ToList();
+
+        if (this.Rotation == SenderRotation.RoundRobin && previous is Guid last)
+        {
+            // Start the turn right after the sender that went last
+            int start = assigned.FindIndex(s => s.Id == last) + 1;
+            assigned = assigned.Skip(start).Concat(assigned.Take(start)).ToList();
+        }
+
+        return assigned.FirstOrDefault(ready);
+    }
+}
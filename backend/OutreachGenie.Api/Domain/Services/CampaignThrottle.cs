@@ -0,0 +1,115 @@
+// -----------------------------------------------------------------------
+// <copyright file="CampaignThrottle.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Everything a campaign's outreach has to get through: the campaign's own limits and those of
+/// every sender, each applied to what was sent recently.
+/// </summary>
+public sealed class CampaignThrottle
+{
+    private readonly CampaignSenders assignment;
+    private readonly IReadOnlyDictionary<Guid, Throttle> senders;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="CampaignThrottle"/> class.
+    /// </summary>
+    /// <param name="campaign">Throttle of the campaign's own limits.</param>
+    /// <param name="assignment">Senders assigned to the campaign.</param>
+    /// <param name="roster">Every configured sender.</param>
+    /// <param name="senders">Throttle of each sender's limits, by sender.</param>
+    public CampaignThrottle(
+        Throttle campaign,
+        CampaignSenders assignment,
+        IReadOnlyList<Sender> roster,
+        IReadOnlyDictionary<Guid, Throttle> senders)
+    {
+        ArgumentNullException.ThrowIfNull(campaign);
+        ArgumentNullException.ThrowIfNull(assignment);
+        ArgumentNullException.ThrowIfNull(roster);
+        ArgumentNullException.ThrowIfNull(senders);
+
+        this.Campaign = campaign;
+        this.assignment = assignment;
+        this.Roster = roster;
+        this.senders = senders;
+    }
+
+    /// <summary>
+    /// Gets the throttle of the campaign's own limits.
+    /// </summary>
+    public Throttle Campaign { get; }
+
+    /// <summary>
+    /// Gets every configured sender.
+    /// </summary>
+    public IReadOnlyList<Sender> Roster { get; }
+
+    /// <summary>
+    /// Gets the assigned senders that still exist, in order of preference.
+    /// </summary>
+    public IReadOnlyList<Sender> Assigned =>
+        this.assignment.SenderIds
+            .Select(id => this.Roster.FirstOrDefault(s => s.Id == id))
+            .OfType<Sender>()
+            .ToList();
+
+    /// <summary>
+    /// Gets the throttle of one sender's limits.
+    /// </summary>
+    public Throttle OfSender(Guid senderId)
+    {
+        return this.senders[senderId];
+    }
+
+    /// <summary>
+    /// Earliest instant an action of a kind may go out from a sender of this campaign.
+    /// </summary>
+    /// <param name="kind">Action to send.</param>
+    /// <param name="senderId">Sender it goes out from; null when the campaign sends without one.</param>
+    /// <param name="now">Current instant in UTC.</param>
+    /// <returns><paramref name="now"/> when it may go out right away, or null when the limits never allow it.</returns>
+    public DateTime? NextAllowed(OutreachKind kind, Guid? senderId, DateTime now)
+    {
+        return senderId is Guid id && this.senders.TryGetValue(id, out Throttle? sender)
+            ? Throttle.NextAllowed(kind, now, this.Campaign, sender)
+            : Throttle.NextAllowed(kind, now, this.Campaign);
+    }
+
+    /// <summary>
+    /// Picks the sender of the campaign's next connection request, or finds out when one may go out.
+    /// </summary>
+    /// <param name="now">Current instant in UTC.</param>
+    /// <param name="previous">Sender of the campaign's last connection request, if any.</param>
+    /// <returns>
+    /// The sender to use, null when the campaign has no senders or none may send yet, and when the request may go out:
+    /// <paramref name="now"/> when it may go out right away, or null when the limits never allow it.
+    /// </returns>
+    public (Sender? Sender, DateTime? At) NextConnection(DateTime now, Guid? previous)
+    {
+        IReadOnlyList<Sender> assigned = this.Assigned;
+        if (assigned.Count == 0)
+        {
+            return (null, this.NextAllowed(OutreachKind.ConnectionRequest, null, now));
+        }
+
+        Sender? ready = this.assignment.Next(
+            assigned,
+            s => this.NextAllowed(OutreachKind.ConnectionRequest, s.Id, now) == now,
+            previous);
+        if (ready is not null)
+        {
+            return (ready, now);
+        }
+
+        List<DateTime> later = assigned
+            .Select(s => this.NextAllowed(OutreachKind.ConnectionRequest, s.Id, now))
+            .OfType<DateTime>()
+            .ToList();
+        return (null, later.Count > 0 ? later.Min() : null);
+    }
+}
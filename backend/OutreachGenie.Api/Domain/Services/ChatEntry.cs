@@ -0,0 +1,16 @@
+// -----------------------------------------------------------------------
+// <copyright file="ChatEntry.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// One message of a persisted chat conversation.
+/// </summary>
+/// <param name="Id">Message identifier.</param>
+/// <param name="Role">"user" or "assistant".</param>
+/// <param name="Content">Message text.</param>
+/// <param name="Timestamp">When the message was sent or the answer finished.</param>
+public sealed record ChatEntry(Guid Id, string Role, string Content, DateTime Timestamp);
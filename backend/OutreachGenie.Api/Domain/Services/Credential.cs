@@ -0,0 +1,17 @@
+// -----------------------------------------------------------------------
+// <copyright file="Credential.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// A sender's stored LinkedIn session cookie and what is known about it.
+/// </summary>
+/// <param name="Cookie">The li_at cookie value. Never returned to clients.</param>
+/// <param name="SavedAt">When the cookie was stored.</param>
+/// <param name="ExpiresAt">Cookie expiry as reported by the browser, when the user supplied it.</param>
+/// <param name="VerifiedAt">When LinkedIn was last asked whether the cookie works.</param>
+/// <param name="Valid">Outcome of the last verification; null until the first one.</param>
+public sealed record Credential(string Cookie, DateTime SavedAt, DateTime? ExpiresAt, DateTime? VerifiedAt, bool? Valid);
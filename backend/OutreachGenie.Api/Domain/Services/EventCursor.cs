@@ -0,0 +1,52 @@
+// -----------------------------------------------------------------------
+// <copyright file="EventCursor.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Globalization;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Position in the audit log, newest first: the last event of a page. Events share timestamps,
+/// so the identifier breaks ties and no event is skipped or repeated between pages.
+/// </summary>
+/// <param name="Timestamp">Timestamp of the last event returned.</param>
+/// <param name="Id">Identifier of the last event returned.</param>
+public sealed record EventCursor(DateTime Timestamp, Guid Id)
+{
+    private const char Separator = '_';
+
+    /// <summary>
+    /// Reads a cursor written by <see cref="ToString"/>.
+    /// </summary>
+    /// <param name="value">Cursor text sent back by a client.</param>
+    /// <param name="cursor">The cursor, when the text is one.</param>
+    /// <returns>Whether the text is a cursor.</returns>
+    public static bool TryParse(string value, out EventCursor? cursor)
+    {
+        ArgumentNullException.ThrowIfNull(value);
+
+        cursor = null;
+        string[] parts = value.Split(Separator);
+        if (parts.Length != 2
+            || !long.TryParse(parts[0], NumberStyles.None, CultureInfo.InvariantCulture, out long ticks)
+            || ticks > DateTime.MaxValue.Ticks
+            || !Guid.TryParseExact(parts[1], "N", out Guid id))
+        {
+            return false;
+        }
+
+        cursor = new EventCursor(new DateTime(ticks, DateTimeKind.Utc), id);
+        return true;
+    }
+
+    /// <summary>
+    /// Opaque, URL-safe text of the cursor.
+    /// </summary>
+    public override string ToString()
+    {
+        return string.Create(CultureInfo.InvariantCulture, $"{this.Timestamp.Ticks}{Separator}{this.Id:N}");
+    }
+}
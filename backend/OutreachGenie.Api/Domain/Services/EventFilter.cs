@@ -0,0 +1,24 @@
+// -----------------------------------------------------------------------
+// <copyright file="EventFilter.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Entities;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Criteria for browsing the audit log. Null members match everything.
+/// </summary>
+/// <param name="CampaignId">Only events of this campaign.</param>
+/// <param name="EventType">Only events of this type.</param>
+/// <param name="Actor">Only events caused by this actor.</param>
+/// <param name="From">Only events at or after this instant.</param>
+/// <param name="To">Only events at or before this instant.</param>
+public sealed record EventFilter(
+    Guid? CampaignId,
+    string? EventType,
+    EventActor? Actor,
+    DateTime? From,
+    DateTime? To);
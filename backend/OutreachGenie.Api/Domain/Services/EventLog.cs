@@ -31,19 +31,20 @@ public sealed class EventLog : IEventLog
     }
 
     /// <inheritdoc />
-    public async Task Append(IDomainEvent domainEvent, CancellationToken cancellationToken = default)
+    public async Task Append(IDomainEvent domainEvent, EventActor actor, CancellationToken cancellationToken = default)
     {
         await using OutreachGenieDbContext context = await this.contextFactory.CreateDbContextAsync(cancellationToken);
         ArgumentNullException.ThrowIfNull(domainEvent);
 
-        string payload = JsonSerializer.Serialize(domainEvent);
+        // Serialize the concrete event so payload fields (scores, counts...) are kept, not just the interface members
+        string payload = JsonSerializer.Serialize(domainEvent, domainEvent.GetType());
 
         var eventEntity = new DomainEvent(
             domainEvent.EventId,
             domainEvent.EventType,
-            null, // Will be set from the actual event if it contains CampaignId
+            this.CampaignOf(payload),
             domainEvent.Timestamp,
-            EventActor.Agent,
+            actor,
             payload);
 
         await context.Events.AddAsync(eventEntity, cancellationToken);
@@ -59,5 +60,71 @@ public sealed class EventLog : IEventLog
             .OrderBy(e => e.Timestamp)
             .ToListAsync(cancellationToken);
     }
-}
 
+    /// <inheritdoc />
+    public async Task<IEnumerable<DomainEvent>> GetEvents(Guid campaignId, string eventType, CancellationToken cancellationToken = default)
+    {
+        await using OutreachGenieDbContext context = await this.contextFactory.CreateDbContextAsync(cancellationToken);
+        return await context.Events
+            .Where(e => e.CampaignId == campaignId && e.EventType == eventType)
+            .OrderBy(e => e.Timestamp)
+            .ToListAsync(cancellationToken);
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<DomainEvent>> Query(
+        EventFilter filter,
+        EventCursor? after,
+        int limit,
+        CancellationToken cancellationToken = default)
+    {
+        ArgumentNullException.ThrowIfNull(filter);
+        await using OutreachGenieDbContext context = await this.contextFactory.CreateDbContextAsync(cancellationToken);
+
+        IQueryable<DomainEvent> events = context.Events;
+        if (filter.CampaignId is Guid campaignId)
+        {
+            events = events.Where(e => e.CampaignId == campaignId);
+        }
+
+        if (!string.IsNullOrEmpty(filter.EventType))
+        {
+            events = events.Where(e => e.EventType == filter.EventType);
+        }
+
+        if (filter.Actor is EventActor actor)
+        {
+            events = events.Where(e => e.Actor == actor);
+        }
+
+        if (filter.From is DateTime from)
+        {
+            events = events.Where(e => e.Timestamp >= from);
+        }
+
+        if (filter.To is DateTime to)
+        {
+            events = events.Where(e => e.Timestamp <= to);
+        }
+
+        if (after is EventCursor cursor)
+        {
+            events = events.Where(e =>
+                e.Timestamp < cursor.Timestamp || (e.Timestamp == cursor.Timestamp && e.Id.CompareTo(cursor.Id) < 0));
+        }
+
+        return await events
+            .OrderByDescending(e => e.Timestamp)
+            .ThenByDescending(e => e.Id)
+            .Take(limit)
+            .ToListAsync(cancellationToken);
+    }
+
+    private Guid? CampaignOf(string payload)
+    {
+        using JsonDocument document = JsonDocument.Parse(payload);
+        return document.RootElement.TryGetProperty("CampaignId", out JsonElement campaign) && campaign.TryGetGuid(out Guid id)
+            ? id
+            : null;
+    }
+}
@@ -0,0 +1,88 @@
+// -----------------------------------------------------------------------
+// <copyright file="FileChatHistory.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Diagnostics.CodeAnalysis;
+using System.Text.Json;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Chat history kept as one JSON file per conversation in a directory.
+/// </summary>
+[SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated via dependency injection")]
+public sealed class FileChatHistory : IChatHistory, IDisposable
+{
+    private const string GeneralThread = "general";
+
+    private readonly string directory;
+    private readonly SemaphoreSlim gate = new(1, 1);
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="FileChatHistory"/> class.
+    /// </summary>
+    /// <param name="directory">Directory the conversations are written to.</param>
+    public FileChatHistory(string directory)
+    {
+        this.directory = directory;
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<ChatEntry>> Messages(Guid? campaignId, CancellationToken cancellationToken)
+    {
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            return await this.Read(this.PathOf(campaignId), cancellationToken);
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task Append(Guid? campaignId, ChatEntry message, CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(message);
+
+        // Read, append and write under one lock so two runs finishing together do not drop a message
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            string path = this.PathOf(campaignId);
+            List<ChatEntry> messages = await this.Read(path, cancellationToken);
+            messages.Add(message);
+            Directory.CreateDirectory(this.directory);
+            await File.WriteAllTextAsync(path, JsonSerializer.Serialize(messages), cancellationToken);
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public void Dispose()
+    {
+        this.gate.Dispose();
+    }
+
+    private string PathOf(Guid? campaignId)
+    {
+        return Path.Combine(this.directory, $"{campaignId?.ToString() ?? GeneralThread}.json");
+    }
+
+    private async Task<List<ChatEntry>> Read(string path, CancellationToken cancellationToken)
+    {
+        if (!File.Exists(path))
+        {
+            return [];
+        }
+
+        string json = await File.ReadAllTextAsync(path, cancellationToken);
+        return JsonSerializer.Deserialize<List<ChatEntry>>(json) ?? [];
+    }
+}
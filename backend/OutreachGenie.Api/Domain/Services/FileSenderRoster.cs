@@ -0,0 +1,174 @@
+// -----------------------------------------------------------------------
+// <copyright file="FileSenderRoster.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Diagnostics.CodeAnalysis;
+using System.Text.Json;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Sender roster kept in a JSON file. It holds no secrets; cookies live in the <see cref="IVault"/>.
+/// </summary>
+[SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated via dependency injection")]
+public sealed class FileSenderRoster : ISenderRoster, IDisposable
+{
+    private readonly string path;
+    private readonly SemaphoreSlim gate = new(1, 1);
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="FileSenderRoster"/> class.
+    /// </summary>
+    /// <param name="path">File the roster is written to.</param>
+    public FileSenderRoster(string path)
+    {
+        this.path = path;
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<Sender>> Senders(CancellationToken cancellationToken)
+    {
+        Roster roster = await this.Locked(r => r, cancellationToken);
+        return roster.Senders;
+    }
+
+    /// <inheritdoc />
+    public Task Save(Sender sender, CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(sender);
+
+        return this.Locked(
+            r =>
+            {
+                int index = r.Senders.FindIndex(s => s.Id == sender.Id);
+                if (index < 0)
+                {
+                    r.Senders.Add(sender);
+                }
+                else
+                {
+                    r.Senders[index] = sender;
+                }
+
+                return r;
+            },
+            cancellationToken,
+            write: true);
+    }
+
+    /// <inheritdoc />
+    public Task Remove(Guid senderId, CancellationToken cancellationToken)
+    {
+        return this.Locked(
+            r =>
+            {
+                r.Senders.RemoveAll(s => s.Id == senderId);
+                foreach ((Guid campaignId, CampaignSenders senders) in r.Campaigns.ToList())
+                {
+                    r.Campaigns[campaignId] = senders with { SenderIds = senders.SenderIds.Where(id => id != senderId).ToList() };
+                }
+
+                return r;
+            },
+            cancellationToken,
+            write: true);
+    }
+
+    /// <inheritdoc />
+    public async Task<CampaignSenders> Assignment(Guid campaignId, CancellationToken cancellationToken)
+    {
+        Roster roster = await this.Locked(r => r, cancellationToken);
+        return roster.Campaigns.GetValueOrDefault(campaignId) ?? CampaignSenders.None;
+    }
+
+    /// <inheritdoc />
+    public Task Assign(Guid campaignId, CampaignSenders senders, CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(senders);
+
+        return this.Locked(
+            r =>
+            {
+                r.Campaigns[campaignId] = senders;
+                return r;
+            },
+            cancellationToken,
+            write: true);
+    }
+
+    /// <inheritdoc />
+    public async Task<SendingLimits?> Limits(Guid campaignId, CancellationToken cancellationToken)
+    {
+        Roster roster = await this.Locked(r => r, cancellationToken);
+        return roster.Limits.GetValueOrDefault(campaignId);
+    }
+
+    /// <inheritdoc />
+    public Task Restrict(Guid campaignId, SendingLimits? limits, CancellationToken cancellationToken)
+    {
+        return this.Locked(
+            r =>
+            {
+                if (limits is null)
+                {
+                    r.Limits.Remove(campaignId);
+                }
+                else
+                {
+                    r.Limits[campaignId] = limits;
+                }
+
+                return r;
+            },
+            cancellationToken,
+            write: true);
+    }
+
+    /// <inheritdoc />
+    public void Dispose()
+    {
+        this.gate.Dispose();
+    }
+
+    // Every change reads, edits and writes the whole file under one lock, so concurrent edits are not lost
+    private async Task<Roster> Locked(Func<Roster, Roster> change, CancellationToken cancellationToken, bool write = false)
+    {
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            Roster roster = change(await this.Read(cancellationToken));
+            if (write)
+            {
+                await File.WriteAllTextAsync(this.path, JsonSerializer.Serialize(roster), cancellationToken);
+            }
+
+            return roster;
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    private async Task<Roster> Read(CancellationToken cancellationToken)
+    {
+        if (!File.Exists(this.path))
+        {
+            return new Roster();
+        }
+
+        string json = await File.ReadAllTextAsync(this.path, cancellationToken);
+        return JsonSerializer.Deserialize<Roster>(json) ?? new Roster();
+    }
+
+    private sealed class Roster
+    {
+        public List<Sender> Senders { get; init; } = [];
+
+        public Dictionary<Guid, CampaignSenders> Campaigns { get; init; } = [];
+
+        public Dictionary<Guid, SendingLimits> Limits { get; init; } = [];
+    }
+}
@@ -0,0 +1,71 @@
+// -----------------------------------------------------------------------
+// <copyright file="FileSettingsStore.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Diagnostics.CodeAnalysis;
+using System.Text.Json;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// User settings kept in a JSON file.
+/// </summary>
+[SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated via dependency injection")]
+public sealed class FileSettingsStore : ISettingsStore, IDisposable
+{
+    private readonly string path;
+    private readonly SemaphoreSlim gate = new(1, 1);
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="FileSettingsStore"/> class.
+    /// </summary>
+    /// <param name="path">File the settings are written to.</param>
+    public FileSettingsStore(string path)
+    {
+        this.path = path;
+    }
+
+    /// <inheritdoc />
+    public async Task<UserSettings?> Load(CancellationToken cancellationToken)
+    {
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            if (!File.Exists(this.path))
+            {
+                return null;
+            }
+
+            string json = await File.ReadAllTextAsync(this.path, cancellationToken);
+            return JsonSerializer.Deserialize<UserSettings>(json);
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task Save(UserSettings settings, CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(settings);
+
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            await File.WriteAllTextAsync(this.path, JsonSerializer.Serialize(settings), cancellationToken);
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public void Dispose()
+    {
+        this.gate.Dispose();
+    }
+}
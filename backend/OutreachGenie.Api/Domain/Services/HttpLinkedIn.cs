@@ -0,0 +1,53 @@
+// -----------------------------------------------------------------------
+// <copyright file="HttpLinkedIn.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Diagnostics.CodeAnalysis;
+using System.Net;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Checks a session cookie by requesting the signed-in member's own profile.
+/// The HTTP client must not follow redirects or manage cookies itself.
+/// </summary>
+[SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated via dependency injection")]
+public sealed class HttpLinkedIn : ILinkedIn
+{
+    // LinkedIn only checks that the CSRF header matches the JSESSIONID cookie
+    private const string CsrfToken = "ajax:0";
+
+    private static readonly Uri Profile = new("https://www.linkedin.com/voyager/api/me");
+
+    private readonly HttpClient client;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="HttpLinkedIn"/> class.
+    /// </summary>
+    public HttpLinkedIn(HttpClient client)
+    {
+        this.client = client;
+    }
+
+    /// <inheritdoc />
+    public async Task<bool> Accepts(string cookie, CancellationToken cancellationToken)
+    {
+        using HttpRequestMessage request = new(HttpMethod.Get, Profile);
+        request.Headers.Add("Cookie", $"li_at={cookie}; JSESSIONID=\"{CsrfToken}\"");
+        request.Headers.Add("csrf-token", CsrfToken);
+
+        using HttpResponseMessage response = await this.client.SendAsync(request, cancellationToken);
+
+        // Signed-out sessions are answered with a redirect to the login page or an auth error
+        if (response.StatusCode is HttpStatusCode.Unauthorized or HttpStatusCode.Forbidden
+            || (int)response.StatusCode is >= 300 and < 400)
+        {
+            return false;
+        }
+
+        response.EnsureSuccessStatusCode();
+        return true;
+    }
+}
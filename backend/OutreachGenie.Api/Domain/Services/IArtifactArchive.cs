@@ -0,0 +1,41 @@
+// -----------------------------------------------------------------------
+// <copyright file="IArtifactArchive.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Entities;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Every version of the artifacts written for campaigns.
+/// </summary>
+public interface IArtifactArchive
+{
+    /// <summary>
+    /// Stored versions of a campaign's artifacts, oldest first.
+    /// </summary>
+    /// <param name="campaignId">Campaign the artifacts belong to.</param>
+    /// <param name="type">Only artifacts of this type; null for all of them.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    Task<IReadOnlyList<ArtifactVersion>> Versions(Guid campaignId, string? type, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Stores the next version of a campaign artifact.
+    /// </summary>
+    /// <param name="campaignId">Campaign the artifact belongs to.</param>
+    /// <param name="type">Kind of artifact.</param>
+    /// <param name="key">Name of the artifact within its type.</param>
+    /// <param name="content">Content of the new version.</param>
+    /// <param name="source">Who wrote it.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>The stored version, numbered one past the latest of the same type and key.</returns>
+    Task<ArtifactVersion> Save(
+        Guid campaignId,
+        string type,
+        string key,
+        string content,
+        EventActor source,
+        CancellationToken cancellationToken);
+}
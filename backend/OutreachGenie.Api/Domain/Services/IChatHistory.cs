@@ -0,0 +1,28 @@
+// -----------------------------------------------------------------------
+// <copyright file="IChatHistory.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// The chat conversations with the agent, one per campaign plus one that belongs to no campaign.
+/// </summary>
+public interface IChatHistory
+{
+    /// <summary>
+    /// Every message of a conversation, oldest first.
+    /// </summary>
+    /// <param name="campaignId">Campaign of the conversation; null for the general one.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    Task<IReadOnlyList<ChatEntry>> Messages(Guid? campaignId, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Adds a message to the end of a conversation.
+    /// </summary>
+    /// <param name="campaignId">Campaign of the conversation; null for the general one.</param>
+    /// <param name="message">The message.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    Task Append(Guid? campaignId, ChatEntry message, CancellationToken cancellationToken);
+}
@@ -17,11 +17,31 @@ public interface IEventLog
     /// <summary>
     /// Appends an event to the log.
     /// </summary>
-    Task Append(IDomainEvent domainEvent, CancellationToken cancellationToken = default);
+    /// <param name="domainEvent">The event.</param>
+    /// <param name="actor">Who caused it.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    Task Append(IDomainEvent domainEvent, EventActor actor, CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Retrieves events for a campaign.
     /// </summary>
     Task<IEnumerable<DomainEvent>> GetEvents(Guid campaignId, CancellationToken cancellationToken = default);
-}
 
+    /// <summary>
+    /// Retrieves events of one type for a campaign.
+    /// </summary>
+    Task<IEnumerable<DomainEvent>> GetEvents(Guid campaignId, string eventType, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Retrieves one page of matching events, newest first.
+    /// </summary>
+    /// <param name="filter">Criteria events must match.</param>
+    /// <param name="after">Only events after this position, newest first; null for the first page.</param>
+    /// <param name="limit">Maximum number of events returned.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    Task<IReadOnlyList<DomainEvent>> Query(
+        EventFilter filter,
+        EventCursor? after,
+        int limit,
+        CancellationToken cancellationToken = default);
+}
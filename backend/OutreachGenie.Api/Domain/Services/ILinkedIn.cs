@@ -0,0 +1,20 @@
+// -----------------------------------------------------------------------
+// <copyright file="ILinkedIn.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// LinkedIn as seen through a member's session cookie.
+/// </summary>
+public interface ILinkedIn
+{
+    /// <summary>
+    /// Whether LinkedIn accepts the cookie as a signed-in session.
+    /// Throws <see cref="HttpRequestException"/> when LinkedIn cannot be reached or fails, and
+    /// <see cref="TaskCanceledException"/> when it does not answer within the client's timeout.
+    /// </summary>
+    Task<bool> Accepts(string cookie, CancellationToken cancellationToken);
+}
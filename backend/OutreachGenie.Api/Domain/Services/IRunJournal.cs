@@ -0,0 +1,45 @@
+// -----------------------------------------------------------------------
+// <copyright file="IRunJournal.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Buffers the events of agent runs so a client that lost its connection can resume
+/// from the last event it received instead of losing the rest of the run.
+/// </summary>
+public interface IRunJournal
+{
+    /// <summary>
+    /// Registers a new run and returns the token that cancels it.
+    /// </summary>
+    CancellationToken Open(Guid run);
+
+    /// <summary>
+    /// Appends an event to a run.
+    /// </summary>
+    void Append(Guid run, string name, string payload);
+
+    /// <summary>
+    /// Marks a run as finished; no further events will be appended.
+    /// </summary>
+    void Close(Guid run);
+
+    /// <summary>
+    /// Cancels a run that is still executing.
+    /// </summary>
+    /// <returns>False when the run is unknown.</returns>
+    bool Cancel(Guid run);
+
+    /// <summary>
+    /// Checks whether the run is known to the journal.
+    /// </summary>
+    bool Contains(Guid run);
+
+    /// <summary>
+    /// Delivers every event after <paramref name="after"/> and then follows the run live until it closes.
+    /// </summary>
+    Task Replay(Guid run, long after, Func<RunEntry, Task> sink, CancellationToken cancellationToken);
+}
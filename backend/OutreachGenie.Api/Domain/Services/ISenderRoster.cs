@@ -0,0 +1,49 @@
+// -----------------------------------------------------------------------
+// <copyright file="ISenderRoster.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// The LinkedIn accounts outreach is sent from, the campaigns each one is assigned to and the
+/// sending limits of each campaign.
+/// </summary>
+public interface ISenderRoster
+{
+    /// <summary>
+    /// Every configured sender, in the order they were added.
+    /// </summary>
+    Task<IReadOnlyList<Sender>> Senders(CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Adds a sender, or replaces the one with the same identifier.
+    /// </summary>
+    Task Save(Sender sender, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Removes a sender and unassigns it from every campaign.
+    /// </summary>
+    Task Remove(Guid senderId, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// The senders assigned to a campaign; <see cref="CampaignSenders.None"/> when there are none.
+    /// </summary>
+    Task<CampaignSenders> Assignment(Guid campaignId, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Replaces the senders assigned to a campaign.
+    /// </summary>
+    Task Assign(Guid campaignId, CampaignSenders senders, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// The sending limits of a campaign on top of its senders' own; null when only the senders' apply.
+    /// </summary>
+    Task<SendingLimits?> Limits(Guid campaignId, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Replaces the sending limits of a campaign; null removes them.
+    /// </summary>
+    Task Restrict(Guid campaignId, SendingLimits? limits, CancellationToken cancellationToken);
+}
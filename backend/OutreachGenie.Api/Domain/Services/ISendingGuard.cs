@@ -0,0 +1,24 @@
+// -----------------------------------------------------------------------
+// <copyright file="ISendingGuard.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Works out what the sending limits allow from the outreach recorded in the event log.
+/// </summary>
+public interface ISendingGuard
+{
+    /// <summary>
+    /// Loads the limits of a campaign and of every sender, applied to what was sent recently.
+    /// </summary>
+    Task<CampaignThrottle> Throttle(Guid campaignId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Checks the limits and records outreach one call at a time across every campaign,
+    /// since senders and their limits are shared between campaigns.
+    /// </summary>
+    Task<T> Exclusively<T>(Func<Task<T>> record, CancellationToken cancellationToken = default);
+}
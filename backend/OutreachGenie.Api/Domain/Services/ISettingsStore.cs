@@ -0,0 +1,23 @@
+// -----------------------------------------------------------------------
+// <copyright file="ISettingsStore.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Where the user's settings are kept.
+/// </summary>
+public interface ISettingsStore
+{
+    /// <summary>
+    /// The saved settings; null until they are first saved.
+    /// </summary>
+    Task<UserSettings?> Load(CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Replaces the saved settings.
+    /// </summary>
+    Task Save(UserSettings settings, CancellationToken cancellationToken);
+}
@@ -15,30 +15,73 @@ namespace OutreachGenie.Api.Domain.Services;
 public interface ITaskService
 {
     /// <summary>
-    /// Gets the next required task for a campaign.
+    /// Gets the next required task for a campaign. Completed and rejected tasks are skipped.
     /// </summary>
     Task<CampaignTask?> NextRequiredTask(Guid campaignId, CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Creates a new task for a campaign.
+    /// Gets every task of a campaign in execution order.
+    /// </summary>
+    Task<Result<IReadOnlyList<CampaignTask>>> GetTasks(Guid campaignId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Gets the tasks of every campaign that are in a status, such as the ones awaiting approval.
+    /// </summary>
+    Task<IReadOnlyList<CampaignTask>> GetTasksWithStatus(Domain.Entities.TaskStatus status, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Creates a new task for a campaign on behalf of the agent or a user.
     /// </summary>
     Task<Result<CampaignTask>> CreateTask(
         Guid campaignId,
         string title,
         string description,
         bool requiresApproval,
+        EventActor createdBy,
         bool requiresPreviousTask = true,
         CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Marks a task as completed.
+    /// Creates the task at one step of a user's approved plan, unless that step was created already.
+    /// Retrying an approval that failed partway therefore only creates the steps that are still missing.
+    /// </summary>
+    /// <returns>The new task, or the one created for the step before.</returns>
+    Task<Result<CampaignTask>> CreatePlanTask(
+        Guid campaignId,
+        Guid planId,
+        int step,
+        string title,
+        string description,
+        bool requiresApproval,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Approves a task awaiting approval so the agent may run it.
+    /// </summary>
+    Task<Result<CampaignTask>> ApproveTask(
+        Guid campaignId,
+        Guid taskId,
+        string? comment,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Rejects a task awaiting approval; it is never run and no longer holds back the tasks after it.
+    /// </summary>
+    Task<Result<CampaignTask>> RejectTask(
+        Guid campaignId,
+        Guid taskId,
+        string comment,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Marks a task as completed once every earlier task is completed or rejected.
     /// </summary>
     Task<Result<CampaignTask>> CompleteTask(
         Guid taskId,
         CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Gets incomplete tasks for a campaign phase.
+    /// Gets the tasks of a campaign phase that are still to run, neither completed nor rejected.
     /// </summary>
     Task<IEnumerable<CampaignTask>> GetIncompleteTasks(
         Guid campaignId,
@@ -0,0 +1,34 @@
+// -----------------------------------------------------------------------
+// <copyright file="IVault.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Keeps each sender's LinkedIn session cookie encrypted at rest. A cookie goes in once and is
+/// only read back by the services that call LinkedIn, never by the API.
+/// </summary>
+public interface IVault
+{
+    /// <summary>
+    /// Stores a new cookie for a sender, replacing any previous one and its verification.
+    /// </summary>
+    Task Store(Guid senderId, string cookie, DateTime? expiresAt, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// The credential stored for a sender, or null when none is configured.
+    /// </summary>
+    Task<Credential?> Credential(Guid senderId, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Records the outcome of verifying a cookie; ignored when the cookie has been replaced or cleared since.
+    /// </summary>
+    Task Stamp(Guid senderId, string cookie, bool valid, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Removes the cookie stored for a sender.
+    /// </summary>
+    Task Clear(Guid senderId, CancellationToken cancellationToken);
+}
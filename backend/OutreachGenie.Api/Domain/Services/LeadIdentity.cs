@@ -0,0 +1,94 @@
+// -----------------------------------------------------------------------
+// <copyright file="LeadIdentity.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Text.Json;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// The keys two records of the same person share: profile URL, email, or name plus company.
+/// Leads sharing any key are duplicates.
+/// </summary>
+/// <param name="Keys">Identity keys, empty when the lead data names none of the fields.</param>
+public sealed record LeadIdentity(IReadOnlyList<string> Keys)
+{
+    private static readonly string[] NameFields = ["name", "fullName", "full_name"];
+
+    /// <summary>
+    /// Reads the identity of a stored lead from its JSON data; data that is not a JSON object has no keys.
+    /// </summary>
+    public static LeadIdentity Of(string data)
+    {
+        Dictionary<string, JsonElement>? parsed;
+        try
+        {
+            parsed = JsonSerializer.Deserialize<Dictionary<string, JsonElement>>(data);
+        }
+        catch (JsonException)
+        {
+            return new LeadIdentity([]);
+        }
+
+        return Of((parsed ?? [])
+            .Where(field => field.Value.ValueKind is JsonValueKind.String or JsonValueKind.Number)
+            .Select(field => KeyValuePair.Create(field.Key, field.Value.ToString())));
+    }
+
+    /// <summary>
+    /// Reads the identity of a lead from its fields, matching field names regardless of casing.
+    /// </summary>
+    public static LeadIdentity Of(IEnumerable<KeyValuePair<string, string>> fields)
+    {
+        Dictionary<string, string> byName = new(StringComparer.OrdinalIgnoreCase);
+        foreach ((string name, string value) in fields)
+        {
+            if (!string.IsNullOrWhiteSpace(value))
+            {
+                byName.TryAdd(name, value.Trim());
+            }
+        }
+
+        List<string> keys = [];
+        if (byName.TryGetValue("profileUrl", out string? url) || byName.TryGetValue("linkedinUrl", out url))
+        {
+            keys.Add($"url:{Normalize(url)}");
+        }
+
+        if (byName.TryGetValue("email", out string? email))
+        {
+            keys.Add($"email:{email.ToUpperInvariant()}");
+        }
+
+        string person = NameFields.Select(field => byName.GetValueOrDefault(field)).FirstOrDefault(name => name is not null)
+            ?? string.Join(' ', new[] { byName.GetValueOrDefault("firstName"), byName.GetValueOrDefault("lastName") }.OfType<string>());
+        if (person.Length > 0 && byName.TryGetValue("company", out string? company))
+        {
+            keys.Add($"person:{person.ToUpperInvariant()}|{company.ToUpperInvariant()}");
+        }
+
+        return new LeadIdentity(keys);
+    }
+
+    private static string Normalize(string url)
+    {
+        string normalized = url.ToUpperInvariant();
+        int query = normalized.IndexOfAny(['?', '#']);
+        if (query >= 0)
+        {
+            normalized = normalized[..query];
+        }
+
+        foreach (string prefix in new[] { "HTTPS://", "HTTP://", "WWW." })
+        {
+            if (normalized.StartsWith(prefix, StringComparison.Ordinal))
+            {
+                normalized = normalized[prefix.Length..];
+            }
+        }
+
+        return normalized.TrimEnd('/');
+    }
+}
@@ -0,0 +1,56 @@
+// -----------------------------------------------------------------------
+// <copyright file="OutreachAction.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Text.Json;
+using OutreachGenie.Api.Domain.Entities;
+using OutreachGenie.Api.Domain.Models;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// A connection request or message that went out, as recorded in the event log.
+/// </summary>
+/// <param name="CampaignId">Campaign the action belongs to.</param>
+/// <param name="SenderId">Sender it went out from; null when the campaign had no senders assigned.</param>
+/// <param name="Kind">Whether it was a connection request or a message.</param>
+/// <param name="At">When it went out.</param>
+public sealed record OutreachAction(Guid CampaignId, Guid? SenderId, OutreachKind Kind, DateTime At)
+{
+    /// <summary>
+    /// Reads the actions among LeadStageChangedEvent and LeadMessagedEvent entries. Later stages are
+    /// what a lead did, not something sent, so only ConnectionSent changes count.
+    /// </summary>
+    public static IReadOnlyList<OutreachAction> Read(IEnumerable<DomainEvent> events)
+    {
+        ArgumentNullException.ThrowIfNull(events);
+
+        List<OutreachAction> actions = [];
+        foreach (DomainEvent entry in events)
+        {
+            if (entry.CampaignId is not Guid campaignId)
+            {
+                continue;
+            }
+
+            using JsonDocument document = JsonDocument.Parse(entry.Payload);
+            JsonElement root = document.RootElement;
+            Guid? senderId = root.TryGetProperty("SenderId", out JsonElement sender) && sender.ValueKind == JsonValueKind.String
+                ? sender.GetGuid()
+                : null;
+
+            if (entry.EventType == nameof(LeadMessagedEvent))
+            {
+                actions.Add(new OutreachAction(campaignId, senderId, OutreachKind.Message, entry.Timestamp));
+            }
+            else if (root.TryGetProperty("Stage", out JsonElement stage) && stage.GetString() == nameof(LeadStage.ConnectionSent))
+            {
+                actions.Add(new OutreachAction(campaignId, senderId, OutreachKind.ConnectionRequest, entry.Timestamp));
+            }
+        }
+
+        return actions;
+    }
+}
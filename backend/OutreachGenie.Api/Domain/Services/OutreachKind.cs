@@ -0,0 +1,23 @@
+// -----------------------------------------------------------------------
+// <copyright file="OutreachKind.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// The actions on LinkedIn that sending limits count.
+/// </summary>
+public enum OutreachKind
+{
+    /// <summary>
+    /// A connection request to a lead.
+    /// </summary>
+    ConnectionRequest,
+
+    /// <summary>
+    /// A message to a connected lead.
+    /// </summary>
+    Message,
+}
@@ -0,0 +1,44 @@
+// -----------------------------------------------------------------------
+// <copyright file="OutreachStep.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Text.Json;
+using OutreachGenie.Api.Domain.Entities;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// A lead stage change made from a sender, as recorded by a LeadStageChangedEvent.
+/// </summary>
+/// <param name="LeadId">Lead identifier.</param>
+/// <param name="Stage">Stage reached.</param>
+/// <param name="SenderId">Sender the lead was contacted from.</param>
+public sealed record OutreachStep(Guid LeadId, LeadStage Stage, Guid SenderId)
+{
+    /// <summary>
+    /// Reads the steps of LeadStageChangedEvent entries in their order, skipping changes made without a sender.
+    /// </summary>
+    public static IReadOnlyList<OutreachStep> Read(IEnumerable<DomainEvent> changes)
+    {
+        ArgumentNullException.ThrowIfNull(changes);
+
+        List<OutreachStep> steps = [];
+        foreach (DomainEvent change in changes)
+        {
+            using JsonDocument document = JsonDocument.Parse(change.Payload);
+            JsonElement root = document.RootElement;
+            if (root.TryGetProperty("SenderId", out JsonElement sender)
+                && sender.ValueKind == JsonValueKind.String
+                && sender.TryGetGuid(out Guid senderId)
+                && root.GetProperty("LeadId").TryGetGuid(out Guid leadId)
+                && Enum.TryParse(root.GetProperty("Stage").GetString(), out LeadStage stage))
+            {
+                steps.Add(new OutreachStep(leadId, stage, senderId));
+            }
+        }
+
+        return steps;
+    }
+}
@@ -0,0 +1,134 @@
+// -----------------------------------------------------------------------
+// <copyright file="ProtectedVault.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Diagnostics.CodeAnalysis;
+using System.Security.Cryptography;
+using System.Text.Json;
+using Microsoft.AspNetCore.DataProtection;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Vault backed by a single file, holding every sender's credential, encrypted with ASP.NET Core data protection.
+/// </summary>
+[SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated via dependency injection")]
+public sealed class ProtectedVault : IVault, IDisposable
+{
+    private readonly IDataProtector protector;
+    private readonly string path;
+    private readonly SemaphoreSlim gate = new(1, 1);
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="ProtectedVault"/> class.
+    /// </summary>
+    /// <param name="protector">Protector dedicated to the LinkedIn credentials.</param>
+    /// <param name="path">File the encrypted credentials are written to.</param>
+    public ProtectedVault(IDataProtector protector, string path)
+    {
+        this.protector = protector;
+        this.path = path;
+    }
+
+    /// <inheritdoc />
+    public async Task Store(Guid senderId, string cookie, DateTime? expiresAt, CancellationToken cancellationToken)
+    {
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            Dictionary<Guid, Credential> credentials = await this.Read(cancellationToken);
+            credentials[senderId] = new Credential(cookie, DateTime.UtcNow, expiresAt, null, null);
+            await this.Write(credentials, cancellationToken);
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task<Credential?> Credential(Guid senderId, CancellationToken cancellationToken)
+    {
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            return (await this.Read(cancellationToken)).GetValueOrDefault(senderId);
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task Stamp(Guid senderId, string cookie, bool valid, CancellationToken cancellationToken)
+    {
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            // Read and write under one lock, so a cookie stored meanwhile is not stamped with the old result
+            Dictionary<Guid, Credential> credentials = await this.Read(cancellationToken);
+            if (credentials.TryGetValue(senderId, out Credential? credential) && credential.Cookie == cookie)
+            {
+                credentials[senderId] = credential with { VerifiedAt = DateTime.UtcNow, Valid = valid };
+                await this.Write(credentials, cancellationToken);
+            }
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task Clear(Guid senderId, CancellationToken cancellationToken)
+    {
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            Dictionary<Guid, Credential> credentials = await this.Read(cancellationToken);
+            if (credentials.Remove(senderId))
+            {
+                await this.Write(credentials, cancellationToken);
+            }
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public void Dispose()
+    {
+        this.gate.Dispose();
+    }
+
+    private async Task<Dictionary<Guid, Credential>> Read(CancellationToken cancellationToken)
+    {
+        if (!File.Exists(this.path))
+        {
+            return [];
+        }
+
+        string sealedText = await File.ReadAllTextAsync(this.path, cancellationToken);
+        try
+        {
+            return JsonSerializer.Deserialize<Dictionary<Guid, Credential>>(this.protector.Unprotect(sealedText)) ?? [];
+        }
+        catch (CryptographicException)
+        {
+            // Sealed with keys this instance no longer has, e.g. after a redeploy lost them:
+            // the cookies cannot be read, so every sender needs its cookie entered again
+            return [];
+        }
+    }
+
+    private async Task Write(Dictionary<Guid, Credential> credentials, CancellationToken cancellationToken)
+    {
+        string sealedText = this.protector.Protect(JsonSerializer.Serialize(credentials));
+        await File.WriteAllTextAsync(this.path, sealedText, cancellationToken);
+    }
+}
@@ -0,0 +1,15 @@
+// -----------------------------------------------------------------------
+// <copyright file="RunEntry.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// One streamed event of an agent run.
+/// </summary>
+/// <param name="Sequence">Position in the run, starting at 1. Sent to clients as the SSE event id.</param>
+/// <param name="Name">SSE event name.</param>
+/// <param name="Payload">Serialized JSON payload.</param>
+public sealed record RunEntry(long Sequence, string Name, string Payload);
@@ -0,0 +1,167 @@
+// -----------------------------------------------------------------------
+// <copyright file="RunJournal.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Collections.Concurrent;
+using System.Diagnostics.CodeAnalysis;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// In-memory run journal. Finished runs are kept for a short retention window so
+/// late reconnects can still read the final events.
+/// </summary>
+[SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated via dependency injection")]
+public sealed class RunJournal : IRunJournal
+{
+    private readonly ConcurrentDictionary<Guid, Track> runs = new();
+    private readonly TimeSpan retention;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="RunJournal"/> class.
+    /// </summary>
+    public RunJournal()
+        : this(TimeSpan.FromMinutes(5))
+    {
+    }
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="RunJournal"/> class.
+    /// </summary>
+    /// <param name="retention">How long finished runs stay available for replay.</param>
+    public RunJournal(TimeSpan retention)
+    {
+        this.retention = retention;
+    }
+
+    /// <inheritdoc />
+    public CancellationToken Open(Guid run)
+    {
+        Track track = new();
+        if (!this.runs.TryAdd(run, track))
+        {
+            throw new InvalidOperationException($"Run {run} is already open in the journal");
+        }
+
+        return track.Cancellation.Token;
+    }
+
+    /// <inheritdoc />
+    public void Append(Guid run, string name, string payload)
+    {
+        this.Find(run).Append(name, payload);
+    }
+
+    /// <inheritdoc />
+    public void Close(Guid run)
+    {
+        this.Find(run).Close();
+        _ = Task.Delay(this.retention).ContinueWith(
+            _ =>
+            {
+                if (this.runs.TryRemove(run, out Track? track))
+                {
+                    track.Cancellation.Dispose();
+                }
+            },
+            TaskScheduler.Default);
+    }
+
+    /// <inheritdoc />
+    public bool Cancel(Guid run)
+    {
+        if (!this.runs.TryGetValue(run, out Track? track))
+        {
+            return false;
+        }
+
+        track.Cancellation.Cancel();
+        return true;
+    }
+
+    /// <inheritdoc />
+    public bool Contains(Guid run)
+    {
+        return this.runs.ContainsKey(run);
+    }
+
+    /// <inheritdoc />
+    public async Task Replay(Guid run, long after, Func<RunEntry, Task> sink, CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(sink);
+        Track track = this.Find(run);
+        long cursor = after;
+
+        while (true)
+        {
+            (IReadOnlyList<RunEntry> batch, bool closed, Task next) = track.Snapshot(cursor);
+            foreach (RunEntry entry in batch)
+            {
+                await sink(entry);
+                cursor = entry.Sequence;
+            }
+
+            if (closed)
+            {
+                return;
+            }
+
+            await next.WaitAsync(cancellationToken);
+        }
+    }
+
+    private Track Find(Guid run)
+    {
+        return this.runs.TryGetValue(run, out Track? track)
+            ? track
+            : throw new KeyNotFoundException($"Run {run} is not in the journal; it finished more than {this.retention} ago or never started");
+    }
+
+    /// <summary>
+    /// Events of a single run plus a signal that fires whenever the run changes.
+    /// </summary>
+    private sealed class Track
+    {
+        private readonly object gate = new();
+        private readonly List<RunEntry> entries = [];
+        private TaskCompletionSource signal = new(TaskCreationOptions.RunContinuationsAsynchronously);
+        private bool closed;
+
+        public CancellationTokenSource Cancellation { get; } = new();
+
+        public void Append(string name, string payload)
+        {
+            lock (this.gate)
+            {
+                this.entries.Add(new RunEntry(this.entries.Count + 1, name, payload));
+                this.Release();
+            }
+        }
+
+        public void Close()
+        {
+            lock (this.gate)
+            {
+                this.closed = true;
+                this.Release();
+            }
+        }
+
+        public (IReadOnlyList<RunEntry> Batch, bool Closed, Task Next) Snapshot(long after)
+        {
+            lock (this.gate)
+            {
+                int start = (int)Math.Clamp(after, 0, this.entries.Count);
+                return (this.entries.GetRange(start, this.entries.Count - start), this.closed, this.signal.Task);
+            }
+        }
+
+        private void Release()
+        {
+            this.signal.TrySetResult();
+            this.signal = new TaskCompletionSource(TaskCreationOptions.RunContinuationsAsynchronously);
+        }
+    }
+}
@@ -0,0 +1,17 @@
+// -----------------------------------------------------------------------
+// <copyright file="Sender.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// A LinkedIn account outreach is sent from. Its session cookie is kept in the vault, not here.
+/// </summary>
+/// <param name="Id">Sender identifier, also the key of its credential in the vault.</param>
+/// <param name="Name">Display name of the account owner.</param>
+/// <param name="AvatarUrl">Profile picture shown next to the name, if any.</param>
+/// <param name="Limits">Sending limits that protect the account.</param>
+/// <param name="CreatedAt">When the sender was added.</param>
+public sealed record Sender(Guid Id, string Name, string? AvatarUrl, SendingLimits Limits, DateTime CreatedAt);
@@ -0,0 +1,23 @@
+// -----------------------------------------------------------------------
+// <copyright file="SenderRotation.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// How a campaign spreads outreach over its senders.
+/// </summary>
+public enum SenderRotation
+{
+    /// <summary>
+    /// Senders take turns, one lead each.
+    /// </summary>
+    RoundRobin,
+
+    /// <summary>
+    /// The first sender is used until its limits stop it, then the next one.
+    /// </summary>
+    FillFirst,
+}
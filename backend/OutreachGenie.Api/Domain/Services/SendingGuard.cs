@@ -0,0 +1,81 @@
+// -----------------------------------------------------------------------
+// <copyright file="SendingGuard.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Diagnostics.CodeAnalysis;
+using OutreachGenie.Api.Domain.Entities;
+using OutreachGenie.Api.Domain.Models;
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Sending guard reading the last two days of outreach from the event log. Local days start up to
+/// fourteen hours away from UTC midnight, so two days cover today in every time zone.
+/// </summary>
+[SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated via dependency injection")]
+public sealed class SendingGuard : ISendingGuard, IDisposable
+{
+    // Upper bound on the stage changes and messages of each type read for the last two days
+    private const int MaxRecentEvents = 5000;
+
+    private static readonly TimeSpan Lookback = TimeSpan.FromDays(2);
+
+    private readonly IEventLog eventLog;
+    private readonly ISenderRoster roster;
+    private readonly SemaphoreSlim gate = new(1, 1);
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="SendingGuard"/> class.
+    /// </summary>
+    public SendingGuard(IEventLog eventLog, ISenderRoster roster)
+    {
+        this.eventLog = eventLog;
+        this.roster = roster;
+    }
+
+    /// <inheritdoc />
+    public async Task<CampaignThrottle> Throttle(Guid campaignId, CancellationToken cancellationToken = default)
+    {
+        DateTime since = DateTime.UtcNow - Lookback;
+        List<OutreachAction> recent = [];
+        foreach (string type in new[] { nameof(LeadStageChangedEvent), nameof(LeadMessagedEvent) })
+        {
+            IReadOnlyList<DomainEvent> events = await this.eventLog.Query(
+                new EventFilter(null, type, null, since, null),
+                null,
+                MaxRecentEvents,
+                cancellationToken);
+            recent.AddRange(OutreachAction.Read(events));
+        }
+
+        IReadOnlyList<Sender> senders = await this.roster.Senders(cancellationToken);
+        return new CampaignThrottle(
+            new Throttle(await this.roster.Limits(campaignId, cancellationToken), recent.Where(a => a.CampaignId == campaignId)),
+            await this.roster.Assignment(campaignId, cancellationToken),
+            senders,
+            senders.ToDictionary(s => s.Id, s => new Throttle(s.Limits, recent.Where(a => a.SenderId == s.Id))));
+    }
+
+    /// <inheritdoc />
+    public async Task<T> Exclusively<T>(Func<Task<T>> record, CancellationToken cancellationToken = default)
+    {
+        ArgumentNullException.ThrowIfNull(record);
+        await this.gate.WaitAsync(cancellationToken);
+        try
+        {
+            return await record();
+        }
+        finally
+        {
+            this.gate.Release();
+        }
+    }
+
+    /// <inheritdoc />
+    public void Dispose()
+    {
+        this.gate.Dispose();
+    }
+}
@@ -0,0 +1,51 @@
+// -----------------------------------------------------------------------
+// <copyright file="SendingLimits.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Safeguards that keep an account from sending more, or more regularly, than LinkedIn tolerates:
+/// daily caps, the hours and weekdays outreach goes out, and a randomised pause between two actions.
+/// </summary>
+/// <param name="ConnectionsPerDay">Connection requests allowed per day.</param>
+/// <param name="MessagesPerDay">Messages allowed per day; zero stops messaging.</param>
+/// <param name="StartHour">Hour the working day starts, from 0 to 23.</param>
+/// <param name="EndHour">Hour the working day ends, after <paramref name="StartHour"/> and at most 24.</param>
+/// <param name="Workdays">Days of the week outreach goes out on.</param>
+/// <param name="MinGapMinutes">Shortest pause between two actions.</param>
+/// <param name="JitterMinutes">Up to this many minutes are added at random to every pause.</param>
+/// <param name="TimeZone">IANA time zone of the working hours, such as Europe/Berlin.</param>
+public sealed record SendingLimits(
+    int ConnectionsPerDay,
+    int MessagesPerDay,
+    int StartHour,
+    int EndHour,
+    IReadOnlyList<DayOfWeek> Workdays,
+    int MinGapMinutes,
+    int JitterMinutes,
+    string TimeZone)
+{
+    /// <summary>
+    /// Limits of a sender added without any, modest enough for a new account.
+    /// </summary>
+    public static SendingLimits Default { get; } = new(
+        20,
+        50,
+        9,
+        17,
+        [DayOfWeek.Monday, DayOfWeek.Tuesday, DayOfWeek.Wednesday, DayOfWeek.Thursday, DayOfWeek.Friday],
+        2,
+        8,
+        "UTC");
+
+    /// <summary>
+    /// Actions of a kind allowed per day.
+    /// </summary>
+    public int PerDay(OutreachKind kind)
+    {
+        return kind == OutreachKind.ConnectionRequest ? this.ConnectionsPerDay : this.MessagesPerDay;
+    }
+}
@@ -5,32 +5,39 @@
 // -----------------------------------------------------------------------
 
 using System.Diagnostics.CodeAnalysis;
+using System.Text.Json;
+using Microsoft.AspNetCore.SignalR;
 using Microsoft.EntityFrameworkCore;
 using OutreachGenie.Api.Domain.Abstractions;
 using OutreachGenie.Api.Domain.Entities;
 using OutreachGenie.Api.Domain.Models;
+using OutreachGenie.Api.Hubs;
 using OutreachGenie.Api.Infrastructure.Repositories;
 
 namespace OutreachGenie.Api.Domain.Services;
 
 /// <summary>
 /// Task service implementation with enforcement logic.
+/// Every status change is sent to the <see cref="AgentHub"/> so open pages stay current.
 /// </summary>
 [SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated via dependency injection")]
 public sealed class TaskService : ITaskService
 {
     private readonly ICampaignRepository campaignRepository;
     private readonly IEventLog eventLog;
+    private readonly IHubContext<AgentHub> hub;
 
     /// <summary>
     /// Initializes a new instance of the <see cref="TaskService"/> class.
     /// </summary>
     public TaskService(
         ICampaignRepository campaignRepository,
-        IEventLog eventLog)
+        IEventLog eventLog,
+        IHubContext<AgentHub> hub)
     {
         this.campaignRepository = campaignRepository;
         this.eventLog = eventLog;
+        this.hub = hub;
     }
 
     /// <inheritdoc />
@@ -46,48 +53,104 @@ public sealed class TaskService : ITaskService
         }
 
         return campaign.Tasks
-            .Where(t => t.Status != Domain.Entities.TaskStatus.Completed)
+            .Where(t => t.Status is not (Domain.Entities.TaskStatus.Completed or Domain.Entities.TaskStatus.Rejected))
             .OrderBy(t => t.OrderIndex)
             .FirstOrDefault();
     }
 
     /// <inheritdoc />
-    public async Task<Result<CampaignTask>> CreateTask(
+    public async Task<Result<IReadOnlyList<CampaignTask>>> GetTasks(
+        Guid campaignId,
+        CancellationToken cancellationToken = default)
+    {
+        Campaign? campaign = await this.campaignRepository.LoadWithTasks(campaignId, cancellationToken);
+
+        if (campaign == null)
+        {
+            return Result<IReadOnlyList<CampaignTask>>.Failure($"Campaign {campaignId} not found");
+        }
+
+        return Result<IReadOnlyList<CampaignTask>>.Success(campaign.Tasks.OrderBy(t => t.OrderIndex).ToList());
+    }
+
+    /// <inheritdoc />
+    public Task<IReadOnlyList<CampaignTask>> GetTasksWithStatus(
+        Domain.Entities.TaskStatus status,
+        CancellationToken cancellationToken = default)
+    {
+        return this.campaignRepository.TasksWithStatus(status, cancellationToken);
+    }
+
+    /// <inheritdoc />
+    public Task<Result<CampaignTask>> CreateTask(
         Guid campaignId,
         string title,
         string description,
         bool requiresApproval,
+        EventActor createdBy,
         bool requiresPreviousTask = true,
         CancellationToken cancellationToken = default)
     {
-        Campaign? campaign = await this.campaignRepository.LoadWithTasks(campaignId, cancellationToken);
+        return this.Add(campaignId, title, description, requiresApproval, createdBy, requiresPreviousTask, null, cancellationToken);
+    }
 
-        if (campaign == null)
+    /// <inheritdoc />
+    public async Task<Result<CampaignTask>> CreatePlanTask(
+        Guid campaignId,
+        Guid planId,
+        int step,
+        string title,
+        string description,
+        bool requiresApproval,
+        CancellationToken cancellationToken = default)
+    {
+        IEnumerable<DomainEvent> created = await this.eventLog.GetEvents(campaignId, nameof(TaskCreatedEvent), cancellationToken);
+        Guid? existing = created
+            .Select(e => JsonSerializer.Deserialize<TaskCreatedEvent>(e.Payload))
+            .FirstOrDefault(e => e is not null && e.PlanId == planId && e.PlanStep == step)?
+            .TaskId;
+
+        if (existing is Guid taskId)
         {
-            return Result<CampaignTask>.Failure($"Campaign {campaignId} not found");
+            Result<IReadOnlyList<CampaignTask>> tasks = await this.GetTasks(campaignId, cancellationToken);
+            CampaignTask? task = tasks.IsSuccess ? tasks.Value.FirstOrDefault(t => t.Id == taskId) : null;
+            if (task is not null)
+            {
+                return Result<CampaignTask>.Success(task);
+            }
         }
 
-        int orderIndex = campaign.Tasks.Any() ? campaign.Tasks.Max(t => t.OrderIndex) + 1 : 0;
+        return await this.Add(campaignId, title, description, requiresApproval, EventActor.User, true, (planId, step), cancellationToken);
+    }
 
-        CampaignTask task = new(
-            Guid.NewGuid(),
+    /// <inheritdoc />
+    public Task<Result<CampaignTask>> ApproveTask(
+        Guid campaignId,
+        Guid taskId,
+        string? comment,
+        CancellationToken cancellationToken = default)
+    {
+        return this.Decide(
             campaignId,
-            title,
-            description,
+            taskId,
             Domain.Entities.TaskStatus.Pending,
-            orderIndex,
-            requiresApproval,
-            requiresPreviousTask,
-            DateTime.UtcNow);
-
-        campaign.Tasks.Add(task);
-        await this.campaignRepository.Update(campaign, cancellationToken);
-
-        // Log event
-        TaskCreatedEvent taskEvent = new(task.Id, campaignId, title, orderIndex);
-        await this.eventLog.Append(taskEvent, cancellationToken);
+            task => new TaskApprovedEvent(task.Id, campaignId, task.Title, comment),
+            cancellationToken);
+    }
 
-        return Result<CampaignTask>.Success(task);
+    /// <inheritdoc />
+    public Task<Result<CampaignTask>> RejectTask(
+        Guid campaignId,
+        Guid taskId,
+        string comment,
+        CancellationToken cancellationToken = default)
+    {
+        return this.Decide(
+            campaignId,
+            taskId,
+            Domain.Entities.TaskStatus.Rejected,
+            task => new TaskRejectedEvent(task.Id, campaignId, task.Title, comment),
+            cancellationToken);
     }
 
     /// <inheritdoc />
@@ -121,7 +184,17 @@ public sealed class TaskService : ITaskService
             return Result<CampaignTask>.Failure("Task not found");
         }
 
-        // ENFORCEMENT: If task requires previous task, check that all previous tasks are completed
+        // ENFORCEMENT: A task that needs sign-off only runs once a user has approved it
+        if (task.Status is Domain.Entities.TaskStatus.AwaitingApproval or Domain.Entities.TaskStatus.Rejected)
+        {
+            return Result<CampaignTask>.Failure(
+                task.Status == Domain.Entities.TaskStatus.Rejected
+                    ? $"Cannot complete task '{task.Title}'. The user rejected it; see the TaskRejectedEvent for their comment."
+                    : $"Cannot complete task '{task.Title}'. It is awaiting user approval.");
+        }
+
+        // ENFORCEMENT: If task requires previous task, check that all previous tasks are completed.
+        // A rejected task never runs, so it is settled and does not hold back the tasks after it.
         if (task.RequiresPreviousTask && task.OrderIndex > 0)
         {
             var previousTasks = campaign.Tasks
@@ -129,7 +202,7 @@ public sealed class TaskService : ITaskService
                 .OrderBy(t => t.OrderIndex)
                 .ToList();
 
-            var incompleteTask = previousTasks.FirstOrDefault(t => t.Status != Domain.Entities.TaskStatus.Completed);
+            var incompleteTask = previousTasks.FirstOrDefault(t => t.Status is not (Domain.Entities.TaskStatus.Completed or Domain.Entities.TaskStatus.Rejected));
             if (incompleteTask != null)
             {
                 return Result<CampaignTask>.Failure(
@@ -146,7 +219,8 @@ public sealed class TaskService : ITaskService
 
         // Log event
         var taskCompletedEvent = new TaskCompletedEvent(task.Id, campaign.Id, task.Title);
-        await this.eventLog.Append(taskCompletedEvent, cancellationToken);
+        await this.eventLog.Append(taskCompletedEvent, EventActor.Agent, cancellationToken);
+        await this.Announce(task, cancellationToken);
 
         return Result<CampaignTask>.Success(task);
     }
@@ -164,7 +238,89 @@ public sealed class TaskService : ITaskService
             return Enumerable.Empty<CampaignTask>();
         }
 
-        return campaign.Tasks.Where(t => t.Status != Domain.Entities.TaskStatus.Completed).ToList();
+        return campaign.Tasks
+            .Where(t => t.Status is not (Domain.Entities.TaskStatus.Completed or Domain.Entities.TaskStatus.Rejected))
+            .ToList();
     }
-}
 
+    private async Task<Result<CampaignTask>> Decide(
+        Guid campaignId,
+        Guid taskId,
+        Domain.Entities.TaskStatus outcome,
+        Func<CampaignTask, IDomainEvent> decided,
+        CancellationToken cancellationToken)
+    {
+        Campaign? campaign = await this.campaignRepository.LoadWithTasks(campaignId, cancellationToken);
+        CampaignTask? task = campaign?.Tasks.FirstOrDefault(t => t.Id == taskId);
+
+        if (campaign == null || task == null)
+        {
+            return Result<CampaignTask>.Failure($"Task {taskId} not found in campaign {campaignId}");
+        }
+
+        if (task.Status != Domain.Entities.TaskStatus.AwaitingApproval)
+        {
+            return Result<CampaignTask>.Failure($"Task '{task.Title}' is not awaiting approval (status: {task.Status})");
+        }
+
+        task.Status = outcome;
+        await this.campaignRepository.Update(campaign, cancellationToken);
+        await this.eventLog.Append(decided(task), EventActor.User, cancellationToken);
+        await this.Announce(task, cancellationToken);
+
+        return Result<CampaignTask>.Success(task);
+    }
+
+    private async Task<Result<CampaignTask>> Add(
+        Guid campaignId,
+        string title,
+        string description,
+        bool requiresApproval,
+        EventActor createdBy,
+        bool requiresPreviousTask,
+        (Guid PlanId, int Step)? plan,
+        CancellationToken cancellationToken)
+    {
+        Campaign? campaign = await this.campaignRepository.LoadWithTasks(campaignId, cancellationToken);
+
+        if (campaign == null)
+        {
+            return Result<CampaignTask>.Failure($"Campaign {campaignId} not found");
+        }
+
+        int orderIndex = campaign.Tasks.Any() ? campaign.Tasks.Max(t => t.OrderIndex) + 1 : 0;
+
+        CampaignTask task = new(
+            Guid.NewGuid(),
+            campaignId,
+            title,
+            description,
+            requiresApproval ? Domain.Entities.TaskStatus.AwaitingApproval : Domain.Entities.TaskStatus.Pending,
+            orderIndex,
+            requiresApproval,
+            requiresPreviousTask,
+            DateTime.UtcNow);
+
+        campaign.Tasks.Add(task);
+        await this.campaignRepository.Update(campaign, cancellationToken);
+
+        // Log event
+        TaskCreatedEvent taskEvent = new(task.Id, campaignId, title, orderIndex)
+        {
+            PlanId = plan?.PlanId,
+            PlanStep = plan?.Step,
+        };
+        await this.eventLog.Append(taskEvent, createdBy, cancellationToken);
+        await this.Announce(task, cancellationToken);
+
+        return Result<CampaignTask>.Success(task);
+    }
+
+    private Task Announce(CampaignTask task, CancellationToken cancellationToken)
+    {
+        return this.hub.Clients.All.SendAsync(
+            nameof(TaskStatusChanged),
+            new TaskStatusChanged(task.Id, task.CampaignId, task.Status.ToString(), DateTime.UtcNow),
+            cancellationToken);
+    }
+}
@@ -0,0 +1,154 @@
+// -----------------------------------------------------------------------
+// <copyright file="Throttle.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Applies one set of <see cref="SendingLimits"/> to the actions sent under them: how much of today's
+/// quota is used and when the next action may go out.
+/// </summary>
+public sealed class Throttle
+{
+    // Every week has a workday, so looking a week and a day ahead always finds the next window
+    private const int MaxDaysAhead = 8;
+
+    // Throttles whose windows never overlap, such as disjoint working hours, stop agreeing after this many rounds
+    private const int MaxRounds = 16;
+
+    private const int SecondsPerMinute = 60;
+
+    private readonly List<OutreachAction> actions;
+    private readonly TimeZoneInfo zone;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="Throttle"/> class.
+    /// </summary>
+    /// <param name="limits">Limits to apply; null when nothing is limited.</param>
+    /// <param name="actions">Recent actions the limits count, covering at least the last day.</param>
+    public Throttle(SendingLimits? limits, IEnumerable<OutreachAction> actions)
+    {
+        ArgumentNullException.ThrowIfNull(actions);
+
+        this.Limits = limits;
+        this.actions = actions.OrderBy(a => a.At).ToList();
+        this.zone = limits is null ? TimeZoneInfo.Utc : TimeZoneInfo.FindSystemTimeZoneById(limits.TimeZone);
+    }
+
+    /// <summary>
+    /// Gets the limits applied, or null when nothing is limited.
+    /// </summary>
+    public SendingLimits? Limits { get; }
+
+    /// <summary>
+    /// Earliest instant every throttle allows an action of a kind.
+    /// </summary>
+    /// <param name="kind">Action to send.</param>
+    /// <param name="now">Current instant in UTC.</param>
+    /// <param name="throttles">Throttles the action goes through.</param>
+    /// <returns><paramref name="now"/> when the action may go out right away, or null when the limits never allow it.</returns>
+    public static DateTime? NextAllowed(OutreachKind kind, DateTime now, params Throttle[] throttles)
+    {
+        ArgumentNullException.ThrowIfNull(throttles);
+
+        DateTime next = now;
+        for (int round = 0; round < MaxRounds; round++)
+        {
+            DateTime latest = next;
+            foreach (Throttle throttle in throttles)
+            {
+                if (throttle.NextAllowed(kind, latest) is not DateTime allowed)
+                {
+                    return null;
+                }
+
+                latest = allowed;
+            }
+
+            if (latest == next)
+            {
+                return next;
+            }
+
+            next = latest;
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Actions of a kind sent on the local day of an instant.
+    /// </summary>
+    public int Used(OutreachKind kind, DateTime now)
+    {
+        DateTime today = this.Local(now).Date;
+        return this.actions.Count(a => a.Kind == kind && this.Local(a.At).Date == today);
+    }
+
+    /// <summary>
+    /// Earliest instant from <paramref name="now"/> on that an action of a kind may go out.
+    /// </summary>
+    /// <returns><paramref name="now"/> when it may go out right away, or null when the limits never allow it.</returns>
+    public DateTime? NextAllowed(OutreachKind kind, DateTime now)
+    {
+        if (this.Limits is not SendingLimits limits)
+        {
+            return now;
+        }
+
+        if (limits.PerDay(kind) == 0 || limits.Workdays.Count == 0)
+        {
+            return null;
+        }
+
+        DateTime next = now;
+        if (this.actions.Count > 0)
+        {
+            OutreachAction last = this.actions[^1];
+            DateTime rested = DateTime.SpecifyKind(last.At, DateTimeKind.Utc) + Pause(last, limits);
+            next = rested > next ? rested : next;
+        }
+
+        for (int day = 0; day < MaxDaysAhead; day++)
+        {
+            DateTime local = this.Local(next);
+            if (!limits.Workdays.Contains(local.DayOfWeek)
+                || local.Hour >= limits.EndHour
+                || this.Used(kind, next) >= limits.PerDay(kind))
+            {
+                next = this.Utc(local.Date.AddDays(1).AddHours(limits.StartHour));
+                continue;
+            }
+
+            return local.Hour < limits.StartHour ? this.Utc(local.Date.AddHours(limits.StartHour)) : next;
+        }
+
+        return null;
+    }
+
+    // Seeded by the action itself, so the same pause comes out every time it is worked out
+    private static TimeSpan Pause(OutreachAction last, SendingLimits limits)
+    {
+        int jitter = new Random(last.At.GetHashCode()).Next((limits.JitterMinutes * SecondsPerMinute) + 1);
+        return TimeSpan.FromMinutes(limits.MinGapMinutes) + TimeSpan.FromSeconds(jitter);
+    }
+
+    private DateTime Local(DateTime utc)
+    {
+        return TimeZoneInfo.ConvertTimeFromUtc(DateTime.SpecifyKind(utc, DateTimeKind.Utc), this.zone);
+    }
+
+    private DateTime Utc(DateTime local)
+    {
+        // A working day starting inside a daylight saving gap starts when the clocks have moved on
+        DateTime unspecified = DateTime.SpecifyKind(local, DateTimeKind.Unspecified);
+        while (this.zone.IsInvalidTime(unspecified))
+        {
+            unspecified = unspecified.AddHours(1);
+        }
+
+        return TimeZoneInfo.ConvertTimeToUtc(unspecified, this.zone);
+    }
+}
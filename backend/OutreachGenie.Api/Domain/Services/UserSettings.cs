@@ -0,0 +1,26 @@
+// -----------------------------------------------------------------------
+// <copyright file="UserSettings.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Domain.Services;
+
+/// <summary>
+/// Preferences the user sets on the Settings and Developer pages.
+/// </summary>
+/// <param name="DeveloperMode">Whether the developer tools are shown.</param>
+/// <param name="ApiEndpoint">Agent API endpoint, an http or https URL.</param>
+/// <param name="ModelName">Model the agent runs on.</param>
+/// <param name="MaxTokens">Most tokens an answer may use.</param>
+/// <param name="Temperature">Sampling temperature of the model.</param>
+/// <param name="AutoSave">Whether drafts are saved automatically.</param>
+/// <param name="Notifications">Whether notifications are shown.</param>
+public sealed record UserSettings(
+    bool DeveloperMode,
+    string ApiEndpoint,
+    string ModelName,
+    int MaxTokens,
+    double Temperature,
+    bool AutoSave,
+    bool Notifications);
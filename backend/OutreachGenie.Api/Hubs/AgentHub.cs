@@ -0,0 +1,20 @@
+// -----------------------------------------------------------------------
+// <copyright file="AgentHub.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Diagnostics.CodeAnalysis;
+using Microsoft.AspNetCore.SignalR;
+
+namespace OutreachGenie.Api.Hubs;
+
+/// <summary>
+/// Real-time channel the frontend listens on for task, campaign, artifact and chat updates.
+/// Messages only flow from the server, so clients have nothing to invoke: services send them through
+/// <c>IHubContext&lt;AgentHub&gt;</c>, named after their payload type, e.g. <see cref="TaskStatusChanged"/>.
+/// </summary>
+[SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated by SignalR")]
+public sealed class AgentHub : Hub
+{
+}
@@ -0,0 +1,16 @@
+// -----------------------------------------------------------------------
+// <copyright file="ArtifactCreated.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Hubs;
+
+/// <summary>
+/// Sent on the <see cref="AgentHub"/> when a new artifact version is saved; clients fetch its content.
+/// </summary>
+/// <param name="Type">Artifact type.</param>
+/// <param name="Key">Artifact key within its type.</param>
+/// <param name="CampaignId">Campaign the artifact belongs to.</param>
+/// <param name="Timestamp">When the version was saved.</param>
+public sealed record ArtifactCreated(string Type, string Key, Guid CampaignId, DateTime Timestamp);
@@ -0,0 +1,15 @@
+// -----------------------------------------------------------------------
+// <copyright file="CampaignStateChanged.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Hubs;
+
+/// <summary>
+/// Sent on the <see cref="AgentHub"/> when a campaign is created or its leads or outreach change.
+/// </summary>
+/// <param name="CampaignId">Campaign identifier.</param>
+/// <param name="Phase">Phase the campaign is in now.</param>
+/// <param name="Timestamp">When the campaign changed.</param>
+public sealed record CampaignStateChanged(Guid CampaignId, string Phase, DateTime Timestamp);
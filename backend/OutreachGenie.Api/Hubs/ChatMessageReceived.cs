@@ -0,0 +1,17 @@
+// -----------------------------------------------------------------------
+// <copyright file="ChatMessageReceived.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Hubs;
+
+/// <summary>
+/// Sent on the <see cref="AgentHub"/> when the agent's answer is added to a conversation.
+/// </summary>
+/// <param name="MessageId">Message identifier, the id of the run that answered.</param>
+/// <param name="CampaignId">Campaign of the conversation; null for the general one.</param>
+/// <param name="Content">Message text.</param>
+/// <param name="Role">"user" or "assistant".</param>
+/// <param name="Timestamp">When the message was added.</param>
+public sealed record ChatMessageReceived(Guid MessageId, Guid? CampaignId, string Content, string Role, DateTime Timestamp);
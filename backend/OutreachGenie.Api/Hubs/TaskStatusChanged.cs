@@ -0,0 +1,16 @@
+// -----------------------------------------------------------------------
+// <copyright file="TaskStatusChanged.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Hubs;
+
+/// <summary>
+/// Sent on the <see cref="AgentHub"/> when a task is created, approved, rejected or completed.
+/// </summary>
+/// <param name="TaskId">Task identifier.</param>
+/// <param name="CampaignId">Campaign the task belongs to.</param>
+/// <param name="Status">Status the task is in now.</param>
+/// <param name="Timestamp">When the status changed.</param>
+public sealed record TaskStatusChanged(Guid TaskId, Guid CampaignId, string Status, DateTime Timestamp);
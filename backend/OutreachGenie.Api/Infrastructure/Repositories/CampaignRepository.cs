@@ -48,6 +48,27 @@ public sealed class CampaignRepository : ICampaignRepository
             .FirstOrDefaultAsync(c => c.Id == campaignId, cancellationToken);
     }
 
+    /// <inheritdoc />
+    public async Task<Campaign?> LoadByLead(Guid leadId, CancellationToken cancellationToken = default)
+    {
+        await using OutreachGenieDbContext context = await this.contextFactory.CreateDbContextAsync(cancellationToken);
+        return await context.Campaigns
+            .Include(c => c.Tasks.OrderBy(t => t.OrderIndex))
+            .Include(c => c.Leads)
+            .Include(c => c.Artifacts)
+            .FirstOrDefaultAsync(c => c.Leads.Any(l => l.Id == leadId), cancellationToken);
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<CampaignTask>> TasksWithStatus(Domain.Entities.TaskStatus status, CancellationToken cancellationToken = default)
+    {
+        await using OutreachGenieDbContext context = await this.contextFactory.CreateDbContextAsync(cancellationToken);
+        return await context.CampaignTasks
+            .Where(t => t.Status == status)
+            .OrderBy(t => t.CreatedAt)
+            .ToListAsync(cancellationToken);
+    }
+
     /// <inheritdoc />
     public async Task<Campaign?> FindById(Guid id, CancellationToken cancellationToken = default)
     {
@@ -23,5 +23,15 @@ public interface ICampaignRepository : IRepository<Campaign>
     /// Loads a campaign with all related entities.
     /// </summary>
     Task<Campaign?> LoadComplete(Guid campaignId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Loads the campaign a lead belongs to with all related entities.
+    /// </summary>
+    Task<Campaign?> LoadByLead(Guid leadId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Gets the tasks of every campaign that are in a status, oldest first.
+    /// </summary>
+    Task<IReadOnlyList<CampaignTask>> TasksWithStatus(Domain.Entities.TaskStatus status, CancellationToken cancellationToken = default);
 }
 
@@ -0,0 +1,75 @@
+// -----------------------------------------------------------------------
+// <copyright file="ArtifactDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// One version of a campaign artifact.
+/// </summary>
+public sealed class ArtifactDto
+{
+    /// <summary>
+    /// Version identifier.
+    /// </summary>
+    public Guid Id { get; set; }
+
+    /// <summary>
+    /// Campaign identifier.
+    /// </summary>
+    public Guid CampaignId { get; set; }
+
+    /// <summary>
+    /// Kind of artifact, such as "plan".
+    /// </summary>
+    public string Type { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Name of the artifact among those of its type.
+    /// </summary>
+    public string Key { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Text of this version.
+    /// </summary>
+    public string Content { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Who wrote this version: "User" or "Agent".
+    /// </summary>
+    public string Source { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Version number, counting from 1 per type and key.
+    /// </summary>
+    public int Version { get; set; }
+
+    /// <summary>
+    /// When the version was stored.
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// Creates DTO from a stored version.
+    /// </summary>
+    internal static ArtifactDto FromVersion(ArtifactVersion version)
+    {
+        ArgumentNullException.ThrowIfNull(version);
+
+        return new ArtifactDto
+        {
+            Id = version.Id,
+            CampaignId = version.CampaignId,
+            Type = version.Type,
+            Key = version.Key,
+            Content = version.Content,
+            Source = version.Source.ToString(),
+            Version = version.Version,
+            CreatedAt = version.CreatedAt,
+        };
+    }
+}
@@ -28,6 +28,11 @@ public sealed class CampaignDto
     /// </summary>
     public string Phase { get; set; } = string.Empty;
 
+    /// <summary>
+    /// Who the campaign reaches out to, or the goals the agent described it with.
+    /// </summary>
+    public string TargetAudience { get; set; } = string.Empty;
+
     /// <summary>
     /// Creation timestamp.
     /// </summary>
@@ -55,6 +60,7 @@ public sealed class CampaignDto
             Id = campaign.Id,
             Name = campaign.Name,
             Phase = campaign.Phase.ToString(),
+            TargetAudience = campaign.Metadata,
             CreatedAt = campaign.CreatedAt,
             UpdatedAt = campaign.UpdatedAt,
             Tasks = campaign.Tasks.Select(TaskDto.FromEntity).ToList(),
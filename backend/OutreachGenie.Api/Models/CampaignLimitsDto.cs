@@ -0,0 +1,18 @@
+// -----------------------------------------------------------------------
+// <copyright file="CampaignLimitsDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// The sending limits of a campaign on top of those of its senders.
+/// </summary>
+public sealed class CampaignLimitsDto
+{
+    /// <summary>
+    /// Limits of the campaign; null when only its senders' limits apply.
+    /// </summary>
+    public SendingLimitsDto? Limits { get; init; }
+}
@@ -0,0 +1,58 @@
+// -----------------------------------------------------------------------
+// <copyright file="CampaignQuotaDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// A campaign's use of its sending limits today and when its next actions may go out.
+/// </summary>
+public sealed class CampaignQuotaDto
+{
+    /// <summary>
+    /// Connection requests the campaign sent today.
+    /// </summary>
+    public QuotaDto Connections { get; init; } = new();
+
+    /// <summary>
+    /// Messages the campaign sent today.
+    /// </summary>
+    public QuotaDto Messages { get; init; } = new();
+
+    /// <summary>
+    /// When the next connection request may go out, from whichever sender is free first;
+    /// null when the limits never allow it.
+    /// </summary>
+    public DateTime? NextConnectionAt { get; init; }
+
+    /// <summary>
+    /// Quota of each assigned sender, in order of preference.
+    /// </summary>
+    public List<SenderQuotaDto> Senders { get; init; } = [];
+
+    /// <summary>
+    /// When the quota was worked out.
+    /// </summary>
+    public DateTime CheckedAt { get; init; }
+
+    /// <summary>
+    /// Creates the DTO for a campaign's throttle.
+    /// </summary>
+    internal static CampaignQuotaDto FromThrottle(CampaignThrottle throttle, DateTime now)
+    {
+        ArgumentNullException.ThrowIfNull(throttle);
+
+        return new CampaignQuotaDto
+        {
+            Connections = QuotaDto.FromThrottle(throttle.Campaign, OutreachKind.ConnectionRequest, now),
+            Messages = QuotaDto.FromThrottle(throttle.Campaign, OutreachKind.Message, now),
+            NextConnectionAt = throttle.NextConnection(now, null).At,
+            Senders = throttle.Assigned.Select(s => SenderQuotaDto.FromThrottle(throttle, s, now)).ToList(),
+            CheckedAt = now,
+        };
+    }
+}
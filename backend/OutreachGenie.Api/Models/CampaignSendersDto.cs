@@ -0,0 +1,64 @@
+// -----------------------------------------------------------------------
+// <copyright file="CampaignSendersDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// The senders assigned to a campaign and how it rotates between them.
+/// </summary>
+public sealed class CampaignSendersDto
+{
+    /// <summary>
+    /// Assigned sender identifiers, in order of preference.
+    /// </summary>
+    public List<Guid> SenderIds { get; init; } = [];
+
+    /// <summary>
+    /// Name of the <see cref="SenderRotation"/> used.
+    /// </summary>
+    public string Rotation { get; init; } = nameof(SenderRotation.RoundRobin);
+
+    /// <summary>
+    /// Creates the DTO for a campaign's assignment.
+    /// </summary>
+    internal static CampaignSendersDto FromAssignment(CampaignSenders senders)
+    {
+        ArgumentNullException.ThrowIfNull(senders);
+
+        return new CampaignSendersDto
+        {
+            SenderIds = senders.SenderIds.ToList(),
+            Rotation = senders.Rotation.ToString(),
+        };
+    }
+
+    /// <summary>
+    /// Builds an assignment, or returns the reason when it names an unknown sender or rotation.
+    /// </summary>
+    /// <param name="senderIds">Sender identifiers, in order of preference.</param>
+    /// <param name="rotation">Name of the rotation, in any case.</param>
+    /// <param name="known">Every configured sender.</param>
+    internal static (CampaignSenders? Senders, string? Error) ToAssignment(
+        IReadOnlyList<Guid> senderIds,
+        string rotation,
+        IReadOnlyList<Sender> known)
+    {
+        if (!Enum.TryParse(rotation, ignoreCase: true, out SenderRotation parsed) || !Enum.IsDefined(parsed))
+        {
+            return (null, $"Unknown rotation '{rotation}'.");
+        }
+
+        Guid? unknown = senderIds.Select(id => (Guid?)id).FirstOrDefault(id => known.All(s => s.Id != id));
+        if (unknown is not null)
+        {
+            return (null, $"Sender {unknown} does not exist.");
+        }
+
+        return (new CampaignSenders(senderIds.Distinct().ToList(), parsed), null);
+    }
+}
@@ -0,0 +1,57 @@
+// -----------------------------------------------------------------------
+// <copyright file="ChatMessageDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// One persisted chat message.
+/// </summary>
+public sealed class ChatMessageDto
+{
+    /// <summary>
+    /// Message identifier.
+    /// </summary>
+    public Guid Id { get; set; }
+
+    /// <summary>
+    /// Campaign of the conversation; null for the general one.
+    /// </summary>
+    public Guid? CampaignId { get; set; }
+
+    /// <summary>
+    /// "user" or "assistant".
+    /// </summary>
+    public string Role { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Message text.
+    /// </summary>
+    public string Content { get; set; } = string.Empty;
+
+    /// <summary>
+    /// When the message was sent or the answer finished.
+    /// </summary>
+    public DateTime Timestamp { get; set; }
+
+    /// <summary>
+    /// Creates DTO from a message of a conversation.
+    /// </summary>
+    internal static ChatMessageDto FromEntry(ChatEntry entry, Guid? campaignId)
+    {
+        ArgumentNullException.ThrowIfNull(entry);
+
+        return new ChatMessageDto
+        {
+            Id = entry.Id,
+            CampaignId = campaignId,
+            Role = entry.Role,
+            Content = entry.Content,
+            Timestamp = entry.Timestamp,
+        };
+    }
+}
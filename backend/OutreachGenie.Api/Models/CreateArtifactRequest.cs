@@ -0,0 +1,33 @@
+// -----------------------------------------------------------------------
+// <copyright file="CreateArtifactRequest.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// Request to store a new version of a campaign artifact.
+/// </summary>
+public sealed class CreateArtifactRequest
+{
+    /// <summary>
+    /// Kind of artifact, e.g. "plan" or "intro-message".
+    /// </summary>
+    public required string Type { get; init; }
+
+    /// <summary>
+    /// Name of the artifact within its type; versions with the same type and key follow one another.
+    /// </summary>
+    public required string Key { get; init; }
+
+    /// <summary>
+    /// Artifact content.
+    /// </summary>
+    public required string Content { get; init; }
+
+    /// <summary>
+    /// Who wrote this version: "User" or "Agent".
+    /// </summary>
+    public required string Source { get; init; }
+}
@@ -15,5 +15,20 @@ public sealed class CreateCampaignRequest
     /// Campaign name.
     /// </summary>
     public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Who the campaign reaches out to, kept as the campaign's description.
+    /// </summary>
+    public string TargetAudience { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Senders to reach out from, in order of preference; may be assigned later.
+    /// </summary>
+    public List<Guid> SenderIds { get; init; } = [];
+
+    /// <summary>
+    /// Name of the rotation between the senders.
+    /// </summary>
+    public string Rotation { get; init; } = "RoundRobin";
 }
 
@@ -0,0 +1,71 @@
+// -----------------------------------------------------------------------
+// <copyright file="CredentialDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// What clients may know about the stored LinkedIn cookie. The cookie itself is never included.
+/// </summary>
+public sealed class CredentialDto
+{
+    private const int VisibleCharacters = 4;
+
+    /// <summary>
+    /// Missing, Unverified, Valid, Invalid or Expired.
+    /// </summary>
+    public string Status { get; set; } = "Missing";
+
+    /// <summary>
+    /// Last characters of the cookie, so users can tell which one is stored.
+    /// </summary>
+    public string? Last4 { get; set; }
+
+    /// <summary>
+    /// When the cookie was stored.
+    /// </summary>
+    public DateTime? SavedAt { get; set; }
+
+    /// <summary>
+    /// Cookie expiry, when known.
+    /// </summary>
+    public DateTime? ExpiresAt { get; set; }
+
+    /// <summary>
+    /// When LinkedIn last confirmed or rejected the cookie.
+    /// </summary>
+    public DateTime? VerifiedAt { get; set; }
+
+    /// <summary>
+    /// Creates the DTO for a stored credential, or for none.
+    /// </summary>
+    internal static CredentialDto FromCredential(Credential? credential)
+    {
+        if (credential is null)
+        {
+            return new CredentialDto();
+        }
+
+        string status = credential.ExpiresAt < DateTime.UtcNow
+            ? "Expired"
+            : credential.Valid switch
+            {
+                true => "Valid",
+                false => "Invalid",
+                null => "Unverified",
+            };
+
+        return new CredentialDto
+        {
+            Status = status,
+            Last4 = credential.Cookie.Length > VisibleCharacters ? credential.Cookie[^VisibleCharacters..] : null,
+            SavedAt = credential.SavedAt,
+            ExpiresAt = credential.ExpiresAt,
+            VerifiedAt = credential.VerifiedAt,
+        };
+    }
+}
@@ -0,0 +1,63 @@
+// -----------------------------------------------------------------------
+// <copyright file="EventDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Entities;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// Audit event data transfer object.
+/// </summary>
+public sealed class EventDto
+{
+    /// <summary>
+    /// Event identifier.
+    /// </summary>
+    public Guid Id { get; set; }
+
+    /// <summary>
+    /// Event type.
+    /// </summary>
+    public string EventType { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Campaign identifier, if the event belongs to a campaign.
+    /// </summary>
+    public Guid? CampaignId { get; set; }
+
+    /// <summary>
+    /// Event timestamp.
+    /// </summary>
+    public DateTime Timestamp { get; set; }
+
+    /// <summary>
+    /// Who caused the event.
+    /// </summary>
+    public string Actor { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Serialized JSON payload.
+    /// </summary>
+    public string Payload { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Creates DTO from entity.
+    /// </summary>
+    internal static EventDto FromEntity(DomainEvent domainEvent)
+    {
+        ArgumentNullException.ThrowIfNull(domainEvent);
+
+        return new EventDto
+        {
+            Id = domainEvent.Id,
+            EventType = domainEvent.EventType,
+            CampaignId = domainEvent.CampaignId,
+            Timestamp = domainEvent.Timestamp,
+            Actor = domainEvent.Actor.ToString(),
+            Payload = domainEvent.Payload,
+        };
+    }
+}
@@ -0,0 +1,23 @@
+// -----------------------------------------------------------------------
+// <copyright file="EventPageDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// One page of audit events, newest first.
+/// </summary>
+public sealed class EventPageDto
+{
+    /// <summary>
+    /// Events on this page.
+    /// </summary>
+    public IReadOnlyList<EventDto> Items { get; set; } = [];
+
+    /// <summary>
+    /// Opaque cursor for the next (older) page, or null when this is the last page.
+    /// </summary>
+    public string? NextCursor { get; set; }
+}
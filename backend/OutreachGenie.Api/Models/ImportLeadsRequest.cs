@@ -0,0 +1,23 @@
+// -----------------------------------------------------------------------
+// <copyright file="ImportLeadsRequest.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// Request to add leads gathered outside the agent, e.g. from a CSV file, to a campaign.
+/// </summary>
+public sealed class ImportLeadsRequest
+{
+    /// <summary>
+    /// Where the leads come from, shown as the lead source.
+    /// </summary>
+    public string Source { get; init; } = "CSV import";
+
+    /// <summary>
+    /// Lead fields by name, one dictionary per lead; stored as the lead's JSON data.
+    /// </summary>
+    public required List<Dictionary<string, string>> Leads { get; init; }
+}
@@ -0,0 +1,145 @@
+// -----------------------------------------------------------------------
+// <copyright file="LeadDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.Text.Json;
+using OutreachGenie.Api.Domain.Entities;
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// Lead data transfer object.
+/// </summary>
+public sealed class LeadDto
+{
+    /// <summary>
+    /// Lead identifier.
+    /// </summary>
+    public Guid Id { get; set; }
+
+    /// <summary>
+    /// Campaign identifier.
+    /// </summary>
+    public Guid CampaignId { get; set; }
+
+    /// <summary>
+    /// Where the lead was discovered.
+    /// </summary>
+    public string Source { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Current score (0-100), if scored.
+    /// </summary>
+    public decimal? Score { get; set; }
+
+    /// <summary>
+    /// Agent's explanation of the current score.
+    /// </summary>
+    public string? ScoringRationale { get; set; }
+
+    /// <summary>
+    /// Serialized JSON profile data.
+    /// </summary>
+    public string Data { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Discovery timestamp.
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// Timestamp of the latest scoring.
+    /// </summary>
+    public DateTime? ScoredAt { get; set; }
+
+    /// <summary>
+    /// Furthest <see cref="LeadStage"/> the lead reached.
+    /// </summary>
+    public string Stage { get; set; } = nameof(LeadStage.Discovered);
+
+    /// <summary>
+    /// Sender the lead was contacted from; null until outreach starts or when the campaign has no senders.
+    /// </summary>
+    public Guid? SenderId { get; set; }
+
+    /// <summary>
+    /// Creates DTO from entity.
+    /// </summary>
+    /// <param name="lead">Lead entity.</param>
+    /// <param name="outreach">Outreach stage reached per lead, from <see cref="StagesReached"/>.</param>
+    /// <param name="senders">Sender per contacted lead, from <see cref="SendersUsed"/>.</param>
+    internal static LeadDto FromEntity(
+        Lead lead,
+        IReadOnlyDictionary<Guid, LeadStage> outreach,
+        IReadOnlyDictionary<Guid, Guid> senders)
+    {
+        ArgumentNullException.ThrowIfNull(lead);
+        ArgumentNullException.ThrowIfNull(outreach);
+        ArgumentNullException.ThrowIfNull(senders);
+
+        LeadStage stage = lead.Score.HasValue ? LeadStage.Scored : LeadStage.Discovered;
+        if (outreach.TryGetValue(lead.Id, out LeadStage reached) && reached > stage)
+        {
+            stage = reached;
+        }
+
+        return new LeadDto
+        {
+            Id = lead.Id,
+            CampaignId = lead.CampaignId,
+            Source = lead.Source,
+            Score = lead.Score,
+            ScoringRationale = lead.ScoringRationale,
+            Data = lead.Data,
+            CreatedAt = lead.CreatedAt,
+            ScoredAt = lead.ScoredAt,
+            Stage = stage.ToString(),
+            SenderId = senders.TryGetValue(lead.Id, out Guid sender) ? sender : null,
+        };
+    }
+
+    /// <summary>
+    /// Folds LeadStageChangedEvent entries into the furthest stage each lead reached.
+    /// </summary>
+    internal static IReadOnlyDictionary<Guid, LeadStage> StagesReached(IEnumerable<DomainEvent> changes)
+    {
+        ArgumentNullException.ThrowIfNull(changes);
+
+        var reached = new Dictionary<Guid, LeadStage>();
+        foreach (DomainEvent change in changes)
+        {
+            using JsonDocument document = JsonDocument.Parse(change.Payload);
+            JsonElement root = document.RootElement;
+            if (!root.GetProperty("LeadId").TryGetGuid(out Guid leadId)
+                || !Enum.TryParse(root.GetProperty("Stage").GetString(), out LeadStage stage))
+            {
+                continue;
+            }
+
+            // Stages only move forward, so a late duplicate never rolls a lead back
+            if (!reached.TryGetValue(leadId, out LeadStage current) || stage > current)
+            {
+                reached[leadId] = stage;
+            }
+        }
+
+        return reached;
+    }
+
+    /// <summary>
+    /// Folds LeadStageChangedEvent entries into the sender each lead was first contacted from.
+    /// </summary>
+    internal static IReadOnlyDictionary<Guid, Guid> SendersUsed(IEnumerable<DomainEvent> changes)
+    {
+        var senders = new Dictionary<Guid, Guid>();
+        foreach (OutreachStep step in OutreachStep.Read(changes))
+        {
+            senders.TryAdd(step.LeadId, step.SenderId);
+        }
+
+        return senders;
+    }
+}
@@ -0,0 +1,45 @@
+// -----------------------------------------------------------------------
+// <copyright file="LeadScoreDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Models;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// One scoring of a lead, read from its LeadScoredEvent.
+/// </summary>
+public sealed class LeadScoreDto
+{
+    /// <summary>
+    /// Score given (0-100).
+    /// </summary>
+    public decimal Score { get; set; }
+
+    /// <summary>
+    /// Agent's explanation of the score.
+    /// </summary>
+    public string Rationale { get; set; } = string.Empty;
+
+    /// <summary>
+    /// When the lead was scored.
+    /// </summary>
+    public DateTime Timestamp { get; set; }
+
+    /// <summary>
+    /// Creates DTO from a LeadScoredEvent read back from the event log.
+    /// </summary>
+    internal static LeadScoreDto FromEvent(LeadScoredEvent scored)
+    {
+        ArgumentNullException.ThrowIfNull(scored);
+
+        return new LeadScoreDto
+        {
+            Score = scored.Score,
+            Rationale = scored.Rationale,
+            Timestamp = scored.Timestamp,
+        };
+    }
+}
@@ -0,0 +1,39 @@
+// -----------------------------------------------------------------------
+// <copyright file="QuotaDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// How much of today's allowance of one kind of action is used.
+/// </summary>
+public sealed class QuotaDto
+{
+    /// <summary>
+    /// Actions sent today.
+    /// </summary>
+    public int Used { get; init; }
+
+    /// <summary>
+    /// Actions allowed per day; null when nothing is limited.
+    /// </summary>
+    public int? Limit { get; init; }
+
+    /// <summary>
+    /// Creates the DTO for the actions of a kind a throttle counted today.
+    /// </summary>
+    internal static QuotaDto FromThrottle(Throttle throttle, OutreachKind kind, DateTime now)
+    {
+        ArgumentNullException.ThrowIfNull(throttle);
+
+        return new QuotaDto
+        {
+            Used = throttle.Used(kind, now),
+            Limit = throttle.Limits?.PerDay(kind),
+        };
+    }
+}
@@ -0,0 +1,23 @@
+// -----------------------------------------------------------------------
+// <copyright file="SaveCredentialRequest.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// Request to store a LinkedIn session cookie.
+/// </summary>
+public sealed class SaveCredentialRequest
+{
+    /// <summary>
+    /// Value of the li_at cookie.
+    /// </summary>
+    public required string Cookie { get; init; }
+
+    /// <summary>
+    /// Cookie expiry as shown by the browser, if the user supplied it.
+    /// </summary>
+    public DateTime? ExpiresAt { get; init; }
+}
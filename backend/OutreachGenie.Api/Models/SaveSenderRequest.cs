@@ -0,0 +1,28 @@
+// -----------------------------------------------------------------------
+// <copyright file="SaveSenderRequest.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// Request to add or edit a sender account.
+/// </summary>
+public sealed class SaveSenderRequest
+{
+    /// <summary>
+    /// Display name.
+    /// </summary>
+    public required string Name { get; init; }
+
+    /// <summary>
+    /// Profile picture URL, if any.
+    /// </summary>
+    public string? AvatarUrl { get; init; }
+
+    /// <summary>
+    /// Sending limits that protect the account.
+    /// </summary>
+    public required SendingLimitsDto Limits { get; init; }
+}
@@ -0,0 +1,63 @@
+// -----------------------------------------------------------------------
+// <copyright file="SenderDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// A sender account with the status of its LinkedIn cookie.
+/// </summary>
+public sealed class SenderDto
+{
+    /// <summary>
+    /// Sender identifier.
+    /// </summary>
+    public Guid Id { get; set; }
+
+    /// <summary>
+    /// Display name.
+    /// </summary>
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Profile picture URL, if any.
+    /// </summary>
+    public string? AvatarUrl { get; set; }
+
+    /// <summary>
+    /// Sending limits that protect the account.
+    /// </summary>
+    public SendingLimitsDto Limits { get; set; } = new();
+
+    /// <summary>
+    /// When the sender was added.
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// Status of the sender's LinkedIn cookie.
+    /// </summary>
+    public CredentialDto Credential { get; set; } = new();
+
+    /// <summary>
+    /// Creates the DTO for a sender and its stored credential, if any.
+    /// </summary>
+    internal static SenderDto FromSender(Sender sender, Credential? credential)
+    {
+        ArgumentNullException.ThrowIfNull(sender);
+
+        return new SenderDto
+        {
+            Id = sender.Id,
+            Name = sender.Name,
+            AvatarUrl = sender.AvatarUrl,
+            Limits = SendingLimitsDto.FromLimits(sender.Limits),
+            CreatedAt = sender.CreatedAt,
+            Credential = CredentialDto.FromCredential(credential),
+        };
+    }
+}
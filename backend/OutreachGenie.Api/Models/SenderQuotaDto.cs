@@ -0,0 +1,65 @@
+// -----------------------------------------------------------------------
+// <copyright file="SenderQuotaDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// A sender's use of its daily limits and when it may send for a campaign next.
+/// </summary>
+public sealed class SenderQuotaDto
+{
+    /// <summary>
+    /// Sender identifier.
+    /// </summary>
+    public Guid SenderId { get; init; }
+
+    /// <summary>
+    /// Display name.
+    /// </summary>
+    public string Name { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Connection requests the sender sent today, over every campaign.
+    /// </summary>
+    public QuotaDto Connections { get; init; } = new();
+
+    /// <summary>
+    /// Messages the sender sent today, over every campaign.
+    /// </summary>
+    public QuotaDto Messages { get; init; } = new();
+
+    /// <summary>
+    /// When the sender may send the campaign's next connection request; null when the limits never allow it.
+    /// </summary>
+    public DateTime? NextConnectionAt { get; init; }
+
+    /// <summary>
+    /// When the sender may send the campaign's next message; null when the limits never allow it.
+    /// </summary>
+    public DateTime? NextMessageAt { get; init; }
+
+    /// <summary>
+    /// Creates the DTO for a sender of a campaign.
+    /// </summary>
+    internal static SenderQuotaDto FromThrottle(CampaignThrottle throttle, Sender sender, DateTime now)
+    {
+        ArgumentNullException.ThrowIfNull(throttle);
+        ArgumentNullException.ThrowIfNull(sender);
+
+        Throttle own = throttle.OfSender(sender.Id);
+        return new SenderQuotaDto
+        {
+            SenderId = sender.Id,
+            Name = sender.Name,
+            Connections = QuotaDto.FromThrottle(own, OutreachKind.ConnectionRequest, now),
+            Messages = QuotaDto.FromThrottle(own, OutreachKind.Message, now),
+            NextConnectionAt = throttle.NextAllowed(OutreachKind.ConnectionRequest, sender.Id, now),
+            NextMessageAt = throttle.NextAllowed(OutreachKind.Message, sender.Id, now),
+        };
+    }
+}
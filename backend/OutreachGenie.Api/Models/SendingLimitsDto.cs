@@ -0,0 +1,139 @@
+// -----------------------------------------------------------------------
+// <copyright file="SendingLimitsDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// Sending limits of a sender or campaign.
+/// </summary>
+public sealed class SendingLimitsDto
+{
+    private const int MaxConnectionsPerDay = 100;
+    private const int MaxMessagesPerDay = 150;
+    private const int HoursPerDay = 24;
+    private const int MaxPauseMinutes = 240;
+
+    /// <summary>
+    /// Connection requests allowed per day.
+    /// </summary>
+    public int ConnectionsPerDay { get; init; }
+
+    /// <summary>
+    /// Messages allowed per day; zero stops messaging.
+    /// </summary>
+    public int MessagesPerDay { get; init; }
+
+    /// <summary>
+    /// Hour the working day starts, from 0 to 23.
+    /// </summary>
+    public int StartHour { get; init; }
+
+    /// <summary>
+    /// Hour the working day ends, after the start and at most 24.
+    /// </summary>
+    public int EndHour { get; init; }
+
+    /// <summary>
+    /// Names of the days of the week outreach goes out on.
+    /// </summary>
+    public List<string> Workdays { get; init; } = [];
+
+    /// <summary>
+    /// Shortest pause between two actions, in minutes.
+    /// </summary>
+    public int MinGapMinutes { get; init; }
+
+    /// <summary>
+    /// Most minutes added at random to every pause.
+    /// </summary>
+    public int JitterMinutes { get; init; }
+
+    /// <summary>
+    /// IANA time zone of the working hours.
+    /// </summary>
+    public string TimeZone { get; init; } = "UTC";
+
+    /// <summary>
+    /// Creates the DTO for a set of limits.
+    /// </summary>
+    internal static SendingLimitsDto FromLimits(SendingLimits limits)
+    {
+        ArgumentNullException.ThrowIfNull(limits);
+
+        return new SendingLimitsDto
+        {
+            ConnectionsPerDay = limits.ConnectionsPerDay,
+            MessagesPerDay = limits.MessagesPerDay,
+            StartHour = limits.StartHour,
+            EndHour = limits.EndHour,
+            Workdays = limits.Workdays.Select(d => d.ToString()).ToList(),
+            MinGapMinutes = limits.MinGapMinutes,
+            JitterMinutes = limits.JitterMinutes,
+            TimeZone = limits.TimeZone,
+        };
+    }
+
+    /// <summary>
+    /// Checks the limits a client sent.
+    /// </summary>
+    /// <returns>The limits, or the reason they cannot be used.</returns>
+    internal (SendingLimits? Limits, string? Error) ToLimits()
+    {
+        string? error = this.Validate();
+        if (error is not null)
+        {
+            return (null, error);
+        }
+
+        List<DayOfWeek> workdays = this.Workdays
+            .Select(d => Enum.Parse<DayOfWeek>(d))
+            .Distinct()
+            .ToList();
+        return (
+            new SendingLimits(
+                this.ConnectionsPerDay,
+                this.MessagesPerDay,
+                this.StartHour,
+                this.EndHour,
+                workdays,
+                this.MinGapMinutes,
+                this.JitterMinutes,
+                this.TimeZone),
+            null);
+    }
+
+    private string? Validate()
+    {
+        if (this.ConnectionsPerDay < 1 || this.ConnectionsPerDay > MaxConnectionsPerDay)
+        {
+            return $"Connection requests per day must be between 1 and {MaxConnectionsPerDay}.";
+        }
+
+        if (this.MessagesPerDay < 0 || this.MessagesPerDay > MaxMessagesPerDay)
+        {
+            return $"Messages per day must be between 0 and {MaxMessagesPerDay}.";
+        }
+
+        if (this.StartHour < 0 || this.EndHour > HoursPerDay || this.StartHour >= this.EndHour)
+        {
+            return "Working hours must end after they start, within one day.";
+        }
+
+        if (this.Workdays.Count == 0 || !this.Workdays.All(d => Enum.TryParse(d, out DayOfWeek day) && Enum.IsDefined(day)))
+        {
+            return "Pick at least one workday by its English name, such as Monday.";
+        }
+
+        if (this.MinGapMinutes < 0 || this.MinGapMinutes > MaxPauseMinutes || this.JitterMinutes < 0 || this.JitterMinutes > MaxPauseMinutes)
+        {
+            return $"Pauses between actions must be between 0 and {MaxPauseMinutes} minutes.";
+        }
+
+        return TimeZoneInfo.TryFindSystemTimeZoneById(this.TimeZone, out _) ? null : $"Unknown time zone '{this.TimeZone}'.";
+    }
+}
@@ -0,0 +1,134 @@
+// -----------------------------------------------------------------------
+// <copyright file="SettingsDto.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using OutreachGenie.Api.Domain.Services;
+
+namespace OutreachGenie.Api.Models;
+
+/// <summary>
+/// The user's settings as the frontend edits them. The checks match the frontend's own, so a
+/// draft it accepts is never turned down here.
+/// </summary>
+public sealed class SettingsDto
+{
+    private const int MinMaxTokens = 256;
+    private const int MaxMaxTokens = 8192;
+    private const double MinTemperature = 0;
+    private const double MaxTemperature = 2;
+
+    /// <summary>
+    /// Whether the developer tools are shown.
+    /// </summary>
+    public required bool DeveloperMode { get; init; }
+
+    /// <summary>
+    /// Agent API endpoint, an http or https URL.
+    /// </summary>
+    public required string ApiEndpoint { get; init; }
+
+    /// <summary>
+    /// Model the agent runs on.
+    /// </summary>
+    public required string ModelName { get; init; }
+
+    /// <summary>
+    /// Most tokens an answer may use, from 256 to 8192.
+    /// </summary>
+    public required int MaxTokens { get; init; }
+
+    /// <summary>
+    /// Sampling temperature, from 0 to 2.
+    /// </summary>
+    public required double Temperature { get; init; }
+
+    /// <summary>
+    /// Whether drafts are saved automatically.
+    /// </summary>
+    public required bool AutoSave { get; init; }
+
+    /// <summary>
+    /// Whether notifications are shown.
+    /// </summary>
+    public required bool Notifications { get; init; }
+
+    /// <summary>
+    /// Creates the DTO for saved settings.
+    /// </summary>
+    internal static SettingsDto FromSettings(UserSettings settings)
+    {
+        ArgumentNullException.ThrowIfNull(settings);
+
+        return new SettingsDto
+        {
+            DeveloperMode = settings.DeveloperMode,
+            ApiEndpoint = settings.ApiEndpoint,
+            ModelName = settings.ModelName,
+            MaxTokens = settings.MaxTokens,
+            Temperature = settings.Temperature,
+            AutoSave = settings.AutoSave,
+            Notifications = settings.Notifications,
+        };
+    }
+
+    /// <summary>
+    /// Checks the settings a client sent.
+    /// </summary>
+    /// <returns>The settings with their text trimmed, or the reason they cannot be saved.</returns>
+    internal (UserSettings? Settings, string? Error) ToSettings()
+    {
+        string? error = this.Validate();
+        if (error is not null)
+        {
+            return (null, error);
+        }
+
+        return (
+            new UserSettings(
+                this.DeveloperMode,
+                this.ApiEndpoint.Trim(),
+                this.ModelName.Trim(),
+                this.MaxTokens,
+                this.Temperature,
+                this.AutoSave,
+                this.Notifications),
+            null);
+    }
+
+    private string? Validate()
+    {
+        if (!Uri.TryCreate(this.ApiEndpoint?.Trim(), UriKind.Absolute, out Uri? endpoint))
+        {
+            return "Enter a valid URL";
+        }
+
+        if (endpoint.Scheme != Uri.UriSchemeHttp && endpoint.Scheme != Uri.UriSchemeHttps)
+        {
+            return "The endpoint must use http or https";
+        }
+
+        if (string.IsNullOrWhiteSpace(this.ModelName))
+        {
+            return "A model name is required";
+        }
+
+        if (this.MaxTokens < MinMaxTokens)
+        {
+            return $"Max tokens must be at least {MinMaxTokens}";
+        }
+
+        if (this.MaxTokens > MaxMaxTokens)
+        {
+            return $"Max tokens must be at most {MaxMaxTokens}";
+        }
+
+        if (this.Temperature < MinTemperature)
+        {
+            return $"Temperature must be at least {MinTemperature}";
+        }
+
+        return this.Temperature > MaxTemperature ? $"Temperature must be at most {MaxTemperature}" : null;
+    }
+}
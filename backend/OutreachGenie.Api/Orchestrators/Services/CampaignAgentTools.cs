@@ -7,11 +7,12 @@
 using System.ComponentModel;
 using System.Diagnostics.CodeAnalysis;
 using System.Text.Json;
-using Microsoft.Extensions.AI;
+using Microsoft.AspNetCore.SignalR;
 using OutreachGenie.Api.Domain.Abstractions;
 using OutreachGenie.Api.Domain.Entities;
 using OutreachGenie.Api.Domain.Models;
 using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Hubs;
 using OutreachGenie.Api.Infrastructure.Repositories;
 
 namespace OutreachGenie.Api.Orchestrators.Services;
@@ -29,6 +30,7 @@ public sealed class CampaignAgentTools
     private readonly ICampaignRepository campaignRepository;
     private readonly ITaskService taskService;
     private readonly IEventLog eventLog;
+    private readonly IHubContext<AgentHub> hub;
     private readonly ILogger<CampaignAgentTools> logger;
 
     /// <summary>
@@ -38,11 +40,13 @@ public sealed class CampaignAgentTools
         ICampaignRepository campaignRepository,
         ITaskService taskService,
         IEventLog eventLog,
+        IHubContext<AgentHub> hub,
         ILogger<CampaignAgentTools> logger)
     {
         this.campaignRepository = campaignRepository;
         this.taskService = taskService;
         this.eventLog = eventLog;
+        this.hub = hub;
         this.logger = logger;
     }
 
@@ -68,7 +72,8 @@ public sealed class CampaignAgentTools
 
         // Log event
         var campaignEvent = new CampaignCreatedEvent(campaign.Id, name);
-        await this.eventLog.Append(campaignEvent);
+        await this.eventLog.Append(campaignEvent, EventActor.Agent);
+        await this.Announce(campaign);
 
         // Return the GUID directly for easier parsing by LLM
         return $"Campaign created successfully with ID: {campaign.Id}. Use this exact ID in subsequent tool calls (CreateTask, DiscoverLeads, etc.)";
@@ -98,7 +103,8 @@ public sealed class CampaignAgentTools
             campaignGuid,
             title,
             description,
-            requiresApproval);
+            requiresApproval,
+            EventActor.Agent);
 
         if (!result.IsSuccess)
         {
@@ -224,7 +230,8 @@ public sealed class CampaignAgentTools
 
         // Log event
         var leadsEvent = new LeadsDiscoveredEvent(campaignGuid, count, "Simulated Discovery");
-        await this.eventLog.Append(leadsEvent);
+        await this.eventLog.Append(leadsEvent, EventActor.Agent);
+        await this.Announce(campaign);
 
         return $"Successfully discovered {count} leads for campaign {campaign.Name}";
     }
@@ -253,24 +260,8 @@ public sealed class CampaignAgentTools
             return "Error: Score must be between 0 and 100";
         }
 
-        // Find the campaign that contains this lead
-        IEnumerable<Campaign> campaigns = await this.campaignRepository.GetAll();
-        Campaign? campaign = null;
-        Lead? lead = null;
-
-        foreach (Campaign c in campaigns)
-        {
-            Campaign? fullCampaign = await this.campaignRepository.LoadComplete(c.Id);
-            if (fullCampaign != null)
-            {
-                lead = fullCampaign.Leads.FirstOrDefault(l => l.Id == leadGuid);
-                if (lead != null)
-                {
-                    campaign = fullCampaign;
-                    break;
-                }
-            }
-        }
+        Campaign? campaign = await this.campaignRepository.LoadByLead(leadGuid);
+        Lead? lead = campaign?.Leads.FirstOrDefault(l => l.Id == leadGuid);
 
         if (lead == null || campaign == null)
         {
@@ -285,9 +276,16 @@ public sealed class CampaignAgentTools
 
         // Log event
         var scoreEvent = new LeadScoredEvent(leadGuid, campaign.Id, score, rationale);
-        await this.eventLog.Append(scoreEvent);
+        await this.eventLog.Append(scoreEvent, EventActor.Agent);
+        await this.Announce(campaign);
 
         return $"Lead {leadGuid} scored successfully with {score}/100. Rationale: {rationale}";
     }
-}
 
+    private Task Announce(Campaign campaign)
+    {
+        return this.hub.Clients.All.SendAsync(
+            nameof(CampaignStateChanged),
+            new CampaignStateChanged(campaign.Id, campaign.Phase.ToString(), DateTime.UtcNow));
+    }
+}
@@ -0,0 +1,190 @@
+// -----------------------------------------------------------------------
+// <copyright file="OutreachAgentTools.cs" company="OutreachGenie">
+// Copyright (c) OutreachGenie. All rights reserved.
+// </copyright>
+// -----------------------------------------------------------------------
+
+using System.ComponentModel;
+using System.Diagnostics.CodeAnalysis;
+using Microsoft.AspNetCore.SignalR;
+using OutreachGenie.Api.Domain.Entities;
+using OutreachGenie.Api.Domain.Models;
+using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Hubs;
+using OutreachGenie.Api.Infrastructure.Repositories;
+using OutreachGenie.Api.Models;
+
+namespace OutreachGenie.Api.Orchestrators.Services;
+
+/// <summary>
+/// Agent tools that record outreach to leads.
+/// Every connection request and message is checked against the sending limits before it is recorded.
+/// </summary>
+[SuppressMessage("Performance", "CA1812:Avoid uninstantiated public classes", Justification = "Instantiated via dependency injection")]
+public sealed class OutreachAgentTools
+{
+    private readonly ICampaignRepository campaignRepository;
+    private readonly IEventLog eventLog;
+    private readonly ISendingGuard guard;
+    private readonly IHubContext<AgentHub> hub;
+    private readonly ILogger<OutreachAgentTools> logger;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="OutreachAgentTools"/> class.
+    /// </summary>
+    public OutreachAgentTools(
+        ICampaignRepository campaignRepository,
+        IEventLog eventLog,
+        ISendingGuard guard,
+        IHubContext<AgentHub> hub,
+        ILogger<OutreachAgentTools> logger)
+    {
+        this.campaignRepository = campaignRepository;
+        this.eventLog = eventLog;
+        this.guard = guard;
+        this.hub = hub;
+        this.logger = logger;
+    }
+
+    /// <summary>
+    /// Records outreach progress of a lead.
+    /// </summary>
+    [Description("Record that outreach moved a lead forward: ConnectionSent, Accepted, Replied or MeetingBooked. Stages only move forward.")]
+    public async Task<string> AdvanceLead(
+        [Description("Lead identifier (GUID)")] string leadId,
+        [Description("Stage reached: ConnectionSent, Accepted, Replied or MeetingBooked")] string stage)
+    {
+        if (!Guid.TryParse(leadId, out Guid leadGuid))
+        {
+            return $"Error: Invalid lead ID '{leadId}'. Must be a valid GUID.";
+        }
+
+        if (!Enum.TryParse(stage, ignoreCase: true, out LeadStage reached) || reached <= LeadStage.Scored)
+        {
+            return $"Error: Invalid stage '{stage}'. Use ConnectionSent, Accepted, Replied or MeetingBooked.";
+        }
+
+        this.logger.LogInformation(
+            "Agent advancing lead {LeadId} to {Stage}",
+            leadGuid,
+            reached);
+
+        Campaign? campaign = await this.campaignRepository.LoadByLead(leadGuid);
+
+        if (campaign == null)
+        {
+            return $"Error: Lead {leadGuid} not found";
+        }
+
+        // Check and record under one lock, or two concurrent calls could both pass the limits
+        return await this.guard.Exclusively(() => this.Advance(campaign, leadGuid, reached));
+    }
+
+    /// <summary>
+    /// Records a message sent to a lead.
+    /// </summary>
+    [Description("Record that a message was sent to a lead who accepted the connection request. The message goes out from the sender that contacted the lead, within the sending limits.")]
+    public async Task<string> MessageLead(
+        [Description("Lead identifier (GUID)")] string leadId)
+    {
+        if (!Guid.TryParse(leadId, out Guid leadGuid))
+        {
+            return $"Error: Invalid lead ID '{leadId}'. Must be a valid GUID.";
+        }
+
+        this.logger.LogInformation("Agent messaging lead {LeadId}", leadGuid);
+
+        Campaign? campaign = await this.campaignRepository.LoadByLead(leadGuid);
+
+        if (campaign == null)
+        {
+            return $"Error: Lead {leadGuid} not found";
+        }
+
+        return await this.guard.Exclusively(() => this.Message(campaign, leadGuid));
+    }
+
+    private async Task<string> Advance(Campaign campaign, Guid leadGuid, LeadStage reached)
+    {
+        IEnumerable<DomainEvent> changes = await this.eventLog.GetEvents(campaign.Id, nameof(LeadStageChangedEvent));
+        LeadStage current = StageOf(leadGuid, changes);
+        if (reached <= current)
+        {
+            return $"Error: Lead {leadGuid} already reached {current}. Stages only move forward.";
+        }
+
+        // A lead stays with the sender that contacted it; connection requests go out from the campaign's next sender
+        IReadOnlyList<OutreachStep> steps = OutreachStep.Read(changes);
+        Guid? senderId = steps.FirstOrDefault(s => s.LeadId == leadGuid)?.SenderId;
+        string from = string.Empty;
+        if (reached == LeadStage.ConnectionSent)
+        {
+            DateTime now = DateTime.UtcNow;
+            CampaignThrottle throttle = await this.guard.Throttle(campaign.Id);
+            (Sender? sender, DateTime? at) = senderId is Guid contacted
+                ? (throttle.Roster.FirstOrDefault(s => s.Id == contacted),
+                    throttle.NextAllowed(OutreachKind.ConnectionRequest, contacted, now))
+                : throttle.NextConnection(now, steps.LastOrDefault()?.SenderId);
+            if (at != now)
+            {
+                return Held("connection requests", campaign.Id, at);
+            }
+
+            senderId = sender?.Id ?? senderId;
+            from = sender is null ? string.Empty : $" from {sender.Name}";
+        }
+
+        await this.eventLog.Append(new LeadStageChangedEvent(leadGuid, campaign.Id, reached.ToString(), senderId), EventActor.Agent);
+        await this.Announce(campaign);
+
+        return $"Lead {leadGuid} advanced to {reached}{from}";
+    }
+
+    private async Task<string> Message(Campaign campaign, Guid leadGuid)
+    {
+        IEnumerable<DomainEvent> changes = await this.eventLog.GetEvents(campaign.Id, nameof(LeadStageChangedEvent));
+        LeadStage current = StageOf(leadGuid, changes);
+        if (current < LeadStage.Accepted)
+        {
+            return $"Error: Lead {leadGuid} is at {current}. Only leads who accepted the connection request can be messaged.";
+        }
+
+        IReadOnlyList<OutreachStep> steps = OutreachStep.Read(changes);
+        Guid? senderId = steps.FirstOrDefault(s => s.LeadId == leadGuid)?.SenderId;
+        DateTime now = DateTime.UtcNow;
+        CampaignThrottle throttle = await this.guard.Throttle(campaign.Id);
+        DateTime? at = throttle.NextAllowed(OutreachKind.Message, senderId, now);
+        if (at != now)
+        {
+            return Held("messages", campaign.Id, at);
+        }
+
+        await this.eventLog.Append(new LeadMessagedEvent(leadGuid, campaign.Id, senderId), EventActor.Agent);
+        await this.Announce(campaign);
+
+        Sender? sender = throttle.Roster.FirstOrDefault(s => s.Id == senderId);
+        string from = sender is null ? string.Empty : $" from {sender.Name}";
+        return $"Message to lead {leadGuid} recorded{from}";
+    }
+
+    // Furthest outreach stage a lead reached; leads without outreach count as Scored, the stage before it starts
+    private static LeadStage StageOf(Guid leadId, IEnumerable<DomainEvent> changes)
+    {
+        return LeadDto.StagesReached(changes).TryGetValue(leadId, out LeadStage stage) ? stage : LeadStage.Scored;
+    }
+
+    // Tells the agent when to come back instead of letting it retry right away
+    private static string Held(string what, Guid campaignId, DateTime? at)
+    {
+        return at is DateTime next
+            ? $"Error: The sending limits of campaign {campaignId} hold {what} until {next:u}. Do not retry before then."
+            : $"Error: The sending limits of campaign {campaignId} do not allow {what}. Ask the user to change them in Settings.";
+    }
+
+    private Task Announce(Campaign campaign)
+    {
+        return this.hub.Clients.All.SendAsync(
+            nameof(CampaignStateChanged),
+            new CampaignStateChanged(campaign.Id, campaign.Phase.ToString(), DateTime.UtcNow));
+    }
+}
@@ -8,11 +8,14 @@ using Azure.AI.OpenAI;
 using Azure.Identity;
 using Microsoft.Agents.AI;
 using Microsoft.Agents.AI.Hosting.AGUI.AspNetCore;
+using Microsoft.AspNetCore.DataProtection;
+using Microsoft.AspNetCore.SignalR;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.AI;
 using OpenAI.Chat;
 using OutreachGenie.Api.Data;
 using OutreachGenie.Api.Domain.Services;
+using OutreachGenie.Api.Hubs;
 using OutreachGenie.Api.Infrastructure.Repositories;
 using OutreachGenie.Api.Orchestrators.Services;
 
@@ -23,6 +26,7 @@ builder.Services.AddControllers();
 builder.Services.AddEndpointsApiExplorer();
 builder.Services.AddSwaggerGen();
 builder.Services.AddSignalR();
+builder.Services.AddHealthChecks();
 
 // Configure CORS for React frontend
 builder.Services.AddCors(options =>
@@ -49,8 +53,43 @@ builder.Services.AddTransient<ICampaignRepository, CampaignRepository>();
 builder.Services.AddTransient<IEventLog, EventLog>();
 builder.Services.AddTransient<ITaskService, TaskService>();
 
+// Agent runs outlive a single HTTP connection so clients can resume their streams
+builder.Services.AddSingleton<IRunJournal, RunJournal>();
+
+// Chat conversations are kept per campaign so a page reload does not lose them
+builder.Services.AddSingleton<IChatHistory>(_ => new FileChatHistory(
+    builder.Configuration["Chat:Path"] ?? "chat-history"));
+
+// Artifact versions are numbered in the database and their content written under one directory
+builder.Services.AddSingleton<IArtifactArchive>(sp => new ArtifactArchive(
+    sp.GetRequiredService<IDbContextFactory<OutreachGenieDbContext>>(),
+    sp.GetRequiredService<IEventLog>(),
+    sp.GetRequiredService<IHubContext<AgentHub>>(),
+    builder.Configuration["Artifacts:Path"] ?? "artifacts"));
+
+// The user's preferences from the Settings and Developer pages
+builder.Services.AddSingleton<ISettingsStore>(_ => new FileSettingsStore(
+    builder.Configuration["Settings:Path"] ?? "user-settings.json"));
+
+// Sender accounts, their campaign assignments and the sending limits checked against the event log
+builder.Services.AddSingleton<ISenderRoster>(_ => new FileSenderRoster(
+    builder.Configuration["Senders:Path"] ?? "senders.json"));
+builder.Services.AddSingleton<ISendingGuard, SendingGuard>();
+
+// LinkedIn cookies are encrypted at rest and checked without following LinkedIn's login redirects.
+// The keys are kept on disk so restarts and redeploys can still decrypt the stored cookies.
+builder.Services.AddDataProtection()
+    .SetApplicationName("OutreachGenie")
+    .PersistKeysToFileSystem(new DirectoryInfo(builder.Configuration["DataProtection:KeysPath"] ?? "keys"));
+builder.Services.AddSingleton<IVault>(sp => new ProtectedVault(
+    sp.GetRequiredService<IDataProtectionProvider>().CreateProtector("OutreachGenie.LinkedInCredential"),
+    builder.Configuration["Credentials:Path"] ?? "linkedin-credentials.dat"));
+builder.Services.AddHttpClient<ILinkedIn, HttpLinkedIn>()
+    .ConfigurePrimaryHttpMessageHandler(() => new HttpClientHandler { AllowAutoRedirect = false, UseCookies = false });
+
 // Register agent tools as transient
 builder.Services.AddTransient<CampaignAgentTools>();
+builder.Services.AddTransient<OutreachAgentTools>();
 
 // Configure AI Provider (supports both Azure OpenAI and OpenAI)
 string? openAIApiKey = builder.Configuration["OpenAI:ApiKey"] ?? Environment.GetEnvironmentVariable("OPENAI_API_KEY");
@@ -103,6 +142,7 @@ builder.Services.AddSingleton<IReadOnlyList<AITool>>(sp =>
 
     // Get tools instance (transient with pooled DbContext)
     CampaignAgentTools toolsInstance = sp.GetRequiredService<CampaignAgentTools>();
+    OutreachAgentTools outreachTools = sp.GetRequiredService<OutreachAgentTools>();
     List<AITool> tools =
     [
         AIFunctionFactory.Create(toolsInstance.CreateCampaign),
@@ -111,6 +151,8 @@ builder.Services.AddSingleton<IReadOnlyList<AITool>>(sp =>
         AIFunctionFactory.Create(toolsInstance.GetCampaignStatus),
         AIFunctionFactory.Create(toolsInstance.DiscoverLeads),
         AIFunctionFactory.Create(toolsInstance.ScoreLead),
+        AIFunctionFactory.Create(outreachTools.AdvanceLead),
+        AIFunctionFactory.Create(outreachTools.MessageLead),
     ];
 
     logger.LogInformation(
@@ -136,8 +178,10 @@ builder.Services.AddSingleton<string>(sp =>
         2. Call CreateTask() to add necessary tasks (Lead Discovery, Lead Scoring, Message Drafting, etc.)
         3. Use DiscoverLeads() to find prospects
         4. Use ScoreLead() to prioritize leads
-        5. Use GetCampaignStatus() to check progress
-        6. Use CompleteTask() to mark tasks done
+        5. Use AdvanceLead() to record outreach progress (connection sent, accepted, replied, meeting booked)
+           and MessageLead() to record messages; when the sending limits hold outreach, stop and report when it resumes
+        6. Use GetCampaignStatus() to check progress
+        7. Use CompleteTask() to mark tasks done
         
         After calling tools and completing the user's request, provide a summary of what you did.
         
@@ -191,6 +235,8 @@ app.UseRouting();
 app.UseAuthorization();
 
 app.MapControllers();
+app.MapHub<AgentHub>("/hubs/agent");
+app.MapHealthChecks("/api/health");
 
 // AG-UI removed since we're using direct IChatClient instead of AIAgent
 // Use the REST API at /api/agentchat/stream for chat functionality
@@ -0,0 +1,50 @@
+import { ActivityPoint } from '@/lib/analytics';
+import { Area, AreaChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CHART_COLORS, TOOLTIP_STYLE } from './chart-theme';
+
+interface ActivityChartProps {
+  data: ActivityPoint[];
+}
+
+const SERIES = [
+  { key: 'leadsDiscovered', name: 'Leads discovered', color: CHART_COLORS.primary },
+  { key: 'leadsScored', name: 'Leads scored', color: CHART_COLORS.success },
+  { key: 'tasksCompleted', name: 'Tasks completed', color: CHART_COLORS.warning },
+] as const;
+
+/**
+ * Daily agent activity taken from the audit log.
+ */
+export function ActivityChart({ data }: ActivityChartProps): JSX.Element {
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <AreaChart data={data}>
+        <defs>
+          {SERIES.map((series) => (
+            <linearGradient key={series.key} id={`color-${series.key}`} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor={series.color} stopOpacity={0.2} />
+              <stop offset="95%" stopColor={series.color} stopOpacity={0} />
+            </linearGradient>
+          ))}
+        </defs>
+        <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+        <XAxis dataKey="label" stroke={CHART_COLORS.axis} fontSize={12} />
+        <YAxis stroke={CHART_COLORS.axis} fontSize={12} allowDecimals={false} />
+        <Tooltip contentStyle={TOOLTIP_STYLE} />
+        <Legend />
+        {SERIES.map((series) => (
+          <Area
+            key={series.key}
+            type="monotone"
+            dataKey={series.key}
+            name={series.name}
+            stroke={series.color}
+            fillOpacity={1}
+            fill={`url(#color-${series.key})`}
+            strokeWidth={2}
+          />
+        ))}
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+}
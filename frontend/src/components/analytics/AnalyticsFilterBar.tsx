@@ -0,0 +1,51 @@
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AnalyticsFilters, Bucket, BUCKETS } from '@/lib/analytics-filters';
+import { Campaign, Sender } from '@/lib/api';
+import { DateRangePicker } from './DateRangePicker';
+import { FilterMultiSelect } from './FilterMultiSelect';
+
+interface AnalyticsFilterBarProps {
+  filters: AnalyticsFilters;
+  campaigns: Campaign[];
+  senders: Sender[];
+  today: Date;
+  onChange: (filters: AnalyticsFilters) => void;
+}
+
+const BUCKET_LABELS: Record<Bucket, string> = { day: 'Daily', week: 'Weekly', month: 'Monthly' };
+
+export function AnalyticsFilterBar({ filters, campaigns, senders, today, onChange }: AnalyticsFilterBarProps): JSX.Element {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <FilterMultiSelect
+        label="Campaigns"
+        noun={['campaign', 'campaigns']}
+        options={campaigns}
+        value={filters.campaignIds}
+        onChange={(campaignIds) => onChange({ ...filters, campaignIds })}
+      />
+      {senders.length > 0 && (
+        <FilterMultiSelect
+          label="Senders"
+          noun={['sender', 'senders']}
+          options={senders}
+          value={filters.senderIds}
+          onChange={(senderIds) => onChange({ ...filters, senderIds })}
+        />
+      )}
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={filters.bucket}
+        onValueChange={(bucket) => bucket && onChange({ ...filters, bucket: bucket as Bucket })}
+        aria-label="Group by"
+      >
+        {BUCKETS.map((bucket) => (
+          <ToggleGroupItem key={bucket} value={bucket}>{BUCKET_LABELS[bucket]}</ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <DateRangePicker value={filters.range} today={today} onChange={(range) => onChange({ ...filters, range })} />
+    </div>
+  );
+}
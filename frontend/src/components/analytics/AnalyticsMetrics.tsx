@@ -0,0 +1,58 @@
+import { ActivityTotals, percentChange } from '@/lib/analytics';
+import { CampaignMetrics } from '@/types/agent';
+import { CheckCircle2, Target, Users, Zap } from 'lucide-react';
+import { MetricCard } from './MetricCard';
+
+interface AnalyticsMetricsProps {
+  /** All-time totals of the selected campaigns. */
+  metrics: CampaignMetrics;
+  /** Activity in the selected period and in the equally long period before it. */
+  current: ActivityTotals;
+  previous: ActivityTotals;
+  comparison: string;
+}
+
+export function AnalyticsMetrics({ metrics, current, previous, comparison }: AnalyticsMetricsProps): JSX.Element {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <MetricCard
+        title="Active Campaigns"
+        value={String(metrics.activeCampaigns)}
+        detail={`of ${metrics.totalCampaigns} campaigns`}
+        icon={Zap}
+        color="text-primary"
+        bgColor="bg-accent"
+      />
+      <MetricCard
+        title="Leads Discovered"
+        value={current.leadsDiscovered.toLocaleString()}
+        detail={`${metrics.leadsDiscovered.toLocaleString()} all time`}
+        change={percentChange(current.leadsDiscovered, previous.leadsDiscovered)}
+        comparison={comparison}
+        icon={Users}
+        color="text-primary"
+        bgColor="bg-accent"
+      />
+      <MetricCard
+        title="Leads Scored"
+        value={current.leadsScored.toLocaleString()}
+        detail={`${metrics.leadsScored.toLocaleString()} all time`}
+        change={percentChange(current.leadsScored, previous.leadsScored)}
+        comparison={comparison}
+        icon={Target}
+        color="text-warning"
+        bgColor="bg-warning/10"
+      />
+      <MetricCard
+        title="Tasks Completed"
+        value={current.tasksCompleted.toLocaleString()}
+        detail={`${metrics.tasksCompleted} of ${metrics.totalTasks} planned all time`}
+        change={percentChange(current.tasksCompleted, previous.tasksCompleted)}
+        comparison={comparison}
+        icon={CheckCircle2}
+        color="text-success"
+        bgColor="bg-success/10"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { Button } from '@/components/ui/button';
+import { AlertCircle, BarChart3, RefreshCw } from 'lucide-react';
+
+interface AnalyticsStatusProps {
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+}
+
+/**
+ * Placeholder shown while the dashboard loads, after it failed, or when there is nothing to chart yet.
+ */
+export function AnalyticsStatus({ loading, error, onRetry }: AnalyticsStatusProps): JSX.Element {
+  return (
+    <div className="flex items-center justify-center py-24">
+      {loading ? (
+        <>
+          <RefreshCw className="w-6 h-6 mr-3 animate-spin text-muted-foreground" />
+          <p className="text-muted-foreground">Loading analytics...</p>
+        </>
+      ) : error ? (
+        <div className="text-center max-w-md" role="alert">
+          <AlertCircle className="w-10 h-10 mx-auto mb-3 text-destructive" />
+          <h3 className="text-lg font-semibold mb-1">Analytics unavailable</h3>
+          <p className="text-muted-foreground mb-4">Failed to load analytics: {error}</p>
+          <Button variant="outline" onClick={onRetry}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        </div>
+      ) : (
+        <div className="text-center max-w-md">
+          <BarChart3 className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
+          <h3 className="text-lg font-semibold mb-1">No data yet</h3>
+          <p className="text-muted-foreground">Create a campaign and metrics will appear here as the agent works.</p>
+        </div>
+      )}
+    </div>
+  );
+}
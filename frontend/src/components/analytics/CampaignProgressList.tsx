@@ -0,0 +1,53 @@
+import { CampaignStatus } from '@/lib/api';
+import { campaignProgress, CampaignSnapshot } from '@/lib/analytics';
+import { cn } from '@/lib/utils';
+
+interface CampaignProgressListProps {
+  snapshots: CampaignSnapshot[];
+}
+
+const statusDot: Partial<Record<CampaignStatus, string>> = {
+  [CampaignStatus.Active]: 'bg-success',
+  [CampaignStatus.Paused]: 'bg-warning',
+  [CampaignStatus.Cancelled]: 'bg-destructive',
+};
+
+export function CampaignProgressList({ snapshots }: CampaignProgressListProps): JSX.Element {
+  const ordered = [...snapshots].sort((a, b) => b.campaign.updatedAt.localeCompare(a.campaign.updatedAt));
+
+  return (
+    <div className="space-y-4">
+      {ordered.map((snapshot) => {
+        const { campaign, state } = snapshot;
+        const progress = campaignProgress(snapshot);
+        return (
+          <div
+            key={campaign.id}
+            data-campaign-id={campaign.id}
+            className="flex items-center justify-between p-4 rounded-xl bg-muted/50 hover:bg-muted transition-colors"
+          >
+            <div className="flex items-center gap-4">
+              <div className={cn('w-2 h-2 rounded-full', statusDot[campaign.status] ?? 'bg-muted-foreground')} />
+              <div>
+                <p className="font-medium text-foreground">{campaign.name}</p>
+                <p className="text-sm text-muted-foreground">{campaign.status}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-8">
+              <div className="text-right">
+                <p className="font-medium text-foreground">{state ? state.leadsDiscovered : '—'}</p>
+                <p className="text-sm text-muted-foreground">Leads</p>
+              </div>
+              <div className="w-24">
+                <div className="h-2 bg-muted rounded-full overflow-hidden">
+                  <div className="h-full bg-primary rounded-full transition-all" style={{ width: `${progress}%` }} />
+                </div>
+                <p className="text-xs text-muted-foreground mt-1 text-right">{progress}%</p>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
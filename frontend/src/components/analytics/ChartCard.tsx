@@ -0,0 +1,31 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LucideIcon } from 'lucide-react';
+import { ReactNode } from 'react';
+
+interface ChartCardProps {
+  icon: LucideIcon;
+  title: string;
+  description?: string;
+  /** Rendered at the right of the header, e.g. an export button. */
+  action?: ReactNode;
+  className?: string;
+  children: ReactNode;
+}
+
+export function ChartCard({ icon: Icon, title, description, action, className, children }: ChartCardProps): JSX.Element {
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Icon className="w-5 h-5 text-primary" />
+            {title}
+          </CardTitle>
+          {description && <CardDescription>{description}</CardDescription>}
+        </div>
+        {action}
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { DateRange, dayRange, lastDays } from '@/lib/analytics-filters';
+import { format } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { useState } from 'react';
+import { DateRange as DayPickerRange } from 'react-day-picker';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  /** Reference "today" for presets and the latest selectable day. */
+  today: Date;
+}
+
+const WEEK = 7;
+const MONTH = 30;
+const QUARTER = 90;
+const PRESET_DAYS = [WEEK, MONTH, QUARTER];
+
+export function DateRangePicker({ value, onChange, today }: DateRangePickerProps): JSX.Element {
+  const [open, setOpen] = useState(false);
+  // A range picked in the calendar only applies once both ends are chosen
+  const [draft, setDraft] = useState<DayPickerRange | undefined>();
+
+  const apply = (range: DateRange) => {
+    onChange(range);
+    setOpen(false);
+  };
+
+  const handleSelect = (range: DayPickerRange | undefined) => {
+    setDraft(range);
+    if (range?.from && range.to) {
+      apply(dayRange(range.from, range.to));
+    }
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        setDraft(undefined);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="Date range">
+          <CalendarIcon className="w-4 h-4 mr-2 text-primary" />
+          {format(value.from, 'MMM d, yyyy')} – {format(value.to, 'MMM d, yyyy')}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex gap-1 p-3 border-b border-border">
+          {PRESET_DAYS.map((days) => (
+            <Button key={days} variant="ghost" size="sm" onClick={() => apply(lastDays(today, days))}>
+              Last {days} days
+            </Button>
+          ))}
+        </div>
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={value.from}
+          selected={draft ?? value}
+          onSelect={handleSelect}
+          disabled={{ after: today }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
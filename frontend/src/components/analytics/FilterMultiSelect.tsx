@@ -0,0 +1,64 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ChevronDown } from 'lucide-react';
+
+interface FilterOption {
+  id: string;
+  name: string;
+}
+
+interface FilterMultiSelectProps {
+  /** Accessible name of the trigger, e.g. "Campaigns". */
+  label: string;
+  /** Singular and plural of what is selected, e.g. ['campaign', 'campaigns']. */
+  noun: [string, string];
+  options: FilterOption[];
+  /** Selected ids; empty means all. */
+  value: string[];
+  onChange: (ids: string[]) => void;
+}
+
+export function FilterMultiSelect({ label, noun: [one, many], options, value, onChange }: FilterMultiSelectProps): JSX.Element {
+  const toggle = (id: string, checked: boolean) =>
+    onChange(checked ? [...value, id] : value.filter((selected) => selected !== id));
+
+  const summary =
+    value.length === 0
+      ? `All ${many}`
+      : value.length === 1
+        ? (options.find((option) => option.id === value[0])?.name ?? `1 ${one}`)
+        : `${value.length} ${many}`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={label}>
+          <span className="max-w-40 truncate">{summary}</span>
+          <ChevronDown className="w-4 h-4 ml-2 text-muted-foreground" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="end">
+        <div className="max-h-64 overflow-y-auto">
+          {options.map((option) => (
+            <label
+              key={option.id}
+              className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted cursor-pointer"
+            >
+              <Checkbox
+                checked={value.includes(option.id)}
+                onCheckedChange={(checked) => toggle(option.id, checked === true)}
+              />
+              <span className="truncate">{option.name}</span>
+            </label>
+          ))}
+        </div>
+        {value.length > 0 && (
+          <Button variant="ghost" size="sm" className="w-full mt-1" onClick={() => onChange([])}>
+            Show all {many}
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
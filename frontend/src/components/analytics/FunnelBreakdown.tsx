@@ -0,0 +1,54 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CampaignSnapshot } from '@/lib/analytics';
+import { LeadStage } from '@/lib/api';
+import { buildFunnel, FUNNEL_STAGES } from '@/lib/funnel';
+
+interface FunnelBreakdownProps {
+  snapshots: CampaignSnapshot[];
+  onSelect: (stage: LeadStage, campaignId: string) => void;
+}
+
+/**
+ * Funnel counts per campaign, next to the campaign's phase, with end-to-end conversion.
+ */
+export function FunnelBreakdown({ snapshots, onSelect }: FunnelBreakdownProps): JSX.Element {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Campaign</TableHead>
+          <TableHead>Phase</TableHead>
+          {FUNNEL_STAGES.map(({ stage, label }) => (
+            <TableHead key={stage} className="text-right">{label}</TableHead>
+          ))}
+          <TableHead className="text-right">Meeting rate</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {snapshots.map(({ campaign, state, leads }) => {
+          const steps = buildFunnel(leads);
+          return (
+            <TableRow key={campaign.id} data-campaign-id={campaign.id}>
+              <TableCell className="font-medium">{campaign.name}</TableCell>
+              <TableCell className="text-muted-foreground">{state?.phase ?? '—'}</TableCell>
+              {steps.map((step) => (
+                <TableCell key={step.stage} className="text-right">
+                  <button
+                    type="button"
+                    className="underline-offset-2 hover:underline disabled:no-underline disabled:text-muted-foreground"
+                    disabled={step.count === 0}
+                    onClick={() => onSelect(step.stage, campaign.id)}
+                    aria-label={`${campaign.name} ${step.label}: ${step.count} leads`}
+                  >
+                    {step.count}
+                  </button>
+                </TableCell>
+              ))}
+              <TableCell className="text-right">{steps[steps.length - 1].overall}%</TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,46 @@
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Campaign, Lead, LeadStage } from '@/lib/api';
+import { stageLabel } from '@/lib/funnel';
+import { leadName } from '@/lib/leads';
+
+interface FunnelDrillDownProps {
+  stage: LeadStage | null;
+  leads: Lead[];
+  campaigns: Campaign[];
+  onClose: () => void;
+}
+
+/**
+ * Leads that reached one funnel stage.
+ */
+export function FunnelDrillDown({ stage, leads, campaigns, onClose }: FunnelDrillDownProps): JSX.Element {
+  const campaignName = (id: string) => campaigns.find((c) => c.id === id)?.name ?? id;
+
+  return (
+    <Sheet open={stage !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{stage && stageLabel(stage)}</SheetTitle>
+          <SheetDescription>
+            {leads.length} {leads.length === 1 ? 'lead' : 'leads'} reached this stage
+          </SheetDescription>
+        </SheetHeader>
+        <ul className="mt-6 divide-y divide-border" aria-label="Stage leads">
+          {leads.map((lead) => (
+            <li key={lead.id} data-lead-id={lead.id} className="flex items-center gap-3 py-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{leadName(lead)}</p>
+                <p className="text-xs text-muted-foreground truncate">{campaignName(lead.campaignId)}</p>
+              </div>
+              {lead.score !== null && <span className="text-sm text-muted-foreground">{lead.score}/100</span>}
+              <Badge variant="outline" className="text-xs">
+                {stageLabel(lead.stage)}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,59 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { ArrowDownRight, ArrowUpRight, LucideIcon } from 'lucide-react';
+import { ReactNode } from 'react';
+
+interface MetricCardProps {
+  title: string;
+  value: string;
+  icon: LucideIcon;
+  color: string;
+  bgColor: string;
+  /** Secondary line under the title, e.g. the share the value represents. */
+  detail?: ReactNode;
+  /** Percent change versus the comparison period; null when there is no baseline. */
+  change?: number | null;
+  /** What `change` is measured against, e.g. "vs previous 7 days". */
+  comparison?: string;
+}
+
+function Trend({ change, comparison }: { change: number | null; comparison: string | undefined }): JSX.Element {
+  if (change === null) {
+    return (
+      <span className="text-sm text-muted-foreground" title="No activity in the comparison period">
+        —
+      </span>
+    );
+  }
+  const Arrow = change >= 0 ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span
+      className={cn('flex items-center gap-1 text-sm', change >= 0 ? 'text-success' : 'text-destructive')}
+      title={comparison}
+    >
+      <Arrow className="w-4 h-4" />
+      {change > 0 ? '+' : ''}
+      {change}%
+    </span>
+  );
+}
+
+export function MetricCard({ title, value, icon: Icon, color, bgColor, detail, change, comparison }: MetricCardProps): JSX.Element {
+  return (
+    <Card className="metric-card">
+      <CardContent className="p-6">
+        <div className="flex items-start justify-between">
+          <div className={`w-10 h-10 rounded-xl ${bgColor} flex items-center justify-center`}>
+            <Icon className={`w-5 h-5 ${color}`} />
+          </div>
+          {change !== undefined && <Trend change={change} comparison={comparison} />}
+        </div>
+        <div className="mt-4">
+          <p className="text-2xl font-bold text-foreground">{value}</p>
+          <p className="text-sm text-muted-foreground">{title}</p>
+          {detail && <p className="text-xs text-muted-foreground mt-1">{detail}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
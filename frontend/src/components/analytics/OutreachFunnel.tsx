@@ -0,0 +1,69 @@
+import { LeadStage } from '@/lib/api';
+import { FunnelStep } from '@/lib/funnel';
+import { Cell, Funnel, FunnelChart, LabelList, ResponsiveContainer, Tooltip } from 'recharts';
+import { CHART_COLORS, TOOLTIP_STYLE } from './chart-theme';
+
+interface OutreachFunnelProps {
+  steps: FunnelStep[];
+  onSelectStage: (stage: LeadStage) => void;
+}
+
+// Later stages fade so the narrowing reads at a glance
+const MIN_OPACITY = 0.35;
+
+/**
+ * Funnel from discovery to meeting booked with per-stage conversion; each stage opens its leads.
+ */
+export function OutreachFunnel({ steps, onSelectStage }: OutreachFunnelProps): JSX.Element {
+  const fade = (1 - MIN_OPACITY) / Math.max(steps.length - 1, 1);
+
+  return (
+    <div className="space-y-4">
+      <div className="h-[200px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <FunnelChart>
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            <Funnel
+              dataKey="count"
+              nameKey="label"
+              data={steps}
+              isAnimationActive={false}
+            >
+              {steps.map((step, i) => (
+                <Cell
+                  key={step.stage}
+                  fill={CHART_COLORS.primary}
+                  fillOpacity={1 - fade * i}
+                  cursor="pointer"
+                  onClick={() => onSelectStage(step.stage)}
+                />
+              ))}
+              <LabelList position="center" dataKey="count" fill="hsl(0, 0%, 100%)" fontSize={12} />
+            </Funnel>
+          </FunnelChart>
+        </ResponsiveContainer>
+      </div>
+
+      <ol className="space-y-1" aria-label="Funnel stages">
+        {steps.map((step, i) => (
+          <li key={step.stage}>
+            <button
+              type="button"
+              className="w-full flex items-center justify-between rounded-md px-2 py-1.5 text-sm hover:bg-muted transition-colors"
+              onClick={() => onSelectStage(step.stage)}
+              aria-label={`${step.label}: ${step.count} leads`}
+            >
+              <span className="font-medium text-foreground">{step.label}</span>
+              <span className="flex items-center gap-3">
+                <span className="text-foreground">{step.count}</span>
+                <span className="w-14 text-right text-muted-foreground" title="Conversion from the previous stage">
+                  {i === 0 ? '—' : `${step.conversion}%`}
+                </span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
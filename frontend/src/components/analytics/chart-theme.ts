@@ -0,0 +1,15 @@
+/** Shared recharts styling for the analytics dashboard. */
+
+export const CHART_COLORS = {
+  primary: 'hsl(210, 100%, 40%)',
+  success: 'hsl(142, 76%, 36%)',
+  warning: 'hsl(38, 92%, 50%)',
+  grid: 'hsl(214, 32%, 91%)',
+  axis: 'hsl(215, 16%, 47%)',
+};
+
+export const TOOLTIP_STYLE = {
+  backgroundColor: 'hsl(0, 0%, 100%)',
+  border: `1px solid ${CHART_COLORS.grid}`,
+  borderRadius: '12px',
+};
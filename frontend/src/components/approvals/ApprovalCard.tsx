@@ -0,0 +1,84 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CampaignTask } from '@/lib/api';
+import { Check, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface ApprovalCardProps {
+  task: CampaignTask;
+  campaignName: string | undefined;
+  onApprove: (comment?: string) => Promise<boolean>;
+  onReject: (comment: string) => Promise<boolean>;
+}
+
+/**
+ * A single task awaiting sign-off. Rejecting requires a comment so the agent knows what to change.
+ */
+export function ApprovalCard({ task, campaignName, onApprove, onReject }: ApprovalCardProps): JSX.Element {
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const trimmed = comment.trim();
+  const commentId = `approval-comment-${task.id}`;
+
+  const submit = async (decision: () => Promise<boolean>) => {
+    setSubmitting(true);
+    const done = await decision();
+    if (!done) {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card data-approval-task={task.id}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-base">{task.title}</CardTitle>
+            <CardDescription className="mt-1">
+              {campaignName ?? 'Unknown campaign'} · requested {new Date(task.createdAt).toLocaleString()}
+            </CardDescription>
+          </div>
+          <Badge variant="outline">Step {task.orderIndex + 1}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {task.description && (
+          <p className="rounded-md bg-muted p-3 text-sm whitespace-pre-wrap break-words">{task.description}</p>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor={commentId}>Comment</Label>
+          <Textarea
+            id={commentId}
+            placeholder="Optional for approval, required to reject"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            disabled={submitting}
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={submitting || trimmed.length === 0}
+            onClick={() => { void submit(() => onReject(trimmed)); }}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Reject
+          </Button>
+          <Button
+            size="sm"
+            disabled={submitting}
+            onClick={() => { void submit(() => onApprove(trimmed || undefined)); }}
+          >
+            <Check className="w-4 h-4 mr-1" />
+            Approve
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
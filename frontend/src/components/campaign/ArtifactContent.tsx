@@ -0,0 +1,48 @@
+import { MarkdownContent } from '@/components/chat/MarkdownContent';
+import { JsonInspector } from '@/components/events/JsonInspector';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Artifact } from '@/lib/api';
+import { artifactFormat } from '@/lib/artifacts';
+import { parseCsv } from '@/lib/csv';
+
+interface ArtifactContentProps {
+  artifact: Artifact;
+}
+
+function CsvTable({ content }: { content: string }): JSX.Element {
+  const [header = [], ...rows] = parseCsv(content);
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {header.map((cell, i) => (
+            <TableHead key={i}>{cell}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row, r) => (
+          <TableRow key={r}>
+            {row.map((cell, i) => (
+              <TableCell key={i}>{cell}</TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Renders an artifact as markdown, a JSON tree, or a table for CSV content.
+ */
+export function ArtifactContent({ artifact }: ArtifactContentProps): JSX.Element {
+  switch (artifactFormat(artifact)) {
+    case 'json':
+      return <JsonInspector value={JSON.parse(artifact.content) as unknown} />;
+    case 'csv':
+      return <CsvTable content={artifact.content} />;
+    default:
+      return <MarkdownContent content={artifact.content} />;
+  }
+}
@@ -0,0 +1,84 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Artifact } from '@/lib/api';
+import { DiffCell, DiffKind, sideBySideDiff } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+import { useMemo, useState } from 'react';
+
+interface ArtifactDiffProps {
+  /** Versions of one artifact, newest first. */
+  versions: Artifact[];
+}
+
+const LEFT_STYLES: Partial<Record<DiffKind, string>> = { removed: 'bg-destructive/10', changed: 'bg-destructive/10' };
+const RIGHT_STYLES: Partial<Record<DiffKind, string>> = { added: 'bg-success/10', changed: 'bg-success/10' };
+
+interface VersionSelectProps {
+  label: string;
+  versions: Artifact[];
+  value: number;
+  onChange: (version: number) => void;
+}
+
+function VersionSelect({ label, versions, value, onChange }: VersionSelectProps): JSX.Element {
+  return (
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="w-44" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((v) => (
+          <SelectItem key={v.id} value={String(v.version)}>
+            v{v.version} · {v.source}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function Cell({ cell, className }: { cell: DiffCell | null; className: string | undefined }): JSX.Element {
+  return (
+    <>
+      <td className="w-10 select-none px-2 text-right text-muted-foreground align-top">{cell?.line}</td>
+      <td className={cn('px-2 whitespace-pre-wrap break-words align-top', cell ? className : 'bg-muted/40')}>{cell?.text}</td>
+    </>
+  );
+}
+
+/**
+ * Side-by-side comparison of any two versions of an artifact.
+ */
+export function ArtifactDiff({ versions }: ArtifactDiffProps): JSX.Element {
+  const [to, setTo] = useState(versions[0]?.version ?? 0);
+  const [from, setFrom] = useState(versions[1]?.version ?? to);
+  const rows = useMemo(() => {
+    const content = (version: number) => versions.find((v) => v.version === version)?.content ?? '';
+    return sideBySideDiff(content(from), content(to));
+  }, [from, to, versions]);
+  const changes = rows.filter((row) => row.kind !== 'same').length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <VersionSelect label="Compare from" versions={versions} value={from} onChange={setFrom} />
+        <span className="text-muted-foreground">to</span>
+        <VersionSelect label="Compare to" versions={versions} value={to} onChange={setTo} />
+        <span className="ml-auto text-xs text-muted-foreground">
+          {changes === 0 ? 'No differences' : `${changes} changed ${changes === 1 ? 'line' : 'lines'}`}
+        </span>
+      </div>
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full table-fixed font-mono text-xs" aria-label="Version diff">
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i} data-diff={row.kind}>
+                <Cell cell={row.left} className={LEFT_STYLES[row.kind]} />
+                <Cell cell={row.right} className={RIGHT_STYLES[row.kind]} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
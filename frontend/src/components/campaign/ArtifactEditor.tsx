@@ -0,0 +1,62 @@
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useCreateArtifact } from '@/hooks/use-artifact-queries';
+import { useToast } from '@/hooks/use-toast';
+import { Artifact, ArtifactSource } from '@/lib/api';
+import { artifactFormat, contentError } from '@/lib/artifacts';
+import { useState } from 'react';
+
+interface ArtifactEditorProps {
+  /** Version the edit starts from. */
+  artifact: Artifact;
+  onSaved: (artifact: Artifact) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Edits an artifact's content and saves it as a new user version; earlier versions stay untouched.
+ */
+export function ArtifactEditor({ artifact, onSaved, onCancel }: ArtifactEditorProps): JSX.Element {
+  const [content, setContent] = useState(artifact.content);
+  const createArtifact = useCreateArtifact();
+  const saving = createArtifact.isPending;
+  const { toast } = useToast();
+  const format = artifactFormat(artifact);
+  const error = contentError(format, content);
+
+  const handleSave = (): void => {
+    createArtifact.mutate(
+      { campaignId: artifact.campaignId, type: artifact.type, key: artifact.key, content, source: ArtifactSource.User },
+      {
+        onSuccess: (saved) => {
+          toast({ title: 'Artifact saved', description: `${artifact.key} is now at version ${saved.version}.` });
+          onSaved(saved);
+        },
+        onError: (error) => {
+          toast({ title: 'Error', description: `Failed to save artifact: ${error.message}`, variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        aria-label={`Content of ${artifact.key}`}
+        className="min-h-[320px] font-mono text-xs"
+        spellCheck={format === 'markdown'}
+      />
+      {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={saving || error !== null || content === artifact.content}>
+          {saving ? 'Saving...' : `Save as v${artifact.version + 1}`}
+        </Button>
+      </div>
+    </div>
+  );
+}
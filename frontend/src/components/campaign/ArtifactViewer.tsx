@@ -0,0 +1,86 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Artifact } from '@/lib/api';
+import { ArtifactGroup } from '@/lib/artifacts';
+import { GitCompare, Pencil } from 'lucide-react';
+import { useState } from 'react';
+import { ArtifactContent } from './ArtifactContent';
+import { ArtifactDiff } from './ArtifactDiff';
+import { ArtifactEditor } from './ArtifactEditor';
+
+interface ArtifactViewerProps {
+  group: ArtifactGroup;
+  onSaved?: (artifact: Artifact) => void;
+}
+
+type Mode = 'view' | 'edit' | 'compare';
+
+/**
+ * One artifact: any version rendered by format, an editor that saves a new version, and a version diff.
+ */
+export function ArtifactViewer({ group, onSaved }: ArtifactViewerProps): JSX.Element {
+  const [mode, setMode] = useState<Mode>('view');
+  const [selected, setSelected] = useState<number | null>(null);
+  const [latest] = group.versions;
+  const artifact = group.versions.find((v) => v.version === selected) ?? latest;
+
+  if (!artifact) {
+    return <></>;
+  }
+
+  const handleSaved = (saved: Artifact) => {
+    setSelected(null);
+    setMode('view');
+    onSaved?.(saved);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="font-medium">{group.key}</h3>
+        <Badge variant="outline" className="text-xs">{group.type}</Badge>
+        <Badge variant="secondary" className="text-xs">{artifact.source}</Badge>
+        <div className="ml-auto flex gap-2">
+          {mode === 'view' && (
+            <Select value={String(artifact.version)} onValueChange={(v) => setSelected(Number(v))}>
+              <SelectTrigger className="w-36" aria-label="Version">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {group.versions.map((v) => (
+                  <SelectItem key={v.id} value={String(v.version)}>
+                    v{v.version}{v === latest ? ' (latest)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant={mode === 'edit' ? 'secondary' : 'outline'} size="sm" onClick={() => setMode('edit')}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit
+          </Button>
+          <Button
+            variant={mode === 'compare' ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setMode(mode === 'compare' ? 'view' : 'compare')}
+            disabled={group.versions.length <= 1}
+          >
+            <GitCompare className="w-4 h-4 mr-2" />
+            Compare
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        v{artifact.version} · saved {new Date(artifact.createdAt).toLocaleString()}
+      </p>
+
+      {mode === 'edit' && (
+        <ArtifactEditor key={artifact.id} artifact={artifact} onSaved={handleSaved} onCancel={() => setMode('view')} />
+      )}
+      {mode === 'compare' && <ArtifactDiff versions={group.versions} />}
+      {mode === 'view' && <ArtifactContent artifact={artifact} />}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Artifact } from '@/lib/api';
+import { groupArtifacts } from '@/lib/artifacts';
+import { cn } from '@/lib/utils';
+import { FileText } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { ArtifactViewer } from './ArtifactViewer';
+
+interface ArtifactsPanelProps {
+  artifacts: Artifact[];
+  onSaved?: (artifact: Artifact) => void;
+}
+
+/**
+ * Campaign artifacts grouped by type, with the selected artifact open next to the list.
+ */
+export function ArtifactsPanel({ artifacts, onSaved }: ArtifactsPanelProps): JSX.Element {
+  const groups = useMemo(() => groupArtifacts(artifacts), [artifacts]);
+  const types = useMemo(() => [...new Set(groups.map((group) => group.type))], [groups]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (groups.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No artifacts yet.</p>;
+  }
+
+  const idOf = (group: { type: string; key: string }) => `${group.type}/${group.key}`;
+  const selected = groups.find((group) => idOf(group) === selectedId) ?? groups[0];
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+      <nav aria-label="Artifacts" className="space-y-4">
+        {types.map((type) => (
+          <div key={type} className="space-y-1">
+            <h4 className="px-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">{type}</h4>
+            {groups
+              .filter((group) => group.type === type)
+              .map((group) => (
+                <button
+                  key={idOf(group)}
+                  type="button"
+                  data-artifact-key={group.key}
+                  aria-current={group === selected}
+                  onClick={() => setSelectedId(idOf(group))}
+                  className={cn(
+                    'flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted',
+                    group === selected && 'bg-muted font-medium'
+                  )}
+                >
+                  <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  <span className="truncate">{group.key}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {group.versions.map((v) => `v${v.version}`).join(', ')}
+                  </span>
+                </button>
+              ))}
+          </div>
+        ))}
+      </nav>
+      {selected && <ArtifactViewer key={idOf(selected)} group={selected} onSaved={onSaved} />}
+    </div>
+  );
+}
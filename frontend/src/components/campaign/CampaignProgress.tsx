@@ -0,0 +1,53 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { CampaignState } from '@/lib/api';
+
+interface CampaignProgressProps {
+  state: CampaignState;
+}
+
+const PERCENT = 100;
+
+function Stat({ label, value }: { label: string; value: string | number }): JSX.Element {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold text-foreground">{value}</p>
+    </div>
+  );
+}
+
+/**
+ * Agent-side progress of a campaign: phase, task completion and lead funnel.
+ */
+export function CampaignProgress({ state }: CampaignProgressProps): JSX.Element {
+  const percent = state.totalTasks > 0 ? Math.round((state.completedTasks / state.totalTasks) * PERCENT) : 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium">Progress</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              {state.completedTasks} of {state.totalTasks} tasks completed
+            </span>
+            <span className="font-medium">{percent}%</span>
+          </div>
+          <Progress value={percent} aria-label="Task completion" />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Phase" value={state.phase} />
+          <Stat label="Current task" value={state.currentTask?.title ?? 'None'} />
+          <Stat label="Leads discovered" value={state.leadsDiscovered} />
+          <Stat label="Leads scored" value={state.leadsScored} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Last updated {new Date(state.lastUpdated).toLocaleString()}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
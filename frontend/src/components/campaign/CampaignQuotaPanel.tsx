@@ -0,0 +1,80 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCampaignQuota } from '@/hooks/use-limit-queries';
+import { Quota } from '@/lib/api';
+import { nextActionLabel, quotaLabel, quotaPercent } from '@/lib/sending-limits';
+import { Clock } from 'lucide-react';
+
+interface CampaignQuotaPanelProps {
+  campaignId: string;
+}
+
+function QuotaBar({ label, quota }: { label: string; quota: Quota }): JSX.Element {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="font-medium">{quotaLabel(quota)}</span>
+      </div>
+      {quota.limit !== null && <Progress value={quotaPercent(quota)} aria-label={label} className="h-2" />}
+    </div>
+  );
+}
+
+/**
+ * Today's use of the sending limits by the campaign and each of its senders, and when the
+ * limits let the next action go out.
+ */
+export function CampaignQuotaPanel({ campaignId }: CampaignQuotaPanelProps): JSX.Element | null {
+  const { data: quota } = useCampaignQuota(campaignId);
+
+  if (!quota) {
+    return null;
+  }
+
+  const checkedAt = new Date(quota.checkedAt);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium">Sending quota today</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <QuotaBar label="Connection requests" quota={quota.connections} />
+          <QuotaBar label="Messages" quota={quota.messages} />
+        </div>
+        <p className="flex items-center gap-2 text-sm">
+          <Clock className="w-4 h-4 text-muted-foreground" />
+          <span className="text-muted-foreground">Next connection request:</span>
+          <span className="font-medium">{nextActionLabel(quota.nextConnectionAt, checkedAt)}</span>
+        </p>
+        {quota.senders.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sender</TableHead>
+                <TableHead>Requests</TableHead>
+                <TableHead>Messages</TableHead>
+                <TableHead>Next request</TableHead>
+                <TableHead>Next message</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quota.senders.map((sender) => (
+                <TableRow key={sender.senderId}>
+                  <TableCell className="font-medium">{sender.name}</TableCell>
+                  <TableCell>{quotaLabel(sender.connections)}</TableCell>
+                  <TableCell>{quotaLabel(sender.messages)}</TableCell>
+                  <TableCell>{nextActionLabel(sender.nextConnectionAt, checkedAt)}</TableCell>
+                  <TableCell>{nextActionLabel(sender.nextMessageAt, checkedAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+import { SenderPicker } from '@/components/senders/SenderPicker';
+import { Button } from '@/components/ui/button';
+import { useAssignCampaignSenders, useCampaignSenders, useSenders } from '@/hooks/use-sender-queries';
+import { CampaignSenders } from '@/lib/api';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useState } from 'react';
+
+interface CampaignSendersPanelProps {
+  campaignId: string;
+}
+
+/**
+ * The senders a campaign reaches out from. Changes are kept as a draft until saved.
+ */
+export function CampaignSendersPanel({ campaignId }: CampaignSendersPanelProps): JSX.Element {
+  const { data: senders = [], isPending: loadingSenders } = useSenders();
+  const { data: assigned, isPending: loadingAssignment } = useCampaignSenders(campaignId);
+  const assign = useAssignCampaignSenders(campaignId);
+  const [draft, setDraft] = useState<CampaignSenders | null>(null);
+  const value = draft ?? assigned;
+
+  if (loadingSenders || loadingAssignment || !value) {
+    return (
+      <div className="flex items-center gap-2 py-8 justify-center text-sm text-muted-foreground">
+        <RefreshCw className="w-4 h-4 animate-spin" />
+        Loading senders...
+      </div>
+    );
+  }
+
+  const handleSave = () => {
+    assign.mutate(value, { onSuccess: () => setDraft(null) });
+  };
+
+  return (
+    <div className="space-y-4 max-w-2xl">
+      <SenderPicker senders={senders} value={value} onChange={setDraft} disabled={assign.isPending} />
+      {draft && (
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setDraft(null)} disabled={assign.isPending}>
+            Discard
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={assign.isPending} className="gap-2">
+            {assign.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save senders
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { Badge } from '@/components/ui/badge';
+import { CampaignStatus } from '@/lib/api';
+
+type BadgeVariant = 'default' | 'secondary' | 'destructive' | 'outline';
+
+const getStatusBadgeVariant = (status: CampaignStatus): BadgeVariant => {
+  switch (status) {
+    case CampaignStatus.Initializing:
+      return 'secondary';
+    case CampaignStatus.Active:
+      return 'default';
+    case CampaignStatus.Paused:
+      return 'secondary';
+    case CampaignStatus.Completed:
+      return 'outline';
+    case CampaignStatus.Draft:
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+};
+
+export function CampaignStatusBadge({ status }: { status: CampaignStatus }): JSX.Element {
+  return <Badge variant={getStatusBadgeVariant(status)}>{status}</Badge>;
+}
@@ -0,0 +1,31 @@
+import { Badge } from '@/components/ui/badge';
+import { CampaignEvent } from '@/lib/api';
+
+interface EventListProps {
+  events: CampaignEvent[];
+}
+
+/**
+ * Campaign audit trail, newest first.
+ */
+export function EventList({ events }: EventListProps): JSX.Element {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No events recorded yet.</p>;
+  }
+
+  const ordered = [...events].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  return (
+    <ul className="divide-y divide-border">
+      {ordered.map((event) => (
+        <li key={event.id} className="flex items-center gap-3 py-2">
+          <span className="text-xs text-muted-foreground w-40 shrink-0">
+            {new Date(event.timestamp).toLocaleString()}
+          </span>
+          <span className="text-sm font-medium flex-1">{event.eventType}</span>
+          <Badge variant="outline" className="text-xs">{event.actor}</Badge>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,55 @@
+import { Badge } from '@/components/ui/badge';
+import { CampaignTask, TaskStatus } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { Ban, CheckCircle2, Circle, Loader2, ShieldQuestion, XCircle } from 'lucide-react';
+
+interface TaskListProps {
+  tasks: CampaignTask[];
+  currentTaskId?: string | undefined;
+}
+
+const statusIcons = {
+  [TaskStatus.Pending]: { icon: Circle, className: 'text-muted-foreground' },
+  [TaskStatus.AwaitingApproval]: { icon: ShieldQuestion, className: 'text-warning' },
+  [TaskStatus.InProgress]: { icon: Loader2, className: 'text-primary animate-spin' },
+  [TaskStatus.Completed]: { icon: CheckCircle2, className: 'text-success' },
+  [TaskStatus.Blocked]: { icon: Ban, className: 'text-destructive' },
+  [TaskStatus.Rejected]: { icon: XCircle, className: 'text-destructive' },
+};
+
+/**
+ * Task list of a campaign in plan order, with each task's status.
+ */
+export function TaskList({ tasks, currentTaskId }: TaskListProps): JSX.Element {
+  if (tasks.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No tasks yet.</p>;
+  }
+
+  const ordered = [...tasks].sort((a, b) => a.orderIndex - b.orderIndex);
+
+  return (
+    <ol className="space-y-2">
+      {ordered.map((task, index) => {
+        const { icon: Icon, className } = statusIcons[task.status] ?? statusIcons[TaskStatus.Pending];
+        return (
+          <li
+            key={task.id}
+            data-task-status={task.status}
+            className={cn(
+              'flex items-start gap-3 rounded-lg border border-border p-3',
+              task.id === currentTaskId && 'border-primary bg-accent/40'
+            )}
+          >
+            <span className="w-6 text-xs text-muted-foreground pt-0.5">{index + 1}.</span>
+            <Icon className={cn('w-4 h-4 mt-0.5 shrink-0', className)} />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-foreground">{task.title}</p>
+              <p className="text-xs text-muted-foreground">{task.description}</p>
+            </div>
+            <Badge variant="secondary" className="text-xs">{task.status}</Badge>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
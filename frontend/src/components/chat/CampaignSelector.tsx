@@ -0,0 +1,37 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCampaigns } from '@/hooks/use-campaign-queries';
+import { GENERAL_THREAD } from '@/lib/chat-history';
+
+interface CampaignSelectorProps {
+  value: string;
+  onChange: (thread: string) => void;
+  disabled?: boolean;
+}
+
+export function CampaignSelector({ value, onChange, disabled }: CampaignSelectorProps): JSX.Element {
+  const { data: campaigns = [] } = useCampaigns();
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="w-64" aria-label="Conversation campaign">
+        <SelectValue placeholder="Select a campaign" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={GENERAL_THREAD}>General conversation</SelectItem>
+        {campaigns.length > 0 && <SelectSeparator />}
+        {campaigns.map((campaign) => (
+          <SelectItem key={campaign.id} value={campaign.id}>
+            {campaign.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
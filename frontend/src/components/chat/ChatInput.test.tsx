@@ -30,7 +30,7 @@ describe('ChatInput', () => {
     const input = screen.getByPlaceholderText(/ask the agent/i);
     await user.type(input, 'Test message{Enter}');
     
-    expect(onSend).toHaveBeenCalledWith('Test message', []);
+    expect(onSend).toHaveBeenCalledWith('Test message');
   });
 
   it('should not send empty messages', async () => {
@@ -65,13 +65,28 @@ describe('ChatInput', () => {
     expect(buttons.length).toBeGreaterThan(0);
   });
 
-  it('should handle file attachments button', () => {
+  it('should send the typed message when the send button is clicked', async () => {
+    const user = userEvent.setup();
     const onSend = vi.fn();
+
     render(<ChatInput onSend={onSend} disabled={false} />);
-    
-    // Attachment button should be present
-    const buttons = screen.getAllByRole('button');
-    const MINIMUM_BUTTON_COUNT = 2;
-    expect(buttons.length).toBeGreaterThanOrEqual(MINIMUM_BUTTON_COUNT); // Send button + attachment button
+
+    await user.type(screen.getByPlaceholderText(/ask the agent/i), 'Clicked message');
+    await user.click(screen.getByRole('button'));
+
+    expect(onSend).toHaveBeenCalledWith('Clicked message');
+  });
+
+  it('should show stop button while a run is in flight', async () => {
+    const user = userEvent.setup();
+    const onSend = vi.fn();
+    const onStop = vi.fn();
+
+    render(<ChatInput onSend={onSend} disabled={true} isRunning={true} onStop={onStop} />);
+
+    await user.click(screen.getByRole('button', { name: /stop agent run/i }));
+
+    expect(onStop).toHaveBeenCalledTimes(1);
+    expect(onSend).not.toHaveBeenCalled();
   });
 });
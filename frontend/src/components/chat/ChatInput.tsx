@@ -1,14 +1,16 @@
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { Send } from 'lucide-react';
+import { Send, Square } from 'lucide-react';
 import { useRef, useState } from 'react';
 
 interface ChatInputProps {
   onSend: (message: string) => void;
   disabled?: boolean;
+  isRunning?: boolean;
+  onStop?: () => void;
 }
 
-export function ChatInput({ onSend, disabled }: ChatInputProps): JSX.Element {
+export function ChatInput({ onSend, disabled, isRunning, onStop }: ChatInputProps): JSX.Element {
   const [message, setMessage] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -47,15 +49,27 @@ export function ChatInput({ onSend, disabled }: ChatInputProps): JSX.Element {
             />
           </div>
 
-          <Button
-            variant="copilot"
-            size="icon-lg"
-            onClick={handleSubmit}
-            disabled={disabled || !message.trim()}
-            className="flex-shrink-0"
-          >
-            <Send className="w-5 h-5" />
-          </Button>
+          {isRunning && onStop ? (
+            <Button
+              variant="destructive"
+              size="icon-lg"
+              onClick={onStop}
+              className="flex-shrink-0 rounded-full"
+              aria-label="Stop agent run"
+            >
+              <Square className="w-5 h-5" />
+            </Button>
+          ) : (
+            <Button
+              variant="copilot"
+              size="icon-lg"
+              onClick={handleSubmit}
+              disabled={disabled || !message.trim()}
+              className="flex-shrink-0"
+            >
+              <Send className="w-5 h-5" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -1,6 +1,7 @@
 import { Message } from '@/types/agent';
-import { render, screen } from '@testing-library/react';
-import { describe, expect, it } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
 import { ChatMessage } from './ChatMessage';
 
 describe('ChatMessage', () => {
@@ -83,4 +84,105 @@ describe('ChatMessage', () => {
     expect(screen.getByText(/bold text/i)).toBeInTheDocument();
     expect(screen.getByText(/italic text/i)).toBeInTheDocument();
   });
+
+  it('should render markdown emphasis as formatted elements', () => {
+    const message: Message = {
+      id: '6',
+      role: 'assistant',
+      content: '**Bold text** and *italic text*',
+      timestamp: new Date('2026-01-11T15:20:00Z'),
+    };
+
+    render(<ChatMessage message={message} />);
+
+    expect(screen.getByText('Bold text').tagName).toBe('STRONG');
+    expect(screen.getByText('italic text').tagName).toBe('EM');
+  });
+
+  it('should render GFM tables and lists', () => {
+    const message: Message = {
+      id: '7',
+      role: 'assistant',
+      content: '| Name | Score |\n| --- | --- |\n| Jane Doe | 92 |\n\n- First step\n- Second step',
+      timestamp: new Date('2026-01-11T15:25:00Z'),
+    };
+
+    render(<ChatMessage message={message} />);
+
+    expect(screen.getByRole('table')).toBeInTheDocument();
+    expect(screen.getByRole('columnheader', { name: 'Score' })).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'Jane Doe' })).toBeInTheDocument();
+    const EXPECTED_LIST_ITEMS = 2;
+    expect(screen.getAllByRole('listitem')).toHaveLength(EXPECTED_LIST_ITEMS);
+  });
+
+  it('should open links in a new tab without opener access', () => {
+    const message: Message = {
+      id: '8',
+      role: 'assistant',
+      content: 'See [the profile](https://www.linkedin.com/in/jane)',
+      timestamp: new Date('2026-01-11T15:30:00Z'),
+    };
+
+    render(<ChatMessage message={message} />);
+
+    const link = screen.getByRole('link', { name: 'the profile' });
+    expect(link).toHaveAttribute('href', 'https://www.linkedin.com/in/jane');
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', expect.stringContaining('noopener'));
+  });
+
+  it('should render code blocks with a copy button', async () => {
+    const user = userEvent.setup();
+    const writeText = vi.spyOn(navigator.clipboard, 'writeText').mockResolvedValue(undefined);
+    const message: Message = {
+      id: '9',
+      role: 'assistant',
+      content: '```text\nHi {firstName}, loved your talk!\n```',
+      timestamp: new Date('2026-01-11T15:35:00Z'),
+    };
+
+    render(<ChatMessage message={message} />);
+
+    await user.click(screen.getByRole('button', { name: /copy code/i }));
+
+    expect(writeText).toHaveBeenCalledWith('Hi {firstName}, loved your talk!');
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: /copied/i })).toBeInTheDocument();
+    });
+  });
+
+  it('should not inject raw HTML from hostile content', () => {
+    const message: Message = {
+      id: '10',
+      role: 'assistant',
+      content: 'Hello <script>window.pwned = true</script><img src="x" onerror="alert(1)"><b onclick="alert(2)">bold</b> there',
+      timestamp: new Date('2026-01-11T15:40:00Z'),
+    };
+
+    const { container } = render(<ChatMessage message={message} />);
+
+    expect(container.querySelector('script')).toBeNull();
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('b')).toBeNull();
+    expect(container.querySelector('[onerror], [onclick]')).toBeNull();
+    expect(screen.getByText(/Hello/)).toBeInTheDocument();
+  });
+
+  it('should strip javascript and data URLs from links and images', () => {
+    const message: Message = {
+      id: '11',
+      role: 'assistant',
+      content: '[click me](javascript:alert(1)) [data](data:text/html;base64,PHNjcmlwdD4=) ![tracker](https://evil.example/pixel.png)',
+      timestamp: new Date('2026-01-11T15:45:00Z'),
+    };
+
+    const { container } = render(<ChatMessage message={message} />);
+
+    container.querySelectorAll('a').forEach((anchor) => {
+      const href = anchor.getAttribute('href') ?? '';
+      expect(href).not.toMatch(/^\s*(javascript|data):/i);
+    });
+    expect(container.querySelector('img')).toBeNull();
+  });
 });
@@ -1,6 +1,8 @@
-import { User, Sparkles, Wrench, CheckCircle2, Loader2, AlertCircle, Paperclip } from 'lucide-react';
+import { User, Sparkles, Paperclip, CircleStop } from 'lucide-react';
 import { Message } from '@/types/agent';
 import { cn } from '@/lib/utils';
+import { MarkdownContent } from './MarkdownContent';
+import { ToolCallList } from './ToolCallList';
 
 interface ChatMessageProps {
   message: Message;
@@ -53,49 +55,25 @@ export function ChatMessage({ message }: ChatMessageProps): JSX.Element {
         )}
 
         {/* Message Bubble */}
-        <div className={isUser ? 'chat-bubble-user' : 'chat-bubble-agent'}>
-          <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
-        </div>
+        {message.content && (
+          <div className={isUser ? 'chat-bubble-user' : 'chat-bubble-agent'}>
+            {isUser ? (
+              <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+            ) : (
+              <MarkdownContent content={message.content} />
+            )}
+          </div>
+        )}
 
         {/* Tool Calls */}
-        {message.tools && message.tools.length > 0 && (
-          <div className="space-y-2 mt-2">
-            {message.tools.map((tool) => (
-              <div
-                key={tool.id}
-                className="flex items-center gap-2 px-3 py-2 bg-accent/50 rounded-xl border border-border/50"
-              >
-                <div
-                  className={cn(
-                    'w-6 h-6 rounded-full flex items-center justify-center',
-                    tool.status === 'completed' && 'bg-success/10',
-                    tool.status === 'running' && 'bg-primary/10',
-                    tool.status === 'error' && 'bg-destructive/10',
-                    tool.status === 'pending' && 'bg-muted'
-                  )}
-                >
-                  {tool.status === 'completed' && (
-                    <CheckCircle2 className="w-3.5 h-3.5 text-success" />
-                  )}
-                  {tool.status === 'running' && (
-                    <Loader2 className="w-3.5 h-3.5 text-primary animate-spin" />
-                  )}
-                  {tool.status === 'error' && (
-                    <AlertCircle className="w-3.5 h-3.5 text-destructive" />
-                  )}
-                  {tool.status === 'pending' && (
-                    <Wrench className="w-3.5 h-3.5 text-muted-foreground" />
-                  )}
-                </div>
-                <span className="text-xs font-medium text-foreground">{tool.name}</span>
-                {tool.result && (
-                  <span className="text-xs text-muted-foreground ml-2">
-                    → {tool.result}
-                  </span>
-                )}
-              </div>
-            ))}
-          </div>
+        {message.tools && message.tools.length > 0 && <ToolCallList tools={message.tools} />}
+
+        {/* Stopped Run */}
+        {message.stopped && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <CircleStop className="w-3.5 h-3.5" />
+            Stopped
+          </p>
         )}
 
         {/* Timestamp */}
@@ -0,0 +1,48 @@
+import { Button } from '@/components/ui/button';
+import { Check, Copy } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+const COPIED_RESET_MS = 2000;
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+}
+
+export function CodeBlock({ code, language }: CodeBlockProps): JSX.Element {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) {
+      return;
+    }
+    const timer = window.setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = () => {
+    navigator.clipboard
+      .writeText(code)
+      .then(() => setCopied(true))
+      .catch((error: unknown) => console.error('Failed to copy code block', error));
+  };
+
+  return (
+    <div className="relative my-2 rounded-lg border border-border bg-muted/60">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-border">
+        <span className="text-xs font-mono text-muted-foreground">{language ?? 'text'}</span>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={handleCopy}
+          aria-label={copied ? 'Copied' : 'Copy code'}
+        >
+          {copied ? <Check className="w-3.5 h-3.5 text-success" /> : <Copy className="w-3.5 h-3.5" />}
+        </Button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-xs leading-relaxed">
+        <code>{code}</code>
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { StreamingDraft } from '@/lib/chat-draft';
+import { Sparkles } from 'lucide-react';
+import { MarkdownContent } from './MarkdownContent';
+import { ToolCallList } from './ToolCallList';
+
+interface DraftMessageProps {
+  draft: StreamingDraft;
+}
+
+/**
+ * The agent reply while it streams in; bouncing dots until the first text or tool call arrives.
+ */
+export function DraftMessage({ draft }: DraftMessageProps): JSX.Element {
+  const hasOutput = draft.content.length > 0 || draft.tools.length > 0;
+
+  return (
+    <div className="flex gap-4">
+      <div className="w-9 h-9 rounded-full bg-accent flex items-center justify-center">
+        <Sparkles className="w-4 h-4 text-primary animate-pulse-subtle" />
+      </div>
+      {hasOutput ? (
+        <div className="max-w-[70%] space-y-2">
+          {draft.content && (
+            <div className="chat-bubble-agent">
+              <MarkdownContent content={draft.content} />
+            </div>
+          )}
+          {draft.tools.length > 0 && <ToolCallList tools={draft.tools} />}
+        </div>
+      ) : (
+        <div className="chat-bubble-agent">
+          <div className="flex gap-1">
+            <div className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '0ms' }} />
+            <div className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '150ms' }} />
+            <div className="w-2 h-2 rounded-full bg-muted-foreground animate-bounce" style={{ animationDelay: '300ms' }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
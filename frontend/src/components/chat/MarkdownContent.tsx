@@ -0,0 +1,78 @@
+import { cn } from '@/lib/utils';
+import Markdown, { Components } from 'react-markdown';
+import { ReactNode } from 'react';
+import remarkGfm from 'remark-gfm';
+import { CodeBlock } from './CodeBlock';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const LANGUAGE_CLASS_PATTERN = /language-(\S+)/;
+
+// Raw HTML is dropped (skipHtml) and unsafe URLs such as javascript: are stripped by
+// react-markdown's default urlTransform, so agent output can never inject markup.
+const DISALLOWED_ELEMENTS = ['img'];
+
+function toText(children: ReactNode): string {
+  if (typeof children === 'string') {
+    return children;
+  }
+  return Array.isArray(children) ? children.filter((c): c is string => typeof c === 'string').join('') : '';
+}
+
+const components: Components = {
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="text-primary underline underline-offset-2"
+    >
+      {children}
+    </a>
+  ),
+  pre: ({ children }) => <>{children}</>,
+  code: ({ className, children }) => {
+    const text = toText(children);
+    const language = LANGUAGE_CLASS_PATTERN.exec(className ?? '')?.[1];
+    if (language || text.endsWith('\n')) {
+      return <CodeBlock code={text.replace(/\n$/, '')} {...(language ? { language } : {})} />;
+    }
+    return <code className="rounded bg-muted px-1 py-0.5 font-mono text-xs">{children}</code>;
+  },
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full border-collapse text-xs">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => (
+    <th className="border border-border bg-muted/60 px-2 py-1 text-left font-semibold">{children}</th>
+  ),
+  td: ({ children }) => <td className="border border-border px-2 py-1">{children}</td>,
+  ul: ({ children }) => <ul className="my-1 list-disc pl-5 space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="my-1 list-decimal pl-5 space-y-0.5">{children}</ol>,
+  h1: ({ children }) => <h3 className="mt-2 mb-1 text-base font-semibold">{children}</h3>,
+  h2: ({ children }) => <h4 className="mt-2 mb-1 text-sm font-semibold">{children}</h4>,
+  h3: ({ children }) => <h5 className="mt-2 mb-1 text-sm font-semibold">{children}</h5>,
+  p: ({ children }) => <p className="my-1 first:mt-0 last:mb-0">{children}</p>,
+  blockquote: ({ children }) => (
+    <blockquote className="my-1 border-l-2 border-border pl-3 text-muted-foreground">{children}</blockquote>
+  ),
+};
+
+export function MarkdownContent({ content, className }: MarkdownContentProps): JSX.Element {
+  return (
+    <div className={cn('text-sm leading-relaxed break-words', className)}>
+      <Markdown
+        remarkPlugins={[remarkGfm]}
+        components={components}
+        disallowedElements={DISALLOWED_ELEMENTS}
+        skipHtml
+      >
+        {content}
+      </Markdown>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { CampaignPlan, moveTask, planError, planTask, PlanTask } from '@/lib/plan';
+import { CheckCircle2, ListChecks, Plus } from 'lucide-react';
+import { useState } from 'react';
+import { PlanTaskRow } from './PlanTaskRow';
+
+interface PlanChecklistProps {
+  /** Tasks as the agent proposed them. */
+  proposed: PlanTask[];
+  /** Stored version of this plan, when the user has saved or approved it before. */
+  stored: CampaignPlan | null;
+  busy: boolean;
+  onSaveDraft: (tasks: PlanTask[]) => void;
+  onApprove: (tasks: PlanTask[]) => void;
+}
+
+/**
+ * The agent's proposed plan as an editable checklist. Nothing runs until the user approves it;
+ * an approved plan is shown read-only.
+ */
+export function PlanChecklist({ proposed, stored, busy, onSaveDraft, onApprove }: PlanChecklistProps): JSX.Element {
+  const [tasks, setTasks] = useState(stored?.tasks ?? proposed);
+  const approved = stored?.status === 'approved';
+  const error = planError(tasks);
+
+  const update = (index: number, task: PlanTask) => {
+    setTasks(tasks.map((current, i) => (i === index ? task : current)));
+  };
+
+  const add = () => {
+    setTasks([...tasks, planTask({ title: '', description: '', requiresApproval: false })]);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center gap-2 space-y-0">
+        <ListChecks className="w-5 h-5 text-primary" />
+        <CardTitle className="flex-1 text-base">Proposed plan</CardTitle>
+        <Badge variant={approved ? 'default' : 'secondary'}>{approved ? 'Approved' : 'Awaiting approval'}</Badge>
+      </CardHeader>
+      <CardContent>
+        {approved ? (
+          <ol className="space-y-2">
+            {tasks.map((task) => (
+              <li key={task.id} className="flex items-center gap-2 text-sm">
+                <CheckCircle2 className="w-4 h-4 text-primary" />
+                <span className="flex-1">{task.title}</span>
+                {task.requiresApproval && <Badge variant="outline">Requires approval</Badge>}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <ol className="space-y-2">
+            {tasks.map((task, index) => (
+              <PlanTaskRow
+                key={task.id}
+                task={task}
+                position={index + 1}
+                isFirst={index === 0}
+                isLast={index === tasks.length - 1}
+                onChange={(next) => update(index, next)}
+                onMove={(offset) => setTasks(moveTask(tasks, index, offset))}
+                onRemove={() => setTasks(tasks.filter((_, i) => i !== index))}
+              />
+            ))}
+          </ol>
+        )}
+        {!approved && error && <p className="mt-2 text-sm text-destructive" role="alert">{error}</p>}
+      </CardContent>
+      {!approved && (
+        <CardFooter className="gap-2">
+          <Button variant="ghost" size="sm" onClick={add} disabled={busy}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add task
+          </Button>
+          <div className="flex-1" />
+          <Button variant="outline" size="sm" onClick={() => onSaveDraft(tasks)} disabled={busy}>
+            Save draft
+          </Button>
+          <Button size="sm" onClick={() => onApprove(tasks)} disabled={busy || error !== null}>
+            Approve &amp; execute
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,48 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { PlanTask } from '@/lib/plan';
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react';
+
+interface PlanTaskRowProps {
+  task: PlanTask;
+  position: number;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (task: PlanTask) => void;
+  onMove: (offset: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+export function PlanTaskRow({ task, position, isFirst, isLast, onChange, onMove, onRemove }: PlanTaskRowProps): JSX.Element {
+  return (
+    <li className="flex items-start gap-2 rounded-lg border border-border p-2">
+      <span className="w-6 pt-2 text-sm text-muted-foreground">{position}.</span>
+      <div className="flex-1 space-y-2">
+        <Input
+          value={task.title}
+          onChange={(e) => onChange({ ...task, title: e.target.value })}
+          aria-label={`Title of task ${position}`}
+        />
+        {task.description && <p className="text-sm text-muted-foreground">{task.description}</p>}
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={task.requiresApproval}
+            onCheckedChange={(checked) => onChange({ ...task, requiresApproval: checked === true })}
+            aria-label={`Task ${position} requires approval`}
+          />
+          Requires approval before it runs
+        </label>
+      </div>
+      <Button variant="ghost" size="icon" onClick={() => onMove(-1)} disabled={isFirst} aria-label={`Move task ${position} up`}>
+        <ArrowUp className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={() => onMove(1)} disabled={isLast} aria-label={`Move task ${position} down`}>
+        <ArrowDown className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onRemove} aria-label={`Remove task ${position}`}>
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </li>
+  );
+}
@@ -0,0 +1,68 @@
+import { AlertCircle, CheckCircle2, Loader2, Wrench } from 'lucide-react';
+import { ToolCall } from '@/types/agent';
+import { cn } from '@/lib/utils';
+
+interface ToolCallListProps {
+  tools: ToolCall[];
+}
+
+function formatArguments(args: Record<string, unknown>): string {
+  return Object.entries(args)
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(', ');
+}
+
+export function ToolCallList({ tools }: ToolCallListProps): JSX.Element {
+  return (
+    <div className="space-y-2 mt-2">
+      {tools.map((tool) => (
+        <div
+          key={tool.id}
+          data-tool-status={tool.status}
+          className="flex items-center gap-2 px-3 py-2 bg-accent/50 rounded-xl border border-border/50"
+        >
+          <div
+            className={cn(
+              'w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0',
+              tool.status === 'completed' && 'bg-success/10',
+              tool.status === 'running' && 'bg-primary/10',
+              tool.status === 'error' && 'bg-destructive/10',
+              tool.status === 'pending' && 'bg-muted'
+            )}
+          >
+            {tool.status === 'completed' && (
+              <CheckCircle2 className="w-3.5 h-3.5 text-success" />
+            )}
+            {tool.status === 'running' && (
+              <Loader2 className="w-3.5 h-3.5 text-primary animate-spin" />
+            )}
+            {tool.status === 'error' && (
+              <AlertCircle className="w-3.5 h-3.5 text-destructive" />
+            )}
+            {tool.status === 'pending' && (
+              <Wrench className="w-3.5 h-3.5 text-muted-foreground" />
+            )}
+          </div>
+          <div className="min-w-0">
+            <div className="flex items-center">
+              <span className="text-xs font-medium text-foreground">{tool.name}</span>
+              {tool.result && (
+                <span className="text-xs text-muted-foreground ml-2 truncate">
+                  → {tool.result}
+                </span>
+              )}
+            </div>
+            {tool.arguments && Object.keys(tool.arguments).length > 0 && (
+              <p className="text-xs font-mono text-muted-foreground truncate">
+                {formatArguments(tool.arguments)}
+              </p>
+            )}
+            {tool.error && (
+              <p className="text-xs text-destructive">{tool.error}</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
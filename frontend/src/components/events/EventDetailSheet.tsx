@@ -0,0 +1,63 @@
+import { CodeBlock } from '@/components/chat/CodeBlock';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CampaignEvent } from '@/lib/api';
+import { decodePayload } from '@/lib/event-log';
+import { JsonInspector } from './JsonInspector';
+
+interface EventDetailSheetProps {
+  event: CampaignEvent | null;
+  campaignName: string | undefined;
+  onClose: () => void;
+}
+
+const JSON_INDENT = 2;
+
+export function EventDetailSheet({ event, campaignName, onClose }: EventDetailSheetProps): JSX.Element {
+  const payload = event ? decodePayload(event.payload) : null;
+
+  return (
+    <Sheet open={event !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-xl overflow-y-auto">
+        {event && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{event.eventType}</SheetTitle>
+              <SheetDescription>{new Date(event.timestamp).toLocaleString()}</SheetDescription>
+            </SheetHeader>
+
+            <dl className="mt-6 grid grid-cols-3 gap-x-3 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">Event id</dt>
+              <dd className="col-span-2 font-mono text-xs break-all">{event.id}</dd>
+              <dt className="text-muted-foreground">Actor</dt>
+              <dd className="col-span-2">{event.actor}</dd>
+              <dt className="text-muted-foreground">Campaign</dt>
+              <dd className="col-span-2 break-words">{campaignName ?? event.campaignId ?? '—'}</dd>
+              <dt className="text-muted-foreground">Recorded at</dt>
+              <dd className="col-span-2 font-mono text-xs">{event.timestamp}</dd>
+            </dl>
+
+            <section className="mt-6 space-y-2">
+              <h3 className="text-sm font-semibold">Payload</h3>
+              <Tabs defaultValue="tree">
+                <TabsList>
+                  <TabsTrigger value="tree">Tree</TabsTrigger>
+                  <TabsTrigger value="raw">Raw</TabsTrigger>
+                </TabsList>
+                <TabsContent value="tree">
+                  <JsonInspector value={payload} />
+                </TabsContent>
+                <TabsContent value="raw">
+                  <CodeBlock
+                    code={typeof payload === 'string' ? payload : JSON.stringify(payload, null, JSON_INDENT)}
+                    language="json"
+                  />
+                </TabsContent>
+              </Tabs>
+            </section>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
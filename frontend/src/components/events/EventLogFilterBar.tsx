@@ -0,0 +1,79 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Campaign } from '@/lib/api';
+import { ALL, DEFAULT_EVENT_LOG_FILTERS, EVENT_ACTORS, EVENT_TYPES, EventLogFilters } from '@/lib/event-log';
+import { X } from 'lucide-react';
+
+interface EventLogFilterBarProps {
+  filters: EventLogFilters;
+  campaigns: Campaign[];
+  onChange: (filters: EventLogFilters) => void;
+}
+
+export function EventLogFilterBar({ filters, campaigns, onChange }: EventLogFilterBarProps): JSX.Element {
+  const set = (patch: Partial<EventLogFilters>) => onChange({ ...filters, ...patch });
+  const isFiltered = (Object.keys(filters) as (keyof EventLogFilters)[]).some(
+    (key) => filters[key] !== DEFAULT_EVENT_LOG_FILTERS[key]
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={filters.campaignId} onValueChange={(campaignId) => set({ campaignId })}>
+        <SelectTrigger className="w-48" aria-label="Filter by campaign">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All campaigns</SelectItem>
+          {campaigns.map((campaign) => (
+            <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filters.eventType} onValueChange={(eventType) => set({ eventType })}>
+        <SelectTrigger className="w-52" aria-label="Filter by event type">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All event types</SelectItem>
+          {EVENT_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>{type}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filters.actor} onValueChange={(actor) => set({ actor })}>
+        <SelectTrigger className="w-36" aria-label="Filter by actor">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All actors</SelectItem>
+          {EVENT_ACTORS.map((actor) => (
+            <SelectItem key={actor} value={actor}>{actor}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="datetime-local"
+        className="w-52"
+        aria-label="From"
+        value={filters.from}
+        max={filters.to || undefined}
+        onChange={(e) => set({ from: e.target.value })}
+      />
+      <Input
+        type="datetime-local"
+        className="w-52"
+        aria-label="To"
+        value={filters.to}
+        min={filters.from || undefined}
+        onChange={(e) => set({ to: e.target.value })}
+      />
+      {isFiltered && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_EVENT_LOG_FILTERS)}>
+          <X className="w-4 h-4 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
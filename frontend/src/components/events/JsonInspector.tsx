@@ -0,0 +1,80 @@
+import { cn } from '@/lib/utils';
+
+interface JsonInspectorProps {
+  value: unknown;
+  /** Nesting depth up to which objects start expanded. */
+  expandDepth?: number;
+}
+
+interface JsonNodeProps {
+  name: string | null;
+  value: unknown;
+  depth: number;
+  expandDepth: number;
+}
+
+const DEFAULT_EXPAND_DEPTH = 2;
+
+function Primitive({ value }: { value: unknown }): JSX.Element {
+  if (value === null) {
+    return <span className="text-muted-foreground">null</span>;
+  }
+  if (typeof value === 'string') {
+    return <span className="text-success break-all">&quot;{value}&quot;</span>;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return <span className="text-primary">{String(value)}</span>;
+  }
+  return <span className="text-muted-foreground">{JSON.stringify(value) ?? 'undefined'}</span>;
+}
+
+function Key({ name }: { name: string | null }): JSX.Element | null {
+  return name === null ? null : <span className="text-foreground font-medium">{name}: </span>;
+}
+
+function JsonNode({ name, value, depth, expandDepth }: JsonNodeProps): JSX.Element {
+  if (typeof value !== 'object' || value === null) {
+    return (
+      <div className={cn(depth > 0 && 'pl-4')}>
+        <Key name={name} />
+        <Primitive value={value} />
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray ? value.map((item: unknown, index) => [String(index), item] as const) : Object.entries(value as Record<string, unknown>);
+  const summary = isArray ? `[${entries.length}]` : `{${entries.length}}`;
+
+  if (entries.length === 0) {
+    return (
+      <div className={cn(depth > 0 && 'pl-4')}>
+        <Key name={name} />
+        <span className="text-muted-foreground">{isArray ? '[]' : '{}'}</span>
+      </div>
+    );
+  }
+
+  return (
+    <details open={depth < expandDepth} className={cn(depth > 0 && 'pl-4')}>
+      <summary className="cursor-pointer select-none">
+        <Key name={name} />
+        <span className="text-muted-foreground">{summary}</span>
+      </summary>
+      {entries.map(([key, item]) => (
+        <JsonNode key={key} name={key} value={item} depth={depth + 1} expandDepth={expandDepth} />
+      ))}
+    </details>
+  );
+}
+
+/**
+ * Collapsible tree view of a decoded JSON value.
+ */
+export function JsonInspector({ value, expandDepth = DEFAULT_EXPAND_DEPTH }: JsonInspectorProps): JSX.Element {
+  return (
+    <div className="rounded-md border border-border bg-muted/40 p-3 font-mono text-xs leading-relaxed overflow-x-auto">
+      <JsonNode name={null} value={value} depth={0} expandDepth={expandDepth} />
+    </div>
+  );
+}
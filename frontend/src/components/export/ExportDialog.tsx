@@ -0,0 +1,120 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ExportColumn, ExportFormat, exportTable } from '@/lib/export';
+import { Download } from 'lucide-react';
+import { useState } from 'react';
+
+interface ExportDialogProps<T> {
+  /** What is being exported, e.g. "Leads"; names the dialog, the file and the sheet. */
+  title: string;
+  items: T[];
+  columns: ExportColumn<T>[];
+}
+
+/**
+ * Export button with a dialog for picking the format and the columns to include.
+ */
+export function ExportDialog<T>({ title, items, columns }: ExportDialogProps<T>): JSX.Element {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [bom, setBom] = useState(true);
+  const [selected, setSelected] = useState<string[]>(() => columns.map((column) => column.id));
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((current) => (checked ? [...current, id] : current.filter((selectedId) => selectedId !== id)));
+
+  const allSelected = selected.length === columns.length;
+
+  const handleExport = () => {
+    exportTable(title, items, columns, { format, columns: selected, bom });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={`Export ${title}`} disabled={items.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export {title}</DialogTitle>
+          <DialogDescription>
+            {items.length} {items.length === 1 ? 'row' : 'rows'}, generated in your browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={format}
+            onValueChange={(value) => setFormat(value as ExportFormat)}
+            className="flex gap-6"
+            aria-label="Format"
+          >
+            <Label className="flex items-center gap-2 font-normal">
+              <RadioGroupItem value="csv" />
+              CSV
+            </Label>
+            <Label className="flex items-center gap-2 font-normal">
+              <RadioGroupItem value="xlsx" />
+              Excel (XLSX)
+            </Label>
+          </RadioGroup>
+
+          {format === 'csv' && (
+            <Label className="flex items-center gap-2 font-normal">
+              <Checkbox checked={bom} onCheckedChange={(checked) => setBom(checked === true)} />
+              Include UTF-8 byte order mark (for Excel)
+            </Label>
+          )}
+
+          <fieldset className="space-y-2">
+            <div className="flex items-center justify-between">
+              <legend className="text-sm font-medium">Columns</legend>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelected(allSelected ? [] : columns.map((column) => column.id))}
+              >
+                {allSelected ? 'Clear all' : 'Select all'}
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {columns.map((column) => (
+                <Label key={column.id} className="flex items-center gap-2 font-normal">
+                  <Checkbox
+                    checked={selected.includes(column.id)}
+                    onCheckedChange={(checked) => toggle(column.id, checked === true)}
+                  />
+                  {column.header}
+                </Label>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={selected.length === 0}>
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,20 +1,24 @@
-import { cn } from '@/lib/utils';
-import { BarChart3, Code2, FolderKanban, Linkedin, MessageSquare, Settings, Sparkles } from 'lucide-react';
+import { NavLink } from '@/components/NavLink';
+import { ConnectionIndicator } from '@/components/realtime/ConnectionIndicator';
+import { paths } from '@/lib/paths';
+import { BarChart3, Code2, FolderKanban, Linkedin, MessageSquare, ScrollText, Settings, ShieldCheck } from 'lucide-react';
 
 interface SidebarProps {
-  currentPage: string;
-  onNavigate: (page: string) => void;
   developerMode: boolean;
+  approvalCount?: number;
+  unsavedSettings?: boolean;
 }
 
 const navItems = [
-  { id: 'chat', icon: MessageSquare, label: 'Agent Chat' },
-  { id: 'campaigns', icon: FolderKanban, label: 'Campaigns' },
-  { id: 'analytics', icon: BarChart3, label: 'Analytics' },
-  { id: 'settings', icon: Settings, label: 'Settings' },
+  { to: paths.chat(), icon: MessageSquare, label: 'Agent Chat' },
+  { to: paths.campaigns(), icon: FolderKanban, label: 'Campaigns' },
+  { to: paths.approvals(), icon: ShieldCheck, label: 'Approvals' },
+  { to: paths.analytics(), icon: BarChart3, label: 'Analytics' },
+  { to: paths.events(), icon: ScrollText, label: 'Event Log' },
+  { to: paths.settings(), icon: Settings, label: 'Settings' },
 ];
 
-export function Sidebar({ currentPage, onNavigate, developerMode }: SidebarProps): JSX.Element {
+export function Sidebar({ developerMode, approvalCount = 0, unsavedSettings = false }: SidebarProps): JSX.Element {
   return (
     <aside className="w-72 bg-sidebar border-r border-sidebar-border flex flex-col h-screen">
       {/* Logo */}
@@ -33,47 +37,38 @@ export function Sidebar({ currentPage, onNavigate, developerMode }: SidebarProps
       {/* Navigation */}
       <nav className="flex-1 p-4 space-y-1">
         {navItems.map((item) => (
-          <button
-            key={item.id}
-            onClick={() => onNavigate(item.id)}
-            className={cn(
-              'nav-item w-full',
-              currentPage === item.id && 'nav-item-active'
-            )}
-          >
+          <NavLink key={item.to} to={item.to} className="nav-item w-full" activeClassName="nav-item-active">
             <item.icon className="w-5 h-5" />
             <span>{item.label}</span>
-          </button>
+            {item.to === paths.approvals() && approvalCount > 0 && (
+              <span
+                className="ml-auto min-w-5 h-5 px-1.5 rounded-full bg-destructive text-destructive-foreground text-xs font-medium flex items-center justify-center"
+                aria-label={`${approvalCount} pending approvals`}
+              >
+                {approvalCount}
+              </span>
+            )}
+            {item.to === paths.settings() && unsavedSettings && (
+              <span className="ml-auto w-2 h-2 rounded-full bg-warning" aria-label="Unsaved changes" />
+            )}
+          </NavLink>
         ))}
 
         {developerMode && (
-          <button
-            onClick={() => onNavigate('developer')}
-            className={cn(
-              'nav-item w-full mt-4 border-t border-sidebar-border pt-4',
-              currentPage === 'developer' && 'nav-item-active'
-            )}
+          <NavLink
+            to={paths.developer()}
+            className="nav-item w-full mt-4 border-t border-sidebar-border pt-4"
+            activeClassName="nav-item-active"
           >
             <Code2 className="w-5 h-5" />
             <span>Developer</span>
-          </button>
+          </NavLink>
         )}
       </nav>
 
       {/* Agent Status */}
       <div className="p-4 border-t border-sidebar-border">
-        <div className="glass-panel p-4">
-          <div className="flex items-center gap-3">
-            <div className="w-8 h-8 rounded-full bg-accent flex items-center justify-center">
-              <Sparkles className="w-4 h-4 text-primary" />
-            </div>
-            <div className="flex-1">
-              <p className="text-sm font-medium text-foreground">Agent Ready</p>
-              <p className="text-xs text-muted-foreground">Connected</p>
-            </div>
-            <div className="w-2 h-2 rounded-full bg-success animate-pulse-subtle" />
-          </div>
-        </div>
+        <ConnectionIndicator />
       </div>
     </aside>
   );
@@ -0,0 +1,64 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CsvRow } from '@/lib/csv';
+import { ColumnMapping, IMPORT_FIELDS, ImportField } from '@/lib/lead-import';
+
+interface ImportMappingStepProps {
+  headers: string[];
+  rows: CsvRow[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+const SKIP = '__skip__';
+const PREVIEW_ROWS = 3;
+
+/**
+ * One row per CSV column: which lead field it feeds, next to sample values from the file.
+ */
+export function ImportMappingStep({ headers, rows, mapping, onChange }: ImportMappingStepProps): JSX.Element {
+  const preview = rows.slice(0, PREVIEW_ROWS);
+
+  const assign = (column: number, value: string) => {
+    const field = value === SKIP ? null : (value as ImportField);
+    // A field feeds from one column only, so taking it elsewhere clears the old column
+    onChange(mapping.map((current, i) => (i === column ? field : current === field ? null : current)));
+  };
+
+  return (
+    <div className="max-h-96 overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Column</TableHead>
+            <TableHead>Lead field</TableHead>
+            <TableHead>Preview</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {headers.map((header, column) => (
+            <TableRow key={column}>
+              <TableCell className="font-medium">{header || `Column ${column + 1}`}</TableCell>
+              <TableCell>
+                <Select value={mapping[column] ?? SKIP} onValueChange={(value) => assign(column, value)}>
+                  <SelectTrigger className="w-40" aria-label={`Field for ${header || `column ${column + 1}`}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SKIP}>Don't import</SelectItem>
+                    {IMPORT_FIELDS.map(({ field, label }) => (
+                      <SelectItem key={field} value={field}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell className="max-w-48 truncate text-muted-foreground">
+                {preview.map((row) => row.cells[column] ?? '').filter(Boolean).join(', ')}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { Button } from '@/components/ui/button';
+import { ImportReport } from '@/hooks/use-lead-import';
+import { exportTable } from '@/lib/export';
+import { ImportRow } from '@/lib/lead-import';
+import { AlertCircle, CheckCircle2, Download } from 'lucide-react';
+
+interface ImportReportStepProps {
+  report: ImportReport;
+  /** Rows left out of the import: invalid ones and skipped duplicates. */
+  skipped: ImportRow[];
+}
+
+interface RowIssue {
+  line: number;
+  outcome: string;
+  message: string;
+}
+
+const ISSUE_COLUMNS = [
+  { id: 'line', header: 'Line', value: (issue: RowIssue) => issue.line },
+  { id: 'outcome', header: 'Outcome', value: (issue: RowIssue) => issue.outcome },
+  { id: 'message', header: 'Details', value: (issue: RowIssue) => issue.message },
+];
+
+function rowIssues(report: ImportReport, skipped: ImportRow[]): RowIssue[] {
+  return [
+    ...skipped.map((row) => ({
+      line: row.line,
+      outcome: row.errors.length > 0 ? 'Invalid' : 'Duplicate',
+      message: row.errors.length > 0 ? row.errors.join('; ') : (row.duplicate ?? ''),
+    })),
+    ...report.failures.map((failure) => ({ line: failure.line, outcome: 'Failed', message: failure.message })),
+  ].sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Outcome of an import, with every row that did not make it in and why.
+ */
+export function ImportReportStep({ report, skipped }: ImportReportStepProps): JSX.Element {
+  const issues = rowIssues(report, skipped);
+
+  const downloadReport = () =>
+    exportTable('Lead import errors', issues, ISSUE_COLUMNS, {
+      format: 'csv',
+      columns: ISSUE_COLUMNS.map((column) => column.id),
+      bom: true,
+    });
+
+  return (
+    <div className="space-y-4">
+      <p className="flex items-center gap-2 text-sm" role="status">
+        {report.failures.length === 0 ? (
+          <CheckCircle2 className="w-4 h-4 text-primary" />
+        ) : (
+          <AlertCircle className="w-4 h-4 text-destructive" />
+        )}
+        Imported {report.imported} {report.imported === 1 ? 'lead' : 'leads'}
+        {issues.length > 0 && `, ${issues.length} ${issues.length === 1 ? 'row was' : 'rows were'} not imported`}
+      </p>
+
+      {issues.length > 0 && (
+        <>
+          <ul aria-label="Import errors" className="max-h-60 overflow-y-auto divide-y divide-border rounded-md border text-sm">
+            {issues.map((issue) => (
+              <li key={`${issue.outcome}-${issue.line}`} className="flex gap-3 px-3 py-2">
+                <span className="shrink-0 text-muted-foreground">Line {issue.line}</span>
+                <span className="shrink-0 font-medium">{issue.outcome}</span>
+                <span className="text-muted-foreground">{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+          <Button variant="outline" size="sm" onClick={downloadReport}>
+            <Download className="w-4 h-4 mr-2" />
+            Download error report
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
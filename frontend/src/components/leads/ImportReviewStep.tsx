@@ -0,0 +1,63 @@
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ImportProgress } from '@/hooks/use-lead-import';
+import { ImportRow } from '@/lib/lead-import';
+
+interface ImportReviewStepProps {
+  rows: ImportRow[];
+  skipDuplicates: boolean;
+  onSkipDuplicatesChange: (skip: boolean) => void;
+  progress: ImportProgress | null;
+}
+
+const PERCENT = 100;
+
+/**
+ * Validation summary before the import: rows that will be sent, duplicates, and rows with errors.
+ */
+export function ImportReviewStep({ rows, skipDuplicates, onSkipDuplicatesChange, progress }: ImportReviewStepProps): JSX.Element {
+  const invalid = rows.filter((row) => row.errors.length > 0);
+  const duplicates = rows.filter((row) => row.duplicate !== null);
+  const problems = rows.filter((row) => row.errors.length > 0 || row.duplicate !== null);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="secondary">{rows.length - invalid.length - duplicates.length} new</Badge>
+        <Badge variant="outline">{duplicates.length} duplicates</Badge>
+        <Badge variant={invalid.length > 0 ? 'destructive' : 'outline'}>{invalid.length} invalid</Badge>
+      </div>
+
+      {duplicates.length > 0 && (
+        <Label className="flex items-center gap-2 font-normal">
+          <Checkbox checked={skipDuplicates} onCheckedChange={(checked) => onSkipDuplicatesChange(checked === true)} />
+          Skip duplicates
+        </Label>
+      )}
+
+      {problems.length > 0 && (
+        <ul aria-label="Rows needing attention" className="max-h-60 overflow-y-auto divide-y divide-border rounded-md border text-sm">
+          {problems.map((row) => (
+            <li key={row.line} className="flex gap-3 px-3 py-2">
+              <span className="shrink-0 text-muted-foreground">Line {row.line}</span>
+              <span className={row.errors.length > 0 ? 'text-destructive' : ''}>
+                {row.errors.length > 0 ? row.errors.join('; ') : row.duplicate}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={progress.total > 0 ? (progress.done / progress.total) * PERCENT : 0} />
+          <p className="text-xs text-muted-foreground">
+            Sent {progress.done} of {progress.total} rows
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Lead } from '@/lib/api';
+import { formatFieldValue, leadName, parseLeadData } from '@/lib/leads';
+import { LeadScoreHistory } from './LeadScoreHistory';
+
+interface LeadDetailSheetProps {
+  lead: Lead | null;
+  onClose: () => void;
+}
+
+export function LeadDetailSheet({ lead, onClose }: LeadDetailSheetProps): JSX.Element {
+  const data = lead ? parseLeadData(lead.data) : null;
+
+  return (
+    <Sheet open={lead !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-lg overflow-y-auto">
+        {lead && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{leadName(lead)}</SheetTitle>
+              <SheetDescription>
+                {lead.source} · discovered {new Date(lead.createdAt).toLocaleDateString()}
+              </SheetDescription>
+            </SheetHeader>
+
+            <section className="mt-6 space-y-2">
+              <h3 className="text-sm font-semibold">Profile</h3>
+              {data ? (
+                <dl className="grid grid-cols-3 gap-x-3 gap-y-1 text-sm">
+                  {Object.entries(data).map(([key, value]) => (
+                    <div key={key} className="contents">
+                      <dt className="text-muted-foreground">{key}</dt>
+                      <dd className="col-span-2 break-words">{formatFieldValue(value)}</dd>
+                    </div>
+                  ))}
+                </dl>
+              ) : (
+                <pre className="text-xs whitespace-pre-wrap break-words font-mono text-muted-foreground">{lead.data}</pre>
+              )}
+            </section>
+
+            <section className="mt-6 space-y-2">
+              <h3 className="text-sm font-semibold">
+                Scoring rationale {lead.score !== null && <span className="text-muted-foreground">({lead.score}/100)</span>}
+              </h3>
+              <p className="text-sm text-muted-foreground">{lead.scoringRationale ?? 'Not scored yet.'}</p>
+            </section>
+
+            <section className="mt-6 space-y-2">
+              <h3 className="text-sm font-semibold">Score history</h3>
+              <LeadScoreHistory campaignId={lead.campaignId} leadId={lead.id} />
+            </section>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
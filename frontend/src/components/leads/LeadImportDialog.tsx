@@ -0,0 +1,166 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ImportReport, useLeadImport } from '@/hooks/use-lead-import';
+import { Lead } from '@/lib/api';
+import { CsvRow, parseCsvRows } from '@/lib/csv';
+import { ColumnMapping, guessMapping, ImportRow, validateRows } from '@/lib/lead-import';
+import { Upload } from 'lucide-react';
+import { ChangeEvent, useMemo, useState } from 'react';
+import { ImportMappingStep } from './ImportMappingStep';
+import { ImportReportStep } from './ImportReportStep';
+import { ImportReviewStep } from './ImportReviewStep';
+
+interface LeadImportDialogProps {
+  campaignId: string;
+  /** Leads already in the campaign, to detect duplicates against. */
+  existing: Lead[];
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'review' | 'report';
+
+interface ParsedFile {
+  name: string;
+  headers: string[];
+  rows: CsvRow[];
+}
+
+const STEP_DESCRIPTIONS: Record<Step, string> = {
+  upload: 'Choose a CSV file with a header row.',
+  map: 'Match the file columns to lead fields.',
+  review: 'Check the rows before importing.',
+  report: 'Import finished.',
+};
+
+function readText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * CSV import wizard: upload, map columns, review validation and duplicates, then import in batches.
+ */
+export function LeadImportDialog({ campaignId, existing, onImported }: LeadImportDialogProps): JSX.Element {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [result, setResult] = useState<{ report: ImportReport; skipped: ImportRow[] } | null>(null);
+  const { importing, progress, start } = useLeadImport(campaignId);
+
+  const rows = useMemo(() => (file ? validateRows(file.rows, mapping, existing) : []), [file, mapping, existing]);
+  const toImport = rows.filter((row) => row.lead && !(skipDuplicates && row.duplicate));
+  const nameMapped = mapping.some((field) => field === 'name' || field === 'firstName' || field === 'lastName');
+
+  const reset = () => {
+    setStep('upload');
+    setFile(null);
+    setFileError(null);
+    setResult(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (importing) {
+      return;
+    }
+    setOpen(next);
+    if (!next) {
+      reset();
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) {
+      return;
+    }
+    let text: string;
+    try {
+      text = await readText(selected);
+    } catch (error) {
+      setFileError(`Failed to read file: ${(error as Error).message}`);
+      return;
+    }
+    const [header, ...data] = parseCsvRows(text);
+    if (!header || data.length === 0) {
+      setFileError('The file has no data rows.');
+      return;
+    }
+    setFile({ name: selected.name, headers: header.cells, rows: data });
+    setMapping(guessMapping(header.cells));
+    setFileError(null);
+    setStep('map');
+  };
+
+  const handleImport = async () => {
+    // Freeze what was left out now; the reload afterwards turns imported rows into duplicates
+    const skipped = rows.filter((row) => !toImport.includes(row));
+    setResult({ report: await start(toImport), skipped });
+    setStep('report');
+    onImported();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="w-4 h-4 mr-2" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import leads{file && ` from ${file.name}`}</DialogTitle>
+          <DialogDescription>{STEP_DESCRIPTIONS[step]}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Input type="file" accept=".csv,text/csv" aria-label="CSV file" onChange={(e) => void handleFile(e)} />
+            {fileError && <p className="text-sm text-destructive" role="alert">{fileError}</p>}
+          </div>
+        )}
+        {step === 'map' && file && (
+          <ImportMappingStep headers={file.headers} rows={file.rows} mapping={mapping} onChange={setMapping} />
+        )}
+        {step === 'review' && (
+          <ImportReviewStep rows={rows} skipDuplicates={skipDuplicates} onSkipDuplicatesChange={setSkipDuplicates} progress={progress} />
+        )}
+        {step === 'report' && result && <ImportReportStep report={result.report} skipped={result.skipped} />}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button onClick={() => setStep('review')} disabled={!nameMapped}>Continue</Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={importing}>Back</Button>
+              <Button onClick={() => void handleImport()} disabled={importing || toImport.length === 0}>
+                Import {toImport.length} {toImport.length === 1 ? 'lead' : 'leads'}
+              </Button>
+            </>
+          )}
+          {step === 'report' && <Button onClick={() => handleOpenChange(false)}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,57 @@
+import { useLeadScores } from '@/hooks/use-lead-queries';
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
+
+interface LeadScoreHistoryProps {
+  campaignId: string;
+  leadId: string;
+}
+
+function Delta({ change }: { change: number }): JSX.Element {
+  if (change === 0) {
+    return <Minus className="w-3 h-3 text-muted-foreground" aria-label="unchanged" />;
+  }
+  return change > 0 ? (
+    <span className="flex items-center text-xs text-success">
+      <ArrowUpRight className="w-3 h-3" />+{change}
+    </span>
+  ) : (
+    <span className="flex items-center text-xs text-destructive">
+      <ArrowDownRight className="w-3 h-3" />{change}
+    </span>
+  );
+}
+
+/**
+ * How a lead's score changed over time, newest first.
+ */
+export function LeadScoreHistory({ campaignId, leadId }: LeadScoreHistoryProps): JSX.Element {
+  const { data, isError } = useLeadScores(campaignId, leadId);
+  const scores = data ?? (isError ? [] : null);
+
+  if (scores === null) {
+    return <p className="text-sm text-muted-foreground">Loading score history...</p>;
+  }
+  if (scores.length === 0) {
+    return <p className="text-sm text-muted-foreground">No scoring recorded yet.</p>;
+  }
+
+  const ordered = [...scores].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  return (
+    <ol className="space-y-3" aria-label="Score history">
+      {ordered
+        .map((entry, index) => ({ entry, change: index > 0 ? entry.score - (ordered[index - 1]?.score ?? entry.score) : 0 }))
+        .reverse()
+        .map(({ entry, change }) => (
+          <li key={entry.timestamp} className="rounded-md border border-border p-2 space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold">{entry.score}</span>
+              <Delta change={change} />
+              <span className="ml-auto text-xs text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</span>
+            </div>
+            <p className="text-xs text-muted-foreground">{entry.rationale}</p>
+          </li>
+        ))}
+    </ol>
+  );
+}
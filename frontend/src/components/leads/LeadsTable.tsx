@@ -0,0 +1,105 @@
+import { ExportDialog } from '@/components/export/ExportDialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Lead } from '@/lib/api';
+import { LEAD_COLUMNS } from '@/lib/export-columns';
+import { DEFAULT_LEAD_QUERY, leadName, leadSources, LeadQuery, queryLeads, ScoreFilter } from '@/lib/leads';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { LeadDetailSheet } from './LeadDetailSheet';
+
+interface LeadsTableProps {
+  leads: Lead[];
+}
+
+const ALL_SOURCES = '__all__';
+
+/**
+ * Leads grid for reviewing the agent's prioritization: sortable by score,
+ * filterable by source and scoring state, with a detail drawer per lead.
+ */
+export function LeadsTable({ leads }: LeadsTableProps): JSX.Element {
+  const [query, setQuery] = useState<LeadQuery>(DEFAULT_LEAD_QUERY);
+  const [selected, setSelected] = useState<Lead | null>(null);
+  const sources = useMemo(() => leadSources(leads), [leads]);
+  const visible = useMemo(() => queryLeads(leads, query), [leads, query]);
+
+  if (leads.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No leads discovered yet.</p>;
+  }
+
+  const toggleDirection = () =>
+    setQuery((q) => ({ ...q, direction: q.direction === 'desc' ? 'asc' : 'desc' }));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select
+          value={query.source ?? ALL_SOURCES}
+          onValueChange={(value) => setQuery((q) => ({ ...q, source: value === ALL_SOURCES ? null : value }))}
+        >
+          <SelectTrigger className="w-48" aria-label="Filter by source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_SOURCES}>All sources</SelectItem>
+            {sources.map((source) => (
+              <SelectItem key={source} value={source}>{source}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={query.scored} onValueChange={(value) => setQuery((q) => ({ ...q, scored: value as ScoreFilter }))}>
+          <SelectTrigger className="w-40" aria-label="Filter by scoring">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All leads</SelectItem>
+            <SelectItem value="scored">Scored</SelectItem>
+            <SelectItem value="unscored">Unscored</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="ml-auto text-xs text-muted-foreground">
+          {visible.length} of {leads.length} leads
+        </span>
+        <ExportDialog title="Leads" items={visible} columns={LEAD_COLUMNS} />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Lead</TableHead>
+            <TableHead>Source</TableHead>
+            <TableHead aria-sort={query.direction === 'desc' ? 'descending' : 'ascending'}>
+              <Button variant="ghost" size="sm" className="-ml-3" onClick={toggleDirection}>
+                Score
+                {query.direction === 'desc' ? <ArrowDown className="w-3 h-3 ml-1" /> : <ArrowUp className="w-3 h-3 ml-1" />}
+              </Button>
+            </TableHead>
+            <TableHead>Rationale</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visible.map((lead) => (
+            <TableRow
+              key={lead.id}
+              data-lead-id={lead.id}
+              className="cursor-pointer"
+              onClick={() => setSelected(lead)}
+            >
+              <TableCell className="font-medium">{leadName(lead)}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className="text-xs">{lead.source}</Badge>
+              </TableCell>
+              <TableCell>{lead.score ?? <span className="text-muted-foreground">—</span>}</TableCell>
+              <TableCell className="max-w-md truncate text-muted-foreground">{lead.scoringRationale}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <LeadDetailSheet lead={selected} onClose={() => setSelected(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Button } from '@/components/ui/button';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import { STATUS_DISPLAY } from '@/lib/connection-status';
+import { cn } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
+import { RefreshCw } from 'lucide-react';
+
+type ConnectionDetailsProps = ReturnType<typeof useConnectionStatus>;
+
+function backendLabel({ health }: ConnectionDetailsProps): string {
+  if (health.healthy === null) {
+    return 'Checking...';
+  }
+  const checked = health.checkedAt ? ` (checked ${formatDistanceToNow(health.checkedAt, { addSuffix: true })})` : '';
+  return `${health.healthy ? 'Healthy' : 'Unreachable'}${checked}`;
+}
+
+function liveUpdatesLabel({ hub, reconnectAttempts }: ConnectionDetailsProps): string {
+  if (hub === 'Reconnecting') {
+    return `Reconnecting (attempt ${reconnectAttempts})`;
+  }
+  return hub === 'Connected' ? 'Connected' : hub === 'Connecting' ? 'Connecting...' : 'Disconnected';
+}
+
+/**
+ * Each signal behind the overall status, with a manual reconnect.
+ */
+export function ConnectionDetails(props: ConnectionDetailsProps): JSX.Element {
+  const { status, runningAgents, reconnecting, reconnect } = props;
+  const display = STATUS_DISPLAY[status];
+  const rows = [
+    { label: 'Backend', value: backendLabel(props) },
+    { label: 'Live updates', value: liveUpdatesLabel(props) },
+    { label: 'Agent runs', value: runningAgents > 0 ? `${runningAgents} running` : 'Idle' },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className={cn('w-2 h-2 rounded-full', display.tone)} />
+        <p className="text-sm font-medium text-foreground">{display.label}</p>
+        <p className="text-xs text-muted-foreground">{display.description}</p>
+      </div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {rows.map((row) => (
+          <div key={row.label} className="contents">
+            <dt className="text-muted-foreground">{row.label}</dt>
+            <dd className="text-foreground">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+      <Button variant="outline" size="sm" className="w-full" onClick={() => void reconnect()} disabled={reconnecting}>
+        <RefreshCw className={cn('w-4 h-4 mr-2', reconnecting && 'animate-spin')} />
+        Reconnect
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionIndicator } from './ConnectionIndicator';
+
+const { hub, checkHealth } = vi.hoisted(() => ({
+  hub: {
+    connectionState: 'Disconnected',
+    attempts: 0,
+    onStateChanged: vi.fn(() => () => undefined),
+    reconnect: vi.fn<() => Promise<void>>(),
+  },
+  checkHealth: vi.fn<() => Promise<boolean>>(),
+}));
+
+vi.mock('@/lib/signalr', () => ({ signalRHub: hub }));
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: { checkHealth },
+}));
+
+describe('ConnectionIndicator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    hub.reconnect.mockResolvedValue(undefined);
+  });
+
+  it('should show the backend as offline and reconnect on demand', async () => {
+    const user = userEvent.setup();
+    checkHealth.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+    render(<ConnectionIndicator />);
+
+    const trigger = await screen.findByRole('button', { name: /connection status: offline/i });
+    await user.click(trigger);
+    expect(screen.getByText(/unreachable \(checked/i)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /reconnect/i }));
+
+    expect(hub.reconnect).toHaveBeenCalled();
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: /connection status: agent ready, live updates unavailable/i })).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
+import { STATUS_DISPLAY } from '@/lib/connection-status';
+import { cn } from '@/lib/utils';
+import { Sparkles } from 'lucide-react';
+import { ConnectionDetails } from './ConnectionDetails';
+
+/**
+ * Agent status panel for the sidebar; opens the connection details.
+ */
+export function ConnectionIndicator(): JSX.Element {
+  const connection = useConnectionStatus();
+  const display = STATUS_DISPLAY[connection.status];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="glass-panel p-4 w-full text-left" aria-label={`Connection status: ${display.label}, ${display.description}`}>
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-full bg-accent flex items-center justify-center">
+              <Sparkles className="w-4 h-4 text-primary" />
+            </div>
+            <div className="flex-1">
+              <p className="text-sm font-medium text-foreground">{display.label}</p>
+              <p className="text-xs text-muted-foreground">{display.description}</p>
+            </div>
+            <div className={cn('w-2 h-2 rounded-full', display.tone)} />
+          </div>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-72">
+        <ConnectionDetails {...connection} />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,32 @@
+import { applyArtifactCreated, applyCampaignState, applyTaskStatus } from '@/lib/realtime-cache';
+import { signalRHub } from '@/lib/signalr';
+import { useQueryClient } from '@tanstack/react-query';
+import { ReactNode, useEffect } from 'react';
+
+interface RealtimeProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Opens the app's single SignalR connection and keeps the query cache in step with server events.
+ * Components subscribe to the shared hub themselves for anything beyond cached data.
+ */
+export function RealtimeProvider({ children }: RealtimeProviderProps): JSX.Element {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const unsubscribers = [
+      signalRHub.onCampaignStateChanged((event) => applyCampaignState(queryClient, event)),
+      signalRHub.onTaskStatusChanged((event) => applyTaskStatus(queryClient, event)),
+      signalRHub.onArtifactCreated((event) => applyArtifactCreated(queryClient, event)),
+    ];
+    signalRHub.connect().catch((error: unknown) => console.warn('Live updates unavailable:', error));
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      void signalRHub.disconnect();
+    };
+  }, [queryClient]);
+
+  return <>{children}</>;
+}
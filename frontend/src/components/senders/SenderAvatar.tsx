@@ -0,0 +1,18 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Sender } from '@/lib/api';
+import { initials } from '@/lib/senders';
+import { cn } from '@/lib/utils';
+
+interface SenderAvatarProps {
+  sender: Pick<Sender, 'name' | 'avatarUrl'>;
+  className?: string;
+}
+
+export function SenderAvatar({ sender, className }: SenderAvatarProps): JSX.Element {
+  return (
+    <Avatar className={cn('w-9 h-9', className)}>
+      {sender.avatarUrl && <AvatarImage src={sender.avatarUrl} alt="" />}
+      <AvatarFallback className="text-xs">{initials(sender.name)}</AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,71 @@
+import { SenderAvatar } from '@/components/senders/SenderAvatar';
+import { SenderForm } from '@/components/senders/SenderForm';
+import { LinkedInCredentialPanel } from '@/components/settings/LinkedInCredentialPanel';
+import { Button } from '@/components/ui/button';
+import { useDeleteSender, useUpdateSender } from '@/hooks/use-sender-queries';
+import { SaveSenderRequest, Sender } from '@/lib/api';
+import { senderDraft } from '@/lib/senders';
+import { limitsSummary } from '@/lib/sending-limits';
+import { Pencil, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+interface SenderCardProps {
+  sender: Sender;
+  backendOffline: boolean;
+}
+
+/**
+ * One sender account: who it is, its sending limits, and its LinkedIn cookie.
+ */
+export function SenderCard({ sender, backendOffline }: SenderCardProps): JSX.Element {
+  const update = useUpdateSender();
+  const remove = useDeleteSender();
+  const [editing, setEditing] = useState(false);
+
+  const handleSave = (request: SaveSenderRequest) => {
+    update.mutate({ id: sender.id, request }, { onSuccess: () => setEditing(false) });
+  };
+
+  const handleRemove = () => {
+    // Using window.confirm which is allowed as a dialog, not alert
+    // eslint-disable-next-line no-alert
+    if (window.confirm(`Remove ${sender.name}? Its cookie is deleted and its campaigns stop sending from it.`)) {
+      remove.mutate(sender.id);
+    }
+  };
+
+  return (
+    <section className="space-y-4 p-4 rounded-xl border border-border" aria-label={sender.name}>
+      {editing ? (
+        <SenderForm
+          initial={senderDraft(sender)}
+          submitLabel="Save sender"
+          saving={update.isPending}
+          onSave={handleSave}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <div className="flex items-center gap-3">
+          <SenderAvatar sender={sender} />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-foreground truncate">{sender.name}</p>
+            <p className="text-xs text-muted-foreground">{limitsSummary(sender.limits)}</p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => setEditing(true)} aria-label={`Edit ${sender.name}`}>
+            <Pencil className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleRemove}
+            disabled={remove.isPending || backendOffline}
+            aria-label={`Remove ${sender.name}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+      <LinkedInCredentialPanel sender={sender} backendOffline={backendOffline} />
+    </section>
+  );
+}
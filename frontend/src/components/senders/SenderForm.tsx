@@ -0,0 +1,75 @@
+import { SendingLimitsFields } from '@/components/senders/SendingLimitsFields';
+import { SettingsFieldError } from '@/components/settings/SettingsFieldError';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SaveSenderRequest } from '@/lib/api';
+import { EMPTY_SENDER, SenderDraft, toSenderRequest, validateSender } from '@/lib/senders';
+import { Loader2 } from 'lucide-react';
+import { FormEvent, useState } from 'react';
+
+interface SenderFormProps {
+  /** Values to edit; a new sender starts empty. */
+  initial?: SenderDraft;
+  submitLabel: string;
+  saving: boolean;
+  onSave: (request: SaveSenderRequest) => void;
+  onCancel: () => void;
+}
+
+export function SenderForm({ initial = EMPTY_SENDER, submitLabel, saving, onSave, onCancel }: SenderFormProps): JSX.Element {
+  const [draft, setDraft] = useState(initial);
+  const [submitted, setSubmitted] = useState(false);
+  const errors = submitted ? validateSender(draft) : {};
+
+  const update = <K extends keyof SenderDraft>(key: K, value: SenderDraft[K]) => setDraft((d) => ({ ...d, [key]: value }));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitted(true);
+    if (Object.keys(validateSender(draft)).length === 0) {
+      onSave(toSenderRequest(draft));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 p-4 rounded-xl border border-border">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="sender-name">Name</Label>
+          <Input
+            id="sender-name"
+            value={draft.name}
+            onChange={(e) => update('name', e.target.value)}
+            placeholder="e.g., Jane Doe"
+            aria-invalid={Boolean(errors.name)}
+            aria-describedby="sender-name-error"
+          />
+          <SettingsFieldError id="sender-name-error" message={errors.name} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sender-avatar">Avatar URL (optional)</Label>
+          <Input
+            id="sender-avatar"
+            value={draft.avatarUrl}
+            onChange={(e) => update('avatarUrl', e.target.value)}
+            placeholder="https://"
+            aria-invalid={Boolean(errors.avatarUrl)}
+            aria-describedby="sender-avatar-error"
+          />
+          <SettingsFieldError id="sender-avatar-error" message={errors.avatarUrl} />
+        </div>
+      </div>
+      <SendingLimitsFields value={draft.limits} onChange={(limits) => update('limits', limits)} errors={errors} />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving} className="gap-2">
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
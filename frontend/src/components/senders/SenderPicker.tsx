@@ -0,0 +1,78 @@
+import { SenderAvatar } from '@/components/senders/SenderAvatar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { CampaignSenders, Sender, SenderRotation } from '@/lib/api';
+import { credentialDisplay } from '@/lib/linkedin-credential';
+import { orderedSenderIds, ROTATIONS } from '@/lib/senders';
+import { cn } from '@/lib/utils';
+import { useId } from 'react';
+
+interface SenderPickerProps {
+  senders: Sender[];
+  value: CampaignSenders;
+  onChange: (value: CampaignSenders) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Choose the senders a campaign reaches out from and how it rotates between them.
+ */
+export function SenderPicker({ senders, value, onChange, disabled }: SenderPickerProps): JSX.Element {
+  const rotationId = useId();
+  const toggle = (id: string, checked: boolean) => {
+    const selected = checked ? [...value.senderIds, id] : value.senderIds.filter((senderId) => senderId !== id);
+    onChange({ ...value, senderIds: orderedSenderIds(senders, selected) });
+  };
+
+  if (senders.length === 0) {
+    return <p className="text-sm text-muted-foreground">Add sender accounts in Settings to assign them to campaigns.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1" role="group" aria-label="Senders">
+        {senders.map((sender) => {
+          const status = credentialDisplay(sender.credential, false);
+          return (
+            <label
+              key={sender.id}
+              className="flex items-center gap-3 rounded-md px-2 py-1.5 text-sm hover:bg-muted cursor-pointer"
+            >
+              <Checkbox
+                checked={value.senderIds.includes(sender.id)}
+                onCheckedChange={(checked) => toggle(sender.id, checked === true)}
+                disabled={disabled}
+                aria-label={sender.name}
+              />
+              <SenderAvatar sender={sender} className="w-7 h-7" />
+              <span className="flex-1 truncate">{sender.name}</span>
+              <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <span className={cn('w-2 h-2 rounded-full', status.tone)} />
+                {status.label}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+      {value.senderIds.length > 1 && (
+        <RadioGroup
+          value={value.rotation}
+          onValueChange={(rotation) => onChange({ ...value, rotation: rotation as SenderRotation })}
+          disabled={disabled}
+          aria-label="Rotation"
+        >
+          {(Object.keys(ROTATIONS) as SenderRotation[]).map((rotation) => (
+            <div key={rotation} className="flex items-start gap-2">
+              <RadioGroupItem value={rotation} id={`${rotationId}-${rotation}`} className="mt-0.5" />
+              <Label htmlFor={`${rotationId}-${rotation}`} className="font-normal">
+                <span className="font-medium">{ROTATIONS[rotation].label}</span>
+                <span className="block text-xs text-muted-foreground">{ROTATIONS[rotation].description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      )}
+    </div>
+  );
+}
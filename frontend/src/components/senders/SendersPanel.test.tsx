@@ -0,0 +1,136 @@
+import type { LinkedInCredential, SaveCredentialRequest, SaveSenderRequest, Sender } from '@/lib/api';
+import { defaultLimits } from '@/lib/sending-limits';
+import { renderWithQueryClient } from '@/test/render';
+import { screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SendersPanel } from './SendersPanel';
+
+const { api } = vi.hoisted(() => ({
+  api: {
+    getSenders: vi.fn<() => Promise<Sender[]>>(),
+    createSender: vi.fn<(request: SaveSenderRequest) => Promise<Sender>>(),
+    updateSender: vi.fn<(id: string, request: SaveSenderRequest) => Promise<Sender>>(),
+    saveSenderCredential: vi.fn<(id: string, request: SaveCredentialRequest) => Promise<LinkedInCredential>>(),
+    verifySenderCredential: vi.fn<(id: string) => Promise<LinkedInCredential>>(),
+    clearSenderCredential: vi.fn<(id: string) => Promise<LinkedInCredential>>(),
+  },
+}));
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: api,
+}));
+
+const COOKIE = 'AQEDAR8x1ZkFakeSessionValue4f2a';
+const MESSAGES_PER_DAY = 30;
+const LIMITS = defaultLimits('Europe/Berlin');
+const MISSING: LinkedInCredential = { status: 'Missing', last4: null, savedAt: null, expiresAt: null, verifiedAt: null };
+const VALID: LinkedInCredential = {
+  status: 'Valid',
+  last4: '4f2a',
+  savedAt: new Date().toISOString(),
+  expiresAt: null,
+  verifiedAt: new Date().toISOString(),
+};
+const JANE: Sender = {
+  id: 'sender-1',
+  name: 'Jane Doe',
+  avatarUrl: null,
+  limits: LIMITS,
+  createdAt: '2026-03-01T00:00:00Z',
+  credential: MISSING,
+};
+
+describe('SendersPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    api.getSenders.mockResolvedValue([JANE]);
+    api.createSender.mockResolvedValue(JANE);
+    api.updateSender.mockImplementation((id, request) => Promise.resolve({ ...JANE, ...request }));
+    api.saveSenderCredential.mockResolvedValue(VALID);
+    api.verifySenderCredential.mockResolvedValue({ ...VALID, status: 'Invalid' });
+    api.clearSenderCredential.mockResolvedValue(MISSING);
+  });
+
+  it('should add a sender once its details are valid', async () => {
+    const user = userEvent.setup();
+    api.getSenders.mockResolvedValue([]);
+    renderWithQueryClient(<SendersPanel backendOffline={false} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Add sender' }));
+    await user.click(screen.getByRole('button', { name: 'Add sender' }));
+    expect(screen.getByRole('alert')).toHaveTextContent('A name is required');
+    expect(api.createSender).not.toHaveBeenCalled();
+
+    await user.type(screen.getByLabelText('Name'), 'Jane Doe');
+    await user.click(screen.getByRole('button', { name: 'Add sender' }));
+
+    await waitFor(() => expect(api.createSender).toHaveBeenCalledWith({ name: 'Jane Doe', avatarUrl: null, limits: defaultLimits() }));
+    expect(await screen.findByRole('region', { name: 'Jane Doe' })).toHaveTextContent('Status: Not configured');
+  });
+
+  it("should save a sender's edited sending limits", async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<SendersPanel backendOffline={false} />);
+
+    const jane = await screen.findByRole('region', { name: 'Jane Doe' });
+    expect(jane).toHaveTextContent('20 requests · 50 messages a day · Mon-Fri 09:00-17:00 Europe/Berlin');
+    await user.click(within(jane).getByRole('button', { name: 'Edit Jane Doe' }));
+    await user.clear(within(jane).getByLabelText('Messages per day'));
+    await user.type(within(jane).getByLabelText('Messages per day'), String(MESSAGES_PER_DAY));
+    await user.click(within(jane).getByRole('button', { name: 'Saturday' }));
+    await user.click(within(jane).getByRole('button', { name: 'Save sender' }));
+
+    await waitFor(() => expect(api.updateSender).toHaveBeenCalledWith('sender-1', {
+      name: 'Jane Doe',
+      avatarUrl: null,
+      limits: {
+        ...LIMITS,
+        messagesPerDay: MESSAGES_PER_DAY,
+        workdays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+      },
+    }));
+    expect(await screen.findByText(/30 messages a day · Mon-Sat/)).toBeInTheDocument();
+  });
+
+  it('should send a sender cookie once and show only its masked value', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<SendersPanel backendOffline={false} />);
+
+    const jane = await screen.findByRole('region', { name: 'Jane Doe' });
+    await user.type(within(jane).getByLabelText('LinkedIn Session Cookie'), `li_at=${COOKIE}`);
+    await user.click(within(jane).getByRole('button', { name: /save & verify cookie/i }));
+
+    await waitFor(() => expect(api.saveSenderCredential).toHaveBeenCalledWith('sender-1', { cookie: COOKIE }));
+    expect(await within(jane).findByLabelText('Stored cookie')).toHaveTextContent('••••••••4f2a');
+    expect(within(jane).getByText('Status: Connected')).toBeInTheDocument();
+    expect(screen.queryByDisplayValue(COOKIE)).not.toBeInTheDocument();
+  });
+
+  it('should not send a cookie that fails validation', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<SendersPanel backendOffline={false} />);
+
+    await user.type(await screen.findByLabelText('LinkedIn Session Cookie'), 'too short');
+    await user.click(screen.getByRole('button', { name: /save & verify cookie/i }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('The cookie is a single value without spaces');
+    expect(api.saveSenderCredential).not.toHaveBeenCalled();
+  });
+
+  it('should re-verify and remove the stored cookie', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    api.getSenders.mockResolvedValue([{ ...JANE, credential: VALID }]);
+    renderWithQueryClient(<SendersPanel backendOffline={false} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Verify' }));
+    expect(await screen.findByText('Status: Rejected by LinkedIn - replace the cookie')).toBeInTheDocument();
+    expect(api.verifySenderCredential).toHaveBeenCalledWith('sender-1');
+
+    await user.click(screen.getByRole('button', { name: 'Remove' }));
+    await waitFor(() => expect(api.clearSenderCredential).toHaveBeenCalledWith('sender-1'));
+    expect(await screen.findByLabelText('LinkedIn Session Cookie')).toHaveValue('');
+  });
+});
@@ -0,0 +1,54 @@
+import { SenderCard } from '@/components/senders/SenderCard';
+import { SenderForm } from '@/components/senders/SenderForm';
+import { Button } from '@/components/ui/button';
+import { useCreateSender, useSenders } from '@/hooks/use-sender-queries';
+import { SaveSenderRequest } from '@/lib/api';
+import { Plus, RefreshCw } from 'lucide-react';
+import { useState } from 'react';
+
+interface SendersPanelProps {
+  backendOffline: boolean;
+}
+
+/**
+ * The LinkedIn accounts outreach is sent from, each with its own cookie, and the form to add one.
+ */
+export function SendersPanel({ backendOffline }: SendersPanelProps): JSX.Element {
+  const { data: senders = [], isPending } = useSenders();
+  const create = useCreateSender();
+  const [adding, setAdding] = useState(false);
+
+  const handleCreate = (request: SaveSenderRequest) => {
+    create.mutate(request, { onSuccess: () => setAdding(false) });
+  };
+
+  if (isPending && !backendOffline) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+        <RefreshCw className="w-4 h-4 animate-spin" />
+        Loading senders...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {senders.length === 0 && !adding && (
+        <p className="text-sm text-muted-foreground">
+          No senders yet. Add the LinkedIn accounts your team sends outreach from.
+        </p>
+      )}
+      {senders.map((sender) => (
+        <SenderCard key={sender.id} sender={sender} backendOffline={backendOffline} />
+      ))}
+      {adding ? (
+        <SenderForm submitLabel="Add sender" saving={create.isPending} onSave={handleCreate} onCancel={() => setAdding(false)} />
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setAdding(true)} disabled={backendOffline}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add sender
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { SettingsFieldError } from '@/components/settings/SettingsFieldError';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { SendingLimits, Weekday } from '@/lib/api';
+import { HOURS_PER_DAY, hourLabel, LimitErrors, WEEKDAYS } from '@/lib/sending-limits';
+import { useId } from 'react';
+
+const SHORT_DAY = 3;
+const HOURS = Array.from({ length: HOURS_PER_DAY + 1 }, (_, hour) => hour);
+
+type NumericLimit = 'connectionsPerDay' | 'messagesPerDay' | 'minGapMinutes' | 'jitterMinutes';
+
+interface SendingLimitsFieldsProps {
+  value: SendingLimits;
+  onChange: (value: SendingLimits) => void;
+  errors: LimitErrors;
+  disabled?: boolean;
+}
+
+/**
+ * Inputs for one set of sending limits, shared by the sender form and the campaign limits.
+ */
+export function SendingLimitsFields({ value, onChange, errors, disabled }: SendingLimitsFieldsProps): JSX.Element {
+  const id = useId();
+  const set = (changes: Partial<SendingLimits>) => onChange({ ...value, ...changes });
+
+  const numberField = (key: NumericLimit, label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`${id}-${key}`}>{label}</Label>
+      <Input
+        id={`${id}-${key}`}
+        type="number"
+        min={0}
+        value={Number.isNaN(value[key]) ? '' : value[key]}
+        onChange={(e) => set({ [key]: e.target.valueAsNumber })}
+        disabled={disabled}
+        aria-invalid={Boolean(errors[key])}
+        aria-describedby={`${id}-${key}-error`}
+      />
+      <SettingsFieldError id={`${id}-${key}-error`} message={errors[key]} />
+    </div>
+  );
+
+  const hourField = (key: 'startHour' | 'endHour', label: string, hours: number[]) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={String(value[key])} onValueChange={(hour) => set({ [key]: Number(hour) })} disabled={disabled}>
+        <SelectTrigger aria-label={label} aria-describedby={`${id}-${key}-error`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {hours.map((hour) => (
+            <SelectItem key={hour} value={String(hour)}>
+              {hourLabel(hour)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <SettingsFieldError id={`${id}-${key}-error`} message={errors[key]} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        {numberField('connectionsPerDay', 'Connection requests per day')}
+        {numberField('messagesPerDay', 'Messages per day')}
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-timeZone`}>Time zone</Label>
+          <Input
+            id={`${id}-timeZone`}
+            value={value.timeZone}
+            onChange={(e) => set({ timeZone: e.target.value })}
+            placeholder="Europe/Berlin"
+            disabled={disabled}
+            aria-invalid={Boolean(errors.timeZone)}
+            aria-describedby={`${id}-timeZone-error`}
+          />
+          <SettingsFieldError id={`${id}-timeZone-error`} message={errors.timeZone} />
+        </div>
+        {hourField('startHour', 'Working hours from', HOURS.slice(0, -1))}
+        {hourField('endHour', 'Working hours until', HOURS.slice(1))}
+      </div>
+      <div className="space-y-2">
+        <Label>Workdays</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          className="justify-start"
+          value={value.workdays}
+          onValueChange={(days: Weekday[]) => set({ workdays: WEEKDAYS.filter((day) => days.includes(day)) })}
+          disabled={disabled}
+          aria-label="Workdays"
+          aria-describedby={`${id}-workdays-error`}
+        >
+          {WEEKDAYS.map((day) => (
+            <ToggleGroupItem key={day} value={day} aria-label={day} className="w-12">
+              {day.slice(0, SHORT_DAY)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <SettingsFieldError id={`${id}-workdays-error`} message={errors.workdays} />
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        {numberField('minGapMinutes', 'Minimum pause (minutes)')}
+        {numberField('jitterMinutes', 'Random extra pause (minutes)')}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { SendingLimitsFields } from '@/components/senders/SendingLimitsFields';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useCampaignLimits, useSaveCampaignLimits } from '@/hooks/use-limit-queries';
+import { SendingLimits } from '@/lib/api';
+import { defaultLimits, validateLimits } from '@/lib/sending-limits';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useId, useState } from 'react';
+
+interface CampaignLimitsFormProps {
+  campaignId: string;
+}
+
+/**
+ * A campaign's own sending limits, applied on top of those of the senders it uses. Changes are
+ * kept as a draft until saved.
+ */
+export function CampaignLimitsForm({ campaignId }: CampaignLimitsFormProps): JSX.Element {
+  const id = useId();
+  const { data: stored, isPending } = useCampaignLimits(campaignId);
+  const save = useSaveCampaignLimits(campaignId);
+  // undefined while untouched; null when the draft removes the campaign's limits
+  const [draft, setDraft] = useState<SendingLimits | null | undefined>(undefined);
+  const [submitted, setSubmitted] = useState(false);
+
+  if (isPending || !stored) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+        <RefreshCw className="w-4 h-4 animate-spin" />
+        Loading limits...
+      </div>
+    );
+  }
+
+  const limits = draft === undefined ? stored.limits : draft;
+  const errors = submitted && limits ? validateLimits(limits) : {};
+
+  const handleSave = () => {
+    setSubmitted(true);
+    if (limits && Object.keys(validateLimits(limits)).length > 0) {
+      return;
+    }
+    save.mutate(
+      { limits },
+      {
+        onSuccess: () => {
+          setDraft(undefined);
+          setSubmitted(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label htmlFor={`${id}-limited`}>Limit this campaign</Label>
+          <p className="text-xs text-muted-foreground">
+            Caps on top of its senders&apos; own limits, counted over everything the campaign sends
+          </p>
+        </div>
+        <Switch
+          id={`${id}-limited`}
+          checked={limits !== null}
+          onCheckedChange={(checked) => setDraft(checked ? (stored.limits ?? defaultLimits()) : null)}
+          disabled={save.isPending}
+        />
+      </div>
+      {limits && <SendingLimitsFields value={limits} onChange={setDraft} errors={errors} disabled={save.isPending} />}
+      {draft !== undefined && (
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setDraft(undefined)} disabled={save.isPending}>
+            Discard
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={save.isPending} className="gap-2">
+            {save.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save limits
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { CampaignLimitsForm } from '@/components/settings/CampaignLimitsForm';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCampaigns } from '@/hooks/use-campaign-queries';
+import { useState } from 'react';
+
+/**
+ * Pick a campaign and edit its sending limits.
+ */
+export function CampaignLimitsPanel(): JSX.Element {
+  const { data: campaigns = [] } = useCampaigns();
+  const [campaignId, setCampaignId] = useState<string>();
+
+  if (campaigns.length === 0) {
+    return <p className="text-sm text-muted-foreground">Campaigns you create can be given their own limits here.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Select value={campaignId} onValueChange={setCampaignId}>
+        <SelectTrigger className="w-64" aria-label="Campaign">
+          <SelectValue placeholder="Select a campaign" />
+        </SelectTrigger>
+        <SelectContent>
+          {campaigns.map((campaign) => (
+            <SelectItem key={campaign.id} value={campaign.id}>
+              {campaign.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {/* Keyed by campaign so a draft never carries over to another campaign */}
+      {campaignId && <CampaignLimitsForm key={campaignId} campaignId={campaignId} />}
+    </div>
+  );
+}
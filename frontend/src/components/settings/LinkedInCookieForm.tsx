@@ -0,0 +1,78 @@
+import { SettingsFieldError } from '@/components/settings/SettingsFieldError';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SaveCredentialRequest } from '@/lib/api';
+import { cookieError, normalizeCookie } from '@/lib/linkedin-credential';
+import { Loader2 } from 'lucide-react';
+import { FormEvent, useId, useState } from 'react';
+
+interface LinkedInCookieFormProps {
+  saving: boolean;
+  onSave: (request: SaveCredentialRequest) => void;
+  /** Shown when replacing a stored cookie, to keep the current one. */
+  onCancel?: () => void;
+}
+
+/**
+ * Write-only cookie entry. The value is cleared from the field as soon as it is sent.
+ */
+export function LinkedInCookieForm({ saving, onSave, onCancel }: LinkedInCookieFormProps): JSX.Element {
+  // Every sender has its own form, so the ids must be unique on the page
+  const id = useId();
+  const [cookie, setCookie] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [touched, setTouched] = useState(false);
+  const value = normalizeCookie(cookie);
+  const error = cookieError(value);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setTouched(true);
+    if (error) {
+      return;
+    }
+    onSave(expiresAt ? { cookie: value, expiresAt: new Date(expiresAt).toISOString() } : { cookie: value });
+    setCookie('');
+    setExpiresAt('');
+    setTouched(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-cookie`}>LinkedIn Session Cookie</Label>
+          <Input
+            id={`${id}-cookie`}
+            type="password"
+            autoComplete="off"
+            spellCheck={false}
+            value={cookie}
+            onChange={(e) => setCookie(e.target.value)}
+            onBlur={() => setTouched(cookie !== '')}
+            placeholder="li_at cookie value"
+            aria-invalid={touched && Boolean(error)}
+            aria-describedby={`${id}-cookie-error`}
+          />
+          <SettingsFieldError id={`${id}-cookie-error`} message={touched ? (error ?? undefined) : undefined} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-cookie-expiry`}>Cookie expiry (optional)</Label>
+          <Input id={`${id}-cookie-expiry`} type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" disabled={saving} className="gap-2">
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save & verify cookie
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,104 @@
+import type { LinkedInCredential, SaveCredentialRequest, Sender } from '@/lib/api';
+import { defaultLimits } from '@/lib/sending-limits';
+import { renderWithQueryClient } from '@/test/render';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LinkedInCredentialPanel } from './LinkedInCredentialPanel';
+
+const { api } = vi.hoisted(() => ({
+  api: {
+    saveSenderCredential: vi.fn<(id: string, request: SaveCredentialRequest) => Promise<LinkedInCredential>>(),
+    verifySenderCredential: vi.fn<(id: string) => Promise<LinkedInCredential>>(),
+    clearSenderCredential: vi.fn<(id: string) => Promise<LinkedInCredential>>(),
+  },
+}));
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: api,
+}));
+
+const COOKIE = 'AQEDAR8x1ZkFakeSessionValue4f2a';
+const MISSING: LinkedInCredential = { status: 'Missing', last4: null, savedAt: null, expiresAt: null, verifiedAt: null };
+const VALID: LinkedInCredential = {
+  status: 'Valid',
+  last4: '4f2a',
+  savedAt: new Date().toISOString(),
+  expiresAt: null,
+  verifiedAt: new Date().toISOString(),
+};
+const JANE: Sender = {
+  id: 'sender-1',
+  name: 'Jane Doe',
+  avatarUrl: null,
+  limits: defaultLimits('Europe/Berlin'),
+  createdAt: '2026-03-01T00:00:00Z',
+  credential: MISSING,
+};
+
+describe('LinkedInCredentialPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    api.saveSenderCredential.mockResolvedValue(VALID);
+    api.verifySenderCredential.mockResolvedValue(VALID);
+    api.clearSenderCredential.mockResolvedValue(MISSING);
+  });
+
+  it('should take the cookie in a password field and clear it once sent', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<LinkedInCredentialPanel sender={JANE} backendOffline={false} />);
+
+    const field = screen.getByLabelText('LinkedIn Session Cookie');
+    expect(field).toHaveAttribute('type', 'password');
+    expect(field).toHaveAttribute('autocomplete', 'off');
+    await user.type(field, `li_at=${COOKIE}`);
+    await user.click(screen.getByRole('button', { name: /save & verify cookie/i }));
+
+    await waitFor(() => expect(api.saveSenderCredential).toHaveBeenCalledWith('sender-1', { cookie: COOKIE }));
+    expect(api.saveSenderCredential).toHaveBeenCalledTimes(1);
+    expect(field).toHaveValue('');
+    expect(screen.queryByDisplayValue(COOKIE)).not.toBeInTheDocument();
+  });
+
+  it('should not keep a cookie LinkedIn rejected in the field', async () => {
+    const user = userEvent.setup();
+    api.saveSenderCredential.mockRejectedValue(new Error('LinkedIn did not accept the cookie.'));
+    renderWithQueryClient(<LinkedInCredentialPanel sender={JANE} backendOffline={false} />);
+
+    await user.type(screen.getByLabelText('LinkedIn Session Cookie'), COOKIE);
+    await user.click(screen.getByRole('button', { name: /save & verify cookie/i }));
+
+    await waitFor(() => expect(api.saveSenderCredential).toHaveBeenCalled());
+    expect(screen.getByLabelText('LinkedIn Session Cookie')).toHaveValue('');
+    expect(screen.getByText('Status: Not configured')).toBeInTheDocument();
+  });
+
+  it('should show only the masked stored cookie and keep it when a replacement is cancelled', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<LinkedInCredentialPanel sender={{ ...JANE, credential: VALID }} backendOffline={false} />);
+
+    expect(screen.getByLabelText('Stored cookie')).toHaveTextContent('••••••••4f2a');
+    expect(screen.getByText('Status: Connected')).toBeInTheDocument();
+    expect(screen.queryByLabelText('LinkedIn Session Cookie')).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Replace' }));
+    await user.type(screen.getByLabelText('LinkedIn Session Cookie'), COOKIE);
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(screen.getByLabelText('Stored cookie')).toHaveTextContent('••••••••4f2a');
+    expect(screen.queryByDisplayValue(COOKIE)).not.toBeInTheDocument();
+    expect(api.saveSenderCredential).not.toHaveBeenCalled();
+  });
+
+  it('should not send a cookie that fails validation', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<LinkedInCredentialPanel sender={JANE} backendOffline={false} />);
+
+    await user.type(screen.getByLabelText('LinkedIn Session Cookie'), 'too short');
+    await user.click(screen.getByRole('button', { name: /save & verify cookie/i }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('The cookie is a single value without spaces');
+    expect(api.saveSenderCredential).not.toHaveBeenCalled();
+  });
+});
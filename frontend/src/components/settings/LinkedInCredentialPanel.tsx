@@ -0,0 +1,85 @@
+import { LinkedInCookieForm } from '@/components/settings/LinkedInCookieForm';
+import { Button } from '@/components/ui/button';
+import { useClearSenderCredential, useSaveSenderCredential, useVerifySenderCredential } from '@/hooks/use-sender-queries';
+import { SaveCredentialRequest, Sender } from '@/lib/api';
+import { credentialDisplay, maskedCookie } from '@/lib/linkedin-credential';
+import { cn } from '@/lib/utils';
+import { format, formatDistanceToNow } from 'date-fns';
+import { KeyRound, Linkedin, RefreshCw, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+interface LinkedInCredentialPanelProps {
+  sender: Sender;
+  backendOffline: boolean;
+}
+
+/**
+ * A sender's LinkedIn session cookie: its connection status, the masked stored value with verify,
+ * replace and remove actions, and the form to enter a cookie when none is stored.
+ */
+export function LinkedInCredentialPanel({ sender, backendOffline }: LinkedInCredentialPanelProps): JSX.Element {
+  const { credential } = sender;
+  const save = useSaveSenderCredential(sender.id);
+  const verify = useVerifySenderCredential(sender.id);
+  const clear = useClearSenderCredential(sender.id);
+  const [replacing, setReplacing] = useState(false);
+  const display = credentialDisplay(credential, backendOffline);
+  const stored = credential.status !== 'Missing' ? credential : null;
+  const busy = save.isPending || verify.isPending || clear.isPending;
+
+  const handleSave = (request: SaveCredentialRequest) => {
+    // Drop the cookie from the mutation state as soon as the request is done
+    save.mutate(request, { onSuccess: () => setReplacing(false), onSettled: () => save.reset() });
+  };
+
+  const handleClear = () => {
+    // Using window.confirm which is allowed as a dialog, not alert
+    // eslint-disable-next-line no-alert
+    if (window.confirm(`Remove the LinkedIn cookie of ${sender.name}? The agent will not send from this account until you add a new one.`)) {
+      clear.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 p-4 rounded-xl bg-accent/50">
+        <Linkedin className="w-5 h-5 text-primary" />
+        <div className="flex-1">
+          <p className="text-sm font-medium text-foreground">LinkedIn Connection</p>
+          <p className="text-xs text-muted-foreground">Status: {display.label}</p>
+        </div>
+        <div className={cn('w-2 h-2 rounded-full', display.tone)} />
+      </div>
+
+      {stored && !replacing ? (
+        <div className="flex flex-wrap items-center gap-4 p-4 rounded-xl border border-border">
+          <div className="flex-1 min-w-48 space-y-1">
+            <p className="text-sm font-mono text-foreground" aria-label="Stored cookie">{maskedCookie(stored)}</p>
+            <p className="text-xs text-muted-foreground">
+              {stored.expiresAt ? `Expires ${format(new Date(stored.expiresAt), 'PP')}` : 'Expiry unknown'}
+              {stored.verifiedAt && ` · verified ${formatDistanceToNow(new Date(stored.verifiedAt), { addSuffix: true })}`}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => verify.mutate()} disabled={busy || backendOffline}>
+            <RefreshCw className={cn('w-4 h-4 mr-2', verify.isPending && 'animate-spin')} />
+            Verify
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setReplacing(true)} disabled={busy}>
+            <KeyRound className="w-4 h-4 mr-2" />
+            Replace
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleClear} disabled={busy || backendOffline}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Remove
+          </Button>
+        </div>
+      ) : (
+        <LinkedInCookieForm
+          saving={save.isPending}
+          onSave={handleSave}
+          onCancel={stored ? () => setReplacing(false) : undefined}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+interface SettingsFieldErrorProps {
+  /** Referenced by the input's aria-describedby. */
+  id: string;
+  message?: string;
+}
+
+export function SettingsFieldError({ id, message }: SettingsFieldErrorProps): JSX.Element | null {
+  if (!message) {
+    return null;
+  }
+  return (
+    <p id={id} className="text-sm text-destructive" role="alert">
+      {message}
+    </p>
+  );
+}
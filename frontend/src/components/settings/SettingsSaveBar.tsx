@@ -0,0 +1,35 @@
+import { Button } from '@/components/ui/button';
+import { SettingsForm } from '@/hooks/use-settings-form';
+import { Loader2, Save } from 'lucide-react';
+
+interface SettingsSaveBarProps {
+  form: SettingsForm;
+  label: string;
+}
+
+/**
+ * Save and discard for the shared settings draft, with a notice while changes are unsaved.
+ */
+export function SettingsSaveBar({ form, label }: SettingsSaveBarProps): JSX.Element {
+  const { dirty, saving, loading, errors, save, discard } = form;
+  const invalid = Object.keys(errors).length > 0;
+
+  return (
+    <div className="flex items-center justify-end gap-3">
+      {dirty && (
+        <p className="mr-auto text-sm text-muted-foreground" role="status">
+          {invalid ? 'Fix the highlighted settings before saving.' : 'You have unsaved changes.'}
+        </p>
+      )}
+      {dirty && (
+        <Button variant="outline" onClick={discard} disabled={saving}>
+          Discard
+        </Button>
+      )}
+      <Button onClick={() => void save()} disabled={!dirty || invalid || saving || loading} className="gap-2">
+        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+        {label}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useChatThreads } from '@/hooks/use-chat-threads';
+import { useToast } from '@/hooks/use-toast';
+import { AgentChatClient, ChatMessage as ChatMsg } from '@/lib/agent-chat';
+import { AgentEvent } from '@/lib/agent-events';
+import {
+  createAssistantMessage,
+  describeChatError,
+  EMPTY_DRAFT,
+  isAbortError,
+  reduceDraft,
+  StreamingDraft,
+} from '@/lib/chat-draft';
+import { threadCampaignId } from '@/lib/chat-history';
+import { settleToolCalls } from '@/lib/tool-calls';
+import { Message } from '@/types/agent';
+import { useEffect, useRef, useState } from 'react';
+
+const chatClient = new AgentChatClient(''); // Use relative URL - proxied by Vite
+
+interface SendOptions {
+  /** Have the agent propose a plan instead of acting. */
+  planMode?: boolean;
+}
+
+interface UseAgentChatResult {
+  messages: Message[];
+  isLoadingHistory: boolean;
+  draft: StreamingDraft;
+  isTyping: boolean;
+  sendMessage: (content: string, options?: SendOptions) => Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Streams agent runs for a chat thread and folds their events into chat messages.
+ * Tool invocations are tracked as structured ToolCall entries on the assistant message.
+ */
+export function useAgentChat(thread: string): UseAgentChatResult {
+  const { messages, isLoadingHistory, appendMessage } = useChatThreads(thread);
+  const [isTyping, setIsTyping] = useState(false);
+  const [draft, setDraft] = useState<StreamingDraft>(EMPTY_DRAFT);
+  const draftRef = useRef<StreamingDraft>(EMPTY_DRAFT);
+  const runningRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const runThreadRef = useRef(thread);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // Leaving the page must not leave a run streaming in the background
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const updateDraft = (next: StreamingDraft) => {
+    draftRef.current = next;
+    setDraft(next);
+  };
+
+  const finish = (message: Message | null) => {
+    if (message) {
+      appendMessage(runThreadRef.current, message);
+    }
+    updateDraft(EMPTY_DRAFT);
+    setIsTyping(false);
+    runningRef.current = false;
+    abortRef.current = null;
+  };
+
+  const finishStopped = () => {
+    const { content, tools, runId } = draftRef.current;
+    const message = createAssistantMessage(content, settleToolCalls(tools, 'error'), runId);
+    message.stopped = true;
+    finish(message);
+  };
+
+  const handleEvent = (event: AgentEvent) => {
+    if (event.type === 'run_finished') {
+      const { content, tools, runId } = draftRef.current;
+      const hasOutput = content.length > 0 || tools.length > 0;
+      finish(hasOutput ? createAssistantMessage(content, settleToolCalls(tools, 'completed'), runId) : null);
+    } else if (event.type === 'run_failed') {
+      const tools = settleToolCalls(draftRef.current.tools, 'error');
+      finish(createAssistantMessage(`Sorry, I encountered an error: ${event.message}`, tools));
+    } else {
+      updateDraft(reduceDraft(draftRef.current, event));
+    }
+  };
+
+  const sendMessage = async (content: string, options: SendOptions = {}): Promise<void> => {
+    const userMsg: Message = {
+      id: crypto.randomUUID(),
+      role: 'user',
+      content,
+      timestamp: new Date(),
+    };
+    runThreadRef.current = thread;
+    appendMessage(thread, userMsg);
+    setIsTyping(true);
+    updateDraft(EMPTY_DRAFT);
+    runningRef.current = true;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const history: ChatMsg[] = [
+      ...messages.map((m) => ({ role: m.role, content: m.content })),
+      { role: 'user', content },
+    ];
+
+    try {
+      for await (const event of chatClient.streamChat(history, {
+        campaignId: threadCampaignId(thread),
+        planMode: options.planMode ?? false,
+        signal: controller.signal,
+      })) {
+        handleEvent(event);
+      }
+      if (runningRef.current && controller.signal.aborted) {
+        finishStopped();
+      } else if (runningRef.current) {
+        // Stream closed without a terminal event - keep whatever arrived
+        handleEvent({ type: 'run_finished', status: 'completed' });
+      }
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        finishStopped();
+        return;
+      }
+      const errorMessage = describeChatError(error);
+      toast({
+        title: 'Error',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+      const tools = settleToolCalls(draftRef.current.tools, 'error');
+      finish(createAssistantMessage(`Sorry, I encountered an error: ${errorMessage}`, tools));
+    }
+  };
+
+  const stop = () => {
+    abortRef.current?.abort();
+  };
+
+  return { messages, isLoadingHistory, draft, isTyping, sendMessage, stop };
+}
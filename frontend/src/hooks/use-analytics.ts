@@ -0,0 +1,103 @@
+import { apiClient, ApiError, CampaignEvent, EventQuery, Sender } from '@/lib/api';
+import { CampaignSnapshot } from '@/lib/analytics';
+import { useCallback, useEffect, useState } from 'react';
+
+interface AnalyticsData {
+  snapshots: CampaignSnapshot[];
+  events: CampaignEvent[];
+  senders: Sender[];
+}
+
+interface UseAnalyticsResult extends AnalyticsData {
+  loading: boolean;
+  /** Message of the failure that left the dashboard without data, if any. */
+  error: string | null;
+  reload: () => void;
+}
+
+const EVENTS_PAGE_SIZE = 200;
+// Safety valve against an unexpectedly huge range; the dashboard then shows the newest events only
+const MAX_EVENT_PAGES = 25;
+
+async function fetchEvents(query: EventQuery): Promise<CampaignEvent[]> {
+  const events: CampaignEvent[] = [];
+  let cursor: string | null = null;
+  for (let page = 0; page < MAX_EVENT_PAGES; page++) {
+    const result = await apiClient.getEvents({ ...query, limit: EVENTS_PAGE_SIZE, ...(cursor ? { cursor } : {}) });
+    events.push(...result.items);
+    cursor = result.nextCursor;
+    if (cursor === null) {
+      break;
+    }
+  }
+  return events;
+}
+
+async function fetchSnapshots(): Promise<CampaignSnapshot[]> {
+  const campaigns = await apiClient.getCampaigns();
+  const [states, leads] = await Promise.all([
+    Promise.allSettled(campaigns.map((campaign) => apiClient.getCampaignState(campaign.id))),
+    Promise.allSettled(campaigns.map((campaign) => apiClient.getLeads(campaign.id))),
+  ]);
+  return campaigns.map((campaign, i) => {
+    const state = states[i];
+    const campaignLeads = leads[i];
+    return {
+      campaign,
+      state: state?.status === 'fulfilled' ? state.value : null,
+      leads: campaignLeads?.status === 'fulfilled' ? campaignLeads.value : [],
+    };
+  });
+}
+
+// Senders only feed the sender filter, so the dashboard still loads without them
+async function fetchSenders(): Promise<Sender[]> {
+  try {
+    return await apiClient.getSenders();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Loads campaign snapshots (state and leads), the senders and the audit events between `from` and `to` for the analytics dashboard.
+ */
+export function useAnalytics(from: Date, to: Date): UseAnalyticsResult {
+  const [data, setData] = useState<AnalyticsData>({ snapshots: [], events: [], senders: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const fromIso = from.toISOString();
+  const toIso = to.toISOString();
+
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    setError(null);
+
+    Promise.all([fetchSnapshots(), fetchEvents({ from: fromIso, to: toIso }), fetchSenders()])
+      .then(([snapshots, events, senders]) => {
+        if (active) {
+          setData({ snapshots, events, senders });
+        }
+      })
+      .catch((err: unknown) => {
+        if (active) {
+          setError((err as ApiError).message);
+        }
+      })
+      .finally(() => {
+        if (active) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [fromIso, toIso, version]);
+
+  const reload = useCallback(() => setVersion((v) => v + 1), []);
+
+  return { ...data, loading, error, reload };
+}
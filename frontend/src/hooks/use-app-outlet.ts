@@ -0,0 +1,15 @@
+import { UseApprovalsResult } from '@/hooks/use-approvals';
+import { SettingsForm } from '@/hooks/use-settings-form';
+import { useOutletContext } from 'react-router-dom';
+
+/**
+ * State the app shell owns and hands down to the routed pages.
+ */
+export interface AppOutletContext {
+  settings: SettingsForm;
+  approvals: UseApprovalsResult;
+}
+
+export function useAppOutlet(): AppOutletContext {
+  return useOutletContext<AppOutletContext>();
+}
@@ -0,0 +1,59 @@
+import { useApproveTask, usePendingApprovals, useRejectTask } from '@/hooks/use-task-queries';
+import { CampaignTask, TaskStatus } from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { signalRHub, TaskStatusChangedEvent } from '@/lib/signalr';
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+
+export interface UseApprovalsResult {
+  approvals: CampaignTask[];
+  loading: boolean;
+  reload: () => Promise<void>;
+  approve: (task: CampaignTask, comment?: string) => Promise<boolean>;
+  reject: (task: CampaignTask, comment: string) => Promise<boolean>;
+}
+
+const NO_APPROVALS: CampaignTask[] = [];
+
+/**
+ * Tasks across all campaigns that wait for a human sign-off.
+ * The queue follows TaskStatusChanged pushes so decisions made elsewhere show up live.
+ */
+export function useApprovals(): UseApprovalsResult {
+  const client = useQueryClient();
+  const { data: approvals = NO_APPROVALS, isFetching, refetch } = usePendingApprovals();
+  const approveTask = useApproveTask();
+  const rejectTask = useRejectTask();
+
+  useEffect(() => {
+    const handleTaskStatusChanged = (event: TaskStatusChangedEvent) => {
+      if ((event.status as TaskStatus) === TaskStatus.AwaitingApproval) {
+        // The event does not carry the task itself, so the queue is fetched again
+        void client.invalidateQueries({ queryKey: queryKeys.approvals });
+        return;
+      }
+      client.setQueryData<CampaignTask[]>(queryKeys.approvals, (tasks) => tasks?.filter((t) => t.id !== event.taskId));
+    };
+
+    return signalRHub.onTaskStatusChanged(handleTaskStatusChanged);
+  }, [client]);
+
+  const reload = async (): Promise<void> => {
+    await refetch();
+  };
+
+  // Failures are rolled back and reported by the mutations; callers only need the outcome
+  const approve = (task: CampaignTask, comment?: string): Promise<boolean> =>
+    approveTask.mutateAsync({ campaignId: task.campaignId, taskId: task.id, ...(comment === undefined ? {} : { comment }) }).then(
+      () => true,
+      () => false
+    );
+
+  const reject = (task: CampaignTask, comment: string): Promise<boolean> =>
+    rejectTask.mutateAsync({ campaignId: task.campaignId, taskId: task.id, comment }).then(
+      () => true,
+      () => false
+    );
+
+  return { approvals, loading: isFetching, reload, approve, reject };
+}
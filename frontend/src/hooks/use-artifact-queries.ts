@@ -0,0 +1,26 @@
+import { apiClient, ApiError, Artifact, CreateArtifactRequest } from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { useMutation, UseMutationResult, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
+
+/**
+ * Every stored version of the campaign's artifacts, optionally of one type.
+ */
+export function useArtifacts(campaignId: string | undefined, type?: string): UseQueryResult<Artifact[], ApiError> {
+  return useQuery({
+    queryKey: [...queryKeys.artifacts(campaignId ?? ''), type ?? 'all'],
+    queryFn: () => apiClient.getArtifacts(campaignId ?? '', type),
+    enabled: campaignId !== undefined,
+    meta: { action: 'load campaign artifacts' },
+  });
+}
+
+/**
+ * Stores a new artifact version; callers add their own error handling, since what failed differs.
+ */
+export function useCreateArtifact(): UseMutationResult<Artifact, ApiError, CreateArtifactRequest> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (request: CreateArtifactRequest) => apiClient.createArtifact(request),
+    onSettled: (_artifact, _error, request) => client.invalidateQueries({ queryKey: queryKeys.artifacts(request.campaignId) }),
+  });
+}
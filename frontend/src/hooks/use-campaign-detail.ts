@@ -0,0 +1,55 @@
+import { useArtifacts } from '@/hooks/use-artifact-queries';
+import { useCampaign, useCampaignEvents, useCampaignState } from '@/hooks/use-campaign-queries';
+import { useLeads } from '@/hooks/use-lead-queries';
+import { useTasks } from '@/hooks/use-task-queries';
+import { Artifact, Campaign, CampaignEvent, CampaignState, CampaignTask, Lead } from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+
+interface UseCampaignDetailResult {
+  campaign: Campaign | null;
+  state: CampaignState | null;
+  tasks: CampaignTask[];
+  leads: Lead[];
+  artifacts: Artifact[];
+  events: CampaignEvent[];
+  loading: boolean;
+  reload: () => void;
+}
+
+// Stable empty lists, so consumers memoizing on them do not recompute while a query loads
+const NO_TASKS: CampaignTask[] = [];
+const NO_LEADS: Lead[] = [];
+const NO_ARTIFACTS: Artifact[] = [];
+const NO_EVENTS: CampaignEvent[] = [];
+
+/**
+ * Everything the campaign detail view shows. Each resource is its own query, so one failing endpoint
+ * does not blank the whole page, and live updates reach the page through the query cache.
+ */
+export function useCampaignDetail(campaignId: string): UseCampaignDetailResult {
+  const client = useQueryClient();
+  const campaign = useCampaign(campaignId);
+  const state = useCampaignState(campaignId);
+  const tasks = useTasks(campaignId);
+  const leads = useLeads(campaignId);
+  const artifacts = useArtifacts(campaignId);
+  const events = useCampaignEvents(campaignId);
+  const queries = [campaign, state, tasks, leads, artifacts, events];
+
+  const reload = useCallback(() => {
+    void client.invalidateQueries({ queryKey: queryKeys.campaign(campaignId) });
+  }, [client, campaignId]);
+
+  return {
+    campaign: campaign.data ?? null,
+    state: state.data ?? null,
+    tasks: tasks.data ?? NO_TASKS,
+    leads: leads.data ?? NO_LEADS,
+    artifacts: artifacts.data ?? NO_ARTIFACTS,
+    events: events.data ?? NO_EVENTS,
+    loading: queries.some((query) => query.isFetching),
+    reload,
+  };
+}
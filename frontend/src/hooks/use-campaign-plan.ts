@@ -0,0 +1,100 @@
+import { useCreateArtifact } from '@/hooks/use-artifact-queries';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient, ApiError, ArtifactSource } from '@/lib/api';
+import { CampaignPlan, parsePlanArtifact, PLAN_ARTIFACT, PlanTask, serializePlan } from '@/lib/plan';
+import { queryKeys } from '@/lib/query-keys';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useState } from 'react';
+
+interface UseCampaignPlanResult {
+  /** Latest stored version of the campaign plan, if any. */
+  plan: CampaignPlan | null;
+  busy: boolean;
+  saveDraft: (messageId: string, tasks: PlanTask[]) => Promise<void>;
+  /** Creates the tasks one by one, in plan order, then records the approval; resolves to whether both succeeded. */
+  approve: (messageId: string, tasks: PlanTask[]) => Promise<boolean>;
+}
+
+/**
+ * The campaign plan artifact: each save stores a new user version, and approval is the only
+ * place plan tasks are created in the backend.
+ */
+export function useCampaignPlan(campaignId: string | undefined): UseCampaignPlanResult {
+  const client = useQueryClient();
+  const createArtifact = useCreateArtifact();
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+  const planKey = [...queryKeys.artifacts(campaignId ?? ''), PLAN_ARTIFACT.type, PLAN_ARTIFACT.key];
+
+  const { data: plan = null } = useQuery({
+    queryKey: planKey,
+    queryFn: async () => {
+      const artifacts = await apiClient.getArtifacts(campaignId ?? '', PLAN_ARTIFACT.type);
+      const latest = artifacts
+        .filter((artifact) => artifact.key === PLAN_ARTIFACT.key)
+        .sort((a, b) => b.version - a.version)[0];
+      return parsePlanArtifact(latest ?? null);
+    },
+    enabled: campaignId !== undefined,
+    // No stored plan yet is normal; the proposal in the chat is the starting point
+    retry: false,
+  });
+
+  const store = async (next: CampaignPlan): Promise<void> => {
+    if (!campaignId) {
+      throw new Error('Select a campaign first');
+    }
+    await createArtifact.mutateAsync({
+      campaignId,
+      ...PLAN_ARTIFACT,
+      content: serializePlan(next),
+      source: ArtifactSource.User,
+    });
+    client.setQueryData(planKey, next);
+  };
+
+  const fail = useCallback(
+    (action: string, error: unknown) => {
+      const apiError = error as ApiError;
+      toast({ title: 'Error', description: `Failed to ${action}: ${apiError.message}`, variant: 'destructive' });
+    },
+    [toast]
+  );
+
+  const saveDraft = async (messageId: string, tasks: PlanTask[]): Promise<void> => {
+    setBusy(true);
+    try {
+      await store({ status: 'draft', messageId, tasks });
+      toast({ title: 'Plan saved', description: 'Saved as a new draft version.' });
+    } catch (error) {
+      fail('save plan', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const approve = async (messageId: string, tasks: PlanTask[]): Promise<boolean> => {
+    setBusy(true);
+    let created = 0;
+    try {
+      // Tasks first, keyed by the plan's message: a retry after a partial failure skips the steps
+      // the backend already has, and the plan only reads as approved once all of them exist
+      for (const [orderIndex, task] of tasks.entries()) {
+        const { title, description, requiresApproval } = task;
+        await apiClient.createTask(campaignId ?? '', { title, description, orderIndex, requiresApproval, planId: messageId });
+        created++;
+      }
+      await store({ status: 'approved', messageId, tasks });
+      toast({ title: 'Plan approved', description: `Created ${created} ${created === 1 ? 'task' : 'tasks'}.` });
+      return true;
+    } catch (error) {
+      fail(`approve plan (${created} of ${tasks.length} tasks created)`, error);
+      return false;
+    } finally {
+      void client.invalidateQueries({ queryKey: queryKeys.tasks(campaignId ?? '') });
+      setBusy(false);
+    }
+  };
+
+  return { plan, busy, saveDraft, approve };
+}
@@ -0,0 +1,99 @@
+import {
+  apiClient,
+  ApiError,
+  Campaign,
+  CampaignEvent,
+  CampaignState,
+  CreateCampaignRequest,
+} from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { QueryClient, useMutation, UseMutationResult, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
+
+/** Cached campaigns as they were before an optimistic update, to roll back to. */
+interface CampaignsSnapshot {
+  campaigns: Campaign[] | undefined;
+  campaign: Campaign | undefined;
+}
+
+export function useCampaigns(): UseQueryResult<Campaign[], ApiError> {
+  return useQuery({
+    queryKey: queryKeys.campaigns,
+    queryFn: () => apiClient.getCampaigns(),
+    meta: { action: 'load campaigns' },
+  });
+}
+
+export function useCampaign(campaignId: string): UseQueryResult<Campaign, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.campaign(campaignId),
+    queryFn: () => apiClient.getCampaign(campaignId),
+    meta: { action: 'load campaign details' },
+  });
+}
+
+export function useCampaignState(campaignId: string): UseQueryResult<CampaignState, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.campaignState(campaignId),
+    queryFn: () => apiClient.getCampaignState(campaignId),
+    meta: { action: 'load campaign progress' },
+  });
+}
+
+export function useCampaignEvents(campaignId: string): UseQueryResult<CampaignEvent[], ApiError> {
+  return useQuery({
+    queryKey: queryKeys.campaignEvents(campaignId),
+    queryFn: () => apiClient.getCampaignEvents(campaignId),
+    meta: { action: 'load campaign events' },
+  });
+}
+
+export function useCreateCampaign(): UseMutationResult<Campaign, ApiError, CreateCampaignRequest> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (request: CreateCampaignRequest) => apiClient.createCampaign(request),
+    meta: { action: 'create campaign', success: 'Campaign created successfully' },
+    onSuccess: (campaign) => {
+      client.setQueryData<Campaign[]>(queryKeys.campaigns, (campaigns) => [campaign, ...(campaigns ?? [])]);
+    },
+  });
+}
+
+/**
+ * Apply `update` to every cached copy of the campaign right away, returning what to roll back to.
+ */
+async function updateCampaignOptimistically(
+  client: QueryClient,
+  campaignId: string,
+  update: (campaigns: Campaign[]) => Campaign[]
+): Promise<CampaignsSnapshot> {
+  // Only the two keys patched below; the campaign's tasks, leads and the like keep loading
+  await Promise.all([
+    client.cancelQueries({ queryKey: queryKeys.campaigns, exact: true }),
+    client.cancelQueries({ queryKey: queryKeys.campaign(campaignId), exact: true }),
+  ]);
+  const snapshot = {
+    campaigns: client.getQueryData<Campaign[]>(queryKeys.campaigns),
+    campaign: client.getQueryData<Campaign>(queryKeys.campaign(campaignId)),
+  };
+  client.setQueryData<Campaign[]>(queryKeys.campaigns, (campaigns) => campaigns && update(campaigns));
+  client.setQueryData<Campaign>(queryKeys.campaign(campaignId), (campaign) => campaign && update([campaign])[0]);
+  return snapshot;
+}
+
+function rollBack(client: QueryClient, campaignId: string, snapshot: CampaignsSnapshot | undefined): void {
+  client.setQueryData(queryKeys.campaigns, snapshot?.campaigns);
+  client.setQueryData(queryKeys.campaign(campaignId), snapshot?.campaign);
+}
+
+export function useDeleteCampaign(): UseMutationResult<void, ApiError, string, CampaignsSnapshot> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (campaignId: string) => apiClient.deleteCampaign(campaignId),
+    meta: { action: 'delete campaign', success: 'Campaign deleted' },
+    onMutate: (campaignId) =>
+      updateCampaignOptimistically(client, campaignId, (campaigns) => campaigns.filter((c) => c.id !== campaignId)),
+    onError: (_error, campaignId, snapshot) => rollBack(client, campaignId, snapshot),
+    onSuccess: (_data, campaignId) => client.removeQueries({ queryKey: queryKeys.campaign(campaignId) }),
+    onSettled: () => client.invalidateQueries({ queryKey: queryKeys.campaigns, exact: true }),
+  });
+}
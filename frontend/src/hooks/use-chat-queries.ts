@@ -0,0 +1,19 @@
+import { apiClient, ApiError } from '@/lib/api';
+import { toThreadMessages } from '@/lib/chat-history';
+import { queryKeys } from '@/lib/query-keys';
+import { Message } from '@/types/agent';
+import { useQuery, UseQueryResult } from '@tanstack/react-query';
+
+/**
+ * A conversation's persisted messages. They are loaded once; messages of the open conversation
+ * are added to the cache as they happen, so refetching would only repeat what is there.
+ */
+export function useChatHistory(campaignId?: string): UseQueryResult<Message[], ApiError> {
+  return useQuery({
+    queryKey: queryKeys.chatHistory(campaignId),
+    queryFn: () => apiClient.getChatHistory(campaignId).then(toThreadMessages),
+    staleTime: Infinity,
+    meta: { action: 'load chat history' },
+  });
+}
+
@@ -0,0 +1,39 @@
+import { useChatHistory } from '@/hooks/use-chat-queries';
+import { threadCampaignId } from '@/lib/chat-history';
+import { queryKeys } from '@/lib/query-keys';
+import { Message } from '@/types/agent';
+import { useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+
+const NO_MESSAGES: Message[] = [];
+
+interface UseChatThreadsResult {
+  messages: Message[];
+  isLoadingHistory: boolean;
+  appendMessage: (thread: string, message: Message) => void;
+}
+
+/**
+ * Keeps one conversation per campaign. Each thread's history is loaded from the backend the
+ * first time it is opened, and new messages are added to that cached history.
+ */
+export function useChatThreads(thread: string): UseChatThreadsResult {
+  const client = useQueryClient();
+  const { data, isLoading } = useChatHistory(threadCampaignId(thread));
+
+  const appendMessage = useCallback(
+    (target: string, message: Message) => {
+      client.setQueryData<Message[]>(queryKeys.chatHistory(threadCampaignId(target)), (prev) => [
+        ...(prev ?? []),
+        message,
+      ]);
+    },
+    [client]
+  );
+
+  return {
+    messages: data ?? NO_MESSAGES,
+    isLoadingHistory: isLoading,
+    appendMessage,
+  };
+}
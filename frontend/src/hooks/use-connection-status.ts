@@ -0,0 +1,36 @@
+import { agentRuns } from '@/lib/agent-runs';
+import { backendHealth } from '@/lib/backend-health';
+import { connectionStatus, ConnectionSignals, ConnectionStatus, HubState } from '@/lib/connection-status';
+import { signalRHub } from '@/lib/signalr';
+import { useCallback, useState, useSyncExternalStore } from 'react';
+
+interface UseConnectionStatusResult extends ConnectionSignals {
+  status: ConnectionStatus;
+  reconnecting: boolean;
+  /** Restart the SignalR connection and re-check backend health right away. */
+  reconnect: () => Promise<void>;
+}
+
+const subscribeHub = (listener: () => void) => signalRHub.onStateChanged(listener);
+const hubState = () => signalRHub.connectionState as HubState | null;
+const hubAttempts = () => signalRHub.attempts;
+
+/**
+ * Live connection signals for status displays; all of them share one hub connection and one health poll.
+ */
+export function useConnectionStatus(): UseConnectionStatusResult {
+  const hub = useSyncExternalStore(subscribeHub, hubState);
+  const reconnectAttempts = useSyncExternalStore(subscribeHub, hubAttempts);
+  const health = useSyncExternalStore(backendHealth.subscribe, backendHealth.getSnapshot);
+  const runningAgents = useSyncExternalStore(agentRuns.subscribe, agentRuns.count);
+  const [reconnecting, setReconnecting] = useState(false);
+
+  const reconnect = useCallback(async () => {
+    setReconnecting(true);
+    await Promise.allSettled([signalRHub.reconnect(), backendHealth.check()]);
+    setReconnecting(false);
+  }, []);
+
+  const signals = { hub, reconnectAttempts, health, runningAgents };
+  return { ...signals, status: connectionStatus(signals), reconnecting, reconnect };
+}
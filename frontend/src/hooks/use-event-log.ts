@@ -0,0 +1,46 @@
+import { apiClient, ApiError, CampaignEvent, EventPage } from '@/lib/api';
+import { appendEvents, EventLogFilters, toEventQuery } from '@/lib/event-log';
+import { queryKeys } from '@/lib/query-keys';
+import { InfiniteData, useInfiniteQuery } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+
+interface UseEventLogResult {
+  events: CampaignEvent[];
+  loading: boolean;
+  hasMore: boolean;
+  loadMore: () => void;
+}
+
+/**
+ * Pages through the audit log newest first. Each set of filters is its own query, so changing
+ * them starts over from the first page and results for other filters never mix in.
+ */
+export function useEventLog(filters: EventLogFilters): UseEventLogResult {
+  const { data, isPending, isFetchingNextPage, hasNextPage, fetchNextPage } = useInfiniteQuery<
+    EventPage,
+    ApiError,
+    InfiniteData<EventPage, string | undefined>,
+    ReturnType<typeof queryKeys.events>,
+    string | undefined
+  >({
+    queryKey: queryKeys.events(filters),
+    queryFn: ({ pageParam }) => apiClient.getEvents(toEventQuery(filters, pageParam)),
+    initialPageParam: undefined,
+    getNextPageParam: (page) => page.nextCursor ?? undefined,
+    meta: { action: 'load events' },
+  });
+
+  const events = useMemo(
+    () => (data?.pages ?? []).reduce<CampaignEvent[]>((loaded, page) => appendEvents(loaded, page.items), []),
+    [data]
+  );
+  const loading = isPending || isFetchingNextPage;
+
+  const loadMore = useCallback(() => {
+    if (!loading && hasNextPage) {
+      void fetchNextPage();
+    }
+  }, [fetchNextPage, hasNextPage, loading]);
+
+  return { events, loading, hasMore: hasNextPage, loadMore };
+}
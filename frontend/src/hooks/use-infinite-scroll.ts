@@ -0,0 +1,29 @@
+import { RefObject, useEffect, useRef } from 'react';
+
+/**
+ * Calls `onReach` whenever the returned sentinel element scrolls into view while `enabled`.
+ * Attach the ref to an element placed after the last loaded item; toggling `enabled` off while a
+ * page loads re-arms the observer, so a sentinel that stays visible keeps loading.
+ */
+export function useInfiniteScroll<T extends Element>(onReach: () => void, enabled: boolean): RefObject<T> {
+  const sentinelRef = useRef<T>(null);
+  const onReachRef = useRef(onReach);
+  onReachRef.current = onReach;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel) {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        onReachRef.current();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+}
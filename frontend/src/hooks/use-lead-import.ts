@@ -0,0 +1,68 @@
+import { apiClient, ApiError } from '@/lib/api';
+import { ImportedLead, ImportRow } from '@/lib/lead-import';
+import { useCallback, useState } from 'react';
+
+// Well under the backend limit of 100 leads per request
+const IMPORT_BATCH_SIZE = 50;
+const IMPORT_SOURCE = 'CSV import';
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ImportFailure {
+  line: number;
+  message: string;
+}
+
+export interface ImportReport {
+  imported: number;
+  failures: ImportFailure[];
+}
+
+interface UseLeadImportResult {
+  importing: boolean;
+  progress: ImportProgress | null;
+  start: (rows: ImportRow[]) => Promise<ImportReport>;
+}
+
+function leadFields(lead: ImportedLead): Record<string, string> {
+  return Object.fromEntries(Object.entries(lead).filter(([, value]) => value !== undefined)) as Record<string, string>;
+}
+
+/**
+ * Sends validated import rows to a campaign in batches. A failed batch is reported
+ * against each of its rows and the import carries on with the next one.
+ */
+export function useLeadImport(campaignId: string): UseLeadImportResult {
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  const start = useCallback(
+    async (rows: ImportRow[]): Promise<ImportReport> => {
+      const report: ImportReport = { imported: 0, failures: [] };
+      setImporting(true);
+      setProgress({ done: 0, total: rows.length });
+
+      for (let offset = 0; offset < rows.length; offset += IMPORT_BATCH_SIZE) {
+        const batch = rows.slice(offset, offset + IMPORT_BATCH_SIZE);
+        try {
+          const leads = batch.flatMap((row) => (row.lead ? [leadFields(row.lead)] : []));
+          const created = await apiClient.importLeads(campaignId, { source: IMPORT_SOURCE, leads });
+          report.imported += created.length;
+        } catch (error) {
+          const apiError = error as ApiError;
+          report.failures.push(...batch.map((row) => ({ line: row.line, message: apiError.message })));
+        }
+        setProgress({ done: offset + batch.length, total: rows.length });
+      }
+
+      setImporting(false);
+      return report;
+    },
+    [campaignId]
+  );
+
+  return { importing, progress, start };
+}
@@ -0,0 +1,30 @@
+import { apiClient, ApiError, ImportLeadsRequest, Lead, LeadScore } from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { useMutation, UseMutationResult, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
+
+export function useLeads(campaignId: string): UseQueryResult<Lead[], ApiError> {
+  return useQuery({
+    queryKey: queryKeys.leads(campaignId),
+    queryFn: () => apiClient.getLeads(campaignId),
+    meta: { action: 'load campaign leads' },
+  });
+}
+
+export function useLeadScores(campaignId: string, leadId: string): UseQueryResult<LeadScore[], ApiError> {
+  return useQuery({
+    queryKey: queryKeys.leadScores(campaignId, leadId),
+    queryFn: () => apiClient.getLeadScores(campaignId, leadId),
+    meta: { action: 'load score history' },
+  });
+}
+
+/**
+ * Imports one batch of leads; failures are reported by the caller per batch, so there is no toast.
+ */
+export function useImportLeads(campaignId: string): UseMutationResult<Lead[], ApiError, ImportLeadsRequest> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (request: ImportLeadsRequest) => apiClient.importLeads(campaignId, request),
+    onSettled: () => client.invalidateQueries({ queryKey: queryKeys.leads(campaignId) }),
+  });
+}
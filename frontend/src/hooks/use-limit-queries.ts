@@ -0,0 +1,36 @@
+import { apiClient, ApiError, CampaignLimits, CampaignQuota } from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { useMutation, UseMutationResult, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
+
+// Next-allowed times move as the clock and the agent move on, so the quota is refreshed every minute
+const QUOTA_REFRESH_MS = 60_000;
+
+export function useCampaignLimits(campaignId: string | undefined): UseQueryResult<CampaignLimits, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.campaignLimits(campaignId ?? ''),
+    queryFn: () => apiClient.getCampaignLimits(campaignId ?? ''),
+    enabled: campaignId !== undefined,
+    meta: { action: 'load the campaign sending limits' },
+  });
+}
+
+export function useSaveCampaignLimits(campaignId: string): UseMutationResult<CampaignLimits, ApiError, CampaignLimits> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (limits: CampaignLimits) => apiClient.saveCampaignLimits(campaignId, limits),
+    meta: { action: 'save the campaign sending limits', success: 'The campaign sending limits have been saved.' },
+    onSuccess: (limits) => {
+      client.setQueryData(queryKeys.campaignLimits(campaignId), limits);
+      void client.invalidateQueries({ queryKey: queryKeys.campaignQuota(campaignId) });
+    },
+  });
+}
+
+export function useCampaignQuota(campaignId: string): UseQueryResult<CampaignQuota, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.campaignQuota(campaignId),
+    queryFn: () => apiClient.getCampaignQuota(campaignId),
+    refetchInterval: QUOTA_REFRESH_MS,
+    meta: { action: 'load the sending quota' },
+  });
+}
@@ -0,0 +1,118 @@
+import {
+  apiClient,
+  ApiError,
+  CampaignSenders,
+  LinkedInCredential,
+  SaveCredentialRequest,
+  SaveSenderRequest,
+  Sender,
+} from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { QueryClient, useMutation, UseMutationResult, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
+
+interface UpdateSenderVariables {
+  id: string;
+  request: SaveSenderRequest;
+}
+
+export function useSenders(): UseQueryResult<Sender[], ApiError> {
+  return useQuery({
+    queryKey: queryKeys.senders,
+    queryFn: () => apiClient.getSenders(),
+    meta: { action: 'load the sender accounts' },
+  });
+}
+
+export function useCreateSender(): UseMutationResult<Sender, ApiError, SaveSenderRequest> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (request: SaveSenderRequest) => apiClient.createSender(request),
+    meta: { action: 'add the sender', success: 'The sender has been added.' },
+    onSuccess: (sender) => {
+      client.setQueryData<Sender[]>(queryKeys.senders, (senders) => [...(senders ?? []), sender]);
+    },
+  });
+}
+
+export function useUpdateSender(): UseMutationResult<Sender, ApiError, UpdateSenderVariables> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, request }: UpdateSenderVariables) => apiClient.updateSender(id, request),
+    meta: { action: 'save the sender' },
+    onSuccess: (sender) => {
+      client.setQueryData<Sender[]>(queryKeys.senders, (senders) =>
+        senders?.map((existing) => (existing.id === sender.id ? sender : existing))
+      );
+    },
+  });
+}
+
+export function useDeleteSender(): UseMutationResult<Sender, ApiError, string> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteSender(id),
+    meta: { action: 'remove the sender', success: 'The sender has been removed.' },
+    onSuccess: (sender) => {
+      client.setQueryData<Sender[]>(queryKeys.senders, (senders) => senders?.filter((s) => s.id !== sender.id));
+      // The sender is also unassigned from every campaign
+      void client.invalidateQueries({ queryKey: queryKeys.campaigns });
+    },
+  });
+}
+
+function storeCredential(client: QueryClient, senderId: string, credential: LinkedInCredential): void {
+  client.setQueryData<Sender[]>(queryKeys.senders, (senders) =>
+    senders?.map((sender) => (sender.id === senderId ? { ...sender, credential } : sender))
+  );
+}
+
+/**
+ * Sends a new cookie for a sender. Callers reset the mutation once it settles, so the cookie
+ * does not linger in the mutation cache as its variables.
+ */
+export function useSaveSenderCredential(
+  senderId: string
+): UseMutationResult<LinkedInCredential, ApiError, SaveCredentialRequest> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (request: SaveCredentialRequest) => apiClient.saveSenderCredential(senderId, request),
+    gcTime: 0,
+    meta: { action: 'save the LinkedIn cookie' },
+    onSuccess: (credential) => storeCredential(client, senderId, credential),
+  });
+}
+
+export function useVerifySenderCredential(senderId: string): UseMutationResult<LinkedInCredential, ApiError, void> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: () => apiClient.verifySenderCredential(senderId),
+    meta: { action: 'verify the LinkedIn cookie' },
+    onSuccess: (credential) => storeCredential(client, senderId, credential),
+  });
+}
+
+export function useClearSenderCredential(senderId: string): UseMutationResult<LinkedInCredential, ApiError, void> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: () => apiClient.clearSenderCredential(senderId),
+    meta: { action: 'remove the LinkedIn cookie', success: 'The LinkedIn cookie has been removed.' },
+    onSuccess: (credential) => storeCredential(client, senderId, credential),
+  });
+}
+
+export function useCampaignSenders(campaignId: string): UseQueryResult<CampaignSenders, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.campaignSenders(campaignId),
+    queryFn: () => apiClient.getCampaignSenders(campaignId),
+    meta: { action: 'load the campaign senders' },
+  });
+}
+
+export function useAssignCampaignSenders(campaignId: string): UseMutationResult<CampaignSenders, ApiError, CampaignSenders> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (senders: CampaignSenders) => apiClient.assignCampaignSenders(campaignId, senders),
+    meta: { action: 'assign the campaign senders', success: 'The campaign senders have been saved.' },
+    onSuccess: (senders) => client.setQueryData(queryKeys.campaignSenders(campaignId), senders),
+  });
+}
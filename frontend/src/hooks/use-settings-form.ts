@@ -0,0 +1,73 @@
+import { useSettings, useUpdateSettings } from '@/hooks/use-settings-queries';
+import { SettingsDto } from '@/lib/api';
+import { sameSettings, SettingsErrors, validateSettings, withDefaults } from '@/lib/settings';
+import { useEffect, useMemo, useState } from 'react';
+
+export interface SettingsForm {
+  /** The settings as edited, or as saved when nothing has been changed. */
+  settings: SettingsDto;
+  saved: SettingsDto;
+  loading: boolean;
+  saving: boolean;
+  dirty: boolean;
+  errors: SettingsErrors;
+  update: <K extends keyof SettingsDto>(key: K, value: SettingsDto[K]) => void;
+  save: () => Promise<boolean>;
+  discard: () => void;
+}
+
+/**
+ * One editable copy of the stored settings. The app shell owns it, so the settings and developer
+ * pages edit the same draft and unsaved changes survive moving between them.
+ */
+export function useSettingsForm(): SettingsForm {
+  const query = useSettings();
+  const mutation = useUpdateSettings();
+  const [draft, setDraft] = useState<SettingsDto | null>(null);
+  const saved = useMemo(() => withDefaults(query.data), [query.data]);
+  const settings = draft ?? saved;
+  const dirty = draft !== null && !sameSettings(draft, saved);
+  const errors = useMemo(() => validateSettings(settings), [settings]);
+
+  useEffect(() => {
+    if (!dirty) {
+      return;
+    }
+    const warn = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [dirty]);
+
+  const update = <K extends keyof SettingsDto>(key: K, value: SettingsDto[K]) => {
+    setDraft((current) => ({ ...(current ?? saved), [key]: value }));
+  };
+
+  const save = async (): Promise<boolean> => {
+    if (!draft || Object.keys(errors).length > 0) {
+      return false;
+    }
+    try {
+      await mutation.mutateAsync(draft);
+      setDraft(null);
+      return true;
+    } catch {
+      // The query client reports the failure; the draft stays for another try
+      return false;
+    }
+  };
+
+  return {
+    settings,
+    saved,
+    loading: query.isLoading,
+    saving: mutation.isPending,
+    dirty,
+    errors,
+    update,
+    save,
+    discard: () => setDraft(null),
+  };
+}
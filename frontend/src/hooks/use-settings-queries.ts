@@ -0,0 +1,20 @@
+import { apiClient, ApiError, SettingsDto } from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { useMutation, UseMutationResult, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
+
+export function useSettings(): UseQueryResult<Partial<SettingsDto>, ApiError> {
+  return useQuery({
+    queryKey: queryKeys.settings,
+    queryFn: () => apiClient.getSettings(),
+    meta: { action: 'load settings' },
+  });
+}
+
+export function useUpdateSettings(): UseMutationResult<void, ApiError, SettingsDto> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: (settings: SettingsDto) => apiClient.updateSettings(settings),
+    meta: { action: 'save settings', success: 'Your settings have been saved.' },
+    onSuccess: (_data, settings) => client.setQueryData(queryKeys.settings, settings),
+  });
+}
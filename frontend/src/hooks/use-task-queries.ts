@@ -0,0 +1,64 @@
+import { apiClient, ApiError, CampaignTask } from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { useMutation, UseMutationResult, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
+
+export interface TaskDecision {
+  campaignId: string;
+  taskId: string;
+  comment?: string;
+}
+
+export function useTasks(campaignId: string): UseQueryResult<CampaignTask[], ApiError> {
+  return useQuery({
+    queryKey: queryKeys.tasks(campaignId),
+    queryFn: () => apiClient.getTasks(campaignId),
+    meta: { action: 'load campaign tasks' },
+  });
+}
+
+export function usePendingApprovals(): UseQueryResult<CampaignTask[], ApiError> {
+  return useQuery({
+    queryKey: queryKeys.approvals,
+    queryFn: () => apiClient.getPendingApprovals(),
+    meta: { action: 'load approvals' },
+  });
+}
+
+/**
+ * Approving or rejecting takes the task off the queue at once and puts it back if the request fails.
+ */
+function useDecision(
+  decide: (decision: TaskDecision) => Promise<CampaignTask>,
+  action: string,
+  success: string
+): UseMutationResult<CampaignTask, ApiError, TaskDecision, CampaignTask[] | undefined> {
+  const client = useQueryClient();
+  return useMutation({
+    mutationFn: decide,
+    meta: { action, success },
+    onMutate: async ({ taskId }) => {
+      await client.cancelQueries({ queryKey: queryKeys.approvals });
+      const previous = client.getQueryData<CampaignTask[]>(queryKeys.approvals);
+      client.setQueryData<CampaignTask[]>(queryKeys.approvals, (tasks) => tasks?.filter((t) => t.id !== taskId));
+      return previous;
+    },
+    onError: (_error, _decision, previous) => client.setQueryData(queryKeys.approvals, previous),
+    onSettled: (_data, _error, { campaignId }) => client.invalidateQueries({ queryKey: queryKeys.tasks(campaignId) }),
+  });
+}
+
+export function useApproveTask(): UseMutationResult<CampaignTask, ApiError, TaskDecision, CampaignTask[] | undefined> {
+  return useDecision(
+    ({ campaignId, taskId, comment }) => apiClient.approveTask(campaignId, taskId, comment),
+    'approve task',
+    'Task approved'
+  );
+}
+
+export function useRejectTask(): UseMutationResult<CampaignTask, ApiError, TaskDecision, CampaignTask[] | undefined> {
+  return useDecision(
+    ({ campaignId, taskId, comment }) => apiClient.rejectTask(campaignId, taskId, comment ?? ''),
+    'reject task',
+    'Task rejected'
+  );
+}
@@ -0,0 +1,109 @@
+import { AgentChatClient } from '@/lib/agent-chat';
+import { AgentEvent } from '@/lib/agent-events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const RUN_ID = 'run-1';
+const NO_DELAY_MS = 0;
+const RESUMED_AFTER_ID = '3';
+
+function frame(id: string, event: string, data: unknown): string {
+    return `id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function text(id: string, value: string): string {
+    return frame(id, 'update', { Contents: [{ type: 'text', Text: value }] });
+}
+
+/** Response whose body delivers the frames and then either closes or fails like a dropped connection. */
+function sseResponse(frames: string[], dropped = false): Response {
+    const encoder = new TextEncoder();
+    const pending = [...frames];
+    const body = new ReadableStream<Uint8Array>({
+        // Erroring only once the frames are read, since an errored stream discards queued chunks
+        pull(controller) {
+            const next = pending.shift();
+            if (next !== undefined) {
+                controller.enqueue(encoder.encode(next));
+            } else if (dropped) {
+                controller.error(new TypeError('network error'));
+            } else {
+                controller.close();
+            }
+        },
+    });
+    return new Response(body, { status: 200 });
+}
+
+async function collect(stream: AsyncGenerator<AgentEvent>): Promise<AgentEvent[]> {
+    const events: AgentEvent[] = [];
+    for await (const event of stream) {
+        events.push(event);
+    }
+    return events;
+}
+
+describe('AgentChatClient', () => {
+    const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>();
+
+    beforeEach(() => {
+        fetchMock.mockReset();
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should resume a dropped run with Last-Event-ID and skip replayed events', async () => {
+        fetchMock
+            .mockResolvedValueOnce(sseResponse([frame('1', 'start', { runId: RUN_ID }), text('2', 'Found '), text(RESUMED_AFTER_ID, '20 ')], true))
+            .mockResolvedValueOnce(sseResponse([text(RESUMED_AFTER_ID, '20 '), text('4', 'leads'), frame('5', 'done', { status: 'completed' })]));
+
+        const client = new AgentChatClient('', NO_DELAY_MS);
+        const events = await collect(client.streamChat([{ role: 'user', content: 'Find leads' }]));
+
+        const deltas = events.flatMap((e) => (e.type === 'text_delta' ? [e.delta] : []));
+        expect(deltas.join('')).toBe('Found 20 leads');
+        expect(events.at(-1)).toEqual({ type: 'run_finished', status: 'completed' });
+
+        const [url, init] = fetchMock.mock.calls[1] ?? [];
+        expect(url).toBe(`/api/agentchat/runs/${RUN_ID}/stream`);
+        expect(init?.headers).toMatchObject({ 'Last-Event-ID': RESUMED_AFTER_ID });
+    });
+
+    it('should not reconnect when the run never reported its id', async () => {
+        fetchMock.mockResolvedValueOnce(sseResponse([text('1', 'partial')], true));
+
+        const client = new AgentChatClient('', NO_DELAY_MS);
+
+        await expect(collect(client.streamChat([]))).rejects.toThrow('network error');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after repeated reconnect failures', async () => {
+        fetchMock
+            .mockResolvedValueOnce(sseResponse([frame('1', 'start', { runId: RUN_ID })], true))
+            .mockRejectedValue(new TypeError('Failed to fetch'));
+
+        const client = new AgentChatClient('', NO_DELAY_MS);
+
+        await expect(collect(client.streamChat([]))).rejects.toThrow(/Lost connection to agent run/);
+    });
+
+    it('should cancel the backend run when the caller aborts', async () => {
+        const controller = new AbortController();
+        fetchMock
+            .mockResolvedValueOnce(sseResponse([frame('1', 'start', { runId: RUN_ID }), text('2', 'Working')], true))
+            .mockResolvedValue(new Response(null, { status: 204 }));
+
+        const client = new AgentChatClient('', NO_DELAY_MS);
+        const stream = client.streamChat([], { signal: controller.signal });
+
+        await stream.next();
+        await stream.next();
+        controller.abort();
+
+        await expect(stream.next()).rejects.toThrow();
+        expect(fetchMock).toHaveBeenCalledWith(`/api/agentchat/runs/${RUN_ID}/cancel`, { method: 'POST' });
+    });
+});
@@ -1,91 +1,181 @@
 /**
  * Agent chat client that uses the REST API endpoint instead of AG-UI.
  * This works around the MapAGUI bug where agent tools are ignored.
+ * Dropped connections are resumed with Last-Event-ID so a network blip does not lose the run.
  */
 
+import { AgentEvent, fromAgentChatMessage, isTerminalEvent } from '@/lib/agent-events';
+import { agentRuns } from '@/lib/agent-runs';
+import { readSseStream } from '@/lib/sse';
+
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
-export interface ChatStreamEvent {
-  type: 'start' | 'update' | 'message' | 'tool_call' | 'tool_result' | 'done' | 'error';
-  data: any;
+export interface StreamChatOptions {
+  /** Campaign the run belongs to; omitted for general conversations. */
+  campaignId?: string;
+  /** The agent proposes a plan for review and gets no tools that change anything. */
+  planMode?: boolean;
+  /** Aborting cancels the request and the backend run, and ends the stream with an AbortError. */
+  signal?: AbortSignal;
+}
+
+/** Where a run's stream got to, so a reconnect can pick up after the last delivered event. */
+interface StreamCursor {
+  runId?: string;
+  lastId?: string;
+  retryMs?: number;
+  finished: boolean;
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
+function isReplayed(id: string | undefined, lastId: string | undefined): boolean {
+  if (id === undefined || lastId === undefined) {
+    return false;
+  }
+  const [current, last] = [Number(id), Number(lastId)];
+  return Number.isFinite(current) && Number.isFinite(last) ? current <= last : id === lastId;
+}
+
+/** Only network failures of a known run are worth retrying; HTTP and abort errors surface as they are. */
+function isResumable(error: unknown, cursor: StreamCursor, signal?: AbortSignal): boolean {
+  return error instanceof TypeError && !signal?.aborted && cursor.runId !== undefined;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The run was stopped', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      abort();
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+  });
 }
 
 export class AgentChatClient {
   private baseUrl: string;
+  private reconnectDelayMs: number;
 
-  constructor(baseUrl: string = 'http://localhost:5063') {
+  constructor(baseUrl: string = 'http://localhost:5063', reconnectDelayMs: number = RECONNECT_DELAY_MS) {
     this.baseUrl = baseUrl;
+    this.reconnectDelayMs = reconnectDelayMs;
   }
 
   /**
-   * Streams chat responses from the agent with tool support.
+   * Streams chat responses from the agent with tool support, normalized to AgentEvents.
+   * Network failures mid-run reconnect to the same run, replaying only the events not yet yielded.
    */
-  async* streamChat(messages: ChatMessage[]): AsyncGenerator<ChatStreamEvent> {
-    const response = await fetch(`${this.baseUrl}/api/agentchat/stream`, {
+  async* streamChat(messages: ChatMessage[], options: StreamChatOptions = {}): AsyncGenerator<AgentEvent> {
+    const { campaignId, planMode, signal } = options;
+    const cursor: StreamCursor = { finished: false };
+    let response: Response | null = await this.open(`${this.baseUrl}/api/agentchat/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
       },
-      body: JSON.stringify({ messages }),
+      body: JSON.stringify({ messages, campaignId, planMode }),
+      signal,
     });
+    const endRun = agentRuns.begin();
+    let attempt = 0;
 
+    try {
+      while (true) {
+        try {
+          response ??= await this.resume(cursor, signal);
+          for await (const event of this.events(response, cursor)) {
+            attempt = 0;
+            yield event;
+          }
+        } catch (error) {
+          if (!isResumable(error, cursor, signal)) {
+            throw error;
+          }
+        }
+
+        if (cursor.finished || !cursor.runId) {
+          return;
+        }
+        if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+          throw new TypeError(`Lost connection to agent run ${cursor.runId} after ${attempt} reconnect attempts`);
+        }
+        attempt++;
+        response = null;
+        await wait((cursor.retryMs ?? this.reconnectDelayMs) * attempt, signal);
+      }
+    } finally {
+      endRun();
+      this.release(cursor, signal);
+    }
+  }
+
+  /**
+   * Asks the backend to cancel a run; the run otherwise keeps going after the client disconnects.
+   */
+  async cancelRun(runId: string): Promise<void> {
+    try {
+      await fetch(`${this.baseUrl}/api/agentchat/runs/${runId}/cancel`, { method: 'POST' });
+    } catch (error) {
+      console.error('Failed to cancel agent run:', runId, error);
+    }
+  }
+
+  private release(cursor: StreamCursor, signal?: AbortSignal): void {
+    // The backend run outlives the connection, so a stop must be sent explicitly
+    if (signal?.aborted && cursor.runId && !cursor.finished) {
+      void this.cancelRun(cursor.runId);
+    }
+  }
+
+  private resume(cursor: StreamCursor, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Accept': 'text/event-stream' };
+    if (cursor.lastId !== undefined) {
+      headers['Last-Event-ID'] = cursor.lastId;
+    }
+    return this.open(`${this.baseUrl}/api/agentchat/runs/${cursor.runId ?? ''}/stream`, { headers, signal: signal ?? null });
+  }
+
+  private async open(url: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(url, init);
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
+    return response;
+  }
 
+  private async* events(response: Response, cursor: StreamCursor): AsyncGenerator<AgentEvent> {
     if (!response.body) {
       throw new Error('Response body is null');
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-    let currentEventType = '';
+    for await (const message of readSseStream(response.body)) {
+      if (isReplayed(message.id, cursor.lastId)) {
+        continue;
+      }
+      cursor.lastId = message.id ?? cursor.lastId;
+      cursor.retryMs = message.retry ?? cursor.retryMs;
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-        for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            currentEventType = line.substring(7).trim();
-          } else if (line.startsWith('data: ')) {
-            const dataStr = line.substring(6).trim();
-            if (dataStr && currentEventType) {
-              try {
-                const data = JSON.parse(dataStr);
-                const event: ChatStreamEvent = {
-                  type: currentEventType as ChatStreamEvent['type'],
-                  data,
-                };
-                yield event;
-              } catch (e) {
-                console.error('Failed to parse SSE data:', dataStr, e);
-              }
-            }
-          }
-        }
+      const event = fromAgentChatMessage(message);
+      if (!event || (event.type === 'run_started' && cursor.runId)) {
+        continue;
       }
-    } finally {
-      reader.releaseLock();
+      if (event.type === 'run_started') {
+        cursor.runId = event.runId;
+      }
+      cursor.finished = isTerminalEvent(event);
+      yield event;
     }
   }
-
-  private inferEventType(data: any): ChatStreamEvent['type'] {
-    if (data.status === 'running') return 'start';
-    if (data.status === 'completed') return 'done';
-    if (data.message) return 'error';
-    if (data.name) return 'tool_call';
-    if (data.result) return 'tool_result';
-    return 'message';
-  }
 }
@@ -0,0 +1,95 @@
+import { fromAgentChatMessage, fromAguiMessage, isTerminalEvent } from '@/lib/agent-events';
+import { SseMessage } from '@/lib/sse';
+import { describe, expect, it, vi } from 'vitest';
+
+function sse(event: string, data: unknown): SseMessage {
+    return { event, data: JSON.stringify(data) };
+}
+
+describe('fromAgentChatMessage', () => {
+    it('should map the run lifecycle', () => {
+        expect(fromAgentChatMessage(sse('start', { status: 'running' }))).toEqual({ type: 'run_started' });
+        expect(fromAgentChatMessage(sse('done', { status: 'completed' }))).toEqual({ type: 'run_finished', status: 'completed' });
+        expect(fromAgentChatMessage(sse('done', { status: 'cancelled' }))).toEqual({ type: 'run_finished', status: 'cancelled' });
+        expect(fromAgentChatMessage(sse('error', { message: 'boom' }))).toEqual({ type: 'run_failed', message: 'boom' });
+    });
+
+    it('should extract text deltas from update contents', () => {
+        const update = sse('update', { Contents: [{ type: 'text', Text: 'Hel' }, { type: 'usage' }, { type: 'text', Text: 'lo' }] });
+
+        expect(fromAgentChatMessage(update)).toEqual({ type: 'text_delta', delta: 'Hello' });
+        expect(fromAgentChatMessage(sse('update', { Contents: [] }))).toBeNull();
+        expect(fromAgentChatMessage(sse('message', { content: 'Hi' }))).toEqual({ type: 'text_delta', delta: 'Hi' });
+    });
+
+    it('should map tool calls and results', () => {
+        expect(fromAgentChatMessage(sse('tool_call', { callId: 'c1', name: 'ScoreLead', arguments: { id: 3 } }))).toEqual({
+            type: 'tool_call_started',
+            callId: 'c1',
+            name: 'ScoreLead',
+            arguments: { id: 3 },
+            status: 'running',
+        });
+        expect(fromAgentChatMessage(sse('tool_result', { callId: 'c1', result: { score: 80 } }))).toEqual({
+            type: 'tool_call_finished',
+            callId: 'c1',
+            result: '{"score":80}',
+        });
+    });
+
+    it('should drop unknown events and malformed JSON', () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        expect(fromAgentChatMessage(sse('heartbeat', {}))).toBeNull();
+        expect(fromAgentChatMessage({ event: 'update', data: '{not json' })).toBeNull();
+        expect(consoleError).toHaveBeenCalled();
+
+        consoleError.mockRestore();
+    });
+});
+
+describe('fromAguiMessage', () => {
+    it('should map AG-UI updates by their type field', () => {
+        expect(fromAguiMessage(sse('message', { type: 'RUN_STARTED', runId: 'r1', threadId: 't1' }))).toEqual({
+            type: 'run_started',
+            runId: 'r1',
+            threadId: 't1',
+        });
+        expect(fromAguiMessage(sse('message', { type: 'TEXT_MESSAGE_CONTENT', messageId: 'm1', delta: 'Hi' }))).toEqual({
+            type: 'text_delta',
+            delta: 'Hi',
+            messageId: 'm1',
+        });
+        expect(fromAguiMessage(sse('message', { type: 'RUN_FINISHED' }))).toEqual({ type: 'run_finished', status: 'completed' });
+        expect(fromAguiMessage(sse('message', { type: 'RUN_FAILED', error: 'quota' }))).toEqual({ type: 'run_failed', message: 'quota' });
+        expect(fromAguiMessage(sse('message', { type: 'TEXT_MESSAGE_END' }))).toBeNull();
+    });
+
+    it('should map the tool call lifecycle', () => {
+        expect(fromAguiMessage(sse('message', { type: 'TOOL_CALL_START', toolCallId: 't1', toolName: 'DiscoverLeads' }))).toEqual({
+            type: 'tool_call_started',
+            callId: 't1',
+            name: 'DiscoverLeads',
+            status: 'pending',
+        });
+        expect(fromAguiMessage(sse('message', { type: 'TOOL_CALL_CONTENT', toolCallId: 't1', toolArgs: { count: 5 } }))).toEqual({
+            type: 'tool_call_started',
+            callId: 't1',
+            arguments: { count: 5 },
+            status: 'running',
+        });
+        expect(fromAguiMessage(sse('message', { type: 'TOOL_CALL_END', toolCallId: 't1', toolResult: 'ok' }))).toEqual({
+            type: 'tool_call_finished',
+            callId: 't1',
+            result: 'ok',
+        });
+    });
+});
+
+describe('isTerminalEvent', () => {
+    it('should flag only run completion and failure', () => {
+        expect(isTerminalEvent({ type: 'run_finished', status: 'completed' })).toBe(true);
+        expect(isTerminalEvent({ type: 'run_failed', message: 'x' })).toBe(true);
+        expect(isTerminalEvent({ type: 'text_delta', delta: 'x' })).toBe(false);
+    });
+});
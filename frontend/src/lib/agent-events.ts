@@ -0,0 +1,185 @@
+/**
+ * Transport-neutral agent run events.
+ * Both the REST chat stream (`event:` names) and the AG-UI stream (`type` fields)
+ * are normalized into this discriminated union so pages consume a single shape.
+ */
+
+import { SseMessage } from '@/lib/sse';
+
+export interface RunStartedEvent {
+    type: 'run_started';
+    runId?: string;
+    threadId?: string;
+}
+
+export interface TextDeltaEvent {
+    type: 'text_delta';
+    delta: string;
+    messageId?: string;
+}
+
+export interface ToolCallStartedEvent {
+    type: 'tool_call_started';
+    callId?: string;
+    name?: string;
+    arguments?: Record<string, unknown>;
+    /** `pending` while arguments are still being produced, `running` once the call executes. */
+    status: 'pending' | 'running';
+}
+
+export interface ToolCallFinishedEvent {
+    type: 'tool_call_finished';
+    callId?: string;
+    result?: string;
+    error?: string;
+}
+
+export interface RunFinishedEvent {
+    type: 'run_finished';
+    status: 'completed' | 'cancelled';
+}
+
+export interface RunFailedEvent {
+    type: 'run_failed';
+    message: string;
+}
+
+export type AgentEvent =
+    | RunStartedEvent
+    | TextDeltaEvent
+    | ToolCallStartedEvent
+    | ToolCallFinishedEvent
+    | RunFinishedEvent
+    | RunFailedEvent;
+
+type Payload = Record<string, unknown>;
+
+function parsePayload(data: string): Payload | null {
+    try {
+        const parsed: unknown = JSON.parse(data);
+        return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? (parsed as Payload) : null;
+    } catch (error) {
+        console.error('Failed to parse SSE data:', data, error);
+        return null;
+    }
+}
+
+function str(payload: Payload, key: string): string | undefined {
+    const value = payload[key];
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function record(payload: Payload, key: string): Record<string, unknown> | undefined {
+    const value = payload[key];
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+}
+
+function formatResult(value: unknown): string | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/** Copies only defined optional fields, keeping exactOptionalPropertyTypes happy. */
+function compact<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+function extractContentsText(payload: Payload): string {
+    const contents = payload.Contents;
+    if (!Array.isArray(contents)) {
+        return '';
+    }
+    return contents
+        .map((c: unknown) => {
+            const item = c as { type?: unknown; Text?: unknown } | null;
+            return item?.type === 'text' && typeof item.Text === 'string' ? item.Text : '';
+        })
+        .join('');
+}
+
+function textDelta(delta: string, messageId: string | undefined): AgentEvent | null {
+    return delta ? compact<TextDeltaEvent>({ type: 'text_delta', delta, messageId }) : null;
+}
+
+function toolCallFinished(callId: string | undefined, result: unknown, error: string | undefined): AgentEvent {
+    return compact<ToolCallFinishedEvent>({ type: 'tool_call_finished', callId, result: formatResult(result), error });
+}
+
+/**
+ * Normalize an event from the REST chat endpoint (`/api/agentchat/stream`).
+ */
+export function fromAgentChatMessage(message: SseMessage): AgentEvent | null {
+    const payload = parsePayload(message.data);
+    if (!payload) {
+        return null;
+    }
+
+    switch (message.event) {
+        case 'start':
+            return compact<RunStartedEvent>({ type: 'run_started', runId: str(payload, 'runId'), threadId: str(payload, 'threadId') });
+        case 'update':
+            return textDelta(extractContentsText(payload), str(payload, 'MessageId'));
+        case 'message':
+            return textDelta(str(payload, 'content') ?? '', str(payload, 'messageId'));
+        case 'tool_call':
+            return compact<ToolCallStartedEvent>({
+                type: 'tool_call_started',
+                callId: str(payload, 'callId') ?? str(payload, 'id'),
+                name: str(payload, 'name'),
+                arguments: record(payload, 'arguments'),
+                status: payload.status === 'pending' ? 'pending' : 'running',
+            });
+        case 'tool_result':
+            return toolCallFinished(str(payload, 'callId') ?? str(payload, 'id'), payload.result, str(payload, 'error'));
+        case 'done':
+            return { type: 'run_finished', status: payload.status === 'cancelled' ? 'cancelled' : 'completed' };
+        case 'error':
+            return { type: 'run_failed', message: str(payload, 'message') ?? 'Unknown error occurred' };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Normalize an AG-UI run update (`/api/agent`), identified by its `type` field.
+ */
+export function fromAguiMessage(message: SseMessage): AgentEvent | null {
+    const payload = parsePayload(message.data);
+    if (!payload) {
+        return null;
+    }
+
+    switch (payload.type) {
+        case 'RUN_STARTED':
+            return compact<RunStartedEvent>({ type: 'run_started', runId: str(payload, 'runId'), threadId: str(payload, 'threadId') });
+        case 'TEXT_MESSAGE_CONTENT':
+            return textDelta(str(payload, 'delta') ?? str(payload, 'content') ?? '', str(payload, 'messageId'));
+        case 'TOOL_CALL_START':
+        case 'TOOL_CALL_CONTENT':
+            return compact<ToolCallStartedEvent>({
+                type: 'tool_call_started',
+                callId: str(payload, 'toolCallId'),
+                name: str(payload, 'toolName'),
+                arguments: record(payload, 'toolArgs'),
+                status: payload.type === 'TOOL_CALL_START' ? 'pending' : 'running',
+            });
+        case 'TOOL_CALL_END':
+            return toolCallFinished(str(payload, 'toolCallId'), payload.toolResult, str(payload, 'error'));
+        case 'RUN_FINISHED':
+            return { type: 'run_finished', status: 'completed' };
+        case 'RUN_FAILED':
+        case 'ERROR':
+            return { type: 'run_failed', message: str(payload, 'error') ?? str(payload, 'message') ?? 'Unknown error occurred' };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Whether the event ends the run.
+ */
+export function isTerminalEvent(event: AgentEvent): event is RunFinishedEvent | RunFailedEvent {
+    return event.type === 'run_finished' || event.type === 'run_failed';
+}
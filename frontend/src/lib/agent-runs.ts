@@ -0,0 +1,39 @@
+/**
+ * Count of agent runs streaming right now, so status displays outside the chat can show activity.
+ */
+
+import type { Unsubscribe } from '@/lib/signalr';
+
+let active = 0;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+    listeners.forEach((listener) => listener());
+}
+
+export const agentRuns = {
+    /**
+     * Mark a run as started; call the returned function once it ends, however it ends.
+     */
+    begin(): () => void {
+        active++;
+        notify();
+        let ended = false;
+        return () => {
+            if (!ended) {
+                ended = true;
+                active--;
+                notify();
+            }
+        };
+    },
+
+    count: (): number => active,
+
+    subscribe: (listener: () => void): Unsubscribe => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+};
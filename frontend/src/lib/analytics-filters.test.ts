@@ -0,0 +1,55 @@
+import { parseAnalyticsFilters, previousPeriod, rangeDays, toSearchParams } from '@/lib/analytics-filters';
+import { format } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+
+const TODAY = new Date('2026-03-10T15:30');
+const WEEK = 7;
+
+function day(date: Date): string {
+    return format(date, 'yyyy-MM-dd');
+}
+
+describe('analytics filters', () => {
+    it('should default to the last seven days by day', () => {
+        const filters = parseAnalyticsFilters(new URLSearchParams(), TODAY);
+
+        expect(day(filters.range.from)).toBe('2026-03-04');
+        expect(day(filters.range.to)).toBe('2026-03-10');
+        expect(rangeDays(filters.range)).toBe(WEEK);
+        expect(filters.bucket).toBe('day');
+        expect(filters.campaignIds).toEqual([]);
+        expect(filters.senderIds).toEqual([]);
+    });
+
+    it('should round-trip through the query string', () => {
+        const params = new URLSearchParams('from=2026-01-05&to=2026-02-01&bucket=week&campaigns=c-1,c-2');
+        const filters = parseAnalyticsFilters(params, TODAY);
+
+        expect(filters.bucket).toBe('week');
+        expect(filters.campaignIds).toEqual(['c-1', 'c-2']);
+        expect(toSearchParams(filters).toString()).toBe('from=2026-01-05&to=2026-02-01&bucket=week&campaigns=c-1%2Cc-2');
+    });
+
+    it('should round-trip the sender filter', () => {
+        const filters = parseAnalyticsFilters(new URLSearchParams('from=2026-03-01&to=2026-03-07&senders=s-1'), TODAY);
+
+        expect(filters.senderIds).toEqual(['s-1']);
+        expect(toSearchParams(filters).get('senders')).toBe('s-1');
+    });
+
+    it('should fall back to defaults for malformed or inverted values', () => {
+        const filters = parseAnalyticsFilters(new URLSearchParams('from=2026-03-09&to=2026-03-01&bucket=hourly'), TODAY);
+
+        expect(day(filters.range.from)).toBe('2026-03-04');
+        expect(filters.bucket).toBe('day');
+    });
+
+    it('should compare against the equally long period just before', () => {
+        const { range } = parseAnalyticsFilters(new URLSearchParams('from=2026-03-01&to=2026-03-07'), TODAY);
+        const previous = previousPeriod(range);
+
+        expect(day(previous.from)).toBe('2026-02-22');
+        expect(day(previous.to)).toBe('2026-02-28');
+        expect(previous.to.getTime()).toBeLessThan(range.from.getTime());
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * Analytics dashboard filters and their URL encoding, so a filtered report can be shared as a link.
+ * Ranges are whole local days: `from` is the start of its day and `to` the end of its day.
+ */
+
+import { differenceInCalendarDays, endOfDay, format, isValid, parse, startOfDay, subDays } from 'date-fns';
+
+export type Bucket = 'day' | 'week' | 'month';
+
+export const BUCKETS: Bucket[] = ['day', 'week', 'month'];
+
+export interface DateRange {
+    from: Date;
+    to: Date;
+}
+
+export interface AnalyticsFilters {
+    range: DateRange;
+    bucket: Bucket;
+    /** Campaigns to include; empty means all. */
+    campaignIds: string[];
+    /** Senders whose outreach to include; empty means all. */
+    senderIds: string[];
+}
+
+export const DEFAULT_RANGE_DAYS = 7;
+
+const URL_DATE = 'yyyy-MM-dd';
+
+/**
+ * Whole-day range of `days` days ending on `today`.
+ */
+export function lastDays(today: Date, days: number): DateRange {
+    return { from: startOfDay(subDays(today, days - 1)), to: endOfDay(today) };
+}
+
+/**
+ * Normalize any two dates to a whole-day range.
+ */
+export function dayRange(from: Date, to: Date): DateRange {
+    return { from: startOfDay(from), to: endOfDay(to) };
+}
+
+/**
+ * Number of calendar days the range covers.
+ */
+export function rangeDays(range: DateRange): number {
+    return differenceInCalendarDays(range.to, range.from) + 1;
+}
+
+/**
+ * The equally long range immediately before `range`, used as the comparison baseline.
+ */
+export function previousPeriod(range: DateRange): DateRange {
+    const days = rangeDays(range);
+    return dayRange(subDays(range.from, days), subDays(range.from, 1));
+}
+
+export function defaultAnalyticsFilters(today: Date): AnalyticsFilters {
+    return { range: lastDays(today, DEFAULT_RANGE_DAYS), bucket: 'day', campaignIds: [], senderIds: [] };
+}
+
+function parseDate(value: string | null, reference: Date): Date | null {
+    if (!value) {
+        return null;
+    }
+    const date = parse(value, URL_DATE, reference);
+    return isValid(date) ? date : null;
+}
+
+function idList(value: string | null): string[] {
+    return (value ?? '').split(',').filter((id) => id.length > 0);
+}
+
+/**
+ * Read filters from the query string, falling back to the defaults for anything missing or malformed.
+ */
+export function parseAnalyticsFilters(params: URLSearchParams, today: Date): AnalyticsFilters {
+    const defaults = defaultAnalyticsFilters(today);
+    const from = parseDate(params.get('from'), today);
+    const to = parseDate(params.get('to'), today);
+    const bucket = params.get('bucket');
+
+    return {
+        range: from && to && from <= to ? dayRange(from, to) : defaults.range,
+        bucket: BUCKETS.includes(bucket as Bucket) ? (bucket as Bucket) : defaults.bucket,
+        campaignIds: idList(params.get('campaigns')),
+        senderIds: idList(params.get('senders')),
+    };
+}
+
+/**
+ * Encode filters as query parameters; the inverse of `parseAnalyticsFilters`.
+ */
+export function toSearchParams(filters: AnalyticsFilters): URLSearchParams {
+    const params = new URLSearchParams({
+        from: format(filters.range.from, URL_DATE),
+        to: format(filters.range.to, URL_DATE),
+        bucket: filters.bucket,
+    });
+    if (filters.campaignIds.length > 0) {
+        params.set('campaigns', filters.campaignIds.join(','));
+    }
+    if (filters.senderIds.length > 0) {
+        params.set('senders', filters.senderIds.join(','));
+    }
+    return params;
+}
+
+/**
+ * Whether a timestamp falls inside the range, bounds included.
+ */
+export function inRange(timestamp: string, range: DateRange): boolean {
+    const time = new Date(timestamp).getTime();
+    return time >= range.from.getTime() && time <= range.to.getTime();
+}
@@ -0,0 +1,123 @@
+import {
+    activitySeries,
+    activityTotals,
+    campaignProgress,
+    CampaignSnapshot,
+    percent,
+    percentChange,
+    scopeSnapshots,
+    summarize,
+} from '@/lib/analytics';
+import { dayRange, lastDays } from '@/lib/analytics-filters';
+import { Campaign, CampaignEvent, CampaignState, CampaignStatus, Lead } from '@/lib/api';
+import { describe, expect, it } from 'vitest';
+
+const WEEK = 7;
+const DISCOVERED = 12;
+const TOTAL_TASKS = 4;
+const QUARTER = 25;
+const TWO = 2;
+const HALF_AGAIN = 50;
+
+function snapshot(id: string, status: CampaignStatus, state: Partial<CampaignState> | null): CampaignSnapshot {
+    const campaign = { id, name: id, status, targetAudience: '', createdAt: '', updatedAt: '' } as Campaign;
+    return {
+        campaign,
+        state: state && ({ completedTasks: 0, totalTasks: 0, leadsDiscovered: 0, leadsScored: 0, ...state } as CampaignState),
+        leads: [],
+    };
+}
+
+function event(eventType: string, timestamp: Date, payload = '{}'): CampaignEvent {
+    return { id: `${eventType}-${timestamp.getTime()}`, eventType, campaignId: 'c', timestamp: timestamp.toISOString(), actor: 'Agent', payload };
+}
+
+function contacted(id: string, senderId: string | null): Lead {
+    return { id, senderId } as Lead;
+}
+
+describe('analytics', () => {
+    it('should scope snapshots to the selected campaigns and the leads of the selected senders', () => {
+        const a = { ...snapshot('a', CampaignStatus.Active, null), leads: [contacted('1', 's-1'), contacted('2', 's-2'), contacted('3', null)] };
+        const b = { ...snapshot('b', CampaignStatus.Active, null), leads: [contacted('4', 's-2')] };
+
+        expect(scopeSnapshots([a, b], [], [])).toEqual([a, b]);
+        expect(scopeSnapshots([a, b], ['b'], [])).toEqual([b]);
+        const scoped = scopeSnapshots([a, b], [], ['s-1']);
+        expect(scoped.map((s) => s.campaign.id)).toEqual(['a']);
+        expect(scoped[0]?.leads.map((lead) => lead.id)).toEqual(['1']);
+    });
+
+    it('should total metrics across campaigns, tolerating missing state', () => {
+        const metrics = summarize([
+            snapshot('a', CampaignStatus.Active, { completedTasks: 1, totalTasks: TOTAL_TASKS, leadsDiscovered: DISCOVERED, leadsScored: 1 }),
+            snapshot('b', CampaignStatus.Paused, null),
+        ]);
+
+        expect(metrics).toEqual({
+            totalCampaigns: 2,
+            activeCampaigns: 1,
+            leadsDiscovered: DISCOVERED,
+            leadsScored: 1,
+            tasksCompleted: 1,
+            totalTasks: TOTAL_TASKS,
+        });
+    });
+
+    it('should compute progress without dividing by zero', () => {
+        expect(campaignProgress(snapshot('a', CampaignStatus.Active, { completedTasks: 1, totalTasks: TOTAL_TASKS }))).toBe(QUARTER);
+        expect(campaignProgress(snapshot('b', CampaignStatus.Draft, { totalTasks: 0 }))).toBe(0);
+        expect(percent(1, 0)).toBe(0);
+    });
+
+    it('should bucket events per local day including idle days', () => {
+        const range = lastDays(new Date('2026-03-07T12:00'), WEEK);
+        const points = activitySeries(
+            [
+                event('LeadsDiscoveredEvent', new Date('2026-03-01T09:00'), `{"Count":${DISCOVERED}}`),
+                event('LeadScoredEvent', new Date('2026-03-01T10:00')),
+                event('TaskCompletedEvent', new Date('2026-03-03T23:59')),
+                event('TaskCompletedEvent', new Date('2026-03-20T00:00')),
+            ],
+            range,
+            'day'
+        );
+
+        expect(points).toHaveLength(WEEK);
+        expect(points[0]).toMatchObject({ date: '2026-03-01', leadsDiscovered: DISCOVERED, leadsScored: 1, tasksCompleted: 0 });
+        expect(points.find((p) => p.date === '2026-03-03')).toMatchObject({ tasksCompleted: 1 });
+        expect(points.reduce((sum, p) => sum + p.tasksCompleted, 0)).toBe(1);
+    });
+
+    it('should count a discovery without a usable count as one lead', () => {
+        const day = new Date('2026-03-01T09:00');
+        const [point] = activitySeries([event('LeadsDiscoveredEvent', day, 'not json')], lastDays(day, 1), 'day');
+
+        expect(point?.leadsDiscovered).toBe(1);
+    });
+
+    it('should group weeks from Monday and months by calendar month', () => {
+        const range = dayRange(new Date('2026-03-04T00:00'), new Date('2026-04-02T00:00'));
+        const events = [
+            event('TaskCompletedEvent', new Date('2026-03-04T09:00')),
+            event('TaskCompletedEvent', new Date('2026-03-08T09:00')),
+            event('TaskCompletedEvent', new Date('2026-04-01T09:00')),
+        ];
+
+        const weeks = activitySeries(events, range, 'week');
+        expect(weeks[0]).toMatchObject({ date: '2026-03-02', tasksCompleted: TWO });
+        expect(weeks.at(-1)).toMatchObject({ date: '2026-03-30', tasksCompleted: 1 });
+
+        const months = activitySeries(events, range, 'month');
+        expect(months.map((m) => [m.label, m.tasksCompleted])).toEqual([['Mar 2026', TWO], ['Apr 2026', 1]]);
+    });
+
+    it('should total activity and compare periods', () => {
+        const day = new Date('2026-03-01T09:00');
+        const totals = activityTotals([event('LeadScoredEvent', day), event('CampaignCreatedEvent', day)]);
+
+        expect(totals).toEqual({ leadsDiscovered: 0, leadsScored: 1, tasksCompleted: 0 });
+        expect(percentChange(DISCOVERED, TOTAL_TASKS * TWO)).toBe(HALF_AGAIN);
+        expect(percentChange(1, 0)).toBeNull();
+    });
+});
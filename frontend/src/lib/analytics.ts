@@ -0,0 +1,154 @@
+/**
+ * Analytics aggregation over campaigns, their agent-side state and the audit log.
+ * Everything here is pure so the dashboard numbers can be checked without a backend.
+ */
+
+import { Bucket, DateRange, inRange } from '@/lib/analytics-filters';
+import { Campaign, CampaignEvent, CampaignState, CampaignStatus, Lead } from '@/lib/api';
+import { CampaignMetrics } from '@/types/agent';
+import { addDays, addMonths, addWeeks, format, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+
+/** A campaign with its progress snapshot; `state` is null and `leads` empty when they could not be loaded. */
+export interface CampaignSnapshot {
+    campaign: Campaign;
+    state: CampaignState | null;
+    leads: Lead[];
+}
+
+/**
+ * Snapshots of the selected campaigns, keeping only the leads contacted from the selected senders.
+ * With senders selected, campaigns none of them sent outreach for are left out.
+ */
+export function scopeSnapshots(snapshots: CampaignSnapshot[], campaignIds: string[], senderIds: string[]): CampaignSnapshot[] {
+    const campaigns = new Set(campaignIds);
+    const senders = new Set(senderIds);
+    const fromSender = (lead: Lead) => lead.senderId !== null && senders.has(lead.senderId);
+
+    return snapshots
+        .filter((snapshot) => campaigns.size === 0 || campaigns.has(snapshot.campaign.id))
+        .map((snapshot) => (senders.size === 0 ? snapshot : { ...snapshot, leads: snapshot.leads.filter(fromSender) }))
+        .filter((snapshot) => senders.size === 0 || snapshot.leads.length > 0);
+}
+
+export interface ActivityTotals {
+    leadsDiscovered: number;
+    leadsScored: number;
+    tasksCompleted: number;
+}
+
+/** Activity counted in one day, week or month. */
+export interface ActivityPoint extends ActivityTotals {
+    /** First local day of the bucket, `yyyy-MM-dd`. */
+    date: string;
+    label: string;
+}
+
+const PERCENT = 100;
+const DECIMAL = 10;
+const DAY_KEY = 'yyyy-MM-dd';
+
+const BUCKET_CALENDAR: Record<Bucket, { start: (date: Date) => Date; next: (date: Date) => Date; label: string }> = {
+    day: { start: startOfDay, next: (date) => addDays(date, 1), label: 'MMM d' },
+    week: { start: (date) => startOfWeek(date, { weekStartsOn: 1 }), next: (date) => addWeeks(date, 1), label: "'Wk of' MMM d" },
+    month: { start: startOfMonth, next: (date) => addMonths(date, 1), label: 'MMM yyyy' },
+};
+
+/**
+ * Whole-number percentage of `part` in `total`; 0 when there is nothing to divide.
+ */
+export function percent(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * PERCENT) : 0;
+}
+
+/**
+ * Share of a campaign's tasks the agent has completed.
+ */
+export function campaignProgress(snapshot: CampaignSnapshot): number {
+    return snapshot.state ? percent(snapshot.state.completedTasks, snapshot.state.totalTasks) : 0;
+}
+
+/**
+ * Headline totals across all campaigns.
+ */
+export function summarize(snapshots: CampaignSnapshot[]): CampaignMetrics {
+    return snapshots.reduce<CampaignMetrics>(
+        (metrics, { campaign, state }) => ({
+            totalCampaigns: metrics.totalCampaigns + 1,
+            activeCampaigns: metrics.activeCampaigns + (campaign.status === CampaignStatus.Active ? 1 : 0),
+            leadsDiscovered: metrics.leadsDiscovered + (state?.leadsDiscovered ?? 0),
+            leadsScored: metrics.leadsScored + (state?.leadsScored ?? 0),
+            tasksCompleted: metrics.tasksCompleted + (state?.completedTasks ?? 0),
+            totalTasks: metrics.totalTasks + (state?.totalTasks ?? 0),
+        }),
+        { totalCampaigns: 0, activeCampaigns: 0, leadsDiscovered: 0, leadsScored: 0, tasksCompleted: 0, totalTasks: 0 }
+    );
+}
+
+/**
+ * Number of leads a LeadsDiscoveredEvent reports; a payload without a usable count stands for one lead.
+ */
+function discoveredCount(payload: string): number {
+    try {
+        const parsed = JSON.parse(payload) as { Count?: unknown };
+        return typeof parsed.Count === 'number' && parsed.Count >= 0 ? parsed.Count : 1;
+    } catch {
+        return 1;
+    }
+}
+
+function countActivity(totals: ActivityTotals, event: CampaignEvent): void {
+    switch (event.eventType) {
+        case 'LeadsDiscoveredEvent':
+            totals.leadsDiscovered += discoveredCount(event.payload);
+            break;
+        case 'LeadScoredEvent':
+            totals.leadsScored += 1;
+            break;
+        case 'TaskCompletedEvent':
+            totals.tasksCompleted += 1;
+            break;
+        default:
+            break;
+    }
+}
+
+/**
+ * Activity totals over a set of events.
+ */
+export function activityTotals(events: CampaignEvent[]): ActivityTotals {
+    const totals: ActivityTotals = { leadsDiscovered: 0, leadsScored: 0, tasksCompleted: 0 };
+    events.forEach((event) => countActivity(totals, event));
+    return totals;
+}
+
+/**
+ * Count activity per bucket across the range, one point per bucket even when idle.
+ * Weeks start on Monday; the first and last bucket may extend past the range.
+ */
+export function activitySeries(events: CampaignEvent[], range: DateRange, bucket: Bucket): ActivityPoint[] {
+    const { start, next, label } = BUCKET_CALENDAR[bucket];
+    const points: ActivityPoint[] = [];
+    for (let at = start(range.from); at <= range.to; at = next(at)) {
+        points.push({ date: format(at, DAY_KEY), label: format(at, label), leadsDiscovered: 0, leadsScored: 0, tasksCompleted: 0 });
+    }
+    const byDate = new Map(points.map((point) => [point.date, point]));
+
+    for (const event of events) {
+        const point = inRange(event.timestamp, range) ? byDate.get(format(start(new Date(event.timestamp)), DAY_KEY)) : undefined;
+        if (point) {
+            countActivity(point, event);
+        }
+    }
+    return points;
+}
+
+/**
+ * Relative change from `previous` to `current` in percent, to one decimal;
+ * null when there is no baseline to compare against.
+ */
+export function percentChange(current: number, previous: number): number | null {
+    if (previous === 0) {
+        return null;
+    }
+    return Math.round(((current - previous) / previous) * PERCENT * DECIMAL) / DECIMAL;
+}
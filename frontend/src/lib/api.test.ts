@@ -19,10 +19,10 @@ describe('ApiClient', () => {
                 json: () => mockData,
             });
 
-            const result: unknown = await apiClient['request']('/api/test');
+            const result: unknown = await apiClient['request']('/test');
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/test',
+                '/api/test',
                 expect.objectContaining({
                     headers: expect.objectContaining({
                         'Content-Type': 'application/json',
@@ -38,7 +38,17 @@ describe('ApiClient', () => {
                 headers: new Headers({ 'content-type': 'text/plain' }),
             });
 
-            await expect(apiClient['request']('/api/test')).rejects.toThrow('Expected JSON response but received text/plain');
+            await expect(apiClient['request']('/test')).rejects.toThrow('Expected JSON response but received text/plain');
+        });
+
+        it('should resolve bodiless responses to undefined', async () => {
+            (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                ok: true,
+                status: 204,
+                headers: new Headers(),
+            });
+
+            await expect(apiClient['request']('/test')).resolves.toBeUndefined();
         });
 
         it('should throw ApiError on HTTP error', async () => {
@@ -51,7 +61,7 @@ describe('ApiClient', () => {
                 json: () => errorData,
             });
 
-            await expect(apiClient['request']('/api/test')).rejects.toMatchObject({
+            await expect(apiClient['request']('/test')).rejects.toMatchObject({
                 statusCode: 404,
                 message: 'Not found',
                 details: errorData,
@@ -61,7 +71,7 @@ describe('ApiClient', () => {
         it('should handle network errors', async () => {
             (global.fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('Network failure'));
 
-            await expect(apiClient['request']('/api/test')).rejects.toMatchObject({
+            await expect(apiClient['request']('/test')).rejects.toMatchObject({
                 statusCode: 0,
                 message: 'Network failure',
             } as ApiError);
@@ -83,7 +93,7 @@ describe('ApiClient', () => {
             const result = await apiClient.getCampaigns();
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/campaign',
+                '/api/campaigns',
                 expect.any(Object)
             );
             expect(result).toEqual(mockCampaigns);
@@ -100,15 +110,15 @@ describe('ApiClient', () => {
             const result = await apiClient.getCampaign('123');
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/campaign/123',
+                '/api/campaigns/123',
                 expect.any(Object)
             );
             expect(result).toEqual(mockCampaign);
         });
 
         it('should create campaign with POST request', async () => {
-            const request = { name: 'New Campaign', targetAudience: 'Developers' };
-            const mockResponse = { id: '456', ...request, status: CampaignStatus.Draft, createdAt: '2026-01-11T00:00:00Z', updatedAt: '2026-01-11T00:00:00Z' };
+            const request = { name: 'New Campaign', targetAudience: 'Developers', senderIds: ['s-1'], rotation: 'FillFirst' as const };
+            const mockResponse = { id: '456', name: request.name, targetAudience: request.targetAudience, phase: 'Planning', status: CampaignStatus.Draft, createdAt: '2026-01-11T00:00:00Z', updatedAt: '2026-01-11T00:00:00Z' };
 
             (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
                 ok: true,
@@ -119,7 +129,7 @@ describe('ApiClient', () => {
             const result = await apiClient.createCampaign(request);
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/campaign',
+                '/api/campaigns',
                 expect.objectContaining({
                     method: 'POST',
                     body: JSON.stringify(request),
@@ -128,40 +138,6 @@ describe('ApiClient', () => {
             expect(result).toEqual(mockResponse);
         });
 
-        it('should pause campaign', async () => {
-            (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-                ok: true,
-                headers: new Headers({ 'content-type': 'application/json' }),
-                json: () => ({}),
-            });
-
-            await apiClient.pauseCampaign('123');
-
-            expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/campaign/123/pause',
-                expect.objectContaining({
-                    method: 'POST',
-                })
-            );
-        });
-
-        it('should resume campaign', async () => {
-            (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-                ok: true,
-                headers: new Headers({ 'content-type': 'application/json' }),
-                json: () => ({}),
-            });
-
-            await apiClient.resumeCampaign('123');
-
-            expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/campaign/123/resume',
-                expect.objectContaining({
-                    method: 'POST',
-                })
-            );
-        });
-
         it('should delete campaign', async () => {
             (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
                 ok: true,
@@ -172,7 +148,7 @@ describe('ApiClient', () => {
             await apiClient.deleteCampaign('123');
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/campaign/123',
+                '/api/campaigns/123',
                 expect.objectContaining({
                     method: 'DELETE',
                 })
@@ -181,58 +157,6 @@ describe('ApiClient', () => {
     });
 
     describe('Chat endpoints', () => {
-        it('should send message with default campaign ID', async () => {
-            const mockResponse = {
-                messageId: '789',
-                content: 'Agent response',
-                timestamp: '2026-01-11T15:00:00Z',
-            };
-            (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-                ok: true,
-                headers: new Headers({ 'content-type': 'application/json' }),
-                json: () => mockResponse,
-            });
-
-            const result = await apiClient.sendMessage('Hello');
-
-            expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/chat/send',
-                expect.objectContaining({
-                    method: 'POST',
-                    body: JSON.stringify({
-                        campaignId: '00000000-0000-0000-0000-000000000000',
-                        message: 'Hello',
-                    }),
-                })
-            );
-            expect(result).toEqual(mockResponse);
-        });
-
-        it('should send message with specific campaign ID', async () => {
-            const mockResponse = {
-                messageId: '789',
-                content: 'Agent response',
-                timestamp: '2026-01-11T15:00:00Z',
-            };
-            (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-                ok: true,
-                headers: new Headers({ 'content-type': 'application/json' }),
-                json: () => mockResponse,
-            });
-
-            await apiClient.sendMessage('Hello', '123-456');
-
-            expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/chat/send',
-                expect.objectContaining({
-                    body: JSON.stringify({
-                        campaignId: '123-456',
-                        message: 'Hello',
-                    }),
-                })
-            );
-        });
-
         it('should get chat history', async () => {
             const mockHistory = [
                 { id: '1', campaignId: '123', role: 'user', content: 'Hello', timestamp: '2026-01-11T15:00:00Z' },
@@ -247,7 +171,7 @@ describe('ApiClient', () => {
             const result = await apiClient.getChatHistory('123');
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/chat/history?campaignId=123',
+                '/api/agentchat/history?campaignId=123',
                 expect.any(Object)
             );
             expect(result).toEqual(mockHistory);
@@ -257,7 +181,7 @@ describe('ApiClient', () => {
     describe('Task endpoints', () => {
         it('should get tasks for campaign', async () => {
             const mockTasks = [
-                { id: '1', campaignId: '123', description: 'Task 1', status: TaskStatus.Pending, type: 'Test', input: null, output: null, retryCount: 0, createdAt: '2026-01-11T00:00:00Z', updatedAt: '2026-01-11T00:00:00Z' },
+                { id: '1', campaignId: '123', title: 'Task 1', description: 'First task', status: TaskStatus.Pending, orderIndex: 0, requiresApproval: false, createdAt: '2026-01-11T00:00:00Z', completedAt: null },
             ];
             (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
                 ok: true,
@@ -268,27 +192,27 @@ describe('ApiClient', () => {
             const result = await apiClient.getTasks('123');
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/task/list/123',
+                '/api/campaigns/123/tasks',
                 expect.any(Object)
             );
             expect(result).toEqual(mockTasks);
         });
 
-        it('should get single task by ID', async () => {
-            const mockTask = { id: '1', campaignId: '123', description: 'Task 1', status: TaskStatus.Done, type: 'Test', input: null, output: null, retryCount: 0, createdAt: '2026-01-11T00:00:00Z', updatedAt: '2026-01-11T00:00:00Z' };
+        it('should get the tasks awaiting approval across campaigns in one request', async () => {
+            const mockTasks = [
+                { id: '2', campaignId: '456', title: 'Send invites', description: 'Needs sign-off', status: TaskStatus.AwaitingApproval, orderIndex: 1, requiresApproval: true, createdAt: '2026-01-11T00:00:00Z', completedAt: null },
+            ];
             (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
                 ok: true,
                 headers: new Headers({ 'content-type': 'application/json' }),
-                json: () => mockTask,
+                json: () => mockTasks,
             });
 
-            const result = await apiClient.getTask('1');
+            const result = await apiClient.getPendingApprovals();
 
-            expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/task/get/1',
-                expect.any(Object)
-            );
-            expect(result).toEqual(mockTask);
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+            expect(global.fetch).toHaveBeenCalledWith('/api/tasks?status=AwaitingApproval', expect.any(Object));
+            expect(result).toEqual(mockTasks);
         });
     });
 
@@ -306,7 +230,7 @@ describe('ApiClient', () => {
             const result = await apiClient.getArtifacts('123');
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/artifact/list/123',
+                '/api/campaigns/123/artifacts',
                 expect.any(Object)
             );
             expect(result).toEqual(mockArtifacts);
@@ -325,28 +249,11 @@ describe('ApiClient', () => {
             await apiClient.getArtifacts('123', 'leads');
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/artifact/list/123?type=leads',
+                '/api/campaigns/123/artifacts?type=leads',
                 expect.any(Object)
             );
         });
 
-        it('should get specific artifact', async () => {
-            const mockArtifact = { id: '1', campaignId: '123', type: 'context', key: 'main', content: '{}', source: ArtifactSource.User, version: 1, createdAt: '2026-01-11T00:00:00Z' };
-            (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
-                ok: true,
-                headers: new Headers({ 'content-type': 'application/json' }),
-                json: () => mockArtifact,
-            });
-
-            const result = await apiClient.getArtifact('123', 'context', 'main');
-
-            expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/artifact/get/123/context/main',
-                expect.any(Object)
-            );
-            expect(result).toEqual(mockArtifact);
-        });
-
         it('should create artifact', async () => {
             const request = {
                 campaignId: '123',
@@ -366,10 +273,10 @@ describe('ApiClient', () => {
             const result = await apiClient.createArtifact(request);
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/artifact/create',
+                '/api/campaigns/123/artifacts',
                 expect.objectContaining({
                     method: 'POST',
-                    body: JSON.stringify(request),
+                    body: JSON.stringify({ type: 'leads', key: 'main', content: '[]', source: ArtifactSource.Agent }),
                 })
             );
             expect(result).toEqual(mockResponse);
@@ -393,31 +300,44 @@ describe('ApiClient', () => {
             const result = await apiClient.getSettings();
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/settings/get',
+                '/api/settings',
                 expect.any(Object)
             );
             expect(result).toEqual(mockSettings);
         });
 
+        it('should get no settings before they are first saved', async () => {
+            (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+                ok: true,
+                status: 204,
+                headers: new Headers(),
+            });
+
+            await expect(apiClient.getSettings()).resolves.toEqual({});
+        });
+
         it('should update settings', async () => {
             const settings = {
+                developerMode: true,
                 apiEndpoint: 'http://localhost:5104',
                 modelName: 'gpt-4-turbo',
                 maxTokens: 8192,
                 temperature: 0.8,
+                autoSave: true,
+                notifications: false,
             };
             (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
                 ok: true,
-                headers: new Headers({ 'content-type': 'application/json' }),
-                json: () => ({}),
+                status: 204,
+                headers: new Headers(),
             });
 
-            await apiClient.updateSettings(settings);
+            await expect(apiClient.updateSettings(settings)).resolves.toBeUndefined();
 
             expect(global.fetch).toHaveBeenCalledWith(
-                'http://localhost:5000/api/v1/settings/update',
+                '/api/settings',
                 expect.objectContaining({
-                    method: 'POST',
+                    method: 'PUT',
                     body: JSON.stringify(settings),
                 })
             );
@@ -8,6 +8,7 @@
 // while maintaining cohesion of the API client logic and type definitions.
 
 const API_BASE_URL: string = (import.meta.env.VITE_API_BASE_URL as string | undefined) ?? '/api';
+const NO_CONTENT = 204;
 
 class ApiError extends Error {
     statusCode: number;
@@ -46,6 +47,10 @@ class ApiClient {
     }
 
     private async parseResponse<T>(response: Response): Promise<T> {
+        // 204 and other bodiless answers resolve to undefined, which is all a Promise<void> caller expects
+        if (response.status === NO_CONTENT || response.headers.get('content-length') === '0') {
+            return undefined as T;
+        }
         const contentType = response.headers.get('content-type');
         if (contentType?.includes('application/json')) {
             return (await response.json()) as T;
@@ -82,6 +87,16 @@ class ApiClient {
         }
     }
 
+    // Health endpoint - plain text, so it bypasses the JSON request helper
+    async checkHealth(): Promise<boolean> {
+        try {
+            const response = await fetch(`${this.baseUrl}/health`);
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }
+
     // Campaign endpoints
     async getCampaigns() {
         return this.request<Campaign[]>('/campaigns');
@@ -91,85 +106,184 @@ class ApiClient {
         return this.request<Campaign>(`/campaigns/${id}`);
     }
 
-    async createCampaign(request: CreateCampaignRequest) {
-        return this.request<Campaign>('/api/v1/campaign', {
-            method: 'POST',
-            body: JSON.stringify(request),
-        });
+    async getCampaignState(id: string) {
+        return this.request<CampaignState>(`/campaigns/${id}/state`);
+    }
+
+    async getCampaignEvents(id: string) {
+        return this.request<CampaignEvent[]>(`/campaigns/${id}/events`);
+    }
+
+    // Audit log endpoints
+    async getEvents(query: EventQuery = {}) {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(query)) {
+            if (value !== undefined && value !== '') {
+                params.set(key, String(value));
+            }
+        }
+        const search = params.toString();
+        return this.request<EventPage>(search ? `/events?${search}` : '/events');
+    }
+
+    // Lead endpoints
+    async getLeads(campaignId: string) {
+        return this.request<Lead[]>(`/campaigns/${campaignId}/leads`);
     }
 
-    async pauseCampaign(id: string) {
-        return this.request<void>(`/api/v1/campaign/${id}/pause`, {
+    async getLeadScores(campaignId: string, leadId: string) {
+        return this.request<LeadScore[]>(`/campaigns/${campaignId}/leads/${leadId}/scores`);
+    }
+
+    async importLeads(campaignId: string, request: ImportLeadsRequest) {
+        return this.request<Lead[]>(`/campaigns/${campaignId}/leads`, {
             method: 'POST',
+            body: JSON.stringify(request),
         });
     }
 
-    async resumeCampaign(id: string) {
-        return this.request<void>(`/api/v1/campaign/${id}/resume`, {
+    async createCampaign(request: CreateCampaignRequest) {
+        return this.request<Campaign>('/campaigns', {
             method: 'POST',
+            body: JSON.stringify(request),
         });
     }
 
     async deleteCampaign(id: string) {
-        return this.request<void>(`/api/v1/campaign/${id}`, {
+        return this.request<void>(`/campaigns/${id}`, {
             method: 'DELETE',
         });
     }
 
-    // Chat endpoints
-    async sendMessage(message: string, campaignId?: string) {
-        // Backend requires a CampaignId (Guid). For now, use a default/null GUID if not provided
-        // In production, we should either create a campaign first or allow nullable CampaignId
-        const payload = {
-            campaignId: campaignId || '00000000-0000-0000-0000-000000000000',
-            message,
-        };
+    // Chat endpoints - messages are sent through the streaming agent client
+    async getChatHistory(campaignId?: string) {
+        const query = campaignId ? `?campaignId=${campaignId}` : '';
+        return this.request<ChatMessageDto[]>(`/agentchat/history${query}`);
+    }
+
+    // Task endpoints
+    async getTasks(campaignId: string) {
+        return this.request<CampaignTask[]>(`/campaigns/${campaignId}/tasks`);
+    }
 
-        return this.request<ChatResponse>('/api/v1/chat/send', {
+    async createTask(campaignId: string, request: CreateTaskRequest) {
+        return this.request<CampaignTask>(`/campaigns/${campaignId}/tasks`, {
             method: 'POST',
-            body: JSON.stringify(payload),
+            body: JSON.stringify(request),
         });
     }
 
-    async getChatHistory(campaignId?: string) {
-        const query = campaignId ? `?campaignId=${campaignId}` : '';
-        return this.request<ChatMessageDto[]>(`/api/v1/chat/history${query}`);
+    // Approval endpoints - approvals are the tasks of every campaign that await sign-off
+    async getPendingApprovals(): Promise<CampaignTask[]> {
+        return this.request<CampaignTask[]>(`/tasks?status=${TaskStatus.AwaitingApproval}`);
     }
 
-    // Task endpoints
-    async getTasks(campaignId: string) {
-        return this.request<CampaignTask[]>(`/api/v1/task/list/${campaignId}`);
+    async approveTask(campaignId: string, taskId: string, comment?: string) {
+        return this.request<CampaignTask>(`/campaigns/${campaignId}/tasks/${taskId}/approve`, {
+            method: 'POST',
+            body: JSON.stringify({ comment: comment ?? null }),
+        });
     }
 
-    async getTask(taskId: string) {
-        return this.request<CampaignTask>(`/api/v1/task/get/${taskId}`);
+    async rejectTask(campaignId: string, taskId: string, comment: string) {
+        return this.request<CampaignTask>(`/campaigns/${campaignId}/tasks/${taskId}/reject`, {
+            method: 'POST',
+            body: JSON.stringify({ comment }),
+        });
     }
 
     // Artifact endpoints
     async getArtifacts(campaignId: string, type?: string) {
         const query = type ? `?type=${type}` : '';
-        return this.request<Artifact[]>(`/api/v1/artifact/list/${campaignId}${query}`);
+        return this.request<Artifact[]>(`/campaigns/${campaignId}/artifacts${query}`);
     }
 
-    async getArtifact(campaignId: string, type: string, key: string) {
-        return this.request<Artifact>(`/api/v1/artifact/get/${campaignId}/${type}/${key}`);
+    async createArtifact({ campaignId, ...artifact }: CreateArtifactRequest) {
+        return this.request<Artifact>(`/campaigns/${campaignId}/artifacts`, {
+            method: 'POST',
+            body: JSON.stringify(artifact),
+        });
     }
 
-    async createArtifact(request: CreateArtifactRequest) {
-        return this.request<Artifact>('/api/v1/artifact/create', {
+    // Sender endpoints - cookies are write-only, every response only describes them
+    async getSenders() {
+        return this.request<Sender[]>('/senders');
+    }
+
+    async createSender(request: SaveSenderRequest) {
+        return this.request<Sender>('/senders', {
             method: 'POST',
             body: JSON.stringify(request),
         });
     }
 
+    async updateSender(id: string, request: SaveSenderRequest) {
+        return this.request<Sender>(`/senders/${id}`, {
+            method: 'PUT',
+            body: JSON.stringify(request),
+        });
+    }
+
+    async deleteSender(id: string) {
+        return this.request<Sender>(`/senders/${id}`, {
+            method: 'DELETE',
+        });
+    }
+
+    async saveSenderCredential(id: string, request: SaveCredentialRequest) {
+        return this.request<LinkedInCredential>(`/senders/${id}/credential`, {
+            method: 'PUT',
+            body: JSON.stringify(request),
+        });
+    }
+
+    async verifySenderCredential(id: string) {
+        return this.request<LinkedInCredential>(`/senders/${id}/credential/verify`, {
+            method: 'POST',
+        });
+    }
+
+    async clearSenderCredential(id: string) {
+        return this.request<LinkedInCredential>(`/senders/${id}/credential`, {
+            method: 'DELETE',
+        });
+    }
+
+    async getCampaignSenders(campaignId: string) {
+        return this.request<CampaignSenders>(`/campaigns/${campaignId}/senders`);
+    }
+
+    async assignCampaignSenders(campaignId: string, senders: CampaignSenders) {
+        return this.request<CampaignSenders>(`/campaigns/${campaignId}/senders`, {
+            method: 'PUT',
+            body: JSON.stringify(senders),
+        });
+    }
+
+    async getCampaignLimits(campaignId: string) {
+        return this.request<CampaignLimits>(`/campaigns/${campaignId}/limits`);
+    }
+
+    async saveCampaignLimits(campaignId: string, limits: CampaignLimits) {
+        return this.request<CampaignLimits>(`/campaigns/${campaignId}/limits`, {
+            method: 'PUT',
+            body: JSON.stringify(limits),
+        });
+    }
+
+    async getCampaignQuota(campaignId: string) {
+        return this.request<CampaignQuota>(`/campaigns/${campaignId}/quota`);
+    }
+
     // Settings endpoints
-    async getSettings() {
-        return this.request<SettingsDto>('/api/v1/settings/get');
+    async getSettings(): Promise<Partial<SettingsDto>> {
+        // Nothing is stored until the first save, which comes back without a body; defaults fill in for it
+        return (await this.request<SettingsDto | undefined>('/settings')) ?? {};
     }
 
     async updateSettings(settings: SettingsDto) {
-        return this.request<void>('/api/v1/settings/update', {
-            method: 'POST',
+        return this.request<void>('/settings', {
+            method: 'PUT',
             body: JSON.stringify(settings),
         });
     }
@@ -181,6 +295,8 @@ export interface Campaign {
     id: string;
     name: string;
     status: CampaignStatus;
+    /** Planning, Discovery, Scoring, Outreach, Monitoring or Complete, as the agent moves the campaign along. */
+    phase: string;
     targetAudience: string;
     createdAt: string;
     updatedAt: string;
@@ -195,30 +311,135 @@ export enum CampaignStatus {
     Cancelled = 'Cancelled'
 }
 
+export interface CampaignTaskState {
+    id: string;
+    title: string;
+    description: string;
+    status: string;
+    orderIndex: number;
+}
+
+/** Agent-side progress snapshot of a campaign (backend CampaignState). */
+export interface CampaignState {
+    campaignId: string;
+    name: string;
+    phase: string;
+    completedTasks: number;
+    totalTasks: number;
+    currentTask: CampaignTaskState | null;
+    leadsDiscovered: number;
+    leadsScored: number;
+    lastUpdated: string;
+}
+
+export interface CampaignEvent {
+    id: string;
+    eventType: string;
+    campaignId: string | null;
+    timestamp: string;
+    actor: string;
+    payload: string;
+}
+
+export type EventActor = 'Agent' | 'User' | 'System';
+
+/** Audit log filters; omitted members match everything. */
+export interface EventQuery {
+    campaignId?: string;
+    eventType?: string;
+    actor?: EventActor;
+    /** ISO timestamps bounding the time range, inclusive. */
+    from?: string;
+    to?: string;
+    /** `nextCursor` of the previous page, passed back unchanged. */
+    cursor?: string;
+    limit?: number;
+}
+
+/** One page of audit events, newest first. */
+export interface EventPage {
+    items: CampaignEvent[];
+    nextCursor: string | null;
+}
+
+export interface Lead {
+    id: string;
+    campaignId: string;
+    source: string;
+    score: number | null;
+    scoringRationale: string | null;
+    /** Serialized JSON profile data as discovered by the agent. */
+    data: string;
+    createdAt: string;
+    scoredAt: string | null;
+    /** Furthest outreach stage reached. */
+    stage: LeadStage;
+    /** Sender the lead was contacted from; null before outreach or without assigned senders. */
+    senderId: string | null;
+}
+
+/** Outreach lifecycle of a lead, in order; a lead at one stage has passed every earlier one. */
+export enum LeadStage {
+    Discovered = 'Discovered',
+    Scored = 'Scored',
+    ConnectionSent = 'ConnectionSent',
+    Accepted = 'Accepted',
+    Replied = 'Replied',
+    MeetingBooked = 'MeetingBooked'
+}
+
+/** One scoring of a lead (from its LeadScoredEvent). */
+export interface LeadScore {
+    score: number;
+    rationale: string;
+    timestamp: string;
+}
+
+/** Leads added from outside the agent; each lead's fields become its JSON data. */
+export interface ImportLeadsRequest {
+    source: string;
+    leads: Record<string, string>[];
+}
+
+/** Body of `POST /api/campaigns`; the name and target audience are required. */
 export interface CreateCampaignRequest {
     name: string;
     targetAudience: string;
+    /** Senders to reach out from, in order of preference; may be assigned later. */
+    senderIds?: string[];
+    rotation?: SenderRotation;
+}
+
+export interface CreateTaskRequest {
+    title: string;
+    description: string;
+    orderIndex?: number;
+    requiresApproval?: boolean;
+    /** Approved plan the task is step `orderIndex` of; a step the backend already has is returned, not created again. */
+    planId?: string;
 }
 
 export interface CampaignTask {
     id: string;
     campaignId: string;
+    title: string;
     description: string;
     status: TaskStatus;
-    type: string;
-    input: string | null;
-    output: string | null;
-    retryCount: number;
+    /** Position in the campaign's plan; tasks run in this order. */
+    orderIndex: number;
+    /** Task waits for a human sign-off (AwaitingApproval) before the agent may run it. */
+    requiresApproval: boolean;
     createdAt: string;
-    updatedAt: string;
+    completedAt: string | null;
 }
 
 export enum TaskStatus {
     Pending = 'Pending',
+    AwaitingApproval = 'AwaitingApproval',
     InProgress = 'InProgress',
-    Done = 'Done',
-    Failed = 'Failed',
-    Retrying = 'Retrying'
+    Completed = 'Completed',
+    Blocked = 'Blocked',
+    Rejected = 'Rejected'
 }
 
 export interface Artifact {
@@ -245,12 +466,6 @@ export interface CreateArtifactRequest {
     source: ArtifactSource;
 }
 
-export interface ChatResponse {
-    messageId: string;
-    content: string;
-    timestamp: string;
-}
-
 export interface ChatMessageDto {
     id: string;
     campaignId: string | null;
@@ -260,10 +475,102 @@ export interface ChatMessageDto {
 }
 
 export interface SettingsDto {
+    developerMode: boolean;
     apiEndpoint: string;
     modelName: string;
     maxTokens: number;
     temperature: number;
+    autoSave: boolean;
+    notifications: boolean;
+}
+
+export type CredentialStatus = 'Missing' | 'Unverified' | 'Valid' | 'Invalid' | 'Expired';
+
+export interface LinkedInCredential {
+    status: CredentialStatus;
+    /** Last characters of the stored cookie; the full value is never sent back. */
+    last4: string | null;
+    savedAt: string | null;
+    expiresAt: string | null;
+    verifiedAt: string | null;
+}
+
+export interface SaveCredentialRequest {
+    cookie: string;
+    expiresAt?: string;
+}
+
+/** A LinkedIn account outreach is sent from. */
+export interface Sender {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+    limits: SendingLimits;
+    createdAt: string;
+    credential: LinkedInCredential;
+}
+
+export interface SaveSenderRequest {
+    name: string;
+    avatarUrl: string | null;
+    limits: SendingLimits;
+}
+
+/** RoundRobin: senders take turns, one lead each. FillFirst: the first sender until its limits stop it, then the next. */
+export type SenderRotation = 'RoundRobin' | 'FillFirst';
+
+export interface CampaignSenders {
+    /** Assigned senders, in order of preference. */
+    senderIds: string[];
+    rotation: SenderRotation;
+}
+
+export type Weekday = 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
+
+/** Safeguards against over-sending, for a sender or on top of a campaign's senders. */
+export interface SendingLimits {
+    connectionsPerDay: number;
+    /** Zero stops messaging. */
+    messagesPerDay: number;
+    /** Working hours, from 0 to 24 in the limits' time zone. */
+    startHour: number;
+    endHour: number;
+    workdays: Weekday[];
+    /** Shortest pause between two actions. */
+    minGapMinutes: number;
+    /** Most minutes added at random to every pause. */
+    jitterMinutes: number;
+    /** IANA time zone, such as Europe/Berlin. */
+    timeZone: string;
+}
+
+export interface CampaignLimits {
+    /** Null when only the senders' own limits apply. */
+    limits: SendingLimits | null;
+}
+
+export interface Quota {
+    used: number;
+    /** Null when nothing is limited. */
+    limit: number | null;
+}
+
+/** Next-allowed times are null when the limits never allow the action. */
+export interface SenderQuota {
+    senderId: string;
+    name: string;
+    connections: Quota;
+    messages: Quota;
+    nextConnectionAt: string | null;
+    nextMessageAt: string | null;
+}
+
+export interface CampaignQuota {
+    connections: Quota;
+    messages: Quota;
+    nextConnectionAt: string | null;
+    senders: SenderQuota[];
+    checkedAt: string;
 }
 
 export type { ApiError };
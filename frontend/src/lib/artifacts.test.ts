@@ -0,0 +1,50 @@
+import { Artifact, ArtifactSource } from '@/lib/api';
+import { artifactFormat, contentError, groupArtifacts } from '@/lib/artifacts';
+import { describe, expect, it } from 'vitest';
+
+const LATEST = 2;
+
+function artifact(type: string, key: string, version: number, content = ''): Artifact {
+    return {
+        id: `${type}-${key}-${version}`,
+        campaignId: 'c',
+        type,
+        key,
+        content,
+        source: ArtifactSource.Agent,
+        version,
+        createdAt: '',
+    };
+}
+
+describe('artifacts', () => {
+    it('should group versions newest first, sorted by type and key', () => {
+        const groups = groupArtifacts([
+            artifact('messages', 'intro', 1),
+            artifact('plan', 'campaign-plan', 1),
+            artifact('messages', 'intro', LATEST),
+            artifact('messages', 'follow-up', 1),
+        ]);
+
+        expect(groups.map((g) => `${g.type}/${g.key}`)).toEqual(['messages/follow-up', 'messages/intro', 'plan/campaign-plan']);
+        expect(groups[1]?.versions.map((v) => v.version).join(',')).toBe('2,1');
+    });
+
+    it('should pick the format from the key extension before the content', () => {
+        expect(artifactFormat({ type: 'export', key: 'leads.csv', content: '{"a":1}' })).toBe('csv');
+        expect(artifactFormat({ type: 'plan', key: 'plan.md', content: 'a,b\n1,2' })).toBe('markdown');
+    });
+
+    it('should sniff JSON and tables, and fall back to markdown', () => {
+        expect(artifactFormat({ type: 'config', key: 'targeting', content: '{"roles":["CTO"]}' })).toBe('json');
+        expect(artifactFormat({ type: 'data', key: 'accounts', content: 'name,domain\nAcme,acme.io' })).toBe('csv');
+        expect(artifactFormat({ type: 'messages', key: 'intro', content: 'Hi {firstName}, quick question' })).toBe('markdown');
+        expect(artifactFormat({ type: 'messages', key: 'quote', content: '"42"' })).toBe('markdown');
+    });
+
+    it('should reject empty content and broken JSON', () => {
+        expect(contentError('markdown', '  ')).toBe('Content cannot be empty');
+        expect(contentError('json', '{"roles": [')).toBe('Content is not valid JSON');
+        expect(contentError('json', '[]')).toBeNull();
+    });
+});
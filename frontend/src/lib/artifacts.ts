@@ -0,0 +1,79 @@
+/**
+ * Artifact helpers: grouping versions for the artifacts panel and deciding how content is rendered.
+ */
+
+import { Artifact } from '@/lib/api';
+import { parseCsv } from '@/lib/csv';
+
+export type ArtifactFormat = 'markdown' | 'json' | 'csv';
+
+/** All versions of one artifact, newest first. */
+export interface ArtifactGroup {
+    type: string;
+    key: string;
+    versions: Artifact[];
+}
+
+const EXTENSION_FORMATS: Record<string, ArtifactFormat> = { md: 'markdown', json: 'json', csv: 'csv' };
+const MIN_CSV_COLUMNS = 2;
+
+/**
+ * Group versions by type and key. Types and keys are sorted so the panel stays put as versions arrive.
+ */
+export function groupArtifacts(artifacts: Artifact[]): ArtifactGroup[] {
+    const groups = new Map<string, ArtifactGroup>();
+    for (const artifact of artifacts) {
+        const id = `${artifact.type}/${artifact.key}`;
+        const group = groups.get(id) ?? { type: artifact.type, key: artifact.key, versions: [] };
+        group.versions.push(artifact);
+        groups.set(id, group);
+    }
+    return [...groups.values()]
+        .map((group) => ({ ...group, versions: group.versions.sort((a, b) => b.version - a.version) }))
+        .sort((a, b) => a.type.localeCompare(b.type) || a.key.localeCompare(b.key));
+}
+
+function looksLikeJson(content: string): boolean {
+    try {
+        const parsed: unknown = JSON.parse(content);
+        return typeof parsed === 'object' && parsed !== null;
+    } catch {
+        return false;
+    }
+}
+
+function looksLikeCsv(content: string): boolean {
+    const rows = parseCsv(content);
+    const width = rows[0]?.length ?? 0;
+    return rows.length > 1 && width >= MIN_CSV_COLUMNS && rows.every((row) => row.length === width);
+}
+
+/**
+ * How to render an artifact: by the extension of its key or type, else by sniffing the content.
+ * Anything that is neither JSON nor a regular table renders as markdown, which also suits plain text.
+ */
+export function artifactFormat(artifact: Pick<Artifact, 'type' | 'key' | 'content'>): ArtifactFormat {
+    for (const name of [artifact.key, artifact.type]) {
+        const format = EXTENSION_FORMATS[name.split('.').pop()?.toLowerCase() ?? ''];
+        if (name.includes('.') && format) {
+            return format;
+        }
+    }
+    if (looksLikeJson(artifact.content)) {
+        return 'json';
+    }
+    return looksLikeCsv(artifact.content) ? 'csv' : 'markdown';
+}
+
+/**
+ * Why content cannot be saved in the artifact's format, or null when it can.
+ */
+export function contentError(format: ArtifactFormat, content: string): string | null {
+    if (content.trim() === '') {
+        return 'Content cannot be empty';
+    }
+    if (format === 'json' && !looksLikeJson(content)) {
+        return 'Content is not valid JSON';
+    }
+    return null;
+}
@@ -0,0 +1,59 @@
+/**
+ * Periodic backend health check, shared by every status display: polling runs only while
+ * something is subscribed, and all subscribers see the same result.
+ */
+
+import { apiClient } from '@/lib/api';
+import type { Unsubscribe } from '@/lib/signalr';
+
+export interface HealthSnapshot {
+    /** Null until the first check finishes. */
+    healthy: boolean | null;
+    checkedAt: Date | null;
+    checking: boolean;
+}
+
+export const HEALTH_CHECK_INTERVAL_MS = 30000;
+
+class BackendHealth {
+    private snapshot: HealthSnapshot = { healthy: null, checkedAt: null, checking: false };
+    private readonly listeners = new Set<() => void>();
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    getSnapshot = (): HealthSnapshot => this.snapshot;
+
+    subscribe = (listener: () => void): Unsubscribe => {
+        this.listeners.add(listener);
+        if (this.timer === null) {
+            void this.check();
+            this.timer = setInterval(() => void this.check(), HEALTH_CHECK_INTERVAL_MS);
+        }
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0 && this.timer !== null) {
+                clearInterval(this.timer);
+                this.timer = null;
+            }
+        };
+    };
+
+    /**
+     * Check now instead of waiting for the next poll.
+     */
+    async check(): Promise<void> {
+        if (this.snapshot.checking) {
+            return;
+        }
+        this.update({ checking: true });
+        const healthy = await apiClient.checkHealth();
+        this.update({ healthy, checkedAt: new Date(), checking: false });
+    }
+
+    private update(patch: Partial<HealthSnapshot>): void {
+        // A new object per change, so React sees the snapshot change
+        this.snapshot = { ...this.snapshot, ...patch };
+        this.listeners.forEach((listener) => listener());
+    }
+}
+
+export const backendHealth = new BackendHealth();
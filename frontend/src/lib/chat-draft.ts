@@ -0,0 +1,55 @@
+/**
+ * In-progress assistant message assembled from normalized agent run events.
+ */
+
+import { AgentEvent } from '@/lib/agent-events';
+import { completeToolCall, startToolCall } from '@/lib/tool-calls';
+import { Message, ToolCall } from '@/types/agent';
+
+export interface StreamingDraft {
+  content: string;
+  tools: ToolCall[];
+  /** Run producing the message; the backend stores the answer under this id. */
+  runId?: string;
+}
+
+export const EMPTY_DRAFT: StreamingDraft = { content: '', tools: [] };
+
+export function reduceDraft(draft: StreamingDraft, event: AgentEvent): StreamingDraft {
+  switch (event.type) {
+    case 'run_started':
+      return event.runId ? { ...EMPTY_DRAFT, runId: event.runId } : EMPTY_DRAFT;
+    case 'text_delta':
+      return { ...draft, content: draft.content + event.delta };
+    case 'tool_call_started':
+      return { ...draft, tools: startToolCall(draft.tools, event) };
+    case 'tool_call_finished':
+      return { ...draft, tools: completeToolCall(draft.tools, event) };
+    default:
+      return draft;
+  }
+}
+
+export function createAssistantMessage(content: string, tools: ToolCall[], runId?: string): Message {
+  const message: Message = {
+    id: runId ?? crypto.randomUUID(),
+    role: 'assistant',
+    content,
+    timestamp: new Date(),
+  };
+  if (tools.length > 0) {
+    message.tools = tools;
+  }
+  return message;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export function describeChatError(error: unknown): string {
+  if (error instanceof TypeError) {
+    return `Failed to connect to backend: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error occurred';
+}
@@ -0,0 +1,51 @@
+/**
+ * Chat thread helpers.
+ * Conversations are kept per campaign; the selected thread survives page reloads.
+ */
+
+import { ChatMessageDto } from '@/lib/api';
+import { Message } from '@/types/agent';
+
+/** Thread key for conversations that are not tied to a campaign. */
+export const GENERAL_THREAD = 'general';
+
+const SELECTED_THREAD_STORAGE_KEY = 'outreachgenie.chat.thread';
+const CAMPAIGN_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Whether `thread` names a conversation: the general one or a campaign's, by its GUID. */
+export function isThread(thread: string): boolean {
+    return thread === GENERAL_THREAD || CAMPAIGN_ID.test(thread);
+}
+
+export function threadCampaignId(thread: string): string | undefined {
+    return thread === GENERAL_THREAD ? undefined : thread;
+}
+
+export function fromChatMessageDto(dto: ChatMessageDto): Message | null {
+    const role = dto.role.toLowerCase();
+    if (role !== 'user' && role !== 'assistant') {
+        return null;
+    }
+
+    return {
+        id: dto.id,
+        role,
+        content: dto.content,
+        timestamp: new Date(dto.timestamp),
+    };
+}
+
+export function toThreadMessages(history: ChatMessageDto[]): Message[] {
+    return history
+        .map(fromChatMessageDto)
+        .filter((m): m is Message => m !== null);
+}
+
+export function loadSelectedThread(): string {
+    const thread = window.localStorage.getItem(SELECTED_THREAD_STORAGE_KEY);
+    return thread !== null && isThread(thread) ? thread : GENERAL_THREAD;
+}
+
+export function saveSelectedThread(thread: string): void {
+    window.localStorage.setItem(SELECTED_THREAD_STORAGE_KEY, thread);
+}
@@ -0,0 +1,26 @@
+import { connectionStatus, ConnectionSignals } from '@/lib/connection-status';
+import { describe, expect, it } from 'vitest';
+
+const HEALTHY = { healthy: true, checkedAt: new Date(0), checking: false };
+
+function signals(overrides: Partial<ConnectionSignals>): ConnectionSignals {
+    return { hub: 'Connected', reconnectAttempts: 0, health: HEALTHY, runningAgents: 0, ...overrides };
+}
+
+describe('connectionStatus', () => {
+    it('should report offline whenever the health check fails', () => {
+        expect(connectionStatus(signals({ health: { ...HEALTHY, healthy: false }, runningAgents: 1 }))).toBe('offline');
+    });
+
+    it('should prefer reconnecting and running over the steady states', () => {
+        expect(connectionStatus(signals({ hub: 'Reconnecting', runningAgents: 1 }))).toBe('reconnecting');
+        expect(connectionStatus(signals({ runningAgents: 1, health: { ...HEALTHY, healthy: null } }))).toBe('running');
+    });
+
+    it('should wait for the first checks before claiming to be online', () => {
+        expect(connectionStatus(signals({ health: { ...HEALTHY, healthy: null } }))).toBe('connecting');
+        expect(connectionStatus(signals({ hub: null }))).toBe('connecting');
+        expect(connectionStatus(signals({}))).toBe('online');
+        expect(connectionStatus(signals({ hub: 'Disconnected' }))).toBe('degraded');
+    });
+});
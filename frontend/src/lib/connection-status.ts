@@ -0,0 +1,53 @@
+/**
+ * One overall status for the operator, derived from the SignalR connection, the backend health check
+ * and agent run activity. The backend being unreachable outranks everything else.
+ */
+
+import type { HealthSnapshot } from '@/lib/backend-health';
+
+export type HubState = 'Disconnected' | 'Connecting' | 'Connected' | 'Disconnecting' | 'Reconnecting';
+
+export type ConnectionStatus = 'connecting' | 'online' | 'running' | 'reconnecting' | 'degraded' | 'offline';
+
+export interface ConnectionSignals {
+    /** Null before the app first tries to connect. */
+    hub: HubState | null;
+    reconnectAttempts: number;
+    health: HealthSnapshot;
+    runningAgents: number;
+}
+
+export interface StatusDisplay {
+    label: string;
+    description: string;
+    /** Class of the status dot. */
+    tone: string;
+}
+
+export const STATUS_DISPLAY: Record<ConnectionStatus, StatusDisplay> = {
+    connecting: { label: 'Connecting', description: 'Reaching the backend', tone: 'bg-muted-foreground animate-pulse' },
+    online: { label: 'Agent Ready', description: 'Connected', tone: 'bg-success' },
+    running: { label: 'Agent Running', description: 'Working on a request', tone: 'bg-success animate-pulse-subtle' },
+    reconnecting: { label: 'Reconnecting', description: 'Live updates interrupted', tone: 'bg-warning animate-pulse' },
+    degraded: { label: 'Agent Ready', description: 'Live updates unavailable', tone: 'bg-warning' },
+    offline: { label: 'Offline', description: 'Backend unreachable', tone: 'bg-destructive' },
+};
+
+/**
+ * A streaming agent run proves the backend is up, so it shows even while the first health check is pending.
+ */
+export function connectionStatus({ hub, health, runningAgents }: ConnectionSignals): ConnectionStatus {
+    if (health.healthy === false) {
+        return 'offline';
+    }
+    if (hub === 'Reconnecting') {
+        return 'reconnecting';
+    }
+    if (runningAgents > 0) {
+        return 'running';
+    }
+    if (health.healthy === null || hub === null || hub === 'Connecting') {
+        return 'connecting';
+    }
+    return hub === 'Connected' ? 'online' : 'degraded';
+}
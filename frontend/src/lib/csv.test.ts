@@ -0,0 +1,27 @@
+import { detectSeparator, parseCsv, parseCsvRows } from '@/lib/csv';
+import { describe, expect, it } from 'vitest';
+
+describe('csv', () => {
+    it('should parse quoted cells with separators, escaped quotes and line breaks', () => {
+        const rows = parseCsv('name,note\r\n"Lovelace, Ada","said ""hi""\nthen left"\r\n');
+
+        expect(rows).toEqual([['name', 'note'], ['Lovelace, Ada', 'said "hi"\nthen left']]);
+    });
+
+    it('should drop a byte order mark and blank lines', () => {
+        expect(parseCsv('\uFEFFname\n\nAda\n,\n')).toEqual([['name'], ['Ada']]);
+    });
+
+    it('should detect semicolon and tab separated files', () => {
+        expect(detectSeparator('name;company;"a,b"\nAda;Acme;x')).toBe(';');
+        expect(detectSeparator('name\tcompany')).toBe('\t');
+        expect(parseCsv('name;company\nAda;Acme')).toEqual([['name', 'company'], ['Ada', 'Acme']]);
+    });
+
+    it('should number rows by the line they start on, counting blank lines and quoted line breaks', () => {
+        const rows = parseCsvRows('name,note\r\n\r\nAda,"first\r\nsecond"\nGrace,\n\n\nLinus,x');
+
+        expect(rows.map((row) => row.line).join(',')).toBe('1,3,5,8');
+        expect(rows[1]?.cells).toEqual(['Ada', 'first\r\nsecond']);
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * CSV parsing for user-supplied files: quoted fields, embedded line breaks, a leading byte order mark,
+ * and the comma, semicolon or tab separators different spreadsheet locales save with.
+ */
+
+const SEPARATORS = [',', ';', '\t'];
+
+/**
+ * Guess the separator from the header line: the candidate that occurs most often outside quotes.
+ */
+export function detectSeparator(text: string): string {
+    const header = text.split(/\r?\n/, 1)[0]?.replace(/"[^"]*"/g, '') ?? '';
+    const counts = SEPARATORS.map((separator) => header.split(separator).length);
+    return SEPARATORS[counts.indexOf(Math.max(...counts))] ?? ',';
+}
+
+/** Whether the character at `i` ends a line; the \r of a \r\n pair does not, its \n does. */
+function endsLine(text: string, i: number): boolean {
+    return text[i] === '\n' || (text[i] === '\r' && text[i + 1] !== '\n');
+}
+
+/** A row of cells and the line of the file it starts on, counting from 1. */
+export interface CsvRow {
+    line: number;
+    cells: string[];
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180), each with the line it starts on. Blank lines are dropped
+ * but still counted, as are line breaks inside quoted cells, so the lines match what an editor shows.
+ */
+export function parseCsvRows(input: string, separator = detectSeparator(input)): CsvRow[] {
+    const text = input.replace(/^\uFEFF/, '');
+    const rows: CsvRow[] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let line = 1;
+    let start = line;
+
+    const endRow = (): void => {
+        row.push(cell);
+        if (row.some((value) => value.trim() !== '')) {
+            rows.push({ line: start, cells: row });
+        }
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+            if (endsLine(text, i)) {
+                line++;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === separator) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            endRow();
+            line++;
+            start = line;
+        } else {
+            cell += char;
+        }
+    }
+    endRow();
+    return rows;
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180). Blank lines are dropped.
+ */
+export function parseCsv(input: string, separator = detectSeparator(input)): string[][] {
+    return parseCsvRows(input, separator).map((row) => row.cells);
+}
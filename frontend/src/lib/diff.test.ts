@@ -0,0 +1,29 @@
+import { sideBySideDiff } from '@/lib/diff';
+import { describe, expect, it } from 'vitest';
+
+const SECOND = 2;
+const FOURTH = 4;
+
+describe('diff', () => {
+    it('should line up unchanged lines and pair replacements', () => {
+        const rows = sideBySideDiff('Hi {firstName},\nWe build tools.\nThanks', 'Hi {firstName},\nWe build AI tools.\nBest,\nThanks');
+
+        expect(rows.map((row) => row.kind)).toEqual(['same', 'changed', 'added', 'same']);
+        expect(rows[1]?.left).toEqual({ line: SECOND, text: 'We build tools.' });
+        expect(rows[1]?.right).toEqual({ line: SECOND, text: 'We build AI tools.' });
+        expect(rows[2]?.left).toBeNull();
+        expect(rows[3]?.right?.line).toBe(FOURTH);
+    });
+
+    it('should report removed lines with their original numbers', () => {
+        const rows = sideBySideDiff('a\nb\nc', 'a\nc');
+
+        expect(rows.map((row) => row.kind)).toEqual(['same', 'removed', 'same']);
+        expect(rows[1]?.left?.line).toBe(SECOND);
+        expect(rows[1]?.right).toBeNull();
+    });
+
+    it('should find no changes between equal texts', () => {
+        expect(sideBySideDiff('x\r\ny', 'x\ny').every((row) => row.kind === 'same')).toBe(true);
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * Line diff for comparing artifact versions, laid out side by side.
+ */
+
+export type DiffKind = 'same' | 'removed' | 'added' | 'changed';
+
+export interface DiffCell {
+    /** One-based line number in its version. */
+    line: number;
+    text: string;
+}
+
+/** One row of a side-by-side diff; a null side means the line only exists on the other side. */
+export interface DiffRow {
+    kind: DiffKind;
+    left: DiffCell | null;
+    right: DiffCell | null;
+}
+
+type Op = { kind: 'same' | 'removed' | 'added'; text: string };
+
+/**
+ * Longest-common-subsequence line diff of `before` against `after`.
+ */
+function diffOps(before: string[], after: string[]): Op[] {
+    const width = after.length + 1;
+    // common[i * width + j]: length of the LCS of before[i..] and after[j..]
+    const common = new Uint32Array((before.length + 1) * width);
+    const lcs = (i: number, j: number): number => common[i * width + j] ?? 0;
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            common[i * width + j] = before[i] === after[j] ? lcs(i + 1, j + 1) + 1 : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+        }
+    }
+
+    const ops: Op[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length || j < after.length) {
+        if (i < before.length && j < after.length && before[i] === after[j]) {
+            ops.push({ kind: 'same', text: before[i] ?? '' });
+            i++;
+            j++;
+        } else if (j < after.length && (i === before.length || lcs(i, j + 1) >= lcs(i + 1, j))) {
+            ops.push({ kind: 'added', text: after[j] ?? '' });
+            j++;
+        } else {
+            ops.push({ kind: 'removed', text: before[i] ?? '' });
+            i++;
+        }
+    }
+    return ops;
+}
+
+/**
+ * Side-by-side rows: unchanged lines face each other, and a run of removed lines
+ * is paired with the run of added lines that replaced it.
+ */
+export function sideBySideDiff(before: string, after: string): DiffRow[] {
+    const ops = diffOps(before.split(/\r?\n/), after.split(/\r?\n/));
+    const rows: DiffRow[] = [];
+    let left = 1;
+    let right = 1;
+    let removed: DiffCell[] = [];
+    let added: DiffCell[] = [];
+
+    const flush = (): void => {
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            const l = removed[k] ?? null;
+            const r = added[k] ?? null;
+            rows.push({ kind: l && r ? 'changed' : l ? 'removed' : 'added', left: l, right: r });
+        }
+        removed = [];
+        added = [];
+    };
+
+    for (const op of ops) {
+        if (op.kind === 'same') {
+            flush();
+            rows.push({ kind: 'same', left: { line: left++, text: op.text }, right: { line: right++, text: op.text } });
+        } else if (op.kind === 'removed') {
+            removed.push({ line: left++, text: op.text });
+        } else {
+            added.push({ line: right++, text: op.text });
+        }
+    }
+    flush();
+    return rows;
+}
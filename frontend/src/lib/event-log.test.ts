@@ -0,0 +1,59 @@
+import { CampaignEvent } from '@/lib/api';
+import { ALL, appendEvents, decodePayload, DEFAULT_EVENT_LOG_FILTERS, EVENT_PAGE_SIZE, toEventQuery } from '@/lib/event-log';
+import { describe, expect, it } from 'vitest';
+
+function event(id: string): CampaignEvent {
+    return {
+        id,
+        eventType: 'TaskCompletedEvent',
+        campaignId: 'c-1',
+        timestamp: '2026-03-01T10:00:00Z',
+        actor: 'Agent',
+        payload: '{}',
+    };
+}
+
+describe('toEventQuery', () => {
+    it('should omit unrestricted filters', () => {
+        expect(toEventQuery(DEFAULT_EVENT_LOG_FILTERS)).toEqual({ limit: EVENT_PAGE_SIZE });
+    });
+
+    it('should map selections, local time range and cursor', () => {
+        const from = '2026-03-01T09:30';
+        const query = toEventQuery(
+            { campaignId: 'c-1', eventType: 'LeadScoredEvent', actor: 'Agent', from, to: '' },
+            '639077184000000000_5f0c1b7e9a2d4c3b8e6f7a1d2c3b4a5e'
+        );
+
+        expect(query).toEqual({
+            campaignId: 'c-1',
+            eventType: 'LeadScoredEvent',
+            actor: 'Agent',
+            from: new Date(from).toISOString(),
+            cursor: '639077184000000000_5f0c1b7e9a2d4c3b8e6f7a1d2c3b4a5e',
+            limit: EVENT_PAGE_SIZE,
+        });
+    });
+
+    it('should ignore an unparseable time', () => {
+        expect(toEventQuery({ ...DEFAULT_EVENT_LOG_FILTERS, actor: ALL, to: 'not a date' })).not.toHaveProperty('to');
+    });
+});
+
+describe('appendEvents', () => {
+    it('should keep order and skips events already loaded', () => {
+        const merged = appendEvents([event('a'), event('b')], [event('b'), event('c')]);
+
+        expect(merged.map((e) => e.id)).toEqual(['a', 'b', 'c']);
+    });
+});
+
+describe('decodePayload', () => {
+    it('should parse JSON payloads', () => {
+        expect(decodePayload('{"LeadCount":"12"}')).toEqual({ LeadCount: '12' });
+    });
+
+    it('should return malformed payloads unchanged', () => {
+        expect(decodePayload('{oops')).toBe('{oops');
+    });
+});
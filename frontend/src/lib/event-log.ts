@@ -0,0 +1,86 @@
+/**
+ * Audit log explorer helpers: filter state, query mapping and payload decoding.
+ */
+
+import { CampaignEvent, EventActor, EventQuery } from '@/lib/api';
+
+/** Select value meaning "no restriction". */
+export const ALL = '__all__';
+
+/** Event types the backend appends to the audit log. */
+export const EVENT_TYPES = [
+    'CampaignCreatedEvent',
+    'TaskCreatedEvent',
+    'TaskCompletedEvent',
+    'LeadsDiscoveredEvent',
+    'LeadScoredEvent',
+    'LeadStageChangedEvent',
+] as const;
+
+export const EVENT_ACTORS: EventActor[] = ['User', 'Agent', 'System'];
+
+export const EVENT_PAGE_SIZE = 50;
+
+export interface EventLogFilters {
+    campaignId: string;
+    eventType: string;
+    actor: string;
+    /** `datetime-local` input values in the user's time zone; empty for an open range. */
+    from: string;
+    to: string;
+}
+
+export const DEFAULT_EVENT_LOG_FILTERS: EventLogFilters = {
+    campaignId: ALL,
+    eventType: ALL,
+    actor: ALL,
+    from: '',
+    to: '',
+};
+
+function localToIso(value: string): string | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function selected(value: string): string | undefined {
+    return value === ALL ? undefined : value;
+}
+
+/**
+ * Map UI filter state onto the `/events` query, leaving out unrestricted members.
+ */
+export function toEventQuery(filters: EventLogFilters, cursor?: string): EventQuery {
+    const query = {
+        campaignId: selected(filters.campaignId),
+        eventType: selected(filters.eventType),
+        actor: selected(filters.actor),
+        from: localToIso(filters.from),
+        to: localToIso(filters.to),
+        cursor,
+        limit: EVENT_PAGE_SIZE,
+    };
+    return Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined)) as EventQuery;
+}
+
+/**
+ * Append a page to the loaded events, skipping any already present.
+ */
+export function appendEvents(loaded: CampaignEvent[], page: CampaignEvent[]): CampaignEvent[] {
+    const seen = new Set(loaded.map((event) => event.id));
+    return [...loaded, ...page.filter((event) => !seen.has(event.id))];
+}
+
+/**
+ * Decode a stored JSON payload; payloads that are not valid JSON come back as the raw string.
+ */
+export function decodePayload(payload: string): unknown {
+    try {
+        return JSON.parse(payload) as unknown;
+    } catch {
+        return payload;
+    }
+}
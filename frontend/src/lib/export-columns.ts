@@ -0,0 +1,50 @@
+/**
+ * Column definitions for the exportable tables: leads, campaigns and the analytics charts.
+ */
+
+import { ActivityPoint } from '@/lib/analytics';
+import { Campaign, Lead } from '@/lib/api';
+import { ExportColumn } from '@/lib/export';
+import { FunnelStep, stageLabel } from '@/lib/funnel';
+import { leadName, parseLeadData, readField } from '@/lib/leads';
+
+function leadField(key: string): (lead: Lead) => string | null {
+    return (lead) => readField(parseLeadData(lead.data), key) ?? null;
+}
+
+export const LEAD_COLUMNS: ExportColumn<Lead>[] = [
+    { id: 'name', header: 'Name', value: leadName },
+    { id: 'company', header: 'Company', value: leadField('company') },
+    { id: 'title', header: 'Title', value: leadField('title') },
+    { id: 'source', header: 'Source', value: (lead) => lead.source },
+    { id: 'score', header: 'Score', value: (lead) => lead.score },
+    { id: 'rationale', header: 'Rationale', value: (lead) => lead.scoringRationale },
+    { id: 'stage', header: 'Stage', value: (lead) => stageLabel(lead.stage) },
+    { id: 'createdAt', header: 'Discovered at', value: (lead) => lead.createdAt },
+    { id: 'scoredAt', header: 'Scored at', value: (lead) => lead.scoredAt },
+    { id: 'data', header: 'Raw data', value: (lead) => lead.data },
+    { id: 'id', header: 'Lead ID', value: (lead) => lead.id },
+];
+
+export const CAMPAIGN_COLUMNS: ExportColumn<Campaign>[] = [
+    { id: 'name', header: 'Name', value: (campaign) => campaign.name },
+    { id: 'status', header: 'Status', value: (campaign) => campaign.status },
+    { id: 'targetAudience', header: 'Target audience', value: (campaign) => campaign.targetAudience },
+    { id: 'createdAt', header: 'Created at', value: (campaign) => campaign.createdAt },
+    { id: 'updatedAt', header: 'Updated at', value: (campaign) => campaign.updatedAt },
+    { id: 'id', header: 'Campaign ID', value: (campaign) => campaign.id },
+];
+
+export const ACTIVITY_COLUMNS: ExportColumn<ActivityPoint>[] = [
+    { id: 'date', header: 'Period start', value: (point) => point.date },
+    { id: 'leadsDiscovered', header: 'Leads discovered', value: (point) => point.leadsDiscovered },
+    { id: 'leadsScored', header: 'Leads scored', value: (point) => point.leadsScored },
+    { id: 'tasksCompleted', header: 'Tasks completed', value: (point) => point.tasksCompleted },
+];
+
+export const FUNNEL_COLUMNS: ExportColumn<FunnelStep>[] = [
+    { id: 'stage', header: 'Stage', value: (step) => step.label },
+    { id: 'count', header: 'Leads', value: (step) => step.count },
+    { id: 'conversion', header: 'Conversion from previous (%)', value: (step) => step.conversion },
+    { id: 'overall', header: 'Of discovered (%)', value: (step) => step.overall },
+];
@@ -0,0 +1,49 @@
+import { ExportColumn, exportFileName, tableRows, toCsv } from '@/lib/export';
+import { describe, expect, it } from 'vitest';
+
+interface Row {
+    name: string;
+    score: number | null;
+}
+
+const COLUMNS: ExportColumn<Row>[] = [
+    { id: 'name', header: 'Name', value: (row) => row.name },
+    { id: 'score', header: 'Score', value: (row) => row.score },
+];
+
+describe('export', () => {
+    it('should quote cells containing separators, quotes and line breaks', () => {
+        const csv = toCsv([['plain', 'a,b', 'say "hi"', 'two\nlines']]);
+
+        expect(csv).toBe('plain,"a,b","say ""hi""","two\nlines"');
+    });
+
+    it('should join rows with CRLF and leave empty cells blank', () => {
+        expect(toCsv([['a', null], ['b', '']])).toBe('a,\r\nb,');
+    });
+
+    it('should neutralize text a spreadsheet would run as a formula', () => {
+        const csv = toCsv([['=HYPERLINK("x")', '+1', '@cmd', -1]]);
+
+        expect(csv).toBe('"\'=HYPERLINK(""x"")",\'+1,\'@cmd,-1');
+    });
+
+    it('should prefix a byte order mark when asked', () => {
+        expect(toCsv([['a']], true)).toBe('﻿a');
+        expect(toCsv([['a']])).toBe('a');
+    });
+
+    it('should keep only selected columns in definition order', () => {
+        const rows = tableRows([{ name: 'Ada', score: null }], COLUMNS, ['score', 'name']);
+
+        expect(rows).toEqual([['Name', 'Score'], ['Ada', null]]);
+        expect(tableRows([{ name: 'Ada', score: null }], COLUMNS, ['score'])).toEqual([['Score'], [null]]);
+    });
+
+    it('should build a dated, file-system safe name', () => {
+        const date = new Date('2026-03-01T12:00:00Z');
+
+        expect(exportFileName('Funnel by Campaign!', 'xlsx', date)).toBe('funnel-by-campaign-2026-03-01.xlsx');
+        expect(exportFileName('  ', 'csv', date)).toBe('export-2026-03-01.csv');
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Table export: turns rows plus column definitions into a CSV or XLSX download, entirely in the browser.
+ */
+
+import { buildXlsx, CellValue } from '@/lib/xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn<T> {
+    id: string;
+    header: string;
+    value: (row: T) => CellValue;
+}
+
+export interface ExportOptions {
+    format: ExportFormat;
+    /** Ids of the columns to include, in column definition order. */
+    columns: string[];
+    /** Prefix the CSV with a UTF-8 byte order mark so Excel detects the encoding. */
+    bom: boolean;
+}
+
+const BOM = '\uFEFF';
+const CSV_MIME = 'text/csv;charset=utf-8';
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+// Spreadsheet apps evaluate cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NEEDS_QUOTES = /[",\r\n]/;
+
+function csvCell(value: CellValue): string {
+    if (value === null) {
+        return '';
+    }
+    if (typeof value === 'number') {
+        return String(value);
+    }
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return NEEDS_QUOTES.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows as RFC 4180 CSV with CRLF line breaks.
+ * Text that a spreadsheet would run as a formula is prefixed with an apostrophe.
+ */
+export function toCsv(rows: CellValue[][], bom = false): string {
+    const body = rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+    return (bom ? BOM : '') + body;
+}
+
+/**
+ * Header row followed by one row per item, limited to the selected columns.
+ */
+export function tableRows<T>(items: T[], columns: ExportColumn<T>[], selected: string[]): CellValue[][] {
+    const included = columns.filter((column) => selected.includes(column.id));
+    return [included.map((column) => column.header), ...items.map((item) => included.map((column) => column.value(item)))];
+}
+
+/**
+ * File name safe across platforms, with the date of the export appended.
+ */
+export function exportFileName(name: string, format: ExportFormat, date = new Date()): string {
+    const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+    const day = date.toISOString().slice(0, 'yyyy-mm-dd'.length);
+    return `${base}-${day}.${format}`;
+}
+
+function download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Build the file for `items` and hand it to the browser as a download.
+ */
+export function exportTable<T>(name: string, items: T[], columns: ExportColumn<T>[], options: ExportOptions): void {
+    const rows = tableRows(items, columns, options.columns);
+    const blob =
+        options.format === 'csv'
+            ? new Blob([toCsv(rows, options.bom)], { type: CSV_MIME })
+            : new Blob([buildXlsx(name, rows)], { type: XLSX_MIME });
+    download(blob, exportFileName(name, options.format));
+}
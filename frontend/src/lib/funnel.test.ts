@@ -0,0 +1,61 @@
+import { Lead, LeadStage } from '@/lib/api';
+import { buildFunnel, FUNNEL_STAGES, leadsAtStage } from '@/lib/funnel';
+import { describe, expect, it } from 'vitest';
+
+const ALL = 100;
+const THREE_QUARTERS = 75;
+const HALF = 50;
+const TWO_THIRDS = 66.7;
+
+function lead(id: string, stage: string): Lead {
+    return {
+        id,
+        campaignId: 'c',
+        source: 'LinkedIn',
+        score: null,
+        scoringRationale: null,
+        data: '{}',
+        createdAt: '',
+        scoredAt: null,
+        stage: stage as LeadStage,
+        senderId: null,
+    };
+}
+
+describe('funnel', () => {
+    const leads = [
+        lead('a', 'Discovered'),
+        lead('b', 'Scored'),
+        lead('c', 'ConnectionSent'),
+        lead('d', 'Replied'),
+    ];
+
+    it('should count every lead at each stage it has passed', () => {
+        const steps = buildFunnel(leads);
+
+        expect(steps.map((s) => s.stage)).toEqual(FUNNEL_STAGES.map((s) => s.stage));
+        expect(steps.map((s) => s.count).join(',')).toBe('4,3,2,1,1,0');
+    });
+
+    it('should compute conversion from the previous stage and from discovery', () => {
+        const [discovered, scored, sent, , , meeting] = buildFunnel(leads);
+
+        expect(discovered?.conversion).toBe(ALL);
+        expect(scored?.conversion).toBe(THREE_QUARTERS);
+        expect(sent?.conversion).toBe(TWO_THIRDS);
+        expect(sent?.overall).toBe(HALF);
+        expect(meeting?.conversion).toBe(0);
+    });
+
+    it('should not divide by zero for an empty funnel', () => {
+        expect(buildFunnel([]).every((s) => s.count === 0 && s.overall === 0)).toBe(true);
+    });
+
+    it('should list the leads that reached a stage or beyond', () => {
+        expect(leadsAtStage(leads, LeadStage.ConnectionSent).map((l) => l.id)).toEqual(['c', 'd']);
+    });
+
+    it('should treat unknown stages as discovered', () => {
+        expect(leadsAtStage([lead('x', 'Archived')], LeadStage.Scored)).toEqual([]);
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * Outreach funnel: how many leads reached each lifecycle stage and how many carried on to the next.
+ * Stages are cumulative, so a lead that booked a meeting also counts as discovered, scored, and so on.
+ */
+
+import { Lead, LeadStage } from '@/lib/api';
+
+export interface FunnelStep {
+    stage: LeadStage;
+    label: string;
+    /** Leads that reached this stage or a later one. */
+    count: number;
+    /** Percent of the previous stage's leads that reached this one; 100 for the first stage. */
+    conversion: number;
+    /** Percent of discovered leads that reached this stage. */
+    overall: number;
+}
+
+export const FUNNEL_STAGES: { stage: LeadStage; label: string }[] = [
+    { stage: LeadStage.Discovered, label: 'Discovered' },
+    { stage: LeadStage.Scored, label: 'Scored' },
+    { stage: LeadStage.ConnectionSent, label: 'Connection sent' },
+    { stage: LeadStage.Accepted, label: 'Accepted' },
+    { stage: LeadStage.Replied, label: 'Replied' },
+    { stage: LeadStage.MeetingBooked, label: 'Meeting booked' },
+];
+
+const PERCENT = 100;
+const DECIMAL = 10;
+
+function stageIndex(stage: LeadStage): number {
+    const index = FUNNEL_STAGES.findIndex((step) => step.stage === stage);
+    // Stages the frontend does not know yet count as discovered only
+    return index === -1 ? 0 : index;
+}
+
+/**
+ * Display name of a stage.
+ */
+export function stageLabel(stage: LeadStage): string {
+    return FUNNEL_STAGES.find((step) => step.stage === stage)?.label ?? stage;
+}
+
+function share(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * PERCENT * DECIMAL) / DECIMAL : 0;
+}
+
+/**
+ * Leads that reached `stage` or a later one.
+ */
+export function leadsAtStage(leads: Lead[], stage: LeadStage): Lead[] {
+    const index = stageIndex(stage);
+    return leads.filter((lead) => stageIndex(lead.stage) >= index);
+}
+
+/**
+ * Count the funnel, one step per stage in lifecycle order.
+ */
+export function buildFunnel(leads: Lead[]): FunnelStep[] {
+    const reached = FUNNEL_STAGES.map(() => 0);
+    for (const lead of leads) {
+        for (let i = 0; i <= stageIndex(lead.stage); i++) {
+            reached[i] += 1;
+        }
+    }
+
+    return FUNNEL_STAGES.map(({ stage, label }, i) => ({
+        stage,
+        label,
+        count: reached[i],
+        conversion: i === 0 ? PERCENT : share(reached[i], reached[i - 1]),
+        overall: share(reached[i], reached[0]),
+    }));
+}
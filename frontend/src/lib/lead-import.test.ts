@@ -0,0 +1,92 @@
+import { Lead, LeadStage } from '@/lib/api';
+import { CsvRow, parseCsvRows } from '@/lib/csv';
+import { guessMapping, identityKeys, validateRows } from '@/lib/lead-import';
+import { describe, expect, it } from 'vitest';
+
+// Rows right below a header line
+const FIRST_DATA_LINE = 2;
+
+function dataRows(rows: string[][]): CsvRow[] {
+    return rows.map((cells, index) => ({ line: index + FIRST_DATA_LINE, cells }));
+}
+
+function lead(data: Record<string, string>): Lead {
+    return {
+        id: 'l-1',
+        campaignId: 'c',
+        source: 'Simulated Discovery',
+        score: null,
+        scoringRationale: null,
+        data: JSON.stringify(data),
+        createdAt: '',
+        scoredAt: null,
+        stage: LeadStage.Discovered,
+        senderId: null,
+    };
+}
+
+describe('lead-import', () => {
+    it('should map known headers and leave the rest unmapped', () => {
+        expect(guessMapping(['First Name', 'Surname', 'E-mail', 'LinkedIn URL', 'Notes', 'Email Address'])).toEqual([
+            'firstName',
+            'lastName',
+            'email',
+            'profileUrl',
+            null,
+            null,
+        ]);
+    });
+
+    it('should match profile URLs regardless of scheme, host prefix, query and trailing slash', () => {
+        expect(identityKeys({ profileUrl: 'https://www.linkedin.com/in/ada/?trk=x' })).toEqual(
+            identityKeys({ profileUrl: 'http://LinkedIn.com/in/ada' })
+        );
+    });
+
+    it('should report validation errors per row', () => {
+        const rows = validateRows(
+            dataRows([
+                ['Ada', 'ada@example.com', ''],
+                ['', 'grace@example.com', ''],
+                ['Linus', 'not-an-email', 'linkedin'],
+            ]),
+            ['name', 'email', 'profileUrl'],
+            []
+        );
+
+        expect(rows.map((row) => row.line).join(',')).toBe('2,3,4');
+        expect(rows[0]?.lead).toEqual({ name: 'Ada', email: 'ada@example.com' });
+        expect(rows[1]?.errors).toEqual(['A name is required']);
+        expect(rows[2]?.errors).toEqual(['Invalid email address', 'Invalid profile URL']);
+    });
+
+    it('should flag duplicates of campaign leads and of earlier rows', () => {
+        const existing = [lead({ Name: 'Ada Lovelace', Company: 'Analytical Engines', Email: 'ada@example.com' })];
+        const rows = validateRows(
+            dataRows([
+                ['Ada', 'Lovelace', 'analytical engines', ''],
+                ['Grace', 'Hopper', 'Navy', 'GRACE@example.com'],
+                ['G.', 'Hopper', 'Navy', 'grace@example.com'],
+                ['Linus', 'Torvalds', 'Linux', ''],
+            ]),
+            ['firstName', 'lastName', 'company', 'email'],
+            existing
+        );
+
+        expect(rows.map((row) => row.duplicate)).toEqual([
+            'Same name and company as an existing lead',
+            null,
+            'Same email as line 3',
+            null,
+        ]);
+    });
+
+    it('should report the file line of rows after blank lines and multi-line cells', () => {
+        const [, ...data] = parseCsvRows('name,email\n"Ada\nLovelace",ada@example.com\n\nGrace,grace@example.com\nLinus,ADA@example.com');
+
+        const rows = validateRows(data, ['name', 'email'], []);
+
+        expect(rows.map((row) => row.line).join(',')).toBe('2,5,6');
+        expect(rows[2]?.duplicate).toBe('Same email as line 2');
+    });
+});
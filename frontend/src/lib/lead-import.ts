@@ -0,0 +1,144 @@
+/**
+ * Lead import from CSV: mapping file columns to lead fields, validating rows,
+ * and spotting leads the campaign already has.
+ */
+
+import { Lead } from '@/lib/api';
+import { CsvRow } from '@/lib/csv';
+import { leadName, parseLeadData, readField } from '@/lib/leads';
+import { z } from 'zod';
+
+export type ImportField = 'name' | 'firstName' | 'lastName' | 'email' | 'company' | 'title' | 'profileUrl' | 'location';
+
+/** The lead field each CSV column feeds, by column index; null skips the column. */
+export type ColumnMapping = (ImportField | null)[];
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+    { field: 'name', label: 'Full name', aliases: ['name', 'fullname', 'contact'] },
+    { field: 'firstName', label: 'First name', aliases: ['firstname', 'first', 'givenname'] },
+    { field: 'lastName', label: 'Last name', aliases: ['lastname', 'last', 'surname', 'familyname'] },
+    { field: 'email', label: 'Email', aliases: ['email', 'emailaddress', 'mail'] },
+    { field: 'company', label: 'Company', aliases: ['company', 'organization', 'organisation', 'employer', 'account'] },
+    { field: 'title', label: 'Job title', aliases: ['title', 'jobtitle', 'position', 'role', 'headline'] },
+    { field: 'profileUrl', label: 'Profile URL', aliases: ['profileurl', 'linkedin', 'linkedinurl', 'url', 'profile'] },
+    { field: 'location', label: 'Location', aliases: ['location', 'city', 'country', 'region'] },
+];
+
+const optional = z.string().trim().optional();
+
+export const importedLeadSchema = z
+    .object({
+        name: optional,
+        firstName: optional,
+        lastName: optional,
+        email: z.string().trim().email('Invalid email address').optional(),
+        company: optional,
+        title: optional,
+        profileUrl: z.string().trim().url('Invalid profile URL').optional(),
+        location: optional,
+    })
+    .refine((lead) => Boolean(lead.name || lead.firstName || lead.lastName), { message: 'A name is required' });
+
+export type ImportedLead = z.infer<typeof importedLeadSchema>;
+
+export interface ImportRow {
+    /** Line of the file the row starts on, counting from 1. */
+    line: number;
+    lead: ImportedLead | null;
+    errors: string[];
+    /** Why the row looks like a lead that is already in the campaign or earlier in the file. */
+    duplicate: string | null;
+}
+
+function normalize(header: string): string {
+    return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Map columns whose header matches a known field name; each field is mapped at most once.
+ */
+export function guessMapping(headers: string[]): ColumnMapping {
+    const used = new Set<ImportField>();
+    return headers.map((header) => {
+        const match = IMPORT_FIELDS.find(({ field, aliases }) => !used.has(field) && aliases.includes(normalize(header)));
+        if (match) {
+            used.add(match.field);
+        }
+        return match?.field ?? null;
+    });
+}
+
+function rowFields(cells: string[], mapping: ColumnMapping): Record<string, string> {
+    const fields: Record<string, string> = {};
+    mapping.forEach((field, column) => {
+        const value = cells[column]?.trim();
+        if (field && value) {
+            fields[field] = value;
+        }
+    });
+    return fields;
+}
+
+interface IdentityFields {
+    name?: string | undefined;
+    company?: string | undefined;
+    email?: string | undefined;
+    profileUrl?: string | undefined;
+}
+
+function normalizeUrl(url: string): string {
+    return url.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Keys two records of the same person share: profile URL, email, or name plus company.
+ */
+export function identityKeys(fields: IdentityFields): string[] {
+    const keys: string[] = [];
+    if (fields.profileUrl) {
+        keys.push(`url:${normalizeUrl(fields.profileUrl)}`);
+    }
+    if (fields.email) {
+        keys.push(`email:${fields.email.toLowerCase()}`);
+    }
+    if (fields.name && fields.company) {
+        keys.push(`person:${fields.name.toLowerCase()}|${fields.company.toLowerCase()}`);
+    }
+    return keys;
+}
+
+function existingKeys(lead: Lead): string[] {
+    const data = parseLeadData(lead.data);
+    return identityKeys({
+        name: leadName(lead),
+        company: readField(data, 'company'),
+        email: readField(data, 'email'),
+        profileUrl: readField(data, 'profileUrl') ?? readField(data, 'linkedinUrl'),
+    });
+}
+
+const DUPLICATE_REASONS: Record<string, string> = { url: 'profile URL', email: 'email', person: 'name and company' };
+
+function fullName(lead: ImportedLead): string | undefined {
+    return lead.name ?? ([lead.firstName, lead.lastName].filter(Boolean).join(' ') || undefined);
+}
+
+/**
+ * Validate every data row under `mapping` and flag duplicates of `existing` leads or of earlier rows.
+ */
+export function validateRows(rows: CsvRow[], mapping: ColumnMapping, existing: Lead[]): ImportRow[] {
+    const seen = new Map<string, string>();
+    existing.forEach((lead) => existingKeys(lead).forEach((key) => seen.set(key, 'an existing lead')));
+
+    return rows.map(({ line, cells }) => {
+        const parsed = importedLeadSchema.safeParse(rowFields(cells, mapping));
+        if (!parsed.success) {
+            return { line, lead: null, errors: parsed.error.issues.map((issue) => issue.message), duplicate: null };
+        }
+        const keys = identityKeys({ ...parsed.data, name: fullName(parsed.data) });
+        const hit = keys.find((key) => seen.has(key));
+        keys.forEach((key) => seen.set(key, seen.get(key) ?? `line ${line}`));
+        const duplicate = hit ? `Same ${DUPLICATE_REASONS[hit.split(':')[0] ?? ''] ?? 'details'} as ${seen.get(hit)}` : null;
+        return { line, lead: parsed.data, errors: [], duplicate };
+    });
+}
@@ -0,0 +1,36 @@
+import { Lead } from '@/lib/api';
+import { DEFAULT_LEAD_QUERY, leadName, leadSources, parseLeadData, queryLeads } from '@/lib/leads';
+import { describe, expect, it } from 'vitest';
+
+const HIGH = 90;
+const MID = 60;
+
+function lead(id: string, score: number | null, source = 'LinkedIn', data = '{}'): Lead {
+    return { id, campaignId: 'c', source, score, scoringRationale: null, data, createdAt: '', scoredAt: null, stage: (score === null ? 'Discovered' : 'Scored') as Lead['stage'], senderId: null };
+}
+
+describe('lead helpers', () => {
+    const leads = [lead('a', MID), lead('b', null, 'Import'), lead('c', HIGH, 'Import')];
+
+    it('should sort by score in both directions keeping unscored leads last', () => {
+        expect(queryLeads(leads, DEFAULT_LEAD_QUERY).map((l) => l.id)).toEqual(['c', 'a', 'b']);
+        expect(queryLeads(leads, { ...DEFAULT_LEAD_QUERY, direction: 'asc' }).map((l) => l.id)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should filter by source and scoring state', () => {
+        expect(queryLeads(leads, { ...DEFAULT_LEAD_QUERY, source: 'Import' }).map((l) => l.id)).toEqual(['c', 'b']);
+        expect(queryLeads(leads, { ...DEFAULT_LEAD_QUERY, scored: 'unscored' }).map((l) => l.id)).toEqual(['b']);
+        expect(queryLeads(leads, { ...DEFAULT_LEAD_QUERY, scored: 'scored' }).map((l) => l.id)).toEqual(['c', 'a']);
+        expect(leadSources(leads)).toEqual(['Import', 'LinkedIn']);
+    });
+
+    it('should parse lead data and derive a display name in any casing', () => {
+        expect(parseLeadData('{"Name":"Ada"}')).toEqual({ Name: 'Ada' });
+        expect(parseLeadData('not json')).toBeNull();
+        expect(parseLeadData('[1]')).toBeNull();
+
+        expect(leadName(lead('x', null, 's', '{"Name":"Ada Lovelace"}'))).toBe('Ada Lovelace');
+        expect(leadName(lead('x', null, 's', '{"firstName":"Grace","lastName":"Hopper"}'))).toBe('Grace Hopper');
+        expect(leadName(lead('12345678-abcd', null, 's', 'garbage'))).toBe('Lead 12345678');
+    });
+});
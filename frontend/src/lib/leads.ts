@@ -0,0 +1,80 @@
+/**
+ * Lead helpers: parsing the agent's lead data and filtering/sorting for the leads grid.
+ */
+
+import { Lead } from '@/lib/api';
+
+export type ScoreFilter = 'all' | 'scored' | 'unscored';
+export type SortDirection = 'asc' | 'desc';
+
+export interface LeadQuery {
+    source: string | null;
+    scored: ScoreFilter;
+    direction: SortDirection;
+}
+
+export const DEFAULT_LEAD_QUERY: LeadQuery = { source: null, scored: 'all', direction: 'desc' };
+
+const NAME_KEYS = ['name', 'fullName', 'full_name'];
+const SHORT_ID_LENGTH = 8;
+
+/**
+ * Parse lead data into a flat record; non-object JSON or malformed data yields null.
+ */
+export function parseLeadData(data: string): Record<string, unknown> | null {
+    try {
+        const parsed: unknown = JSON.parse(data);
+        return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+            ? (parsed as Record<string, unknown>)
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read a field regardless of the casing the backend serialized it with (Name vs name).
+ */
+export function readField(data: Record<string, unknown> | null, key: string): string | undefined {
+    if (!data) {
+        return undefined;
+    }
+    const match = Object.keys(data).find((k) => k.toLowerCase() === key.toLowerCase());
+    const value = match === undefined ? undefined : data[match];
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+export function leadName(lead: Lead): string {
+    const data = parseLeadData(lead.data);
+    const first = readField(data, 'firstName');
+    const last = readField(data, 'lastName');
+    const fromParts = [first, last].filter(Boolean).join(' ');
+    return NAME_KEYS.map((key) => readField(data, key)).find(Boolean) ?? (fromParts || `Lead ${lead.id.slice(0, SHORT_ID_LENGTH)}`);
+}
+
+export function formatFieldValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '—';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value as string | number | boolean);
+}
+
+export function leadSources(leads: Lead[]): string[] {
+    return [...new Set(leads.map((l) => l.source))].sort();
+}
+
+/**
+ * Apply source/scored filters and sort by score. Unscored leads always sort last.
+ */
+export function queryLeads(leads: Lead[], query: LeadQuery): Lead[] {
+    const sign = query.direction === 'asc' ? 1 : -1;
+    return leads
+        .filter((l) => query.source === null || l.source === query.source)
+        .filter((l) => query.scored === 'all' || (query.scored === 'scored') === (l.score !== null))
+        .sort((a, b) => {
+            if (a.score === null || b.score === null) {
+                return (a.score === null ? 1 : 0) - (b.score === null ? 1 : 0);
+            }
+            return (a.score - b.score) * sign;
+        });
+}
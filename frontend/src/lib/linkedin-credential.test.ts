@@ -0,0 +1,66 @@
+import type { LinkedInCredential } from '@/lib/api';
+import { cookieError, credentialDisplay, maskedCookie, normalizeCookie } from '@/lib/linkedin-credential';
+import { describe, expect, it } from 'vitest';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const COOKIE = 'AQEDAR8x1ZkFakeSessionValue4f2a';
+
+const VALID: LinkedInCredential = {
+    status: 'Valid',
+    last4: '4f2a',
+    savedAt: '2026-03-01T09:00:00Z',
+    expiresAt: '2026-06-01T00:00:00Z',
+    verifiedAt: '2026-03-10T11:00:00Z',
+};
+
+describe('normalizeCookie', () => {
+    it('should strip whitespace, quotes and a copied cookie name', () => {
+        expect(normalizeCookie(`  li_at="${COOKIE}"\n`)).toBe(COOKIE);
+        expect(normalizeCookie(COOKIE)).toBe(COOKIE);
+    });
+});
+
+describe('cookieError', () => {
+    it('should accept a plausible session cookie', () => {
+        expect(cookieError(COOKIE)).toBeNull();
+    });
+
+    it('should explain what is wrong with the value', () => {
+        expect(cookieError('')).toBe('Paste the li_at cookie value');
+        expect(cookieError('AQEDAR8x 1ZkFakeSessionValue')).toBe('The cookie is a single value without spaces');
+        expect(cookieError('AQEDAR8x')).toBe('This is too short to be a LinkedIn session cookie');
+    });
+});
+
+describe('maskedCookie', () => {
+    it('should show only the last four characters', () => {
+        expect(maskedCookie(VALID)).toBe('••••••••4f2a');
+        expect(maskedCookie(VALID)).not.toContain(COOKIE);
+    });
+});
+
+describe('credentialDisplay', () => {
+    it('should report a verified cookie as connected', () => {
+        expect(credentialDisplay(VALID, false, NOW)).toEqual({ label: 'Connected', tone: 'bg-success' });
+    });
+
+    it('should not report a connection while the backend is offline', () => {
+        expect(credentialDisplay(VALID, true, NOW).label).toBe('Unavailable - backend offline');
+    });
+
+    it('should describe missing, unverified and rejected cookies', () => {
+        expect(credentialDisplay({ ...VALID, status: 'Missing', last4: null }, false, NOW).label).toBe('Not configured');
+        expect(credentialDisplay({ ...VALID, status: 'Unverified' }, false, NOW).label).toBe('Saved, not verified yet');
+        expect(credentialDisplay({ ...VALID, status: 'Invalid' }, false, NOW).tone).toBe('bg-destructive');
+    });
+
+    it('should flag a cookie past or close to its expiry', () => {
+        expect(credentialDisplay({ ...VALID, expiresAt: '2026-03-09T00:00:00Z' }, false, NOW).label).toBe(
+            'Cookie expired - replace it'
+        );
+        expect(credentialDisplay({ ...VALID, expiresAt: '2026-03-14T00:00:00Z' }, false, NOW)).toEqual({
+            label: 'Connected - cookie expires Mar 14',
+            tone: 'bg-warning',
+        });
+    });
+});
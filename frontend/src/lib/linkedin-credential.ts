@@ -0,0 +1,72 @@
+/**
+ * LinkedIn session cookie: checking what the user pasted before it is sent, and describing the
+ * stored cookie from the status the backend reports. The cookie value itself never comes back.
+ */
+
+import { LinkedInCredential } from '@/lib/api';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { z } from 'zod';
+
+// Real li_at values are well over a hundred characters; anything this short was mis-copied
+const MIN_COOKIE_LENGTH = 20;
+const EXPIRY_WARNING_DAYS = 7;
+const MASK = '••••••••';
+
+const cookieSchema = z
+    .string()
+    .min(1, 'Paste the li_at cookie value')
+    .regex(/^\S+$/, 'The cookie is a single value without spaces')
+    .min(MIN_COOKIE_LENGTH, 'This is too short to be a LinkedIn session cookie');
+
+export interface CredentialDisplay {
+    label: string;
+    /** Background class for the status dot. */
+    tone: string;
+}
+
+/**
+ * The cookie value as pasted, without surrounding whitespace, quotes or a copied "li_at=" name.
+ */
+export function normalizeCookie(input: string): string {
+    return input.trim().replace(/^li_at=/, '').replace(/^"(.*)"$/, '$1');
+}
+
+export function cookieError(cookie: string): string | null {
+    const result = cookieSchema.safeParse(cookie);
+    return result.success ? null : (result.error.issues[0]?.message ?? 'Invalid cookie');
+}
+
+export function maskedCookie(credential: LinkedInCredential): string {
+    return `${MASK}${credential.last4 ?? ''}`;
+}
+
+/**
+ * Connection status for the stored cookie. LinkedIn is only reached through the backend,
+ * so an unreachable backend means no connection whatever was stored.
+ */
+export function credentialDisplay(
+    credential: LinkedInCredential,
+    backendOffline: boolean,
+    now = new Date()
+): CredentialDisplay {
+    if (backendOffline) {
+        return { label: 'Unavailable - backend offline', tone: 'bg-destructive' };
+    }
+    if (credential.status === 'Missing') {
+        return { label: 'Not configured', tone: 'bg-muted-foreground' };
+    }
+    const expiresAt = credential.expiresAt ? new Date(credential.expiresAt) : null;
+    if (credential.status === 'Expired' || (expiresAt !== null && expiresAt < now)) {
+        return { label: 'Cookie expired - replace it', tone: 'bg-destructive' };
+    }
+    if (credential.status === 'Invalid') {
+        return { label: 'Rejected by LinkedIn - replace the cookie', tone: 'bg-destructive' };
+    }
+    if (credential.status === 'Unverified') {
+        return { label: 'Saved, not verified yet', tone: 'bg-warning' };
+    }
+    if (expiresAt !== null && differenceInCalendarDays(expiresAt, now) <= EXPIRY_WARNING_DAYS) {
+        return { label: `Connected - cookie expires ${format(expiresAt, 'MMM d')}`, tone: 'bg-warning' };
+    }
+    return { label: 'Connected', tone: 'bg-success' };
+}
@@ -0,0 +1,15 @@
+/**
+ * App URLs. Every page has its own path, so browser history, deep links and bookmarks work,
+ * and anything can link straight to a campaign or a chat thread.
+ */
+
+export const paths = {
+    chat: (thread?: string): string => (thread ? `/chat/${encodeURIComponent(thread)}` : '/chat'),
+    campaigns: (): string => '/campaigns',
+    campaign: (campaignId: string): string => `/campaigns/${encodeURIComponent(campaignId)}`,
+    approvals: (): string => '/approvals',
+    analytics: (): string => '/analytics',
+    events: (): string => '/events',
+    settings: (): string => '/settings',
+    developer: (): string => '/developer',
+};
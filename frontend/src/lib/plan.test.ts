@@ -0,0 +1,71 @@
+import { Artifact, ArtifactSource } from '@/lib/api';
+import { extractPlan, latestProposal, moveTask, parsePlanArtifact, planError, planTask, serializePlan } from '@/lib/plan';
+import { Message } from '@/types/agent';
+import { describe, expect, it } from 'vitest';
+
+const PLAN_REPLY = [
+    'Here is what I suggest:',
+    '```plan',
+    '{"tasks":[{"title":"Find CTOs","description":"Search LinkedIn"},{"title":"Send invites","requiresApproval":true}]}',
+    '```',
+].join('\n');
+
+function message(id: string, role: Message['role'], content: string): Message {
+    return { id, role, content, timestamp: new Date(0) };
+}
+
+describe('plan', () => {
+    it('should extract the proposed tasks from the plan block', () => {
+        const tasks = extractPlan(PLAN_REPLY);
+
+        expect(tasks?.map((t) => `${t.title}|${t.description}|${t.requiresApproval}`)).toEqual([
+            'Find CTOs|Search LinkedIn|false',
+            'Send invites||true',
+        ]);
+        expect(extractPlan('No plan here')).toBeNull();
+        expect(extractPlan('```plan\n{"tasks":[]}\n```')).toBeNull();
+        expect(extractPlan('```plan\nnot json\n```')).toBeNull();
+    });
+
+    it('should find the latest agent message with a plan', () => {
+        const proposal = latestProposal([
+            message('a1', 'assistant', PLAN_REPLY),
+            message('u1', 'user', PLAN_REPLY),
+            message('a2', 'assistant', 'Anything else?'),
+        ]);
+
+        expect(proposal?.messageId).toBe('a1');
+        expect(latestProposal([message('a2', 'assistant', 'Hi')])).toBeNull();
+    });
+
+    it('should move tasks within bounds and report invalid plans', () => {
+        const tasks = ['a', 'b', 'c'].map((title) => planTask({ title, description: '', requiresApproval: false }));
+
+        expect(moveTask(tasks, 1, -1).map((t) => t.title).join('')).toBe('bac');
+        expect(moveTask(tasks, 1, 1).map((t) => t.title).join('')).toBe('acb');
+        expect(moveTask(tasks, 0, -1)).toBe(tasks);
+        expect(planError(tasks)).toBeNull();
+        expect(planError([])).toBe('Add at least one task');
+        expect(planError([...tasks, planTask({ title: ' ', description: '', requiresApproval: false })])).toBe(
+            'Every task needs a title'
+        );
+    });
+
+    it('should round-trip a stored plan, drafts with untitled tasks included', () => {
+        const plan = { status: 'draft' as const, messageId: 'a1', tasks: [planTask({ title: '', description: '', requiresApproval: true })] };
+        const artifact: Artifact = {
+            id: 'p1',
+            campaignId: 'c',
+            type: 'plan',
+            key: 'campaign-plan',
+            content: serializePlan(plan),
+            source: ArtifactSource.User,
+            version: 1,
+            createdAt: '',
+        };
+
+        expect(parsePlanArtifact(artifact)).toEqual(plan);
+        expect(parsePlanArtifact({ ...artifact, content: '# Notes' })).toBeNull();
+        expect(parsePlanArtifact(null)).toBeNull();
+    });
+});
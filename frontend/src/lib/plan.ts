@@ -0,0 +1,119 @@
+/**
+ * Campaign plans proposed in plan mode: parsing the agent's `plan` block, editing the task list,
+ * and the JSON stored in the versioned plan artifact.
+ */
+
+import { Artifact } from '@/lib/api';
+import { Message } from '@/types/agent';
+import { z } from 'zod';
+
+export const PLAN_ARTIFACT = { type: 'plan', key: 'campaign-plan' };
+
+const JSON_INDENT = 2;
+const PLAN_BLOCK = /```plan\s*\n([\s\S]*?)```/;
+
+const proposedTaskSchema = z.object({
+    title: z.string().trim().min(1),
+    description: z.string().default(''),
+    requiresApproval: z.boolean().default(false),
+});
+
+const proposalSchema = z.object({ tasks: z.array(proposedTaskSchema).min(1) });
+
+// Stored drafts may hold tasks the user has not named yet; the id keeps rows apart while reordering
+const planTaskSchema = proposedTaskSchema.extend({ id: z.string(), title: z.string() });
+
+/**
+ * Content of the plan artifact. `messageId` is the chat message the plan was proposed in: the id of
+ * the agent run that answered, which the backend keeps the message under, so it survives a reload.
+ */
+const planSchema = z.object({
+    status: z.enum(['draft', 'approved']),
+    messageId: z.string(),
+    tasks: z.array(planTaskSchema),
+});
+
+export type PlanTask = z.infer<typeof planTaskSchema>;
+export type CampaignPlan = z.infer<typeof planSchema>;
+
+/**
+ * A task with a fresh client-side id.
+ */
+export function planTask(fields: Omit<PlanTask, 'id'>): PlanTask {
+    return { id: crypto.randomUUID(), ...fields };
+}
+
+/**
+ * Tasks of the `plan` block in an agent reply; null when there is none or it is malformed.
+ */
+export function extractPlan(content: string): PlanTask[] | null {
+    const block = PLAN_BLOCK.exec(content)?.[1];
+    if (block === undefined) {
+        return null;
+    }
+    try {
+        const parsed = proposalSchema.safeParse(JSON.parse(block));
+        return parsed.success ? parsed.data.tasks.map(planTask) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The most recent agent message that proposes a plan, with its tasks.
+ */
+export function latestProposal(messages: Message[]): { messageId: string; tasks: PlanTask[] } | null {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const message = messages[i];
+        const tasks = message?.role === 'assistant' ? extractPlan(message.content) : null;
+        if (message && tasks) {
+            return { messageId: message.id, tasks };
+        }
+    }
+    return null;
+}
+
+/**
+ * Move the task at `index` one place up (-1) or down (1); out-of-range moves change nothing.
+ */
+export function moveTask(tasks: PlanTask[], index: number, offset: -1 | 1): PlanTask[] {
+    const target = index + offset;
+    const task = tasks[index];
+    const other = tasks[target];
+    if (!task || !other) {
+        return tasks;
+    }
+    const next = [...tasks];
+    next[index] = other;
+    next[target] = task;
+    return next;
+}
+
+/**
+ * Why the plan cannot be approved as it is, or null when it can.
+ */
+export function planError(tasks: PlanTask[]): string | null {
+    if (tasks.length === 0) {
+        return 'Add at least one task';
+    }
+    return tasks.some((task) => task.title.trim() === '') ? 'Every task needs a title' : null;
+}
+
+export function serializePlan(plan: CampaignPlan): string {
+    return JSON.stringify(plan, null, JSON_INDENT);
+}
+
+/**
+ * The plan stored in an artifact version; null when the content is not a plan.
+ */
+export function parsePlanArtifact(artifact: Artifact | null): CampaignPlan | null {
+    if (!artifact) {
+        return null;
+    }
+    try {
+        const parsed = planSchema.safeParse(JSON.parse(artifact.content));
+        return parsed.success ? parsed.data : null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,23 @@
+import type { ApiError } from '@/lib/api';
+import { shouldRetry } from '@/lib/query-client';
+import { describe, expect, it } from 'vitest';
+
+const NOT_FOUND = 404;
+const SERVER_ERROR = 503;
+const LAST_RETRY = 2;
+
+function apiError(statusCode: number): ApiError {
+    return Object.assign(new Error(`HTTP ${statusCode}`), { name: 'ApiError', statusCode });
+}
+
+describe('shouldRetry', () => {
+    it('should not retry requests the server rejected', () => {
+        expect(shouldRetry(0, apiError(NOT_FOUND))).toBe(false);
+    });
+
+    it('should retry network and server errors a limited number of times', () => {
+        expect(shouldRetry(0, apiError(0))).toBe(true);
+        expect(shouldRetry(1, apiError(SERVER_ERROR))).toBe(true);
+        expect(shouldRetry(LAST_RETRY, apiError(SERVER_ERROR))).toBe(false);
+    });
+});
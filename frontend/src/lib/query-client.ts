@@ -0,0 +1,59 @@
+/**
+ * The app's QueryClient: retry policy, background refetching, and the error and success toasts
+ * every query and mutation used to raise by hand.
+ */
+
+import { toast } from '@/hooks/use-toast';
+import { ApiError } from '@/lib/api';
+import { MutationCache, QueryCache, QueryClient } from '@tanstack/react-query';
+
+export interface RequestMeta extends Record<string, unknown> {
+    /** What the request does, for the error toast "Failed to {action}: {message}". */
+    action?: string;
+    /** Toast shown when a mutation succeeds. */
+    success?: string;
+}
+
+declare module '@tanstack/react-query' {
+    interface Register {
+        defaultError: ApiError;
+        queryMeta: RequestMeta;
+        mutationMeta: RequestMeta;
+    }
+}
+
+const STALE_TIME_MS = 30000;
+const MAX_RETRIES = 2;
+const CLIENT_ERROR = { min: 400, max: 499 };
+
+/**
+ * Requests the server rejected on their merits fail the same way on a retry; network errors
+ * (status 0) and server errors may not.
+ */
+export function shouldRetry(failureCount: number, error: ApiError): boolean {
+    const rejected = error.statusCode >= CLIENT_ERROR.min && error.statusCode <= CLIENT_ERROR.max;
+    return !rejected && failureCount < MAX_RETRIES;
+}
+
+function errorToast(meta: RequestMeta | undefined, error: ApiError): void {
+    if (meta?.action) {
+        toast({ title: 'Error', description: `Failed to ${meta.action}: ${error.message}`, variant: 'destructive' });
+    }
+}
+
+export function createQueryClient(): QueryClient {
+    return new QueryClient({
+        queryCache: new QueryCache({ onError: (error, query) => errorToast(query.meta, error) }),
+        mutationCache: new MutationCache({
+            onError: (error, _variables, _context, mutation) => errorToast(mutation.meta, error),
+            onSuccess: (_data, _variables, _context, mutation) => {
+                if (mutation.meta?.success) {
+                    toast({ title: 'Success', description: mutation.meta.success });
+                }
+            },
+        }),
+        defaultOptions: {
+            queries: { staleTime: STALE_TIME_MS, retry: shouldRetry, refetchOnWindowFocus: true },
+        },
+    });
+}
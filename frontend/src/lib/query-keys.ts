@@ -0,0 +1,25 @@
+/**
+ * TanStack Query cache keys. Everything about a campaign sits under its detail key,
+ * so invalidating a campaign refreshes all of its resources at once.
+ */
+
+import type { EventLogFilters } from '@/lib/event-log';
+
+export const queryKeys = {
+    campaigns: ['campaigns'] as const,
+    campaign: (campaignId: string) => ['campaigns', campaignId] as const,
+    campaignState: (campaignId: string) => ['campaigns', campaignId, 'state'] as const,
+    campaignEvents: (campaignId: string) => ['campaigns', campaignId, 'events'] as const,
+    tasks: (campaignId: string) => ['campaigns', campaignId, 'tasks'] as const,
+    leads: (campaignId: string) => ['campaigns', campaignId, 'leads'] as const,
+    leadScores: (campaignId: string, leadId: string) => ['campaigns', campaignId, 'leads', leadId, 'scores'] as const,
+    artifacts: (campaignId: string) => ['campaigns', campaignId, 'artifacts'] as const,
+    approvals: ['approvals'] as const,
+    events: (filters: EventLogFilters) => ['events', filters] as const,
+    chatHistory: (campaignId?: string) => ['chat', campaignId ?? 'general'] as const,
+    settings: ['settings'] as const,
+    campaignSenders: (campaignId: string) => ['campaigns', campaignId, 'senders'] as const,
+    campaignLimits: (campaignId: string) => ['campaigns', campaignId, 'limits'] as const,
+    campaignQuota: (campaignId: string) => ['campaigns', campaignId, 'quota'] as const,
+    senders: ['senders'] as const,
+};
@@ -0,0 +1,79 @@
+import { Campaign, CampaignStatus, CampaignTask, TaskStatus } from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { applyArtifactCreated, applyCampaignState, applyTaskStatus } from '@/lib/realtime-cache';
+import { QueryClient } from '@tanstack/react-query';
+import { describe, expect, it } from 'vitest';
+
+const NOW = '2026-02-01T10:00:00Z';
+
+function campaign(id: string): Campaign {
+    return { id, name: id, status: CampaignStatus.Active, phase: 'Outreach', targetAudience: '', createdAt: '', updatedAt: '' };
+}
+
+function task(id: string): CampaignTask {
+    return {
+        id,
+        campaignId: 'c-1',
+        title: id,
+        description: '',
+        status: TaskStatus.Pending,
+        orderIndex: 0,
+        requiresApproval: false,
+        createdAt: '',
+        completedAt: null,
+    };
+}
+
+describe('realtime-cache', () => {
+    it('should patch the update time in the list and refetch everything under the changed campaign', () => {
+        const client = new QueryClient();
+        client.setQueryData(queryKeys.campaigns, [campaign('c-1'), campaign('c-2')]);
+        client.setQueryData(queryKeys.campaign('c-1'), campaign('c-1'));
+        client.setQueryData(queryKeys.leads('c-1'), []);
+        client.setQueryData(queryKeys.leads('c-2'), []);
+
+        applyCampaignState(client, { campaignId: 'c-1', phase: 'Discovery', timestamp: NOW });
+
+        expect(client.getQueryData<Campaign[]>(queryKeys.campaigns)?.map((c) => c.updatedAt)).toEqual([NOW, '']);
+        expect(client.getQueryState(queryKeys.campaign('c-1'))?.isInvalidated).toBe(true);
+        expect(client.getQueryState(queryKeys.leads('c-1'))?.isInvalidated).toBe(true);
+        expect(client.getQueryState(queryKeys.leads('c-2'))?.isInvalidated).toBe(false);
+    });
+
+    it('should patch the task in its campaign task list and refetch approvals and progress', () => {
+        const client = new QueryClient();
+        client.setQueryData(queryKeys.tasks('c-1'), [task('t-1'), task('t-2')]);
+        client.setQueryData(queryKeys.approvals, [task('t-1')]);
+        client.setQueryData(queryKeys.campaignState('c-1'), {});
+
+        applyTaskStatus(client, { taskId: 't-1', campaignId: 'c-1', status: TaskStatus.Completed, timestamp: NOW });
+
+        expect(client.getQueryData<CampaignTask[]>(queryKeys.tasks('c-1'))?.map((t) => t.status)).toEqual([
+            TaskStatus.Completed,
+            TaskStatus.Pending,
+        ]);
+        expect(client.getQueryState(queryKeys.tasks('c-1'))?.isInvalidated).toBe(false);
+        expect(client.getQueryState(queryKeys.approvals)?.isInvalidated).toBe(true);
+        expect(client.getQueryState(queryKeys.campaignState('c-1'))?.isInvalidated).toBe(true);
+    });
+
+    it('should refetch the task list of a campaign that got a new task', () => {
+        const client = new QueryClient();
+        client.setQueryData(queryKeys.tasks('c-1'), [task('t-1')]);
+
+        applyTaskStatus(client, { taskId: 't-9', campaignId: 'c-1', status: TaskStatus.AwaitingApproval, timestamp: NOW });
+
+        expect(client.getQueryState(queryKeys.tasks('c-1'))?.isInvalidated).toBe(true);
+    });
+
+    it('should refetch only the artifacts of the campaign that got a new one', () => {
+        const client = new QueryClient();
+        client.setQueryData(queryKeys.artifacts('c-1'), []);
+        client.setQueryData(queryKeys.artifacts('c-2'), []);
+
+        applyArtifactCreated(client, { type: 'plan', key: 'campaign-plan', campaignId: 'c-1', timestamp: NOW });
+
+        expect(client.getQueryState(queryKeys.artifacts('c-1'))?.isInvalidated).toBe(true);
+        expect(client.getQueryState(queryKeys.artifacts('c-2'))?.isInvalidated).toBe(false);
+    });
+});
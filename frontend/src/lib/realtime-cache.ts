@@ -0,0 +1,44 @@
+/**
+ * Folds SignalR events into the TanStack Query cache: fields the event carries are patched in place,
+ * anything it does not carry is invalidated so active queries refetch it.
+ */
+
+import { Campaign, CampaignTask, TaskStatus } from '@/lib/api';
+import { queryKeys } from '@/lib/query-keys';
+import { ArtifactCreatedEvent, CampaignStateChangedEvent, TaskStatusChangedEvent } from '@/lib/signalr';
+import { QueryClient } from '@tanstack/react-query';
+
+/**
+ * A changed campaign gets its update time patched in the list; its detail, progress and leads are refetched.
+ */
+export function applyCampaignState(client: QueryClient, event: CampaignStateChangedEvent): void {
+    const patch = (campaign: Campaign): Campaign =>
+        campaign.id === event.campaignId ? { ...campaign, updatedAt: event.timestamp } : campaign;
+    client.setQueryData<Campaign[]>(queryKeys.campaigns, (campaigns) => campaigns?.map(patch));
+    void client.invalidateQueries({ queryKey: queryKeys.campaign(event.campaignId) });
+}
+
+/**
+ * Task status changes patch the task in its campaign's task list; the approval queue and progress are refetched.
+ * A task the list does not hold yet, such as a new one, refetches the list.
+ */
+export function applyTaskStatus(client: QueryClient, event: TaskStatusChangedEvent): void {
+    const tasks = client.getQueryData<CampaignTask[]>(queryKeys.tasks(event.campaignId));
+    if (tasks?.some((task) => task.id === event.taskId)) {
+        client.setQueryData<CampaignTask[]>(
+            queryKeys.tasks(event.campaignId),
+            tasks.map((task) => (task.id === event.taskId ? { ...task, status: event.status as TaskStatus } : task))
+        );
+    } else {
+        void client.invalidateQueries({ queryKey: queryKeys.tasks(event.campaignId) });
+    }
+    void client.invalidateQueries({ queryKey: queryKeys.approvals });
+    void client.invalidateQueries({ queryKey: queryKeys.campaignState(event.campaignId) });
+}
+
+/**
+ * A new artifact version refetches the campaign's artifacts, since the event carries no content.
+ */
+export function applyArtifactCreated(client: QueryClient, event: ArtifactCreatedEvent): void {
+    void client.invalidateQueries({ queryKey: queryKeys.artifacts(event.campaignId) });
+}
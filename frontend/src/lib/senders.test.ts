@@ -0,0 +1,53 @@
+import type { Sender } from '@/lib/api';
+import { defaultLimits } from '@/lib/sending-limits';
+import { EMPTY_SENDER, initials, orderedSenderIds, senderDraft, toSenderRequest, validateSender } from '@/lib/senders';
+import { describe, expect, it } from 'vitest';
+
+const TOO_MANY = 500;
+const LIMITS = defaultLimits('Europe/Berlin');
+
+function sender(id: string, name: string): Sender {
+    return { id, name, avatarUrl: null, limits: LIMITS, createdAt: '', credential: {} as Sender['credential'] };
+}
+
+describe('validateSender', () => {
+    it('should accept a named sender without avatar', () => {
+        expect(validateSender({ ...EMPTY_SENDER, name: 'Jane Doe' })).toEqual({});
+    });
+
+    it('should report the first problem with each field and limit', () => {
+        const limits = { ...LIMITS, connectionsPerDay: TOO_MANY };
+
+        expect(validateSender({ name: ' ', avatarUrl: 'ftp://example.com/me.png', limits })).toEqual({
+            name: 'A name is required',
+            avatarUrl: 'The avatar must use http or https',
+            connectionsPerDay: 'The connection requests per day must be at most 100',
+        });
+    });
+});
+
+describe('toSenderRequest', () => {
+    it('should trim the draft and send a missing avatar as null', () => {
+        expect(toSenderRequest({ name: ' Jane Doe ', avatarUrl: ' ', limits: { ...LIMITS, timeZone: ' UTC ' } })).toEqual({
+            name: 'Jane Doe',
+            avatarUrl: null,
+            limits: { ...LIMITS, timeZone: 'UTC' },
+        });
+        expect(senderDraft({ ...sender('s-1', 'Jane Doe'), avatarUrl: null }).avatarUrl).toBe('');
+    });
+});
+
+describe('initials', () => {
+    it('should use the first letters of up to two names', () => {
+        expect(initials('jane van der doe')).toBe('JV');
+        expect(initials('Jane')).toBe('J');
+    });
+});
+
+describe('orderedSenderIds', () => {
+    it('should keep the roster order whatever order senders were picked in', () => {
+        const roster = [sender('a', 'Ann'), sender('b', 'Bob'), sender('c', 'Cy')];
+
+        expect(orderedSenderIds(roster, ['c', 'a', 'gone'])).toEqual(['a', 'c']);
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Sender accounts: the draft edited in the sender form, its validation, and how a campaign
+ * rotates between the senders assigned to it.
+ */
+
+import { CampaignSenders, SaveSenderRequest, Sender, SenderRotation, SendingLimits } from '@/lib/api';
+import { defaultLimits, LimitErrors, validateLimits } from '@/lib/sending-limits';
+import { z } from 'zod';
+
+const MAX_INITIALS = 2;
+
+export const ROTATIONS: Record<SenderRotation, { label: string; description: string }> = {
+    RoundRobin: { label: 'Round robin', description: 'Senders take turns, one lead each.' },
+    FillFirst: { label: 'Fill first', description: 'Use the first sender until its limits stop it, then the next.' },
+};
+
+export const NO_SENDERS: CampaignSenders = { senderIds: [], rotation: 'RoundRobin' };
+
+export interface SenderDraft {
+    name: string;
+    /** Empty when the sender has no avatar. */
+    avatarUrl: string;
+    limits: SendingLimits;
+}
+
+export const EMPTY_SENDER: SenderDraft = { name: '', avatarUrl: '', limits: defaultLimits() };
+
+const senderSchema = z.object({
+    name: z.string().trim().min(1, 'A name is required'),
+    avatarUrl: z.union([
+        z.literal(''),
+        z.string().trim().url('Enter a valid URL').regex(/^https?:\/\//i, 'The avatar must use http or https'),
+    ]),
+});
+
+/** First validation message per field and limit; empty when the sender can be saved. */
+export type SenderErrors = Partial<Record<'name' | 'avatarUrl', string>> & LimitErrors;
+
+export function validateSender(draft: SenderDraft): SenderErrors {
+    const result = senderSchema.safeParse(draft);
+    const errors: SenderErrors = validateLimits(draft.limits);
+    if (!result.success) {
+        for (const issue of result.error.issues) {
+            const key = issue.path[0] as 'name' | 'avatarUrl';
+            errors[key] ??= issue.message;
+        }
+    }
+    return errors;
+}
+
+export function senderDraft(sender: Sender): SenderDraft {
+    return { name: sender.name, avatarUrl: sender.avatarUrl ?? '', limits: sender.limits };
+}
+
+export function toSenderRequest(draft: SenderDraft): SaveSenderRequest {
+    const avatarUrl = draft.avatarUrl.trim();
+    return { name: draft.name.trim(), avatarUrl: avatarUrl || null, limits: { ...draft.limits, timeZone: draft.limits.timeZone.trim() } };
+}
+
+/**
+ * Up to two initials shown when a sender has no avatar.
+ */
+export function initials(name: string): string {
+    return name
+        .split(/\s+/)
+        .filter((part) => part.length > 0)
+        .slice(0, MAX_INITIALS)
+        .map((part) => part[0]?.toUpperCase())
+        .join('');
+}
+
+/**
+ * Selected sender ids in roster order, which is also the order of preference a campaign uses.
+ */
+export function orderedSenderIds(senders: Sender[], selected: string[]): string[] {
+    return senders.filter((sender) => selected.includes(sender.id)).map((sender) => sender.id);
+}
@@ -0,0 +1,77 @@
+import {
+    defaultLimits,
+    limitsSummary,
+    nextActionLabel,
+    quotaLabel,
+    quotaPercent,
+    validateLimits,
+} from '@/lib/sending-limits';
+import { describe, expect, it } from 'vitest';
+
+const LIMITS = defaultLimits('Europe/Berlin');
+const TOO_MANY = 500;
+const USED = 15;
+const LIMIT = 20;
+const HALF_DONE = 75;
+const FULL = 100;
+
+describe('validateLimits', () => {
+    it('should accept the defaults', () => {
+        expect(validateLimits(LIMITS)).toEqual({});
+    });
+
+    it('should report the first problem with each limit', () => {
+        expect(
+            validateLimits({
+                ...LIMITS,
+                connectionsPerDay: TOO_MANY,
+                messagesPerDay: Number.NaN,
+                workdays: [],
+                timeZone: 'Mars/Olympus',
+            })
+        ).toEqual({
+            connectionsPerDay: 'The connection requests per day must be at most 100',
+            messagesPerDay: 'Enter the messages per day',
+            workdays: 'Pick at least one workday',
+            timeZone: 'Enter a time zone such as Europe/Berlin',
+        });
+    });
+
+    it('should require working hours to end after they start', () => {
+        expect(validateLimits({ ...LIMITS, startHour: 17, endHour: 9 }).endHour).toBe('Working hours must end after they start');
+    });
+});
+
+describe('limitsSummary', () => {
+    it('should show consecutive workdays as a range and others as a list', () => {
+        expect(limitsSummary(LIMITS)).toBe('20 requests · 50 messages a day · Mon-Fri 09:00-17:00 Europe/Berlin');
+        expect(limitsSummary({ ...LIMITS, workdays: ['Friday', 'Monday'] })).toContain('Mon, Fri 09:00');
+    });
+});
+
+describe('quota', () => {
+    it('should show usage against the limit, or only usage when nothing is limited', () => {
+        expect(quotaLabel({ used: USED, limit: LIMIT })).toBe('15 of 20');
+        expect(quotaPercent({ used: USED, limit: LIMIT })).toBe(HALF_DONE);
+        expect(quotaPercent({ used: TOO_MANY, limit: LIMIT })).toBe(FULL);
+        expect(quotaLabel({ used: USED, limit: null })).toBe('15 sent');
+        expect(quotaPercent({ used: USED, limit: null })).toBe(0);
+    });
+});
+
+describe('nextActionLabel', () => {
+    const now = new Date('2026-03-02T10:00:00');
+
+    it('should say now when the action is allowed', () => {
+        expect(nextActionLabel(now.toISOString(), now)).toBe('Now');
+    });
+
+    it('should give the time and how long until then', () => {
+        expect(nextActionLabel(new Date('2026-03-02T10:25:00').toISOString(), now)).toBe('10:25 (in 25 minutes)');
+        expect(nextActionLabel(new Date('2026-03-03T09:00:00').toISOString(), now)).toBe('Tue 09:00 (in 23 hours)');
+    });
+
+    it('should say when the limits never allow the action', () => {
+        expect(nextActionLabel(null, now)).toBe('Not allowed by the current limits');
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Sending limits: their defaults and validation, and how the quota a campaign reports is shown.
+ * The backend enforces the limits; this only helps the user set them and read where they stand.
+ */
+
+import { Quota, SendingLimits, Weekday } from '@/lib/api';
+import { format, formatDistanceStrict, isSameDay } from 'date-fns';
+import { z } from 'zod';
+
+export const WEEKDAYS: Weekday[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export const LIMIT_RANGES = {
+    connectionsPerDay: { min: 1, max: 100 },
+    messagesPerDay: { min: 0, max: 150 },
+    pauseMinutes: { min: 0, max: 240 },
+};
+
+export const HOURS_PER_DAY = 24;
+
+const SHORT_DAY = 3;
+const HOUR_DIGITS = 2;
+// Two days read better listed than as a range
+const MIN_RANGE_DAYS = 3;
+const FULL_PERCENT = 100;
+
+const DEFAULT_LIMITS: Omit<SendingLimits, 'timeZone'> = {
+    connectionsPerDay: 20,
+    messagesPerDay: 50,
+    startHour: 9,
+    endHour: 17,
+    workdays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+    minGapMinutes: 2,
+    jitterMinutes: 8,
+};
+
+function isTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function count(label: string, range: { min: number; max: number }) {
+    return z
+        .number({ invalid_type_error: `Enter the ${label}` })
+        .int(`The ${label} must be a whole number`)
+        .min(range.min, `The ${label} must be at least ${range.min}`)
+        .max(range.max, `The ${label} must be at most ${range.max}`);
+}
+
+const limitsSchema = z
+    .object({
+        connectionsPerDay: count('connection requests per day', LIMIT_RANGES.connectionsPerDay),
+        messagesPerDay: count('messages per day', LIMIT_RANGES.messagesPerDay),
+        startHour: z.number().int().min(0).max(HOURS_PER_DAY - 1),
+        endHour: z.number().int().min(1).max(HOURS_PER_DAY),
+        workdays: z.array(z.enum(WEEKDAYS as [Weekday, ...Weekday[]])).min(1, 'Pick at least one workday'),
+        minGapMinutes: count('minimum pause', LIMIT_RANGES.pauseMinutes),
+        jitterMinutes: count('random extra pause', LIMIT_RANGES.pauseMinutes),
+        timeZone: z.string().trim().refine(isTimeZone, 'Enter a time zone such as Europe/Berlin'),
+    })
+    .refine((limits) => limits.endHour > limits.startHour, {
+        path: ['endHour'],
+        message: 'Working hours must end after they start',
+    });
+
+/** First validation message per limit; empty when the limits can be saved. */
+export type LimitErrors = Partial<Record<keyof SendingLimits, string>>;
+
+/**
+ * Limits for a new sender or campaign, in the browser's time zone.
+ */
+export function defaultLimits(timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone): SendingLimits {
+    return { ...DEFAULT_LIMITS, timeZone };
+}
+
+export function validateLimits(limits: SendingLimits): LimitErrors {
+    const result = limitsSchema.safeParse(limits);
+    const errors: LimitErrors = {};
+    if (!result.success) {
+        for (const issue of result.error.issues) {
+            const key = issue.path[0] as keyof SendingLimits;
+            errors[key] ??= issue.message;
+        }
+    }
+    return errors;
+}
+
+export function hourLabel(hour: number): string {
+    return `${String(hour).padStart(HOUR_DIGITS, '0')}:00`;
+}
+
+/**
+ * One line describing limits, e.g. "20 requests · 50 messages a day · Mon-Fri 09:00-17:00 Europe/Berlin".
+ */
+export function limitsSummary(limits: SendingLimits): string {
+    const workdays = WEEKDAYS.filter((day) => limits.workdays.includes(day));
+    const days = workdays.map((day) => day.slice(0, SHORT_DAY));
+    const range = days.length >= MIN_RANGE_DAYS && WEEKDAYS.join().includes(workdays.join());
+    const schedule = range ? `${days[0]}-${days[days.length - 1]}` : days.join(', ');
+    return (
+        `${limits.connectionsPerDay} requests · ${limits.messagesPerDay} messages a day · ` +
+        `${schedule} ${hourLabel(limits.startHour)}-${hourLabel(limits.endHour)} ${limits.timeZone}`
+    );
+}
+
+export function quotaLabel(quota: Quota): string {
+    return quota.limit === null ? `${quota.used} sent` : `${quota.used} of ${quota.limit}`;
+}
+
+/** Share of the daily limit used, from 0 to 100; 0 when nothing is limited. */
+export function quotaPercent(quota: Quota): number {
+    if (!quota.limit) {
+        return 0;
+    }
+    return Math.min(FULL_PERCENT, Math.round((quota.used / quota.limit) * FULL_PERCENT));
+}
+
+/**
+ * When the next action may go out, relative to the moment the quota was checked.
+ */
+export function nextActionLabel(at: string | null, now = new Date()): string {
+    if (at === null) {
+        return 'Not allowed by the current limits';
+    }
+    const next = new Date(at);
+    if (next <= now) {
+        return 'Now';
+    }
+    const when = isSameDay(next, now) ? format(next, 'HH:mm') : format(next, 'EEE HH:mm');
+    return `${when} (in ${formatDistanceStrict(next, now)})`;
+}
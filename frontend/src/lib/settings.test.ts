@@ -0,0 +1,43 @@
+import { DEFAULT_SETTINGS, sameSettings, validateSettings, withDefaults } from '@/lib/settings';
+import { describe, expect, it } from 'vitest';
+
+const TOO_MANY_TOKENS = 10000;
+const TOO_HOT = 2.5;
+
+describe('validateSettings', () => {
+    it('should accept the defaults', () => {
+        expect(validateSettings(DEFAULT_SETTINGS)).toEqual({});
+    });
+
+    it('should report the first problem with each setting', () => {
+        const errors = validateSettings({
+            ...DEFAULT_SETTINGS,
+            apiEndpoint: 'ftp://example.com',
+            modelName: ' ',
+            maxTokens: TOO_MANY_TOKENS,
+            temperature: TOO_HOT,
+        });
+
+        expect(errors).toEqual({
+            apiEndpoint: 'The endpoint must use http or https',
+            modelName: 'A model name is required',
+            maxTokens: 'Max tokens must be at most 8192',
+            temperature: 'Temperature must be at most 2',
+        });
+        expect(validateSettings({ ...DEFAULT_SETTINGS, apiEndpoint: 'localhost' }).apiEndpoint).toBe('Enter a valid URL');
+    });
+});
+
+describe('withDefaults', () => {
+    it('should fill settings the backend has not stored', () => {
+        expect(withDefaults({ modelName: 'gpt-4o' })).toEqual({ ...DEFAULT_SETTINGS, modelName: 'gpt-4o' });
+        expect(withDefaults(undefined)).toEqual(DEFAULT_SETTINGS);
+    });
+});
+
+describe('sameSettings', () => {
+    it('should compare every setting by value', () => {
+        expect(sameSettings(DEFAULT_SETTINGS, { ...DEFAULT_SETTINGS })).toBe(true);
+        expect(sameSettings(DEFAULT_SETTINGS, { ...DEFAULT_SETTINGS, autoSave: false })).toBe(false);
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * User settings: defaults for anything the backend has not stored yet, and the validation
+ * a draft must pass before it is saved.
+ */
+
+import { SettingsDto } from '@/lib/api';
+import { z } from 'zod';
+
+export const MAX_TOKENS = { min: 256, max: 8192, step: 256 };
+export const TEMPERATURE = { min: 0, max: 2 };
+
+export const DEFAULT_SETTINGS: SettingsDto = {
+    developerMode: false,
+    apiEndpoint: 'https://api.linkedin-agent.ai/v1',
+    modelName: 'gpt-4-turbo',
+    maxTokens: 4096,
+    temperature: 0.7,
+    autoSave: true,
+    notifications: true,
+};
+
+export const settingsSchema = z.object({
+    developerMode: z.boolean(),
+    apiEndpoint: z
+        .string()
+        .trim()
+        .url('Enter a valid URL')
+        .regex(/^https?:\/\//i, 'The endpoint must use http or https'),
+    modelName: z.string().trim().min(1, 'A model name is required'),
+    maxTokens: z
+        .number()
+        .int('Max tokens must be a whole number')
+        .min(MAX_TOKENS.min, `Max tokens must be at least ${MAX_TOKENS.min}`)
+        .max(MAX_TOKENS.max, `Max tokens must be at most ${MAX_TOKENS.max}`),
+    temperature: z
+        .number()
+        .min(TEMPERATURE.min, `Temperature must be at least ${TEMPERATURE.min}`)
+        .max(TEMPERATURE.max, `Temperature must be at most ${TEMPERATURE.max}`),
+    autoSave: z.boolean(),
+    notifications: z.boolean(),
+});
+
+/** First validation message per setting; empty when the settings can be saved. */
+export type SettingsErrors = Partial<Record<keyof SettingsDto, string>>;
+
+/**
+ * Settings as stored, with defaults filling whatever the backend left out.
+ */
+export function withDefaults(stored: Partial<SettingsDto> | undefined): SettingsDto {
+    return { ...DEFAULT_SETTINGS, ...stored };
+}
+
+export function validateSettings(settings: SettingsDto): SettingsErrors {
+    const result = settingsSchema.safeParse(settings);
+    const errors: SettingsErrors = {};
+    if (!result.success) {
+        for (const issue of result.error.issues) {
+            const key = issue.path[0] as keyof SettingsDto;
+            errors[key] ??= issue.message;
+        }
+    }
+    return errors;
+}
+
+export function sameSettings(a: SettingsDto, b: SettingsDto): boolean {
+    return (Object.keys(DEFAULT_SETTINGS) as (keyof SettingsDto)[]).every((key) => a[key] === b[key]);
+}
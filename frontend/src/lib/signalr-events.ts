@@ -0,0 +1,42 @@
+/**
+ * Payloads of the events the AgentHub pushes to the frontend.
+ */
+
+export interface TaskStatusChangedEvent {
+    taskId: string;
+    campaignId: string;
+    status: string;
+    timestamp: string;
+}
+
+export interface ChatMessageReceivedEvent {
+    messageId: string;
+    /** Campaign of the conversation; null for the general one. */
+    campaignId: string | null;
+    content: string;
+    role: 'user' | 'assistant';
+    timestamp: string;
+}
+
+export interface CampaignStateChangedEvent {
+    campaignId: string;
+    phase: string;
+    timestamp: string;
+}
+
+export interface ArtifactCreatedEvent {
+    type: string;
+    key: string;
+    campaignId: string;
+    timestamp: string;
+}
+
+/** Payload of each server event, by the name the hub sends it under. */
+export interface HubEvents {
+    TaskStatusChanged: TaskStatusChangedEvent;
+    ChatMessageReceived: ChatMessageReceivedEvent;
+    CampaignStateChanged: CampaignStateChangedEvent;
+    ArtifactCreated: ArtifactCreatedEvent;
+}
+
+export type HubEventName = keyof HubEvents;
@@ -0,0 +1,120 @@
+import type { TaskStatusChangedEvent } from '@/lib/signalr';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { serverHandlers, start, stop } = vi.hoisted(() => ({
+    serverHandlers: new Map<string, (event: unknown) => void>(),
+    start: vi.fn<() => Promise<void>>(),
+    stop: vi.fn<() => Promise<void>>(),
+}));
+
+vi.mock('@microsoft/signalr', () => {
+    const connection = {
+        state: 'Disconnected',
+        on: (name: string, handler: (event: unknown) => void) => serverHandlers.set(name, handler),
+        onreconnecting: vi.fn(),
+        onreconnected: vi.fn(),
+        onclose: vi.fn(),
+        start,
+        stop,
+    };
+    class HubConnectionBuilder {
+        withUrl(): this {
+            return this;
+        }
+        withAutomaticReconnect(): this {
+            return this;
+        }
+        configureLogging(): this {
+            return this;
+        }
+        build(): typeof connection {
+            return connection;
+        }
+    }
+    return { HubConnectionBuilder, HubConnectionState: { Connected: 'Connected' }, LogLevel: { Information: 2 } };
+});
+
+const EVENT: TaskStatusChangedEvent = { taskId: 't-1', campaignId: 'c-1', status: 'Done', timestamp: '2026-01-01T00:00:00Z' };
+
+// The aborted start and the one after the disconnect
+const STARTS_AFTER_RESTART = 2;
+
+function emit(name: string, event: unknown): void {
+    serverHandlers.get(name)?.(event);
+}
+
+describe('signalRHub', () => {
+    beforeEach(() => {
+        vi.resetModules();
+        vi.clearAllMocks();
+        serverHandlers.clear();
+        start.mockResolvedValue(undefined);
+        stop.mockResolvedValue(undefined);
+    });
+
+    it('should deliver events to handlers subscribed before connecting', async () => {
+        const { signalRHub } = await import('@/lib/signalr');
+        const first = vi.fn();
+        const second = vi.fn();
+        signalRHub.onTaskStatusChanged(first);
+        signalRHub.onTaskStatusChanged(second);
+
+        await signalRHub.connect();
+        emit('TaskStatusChanged', EVENT);
+
+        expect(first).toHaveBeenCalledWith(EVENT);
+        expect(second).toHaveBeenCalledWith(EVENT);
+    });
+
+    it('should unsubscribe one handler without affecting the others', async () => {
+        const { signalRHub } = await import('@/lib/signalr');
+        const kept = vi.fn();
+        const removed = vi.fn();
+        signalRHub.onTaskStatusChanged(kept);
+        const unsubscribe = signalRHub.onTaskStatusChanged(removed);
+        await signalRHub.connect();
+
+        unsubscribe();
+        emit('TaskStatusChanged', EVENT);
+
+        expect(kept).toHaveBeenCalledTimes(1);
+        expect(removed).not.toHaveBeenCalled();
+    });
+
+    it('should share one connection attempt and isolate failing handlers', async () => {
+        const { signalRHub } = await import('@/lib/signalr');
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const after = vi.fn();
+        signalRHub.onCampaignStateChanged(() => {
+            throw new Error('boom');
+        });
+        signalRHub.onCampaignStateChanged(after);
+
+        await Promise.all([signalRHub.connect(), signalRHub.connect()]);
+        emit('CampaignStateChanged', { campaignId: 'c-1', status: 'Paused', timestamp: '' });
+
+        expect(start).toHaveBeenCalledTimes(1);
+        expect(after).toHaveBeenCalled();
+        expect(errorSpy).toHaveBeenCalled();
+        errorSpy.mockRestore();
+    });
+
+    it('should start over after disconnecting while a start is still pending', async () => {
+        const { signalRHub } = await import('@/lib/signalr');
+        let fail: (error: Error) => void = () => undefined;
+        start.mockReturnValueOnce(new Promise((_resolve, reject) => {
+            fail = reject;
+        }));
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const pending = signalRHub.connect().catch(() => undefined);
+
+        const disconnected = signalRHub.disconnect();
+        const next = signalRHub.connect();
+        fail(new Error('Stopped during start'));
+        await Promise.all([disconnected, pending, next]);
+
+        expect(stop).toHaveBeenCalledTimes(1);
+        expect(start).toHaveBeenCalledTimes(STARTS_AFTER_RESTART);
+        errorSpy.mockRestore();
+    });
+});
@@ -3,65 +3,78 @@
  * Connects to backend AgentHub at /hubs/agent
  */
 
+import type {
+    ArtifactCreatedEvent,
+    CampaignStateChangedEvent,
+    ChatMessageReceivedEvent,
+    HubEventName,
+    HubEvents,
+    TaskStatusChangedEvent,
+} from '@/lib/signalr-events';
 import * as signalR from '@microsoft/signalr';
 
-const API_BASE_URL: string = (import.meta.env.VITE_API_BASE_URL as string | undefined) ?? 'http://localhost:5000';
+// Relative, so the hub is reached through the same origin and proxy as the REST API
+const HUB_URL = '/hubs/agent';
 
-export interface TaskStatusChangedEvent {
-    taskId: string;
-    status: string;
-    timestamp: string;
-}
-
-export interface ChatMessageReceivedEvent {
-    messageId: string;
-    content: string;
-    role: 'user' | 'assistant';
-    timestamp: string;
-}
+export type {
+    ArtifactCreatedEvent,
+    CampaignStateChangedEvent,
+    ChatMessageReceivedEvent,
+    TaskStatusChangedEvent,
+} from '@/lib/signalr-events';
 
-export interface CampaignStateChangedEvent {
-    campaignId: string;
-    status: string;
-    timestamp: string;
-}
+/** Removes the one handler it was returned for. */
+export type Unsubscribe = () => void;
 
-export interface ArtifactCreatedEvent {
-    type: string;
-    key: string;
-    campaignId: string;
-    timestamp: string;
-}
+const HUB_EVENTS: HubEventName[] = ['TaskStatusChanged', 'ChatMessageReceived', 'CampaignStateChanged', 'ArtifactCreated'];
 
 const RECONNECT_BASE_DELAY_MS = 1000;
 const RECONNECT_EXPONENT_BASE = 2;
 const MAX_RECONNECT_DELAY_MS = 30000;
 const MAX_RECONNECT_ATTEMPTS = 5;
 
+/**
+ * One connection shared by the whole app. Handlers live on the hub rather than on the connection,
+ * so they can subscribe before it connects and survive a reconnect, and each one unsubscribes
+ * without affecting the others.
+ */
 class SignalRHub {
     private connection: signalR.HubConnection | null = null;
+    private starting: Promise<void> | null = null;
     private reconnectAttempts = 0;
     private readonly maxReconnectAttempts = MAX_RECONNECT_ATTEMPTS;
+    private readonly handlers = new Map<HubEventName, Set<(event: never) => void>>();
+    private readonly stateListeners = new Set<() => void>();
 
     /**
-     * Connect to SignalR hub
+     * Connect to SignalR hub; concurrent calls share the same attempt
      */
-    async connect(): Promise<void> {
+    connect(): Promise<void> {
         if (this.connection?.state === signalR.HubConnectionState.Connected) {
-            // Info level logging is allowed
-            // eslint-disable-next-line no-console
-            console.log('SignalR already connected');
-            return;
+            return Promise.resolve();
         }
+        if (this.starting === null) {
+            // A disconnect may already have replaced this attempt by the time it settles
+            const attempt: Promise<void> = this.start().finally(() => {
+                if (this.starting === attempt) {
+                    this.starting = null;
+                }
+            });
+            this.starting = attempt;
+        }
+        return this.starting;
+    }
 
-        this.connection = new signalR.HubConnectionBuilder()
-            .withUrl(`${API_BASE_URL}/hubs/agent`, {
+    private async start(): Promise<void> {
+        const connection = new signalR.HubConnectionBuilder()
+            .withUrl(HUB_URL, {
                 withCredentials: true,
             })
             .withAutomaticReconnect({
                 nextRetryDelayInMilliseconds: () => {
                     if (this.reconnectAttempts < this.maxReconnectAttempts) {
                         this.reconnectAttempts++;
+                        this.notifyState();
                         return Math.min(RECONNECT_BASE_DELAY_MS * Math.pow(RECONNECT_EXPONENT_BASE, this.reconnectAttempts), MAX_RECONNECT_DELAY_MS);
                     }
                     return null; // Stop reconnecting
@@ -69,91 +82,133 @@ class SignalRHub {
             })
             .configureLogging(signalR.LogLevel.Information)
             .build();
+        this.connection = connection;
+
+        for (const name of HUB_EVENTS) {
+            connection.on(name, (event: HubEvents[typeof name]) => this.dispatch(name, event));
+        }
 
-        this.connection.onreconnecting(() => {
+        connection.onreconnecting(() => {
             // Connection is reconnecting - allowed console method
             console.warn('SignalR reconnecting...');
+            this.notifyState();
         });
 
-        this.connection.onreconnected(() => {
+        connection.onreconnected(() => {
             // eslint-disable-next-line no-console
             console.log('SignalR reconnected');
             this.reconnectAttempts = 0;
+            this.notifyState();
         });
 
-        this.connection.onclose((error) => {
+        connection.onclose((error) => {
             console.error('SignalR connection closed', error);
+            this.notifyState();
         });
 
+        const started = connection.start();
+        this.notifyState();
         try {
-            await this.connection.start();
+            await started;
             this.reconnectAttempts = 0;
         } catch (error) {
             console.error('SignalR connection failed', error);
             throw error;
+        } finally {
+            this.notifyState();
         }
     }
 
+    /**
+     * Drop the current connection and start over with a fresh retry budget
+     */
+    async reconnect(): Promise<void> {
+        await this.disconnect();
+        this.reconnectAttempts = 0;
+        await this.connect();
+    }
+
     /**
      * Disconnect from SignalR hub
      */
     async disconnect(): Promise<void> {
-        if (this.connection) {
-            await this.connection.stop();
-            this.connection = null;
-        }
+        // Forget a start still in flight, so the next connect starts over rather than joining it;
+        // stopping aborts that start, and it is left to settle so it cannot outlive the disconnect
+        const { starting, connection } = this;
+        this.starting = null;
+        this.connection = null;
+        await connection?.stop();
+        await starting?.catch(() => undefined);
+        this.notifyState();
     }
 
     /**
      * Subscribe to TaskStatusChanged events
      */
-    onTaskStatusChanged(callback: (event: TaskStatusChangedEvent) => void): void {
-        if (!this.connection) {
-            throw new Error('SignalR connection not established');
-        }
-        this.connection.on('TaskStatusChanged', callback);
+    onTaskStatusChanged(callback: (event: TaskStatusChangedEvent) => void): Unsubscribe {
+        return this.subscribe('TaskStatusChanged', callback);
     }
 
     /**
      * Subscribe to ChatMessageReceived events
      */
-    onChatMessageReceived(callback: (event: ChatMessageReceivedEvent) => void): void {
-        if (!this.connection) {
-            throw new Error('SignalR connection not established');
-        }
-        this.connection.on('ChatMessageReceived', callback);
+    onChatMessageReceived(callback: (event: ChatMessageReceivedEvent) => void): Unsubscribe {
+        return this.subscribe('ChatMessageReceived', callback);
     }
 
     /**
      * Subscribe to CampaignStateChanged events
      */
-    onCampaignStateChanged(callback: (event: CampaignStateChangedEvent) => void): void {
-        if (!this.connection) {
-            throw new Error('SignalR connection not established');
-        }
-        this.connection.on('CampaignStateChanged', callback);
+    onCampaignStateChanged(callback: (event: CampaignStateChangedEvent) => void): Unsubscribe {
+        return this.subscribe('CampaignStateChanged', callback);
     }
 
     /**
      * Subscribe to ArtifactCreated events
      */
-    onArtifactCreated(callback: (event: ArtifactCreatedEvent) => void): void {
-        if (!this.connection) {
-            throw new Error('SignalR connection not established');
+    onArtifactCreated(callback: (event: ArtifactCreatedEvent) => void): Unsubscribe {
+        return this.subscribe('ArtifactCreated', callback);
+    }
+
+    private subscribe<E extends HubEventName>(name: E, callback: (event: HubEvents[E]) => void): Unsubscribe {
+        const handlers = this.handlers.get(name) ?? new Set();
+        handlers.add(callback);
+        this.handlers.set(name, handlers);
+        return () => {
+            handlers.delete(callback);
+        };
+    }
+
+    private dispatch<E extends HubEventName>(name: E, event: HubEvents[E]): void {
+        // Copy first: a handler may unsubscribe while the event is being delivered
+        for (const handler of [...(this.handlers.get(name) ?? [])] as Array<(event: HubEvents[E]) => void>) {
+            try {
+                handler(event);
+            } catch (error) {
+                console.error(`SignalR ${name} handler failed`, error);
+            }
         }
-        this.connection.on('ArtifactCreated', callback);
     }
 
     /**
-     * Unsubscribe from all events
+     * Listen for connection state and reconnect attempt changes
      */
-    offAll(): void {
-        if (this.connection) {
-            this.connection.off('TaskStatusChanged');
-            this.connection.off('ChatMessageReceived');
-            this.connection.off('CampaignStateChanged');
-            this.connection.off('ArtifactCreated');
-        }
+    onStateChanged(listener: () => void): Unsubscribe {
+        this.stateListeners.add(listener);
+        return () => {
+            this.stateListeners.delete(listener);
+        };
+    }
+
+    private notifyState(): void {
+        this.stateListeners.forEach((listener) => listener());
+    }
+
+    /**
+     * Automatic reconnect attempts made since the connection was last up
+     */
+    get attempts(): number {
+        return this.reconnectAttempts;
     }
 
     /**
@@ -0,0 +1,110 @@
+import { readSseStream, SseMessage, SseParser } from '@/lib/sse';
+import { describe, expect, it } from 'vitest';
+
+const UTF8_LEAD_BYTE_OF_E_ACUTE = 0xc3;
+
+function parseAll(...chunks: string[]): SseMessage[] {
+    const parser = new SseParser();
+    return [...chunks.flatMap((chunk) => parser.feed(chunk)), ...parser.flush()];
+}
+
+function byteStream(...chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+    return new ReadableStream({
+        start(controller) {
+            chunks.forEach((chunk) => controller.enqueue(chunk));
+            controller.close();
+        },
+    });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<SseMessage[]> {
+    const messages: SseMessage[] = [];
+    for await (const message of readSseStream(stream)) {
+        messages.push(message);
+    }
+    return messages;
+}
+
+describe('SseParser', () => {
+    it('should parse named events and default the name to message', () => {
+        expect(parseAll('event: start\ndata: {"a":1}\n\ndata: plain\n\n')).toEqual([
+            { event: 'start', data: '{"a":1}' },
+            { event: 'message', data: 'plain' },
+        ]);
+    });
+
+    it('should reassemble events and lines split across chunks', () => {
+        expect(parseAll('eve', 'nt: upd', 'ate\nda', 'ta: {"x"', ':1}\n', '\n')).toEqual([
+            { event: 'update', data: '{"x":1}' },
+        ]);
+    });
+
+    it('should accept CRLF and bare CR line endings', () => {
+        expect(parseAll('data: one\r\n\r\ndata: two\r\rdata: three\n\n')).toEqual([
+            { event: 'message', data: 'one' },
+            { event: 'message', data: 'two' },
+            { event: 'message', data: 'three' },
+        ]);
+    });
+
+    it('should treat a CRLF pair split across chunks as a single line break', () => {
+        expect(parseAll('data: a\r', '\ndata: b\r', '\n\r', '\n')).toEqual([
+            { event: 'message', data: 'a\nb' },
+        ]);
+    });
+
+    it('should join multi-line data and strip only one leading space', () => {
+        expect(parseAll('data:first\ndata:  second\ndata\n\n')).toEqual([
+            { event: 'message', data: 'first\n second\n' },
+        ]);
+    });
+
+    it('should ignore comments, unknown fields and events without data', () => {
+        expect(parseAll(': keep-alive\nfoo: bar\n\nevent: empty\n\ndata: ok\n\n')).toEqual([
+            { event: 'message', data: 'ok' },
+        ]);
+    });
+
+    it('should carry the last event id and retry across events', () => {
+        const parser = new SseParser();
+        const messages = parser.feed('id: 7\nretry: 3000\ndata: a\n\ndata: b\n\nretry: soon\nid: bad\0id\ndata: c\n\n');
+
+        expect(messages).toEqual([
+            { event: 'message', data: 'a', id: '7', retry: 3000 },
+            { event: 'message', data: 'b', id: '7', retry: 3000 },
+            { event: 'message', data: 'c', id: '7', retry: 3000 },
+        ]);
+        expect(parser.lastId).toBe('7');
+    });
+
+    it('should strip a leading byte order mark', () => {
+        expect(parseAll('\uFEFFdata: x\n\n')).toEqual([{ event: 'message', data: 'x' }]);
+    });
+
+    it('should discard an event left unterminated at end of stream', () => {
+        expect(parseAll('data: done\n\ndata: partial\n')).toEqual([{ event: 'message', data: 'done' }]);
+    });
+});
+
+describe('readSseStream', () => {
+    it('should decode UTF-8 sequences split across chunks', async () => {
+        const bytes = new TextEncoder().encode('data: café ✓\n\n');
+        const split = bytes.indexOf(UTF8_LEAD_BYTE_OF_E_ACUTE) + 1;
+
+        const messages = await collect(byteStream(bytes.slice(0, split), bytes.slice(split)));
+
+        expect(messages).toEqual([{ event: 'message', data: 'café ✓' }]);
+    });
+
+    it('should yield every event from a multi-chunk stream', async () => {
+        const encoder = new TextEncoder();
+        const stream = byteStream(
+            encoder.encode('event: start\ndata: {}\n\nevent: up'),
+            encoder.encode('date\ndata: {"Contents":[]}\n\nevent: done\ndata: {}\n\n')
+        );
+
+        const messages = await collect(stream);
+
+        expect(messages.map((m) => m.event)).toEqual(['start', 'update', 'done']);
+    });
+});
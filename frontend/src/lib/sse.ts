@@ -0,0 +1,176 @@
+/**
+ * Server-Sent Events parser following the WHATWG event stream format.
+ * Handles multi-line data, id, retry, comments, CR/LF/CRLF line endings and
+ * events or UTF-8 sequences split across network chunks.
+ */
+
+export interface SseMessage {
+    /** Event name; defaults to "message" when the stream omits `event:`. */
+    event: string;
+    data: string;
+    /** Last event id seen on the stream (persists across events, per spec). */
+    id?: string;
+    /** Reconnection delay requested by the server, in milliseconds. */
+    retry?: number;
+}
+
+const DEFAULT_EVENT = 'message';
+const BYTE_ORDER_MARK = '\uFEFF';
+const DIGITS_ONLY = /^\d+$/;
+
+export class SseParser {
+    private buffer = '';
+    private started = false;
+    private eventName = '';
+    private dataLines: string[] = [];
+    private lastEventId: string | undefined;
+    private retry: number | undefined;
+
+    /**
+     * Feed decoded text and collect every event completed by it.
+     */
+    feed(chunk: string): SseMessage[] {
+        let text = this.buffer + chunk;
+        if (!this.started && text.length > 0) {
+            this.started = true;
+            if (text.startsWith(BYTE_ORDER_MARK)) {
+                text = text.slice(1);
+            }
+        }
+
+        const messages: SseMessage[] = [];
+        let lineStart = 0;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (char !== '\n' && char !== '\r') {
+                continue;
+            }
+            if (char === '\r' && i === text.length - 1) {
+                // A trailing CR may be the first half of a CRLF pair - wait for more input
+                break;
+            }
+            const message = this.processLine(text.slice(lineStart, i));
+            if (message) {
+                messages.push(message);
+            }
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            lineStart = i + 1;
+        }
+
+        this.buffer = text.slice(lineStart);
+        return messages;
+    }
+
+    /**
+     * Flush at end of stream. Per spec an event without a terminating blank line is discarded,
+     * but a dangling CR still completes its line.
+     */
+    flush(): SseMessage[] {
+        const messages = this.buffer.endsWith('\r') ? this.feed('\n') : [];
+        this.buffer = '';
+        this.resetEvent();
+        return messages;
+    }
+
+    /**
+     * Id of the last event received, for resuming with Last-Event-ID.
+     */
+    get lastId(): string | undefined {
+        return this.lastEventId;
+    }
+
+    private processLine(line: string): SseMessage | null {
+        if (line === '') {
+            return this.dispatch();
+        }
+        if (line.startsWith(':')) {
+            return null;
+        }
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) {
+            value = value.slice(1);
+        }
+
+        this.applyField(field, value);
+        return null;
+    }
+
+    private applyField(field: string, value: string): void {
+        switch (field) {
+            case 'event':
+                this.eventName = value;
+                break;
+            case 'data':
+                this.dataLines.push(value);
+                break;
+            case 'id':
+                if (!value.includes('\0')) {
+                    this.lastEventId = value;
+                }
+                break;
+            case 'retry':
+                if (DIGITS_ONLY.test(value)) {
+                    this.retry = Number(value);
+                }
+                break;
+            default:
+                // Unknown fields are ignored
+                break;
+        }
+    }
+
+    private dispatch(): SseMessage | null {
+        if (this.dataLines.length === 0) {
+            this.resetEvent();
+            return null;
+        }
+
+        const message: SseMessage = {
+            event: this.eventName || DEFAULT_EVENT,
+            data: this.dataLines.join('\n'),
+        };
+        if (this.lastEventId !== undefined) {
+            message.id = this.lastEventId;
+        }
+        if (this.retry !== undefined) {
+            message.retry = this.retry;
+        }
+
+        this.resetEvent();
+        return message;
+    }
+
+    private resetEvent(): void {
+        this.eventName = '';
+        this.dataLines = [];
+    }
+}
+
+/**
+ * Decode a byte stream as UTF-8 and yield parsed SSE messages.
+ */
+export async function* readSseStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SseMessage> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new SseParser();
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            yield* parser.feed(decoder.decode(value, { stream: true }));
+        }
+        yield* parser.feed(decoder.decode());
+        yield* parser.flush();
+    } finally {
+        reader.releaseLock();
+    }
+}
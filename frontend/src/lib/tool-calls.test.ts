@@ -0,0 +1,72 @@
+import { ToolCallFinishedEvent, ToolCallStartedEvent } from '@/lib/agent-events';
+import { completeToolCall, settleToolCalls, startToolCall } from '@/lib/tool-calls';
+import { ToolCall } from '@/types/agent';
+import { describe, expect, it } from 'vitest';
+
+function started(fields: Omit<ToolCallStartedEvent, 'type' | 'status'> & { status?: 'pending' | 'running' }): ToolCallStartedEvent {
+    return { type: 'tool_call_started', status: 'running', ...fields };
+}
+
+function finished(fields: Omit<ToolCallFinishedEvent, 'type'>): ToolCallFinishedEvent {
+    return { type: 'tool_call_finished', ...fields };
+}
+
+describe('tool call tracking', () => {
+    it('should register a new running call with id, name and arguments', () => {
+        const tools = startToolCall([], started({ callId: 'c1', name: 'CreateCampaign', arguments: { name: 'Q1' } }));
+
+        expect(tools).toEqual([
+            { id: 'c1', name: 'CreateCampaign', status: 'running', arguments: { name: 'Q1' } },
+        ]);
+    });
+
+    it('should advance a pending call to running', () => {
+        const pending = startToolCall([], started({ callId: 'c1', name: 'ScoreLead', status: 'pending' }));
+        const running = startToolCall(pending, started({ callId: 'c1' }));
+
+        expect(pending[0]?.status).toBe('pending');
+        expect(running).toHaveLength(1);
+        expect(running[0]).toMatchObject({ id: 'c1', name: 'ScoreLead', status: 'running' });
+    });
+
+    it('should complete a call with its result', () => {
+        const tools = startToolCall([], started({ callId: 'c1', name: 'DiscoverLeads' }));
+        const completed = completeToolCall(tools, finished({ callId: 'c1', result: '{"found":20}' }));
+
+        expect(completed[0]).toMatchObject({ status: 'completed', result: '{"found":20}' });
+    });
+
+    it('should mark a call as failed when the result carries an error', () => {
+        const tools = startToolCall([], started({ callId: 'c1', name: 'DiscoverLeads' }));
+        const failed = completeToolCall(tools, finished({ callId: 'c1', error: 'Campaign not found' }));
+
+        expect(failed[0]).toMatchObject({ status: 'error', error: 'Campaign not found' });
+    });
+
+    it('should resolve results without a call id to the latest unfinished call', () => {
+        let tools = startToolCall([], started({ callId: 'c1', name: 'First' }));
+        tools = completeToolCall(tools, finished({ callId: 'c1', result: 'ok' }));
+        tools = startToolCall(tools, started({ callId: 'c2', name: 'Second' }));
+
+        const completed = completeToolCall(tools, finished({ result: 'done' }));
+
+        expect(completed.map((t) => t.status)).toEqual(['completed', 'completed']);
+        expect(completed[1]?.result).toBe('done');
+    });
+
+    it('should ignore results for unknown calls', () => {
+        const tools: ToolCall[] = [{ id: 'c1', name: 'Tool', status: 'running' }];
+
+        expect(completeToolCall(tools, finished({ callId: 'unknown', result: 'x' }))).toBe(tools);
+        expect(completeToolCall([], finished({ result: 'x' }))).toEqual([]);
+    });
+
+    it('should settle unfinished calls when the stream ends', () => {
+        const tools: ToolCall[] = [
+            { id: 'c1', name: 'Done', status: 'completed' },
+            { id: 'c2', name: 'Stuck', status: 'running' },
+        ];
+
+        expect(settleToolCalls(tools, 'error').map((t) => t.status)).toEqual(['completed', 'error']);
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tool call tracking for agent chat streams.
+ * Folds tool_call_started / tool_call_finished events into ToolCall entries attached to a message.
+ */
+
+import { ToolCallFinishedEvent, ToolCallStartedEvent } from '@/lib/agent-events';
+import { ToolCall } from '@/types/agent';
+
+/**
+ * Registers a tool invocation, or advances an already known one (pending → running).
+ */
+export function startToolCall(tools: ToolCall[], event: ToolCallStartedEvent): ToolCall[] {
+    const id = event.callId ?? `tool-${tools.length + 1}`;
+    const { name, arguments: args, status } = event;
+    const existing = tools.find((t) => t.id === id);
+
+    if (existing) {
+        return tools.map((t) =>
+            t.id === id
+                ? { ...t, status, ...(name ? { name } : {}), ...(args ? { arguments: args } : {}) }
+                : t
+        );
+    }
+
+    const call: ToolCall = { id, name: name ?? 'tool', status };
+    if (args) {
+        call.arguments = args;
+    }
+    return [...tools, call];
+}
+
+/**
+ * Records the outcome of a tool invocation.
+ * Falls back to the most recent unfinished call when the event carries no call id.
+ */
+export function completeToolCall(tools: ToolCall[], event: ToolCallFinishedEvent): ToolCall[] {
+    const { callId, result, error } = event;
+    const target = callId
+        ? tools.find((t) => t.id === callId)
+        : [...tools].reverse().find((t) => t.status === 'pending' || t.status === 'running');
+
+    if (!target) {
+        return tools;
+    }
+
+    return tools.map((t) => {
+        if (t.id !== target.id) {
+            return t;
+        }
+        const updated: ToolCall = { ...t, status: error ? 'error' : 'completed' };
+        if (result !== undefined) {
+            updated.result = result;
+        }
+        if (error) {
+            updated.error = error;
+        }
+        return updated;
+    });
+}
+
+/**
+ * Closes every unfinished call once the stream has ended.
+ */
+export function settleToolCalls(tools: ToolCall[], status: 'completed' | 'error'): ToolCall[] {
+    return tools.map((t) =>
+        t.status === 'pending' || t.status === 'running' ? { ...t, status } : t
+    );
+}
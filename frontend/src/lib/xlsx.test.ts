@@ -0,0 +1,80 @@
+import { buildXlsx, columnName } from '@/lib/xlsx';
+import { crc32 } from '@/lib/zip';
+import { describe, expect, it } from 'vitest';
+
+const LOCAL_HEADER = 0x04034b50;
+const LOCAL_HEADER_SIZE = 30;
+const CRC_OFFSET = 14;
+const SIZE_OFFSET = 18;
+const NAME_LENGTH_OFFSET = 26;
+const Z = 25;
+const AA = 26;
+const AZ = 51;
+const ZZ = 701;
+const AAA = 702;
+const HEX = 16;
+const SCORE = 7;
+
+interface Entry {
+    crc: number;
+    data: Uint8Array;
+}
+
+/** Read the stored entries of a ZIP by walking its local headers. */
+function unzip(bytes: Uint8Array): Map<string, Entry> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const entries = new Map<string, Entry>();
+    let at = 0;
+    while (view.getUint32(at, true) === LOCAL_HEADER) {
+        const size = view.getUint32(at + SIZE_OFFSET, true);
+        const nameLength = view.getUint16(at + NAME_LENGTH_OFFSET, true);
+        const nameStart = at + LOCAL_HEADER_SIZE;
+        const name = new TextDecoder().decode(bytes.subarray(nameStart, nameStart + nameLength));
+        const data = bytes.subarray(nameStart + nameLength, nameStart + nameLength + size);
+        entries.set(name, { crc: view.getUint32(at + CRC_OFFSET, true), data });
+        at = nameStart + nameLength + size;
+    }
+    return entries;
+}
+
+describe('xlsx', () => {
+    it('should name columns like a spreadsheet', () => {
+        expect([0, Z, AA, AZ, ZZ, AAA].map(columnName)).toEqual(['A', 'Z', 'AA', 'AZ', 'ZZ', 'AAA']);
+    });
+
+    it('should compute the standard CRC-32', () => {
+        expect(crc32(new TextEncoder().encode('123456789')).toString(HEX)).toBe('cbf43926');
+    });
+
+    it('should package a workbook with valid checksums', () => {
+        const entries = unzip(buildXlsx('Leads', [['Name'], ['Ada']]));
+
+        expect([...entries.keys()]).toEqual([
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'xl/workbook.xml',
+            'xl/_rels/workbook.xml.rels',
+            'xl/worksheets/sheet1.xml',
+        ]);
+        for (const entry of entries.values()) {
+            expect(crc32(entry.data)).toBe(entry.crc);
+        }
+    });
+
+    it('should write numbers as numbers and escape text', () => {
+        const entries = unzip(buildXlsx('Leads', [['Score', 'Note'], ['42', null], [SCORE, '<b> & "c"']]));
+        const sheet = new TextDecoder().decode(entries.get('xl/worksheets/sheet1.xml')?.data);
+
+        expect(sheet).toContain('<c r="A3"><v>7</v></c>');
+        expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">42</t></is></c>');
+        expect(sheet).toContain('&lt;b&gt; &amp; &quot;c&quot;');
+        expect(sheet).not.toContain('r="B2"');
+    });
+
+    it('should sanitize the sheet name', () => {
+        const entries = unzip(buildXlsx('Q1/Q2 [draft]: a very long report title', [['x']]));
+        const workbook = new TextDecoder().decode(entries.get('xl/workbook.xml')?.data);
+
+        expect(workbook).toContain('name="Q1 Q2  draft   a very long repo"');
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * Minimal XLSX writer: one worksheet of strings and numbers, packed into an uncompressed ZIP.
+ * Enough for handing tables to spreadsheet users without pulling a spreadsheet library into the bundle.
+ */
+
+import { zipStore } from '@/lib/zip';
+
+export type CellValue = string | number | null;
+
+const encoder = new TextEncoder();
+
+const MAX_SHEET_NAME = 31;
+const INVALID_SHEET_CHARS = /[[\]:*?/\\]/g;
+// Characters XML 1.0 cannot carry at all
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+const ALPHABET = 26;
+const CHAR_CODE_A = 65;
+
+function escapeXml(value: string): string {
+    return value
+        .replace(INVALID_XML_CHARS, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Spreadsheet column letters for a zero-based index: 0 → A, 25 → Z, 26 → AA.
+ */
+export function columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / ALPHABET)) {
+        name = String.fromCharCode(CHAR_CODE_A + ((n - 1) % ALPHABET)) + name;
+    }
+    return name;
+}
+
+function cellXml(value: CellValue, ref: string): string {
+    if (value === null || value === '') {
+        return '';
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${ref}"><v>${value}</v></c>`;
+    }
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function sheetXml(rows: CellValue[][]): string {
+    const body = rows
+        .map((row, r) => `<row r="${r + 1}">${row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`)).join('')}</row>`)
+        .join('');
+    return (
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${body}</sheetData></worksheet>`
+    );
+}
+
+function packageFiles(sheetName: string, rows: CellValue[][]): [string, string][] {
+    const name = escapeXml(sheetName.replace(INVALID_SHEET_CHARS, ' ').slice(0, MAX_SHEET_NAME) || 'Sheet1');
+    return [
+        [
+            '[Content_Types].xml',
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+                '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+                '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+                '<Default Extension="xml" ContentType="application/xml"/>' +
+                '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+                '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+                '</Types>',
+        ],
+        [
+            '_rels/.rels',
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+                '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+                '</Relationships>',
+        ],
+        [
+            'xl/workbook.xml',
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+                '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+                'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+                `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+        ],
+        [
+            'xl/_rels/workbook.xml.rels',
+            '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+                '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+                '</Relationships>',
+        ],
+        ['xl/worksheets/sheet1.xml', sheetXml(rows)],
+    ];
+}
+
+/**
+ * Build an .xlsx workbook with a single sheet; the first row is typically the header.
+ */
+export function buildXlsx(sheetName: string, rows: CellValue[][]): Uint8Array {
+    return zipStore(packageFiles(sheetName, rows).map(([path, xml]) => ({ path, data: encoder.encode(xml) })));
+}
@@ -0,0 +1,125 @@
+/**
+ * ZIP archive writer using the "stored" method only: no compression, just the container.
+ * Office files are ZIPs, and the tables we export are small enough not to need deflate.
+ */
+
+export interface ZipEntry {
+    path: string;
+    data: Uint8Array;
+}
+
+const BYTE_VALUES = 256;
+const BITS_PER_BYTE = 8;
+const LOW_BYTE = 0xff;
+const CRC_POLYNOMIAL = 0xedb88320;
+const CRC_INITIAL = 0xffffffff;
+
+const CRC_TABLE = Array.from({ length: BYTE_VALUES }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < BITS_PER_BYTE; k++) {
+        c = c & 1 ? CRC_POLYNOMIAL ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+/**
+ * CRC-32 (IEEE) as used by ZIP.
+ */
+export function crc32(data: Uint8Array): number {
+    let crc = CRC_INITIAL;
+    for (const byte of data) {
+        crc = CRC_TABLE[(crc ^ byte) & LOW_BYTE] ^ (crc >>> BITS_PER_BYTE);
+    }
+    return (crc ^ CRC_INITIAL) >>> 0;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_SIZE = 22;
+const VERSION = 20;
+const UTF8_NAMES = 0x0800;
+const STORED = 0;
+// 1980-01-01 00:00, the DOS epoch; entries carry no meaningful timestamp
+const DOS_TIME = 0;
+const DOS_DATE = 0x21;
+const U16 = 2;
+const U32 = 4;
+
+/** Little-endian writer that advances through a preallocated buffer. */
+class ByteWriter {
+    readonly bytes: Uint8Array;
+    private readonly view: DataView;
+    position = 0;
+
+    constructor(size: number) {
+        this.bytes = new Uint8Array(size);
+        this.view = new DataView(this.bytes.buffer);
+    }
+
+    u16(...values: number[]): void {
+        for (const value of values) {
+            this.view.setUint16(this.position, value, true);
+            this.position += U16;
+        }
+    }
+
+    u32(...values: number[]): void {
+        for (const value of values) {
+            this.view.setUint32(this.position, value, true);
+            this.position += U32;
+        }
+    }
+
+    raw(data: Uint8Array): void {
+        this.bytes.set(data, this.position);
+        this.position += data.length;
+    }
+}
+
+/**
+ * Pack entries into a ZIP archive, file names encoded as UTF-8.
+ */
+export function zipStore(entries: ZipEntry[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const names = entries.map((entry) => encoder.encode(entry.path));
+    const crcs = entries.map((entry) => crc32(entry.data));
+    const localSize = entries.reduce((sum, e, i) => sum + LOCAL_HEADER_SIZE + names[i].length + e.data.length, 0);
+    const centralSize = names.reduce((sum, name) => sum + CENTRAL_HEADER_SIZE + name.length, 0);
+    const out = new ByteWriter(localSize + centralSize + END_SIZE);
+    const offsets: number[] = [];
+
+    // Fields shared by local and central headers, from "version needed" to "extra field length"
+    const common = (i: number): void => {
+        out.u16(VERSION, UTF8_NAMES, STORED, DOS_TIME, DOS_DATE);
+        out.u32(crcs[i], entries[i].data.length, entries[i].data.length);
+        out.u16(names[i].length, 0);
+    };
+
+    entries.forEach((entry, i) => {
+        offsets.push(out.position);
+        out.u32(LOCAL_HEADER);
+        common(i);
+        out.raw(names[i]);
+        out.raw(entry.data);
+    });
+
+    const centralStart = out.position;
+    entries.forEach((_, i) => {
+        out.u32(CENTRAL_HEADER);
+        out.u16(VERSION);
+        common(i);
+        // comment length, disk number, internal attributes; external attributes, local header offset
+        out.u16(0, 0, 0);
+        out.u32(0, offsets[i]);
+        out.raw(names[i]);
+    });
+
+    out.u32(END_OF_CENTRAL);
+    out.u16(0, 0, entries.length, entries.length);
+    out.u32(centralSize, centralStart);
+    out.u16(0);
+    return out.bytes;
+}
@@ -0,0 +1,221 @@
+import type { Campaign, CampaignEvent, CampaignState, EventPage, EventQuery, Lead } from '@/lib/api';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalyticsPage } from './AnalyticsPage';
+
+const { api } = vi.hoisted(() => ({
+  api: {
+    getCampaigns: vi.fn<() => Promise<Campaign[]>>(),
+    getCampaignState: vi.fn<(id: string) => Promise<CampaignState>>(),
+    getEvents: vi.fn<(query?: EventQuery) => Promise<EventPage>>(),
+    getLeads: vi.fn<(campaignId: string) => Promise<Lead[]>>(),
+  },
+}));
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: api,
+}));
+
+function campaign(id: string, name: string, status: string): Campaign {
+  return {
+    id,
+    name,
+    status: status as Campaign['status'],
+    phase: 'Outreach',
+    targetAudience: 'CTOs',
+    createdAt: '2026-03-01T00:00:00Z',
+    updatedAt: '2026-03-02T00:00:00Z',
+  };
+}
+
+function state(campaignId: string, completedTasks: number, totalTasks: number, leadsDiscovered: number, leadsScored: number): CampaignState {
+  return {
+    campaignId,
+    name: campaignId,
+    phase: 'Discovery',
+    completedTasks,
+    totalTasks,
+    currentTask: null,
+    leadsDiscovered,
+    leadsScored,
+    lastUpdated: '2026-03-02T00:00:00Z',
+  };
+}
+
+function renderAt(search = ''): void {
+  render(
+    <MemoryRouter initialEntries={[`/analytics${search}`]}>
+      <AnalyticsPage />
+    </MemoryRouter>
+  );
+}
+
+function completed(id: string, campaignId: string, timestamp: string): CampaignEvent {
+  return { id, eventType: 'TaskCompletedEvent', campaignId, timestamp, actor: 'Agent', payload: '{}' };
+}
+
+function lead(id: string, name: string, stage: string, createdAt: string): Lead {
+  return {
+    id,
+    campaignId: 'c-1',
+    source: 'LinkedIn',
+    score: null,
+    scoringRationale: null,
+    data: JSON.stringify({ Name: name }),
+    createdAt,
+    scoredAt: null,
+    stage: stage as Lead['stage'],
+    senderId: null,
+  };
+}
+
+function readText(blob: Blob | undefined): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    // Decode by hand; readAsText would drop the byte order mark
+    reader.onload = () => resolve(new TextDecoder('utf-8', { ignoreBOM: true }).decode(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob ?? new Blob());
+  });
+}
+
+const TASKS = 4;
+const DISCOVERED = 40;
+const SCORED = 10;
+
+describe('AnalyticsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    api.getEvents.mockResolvedValue({ items: [], nextCursor: null });
+    api.getLeads.mockResolvedValue([]);
+  });
+
+  it('shows totals derived from campaign state', async () => {
+    api.getCampaigns.mockResolvedValue([
+      campaign('c-1', 'Platform leaders', 'Active'),
+      campaign('c-2', 'Fintech CFOs', 'Paused'),
+    ]);
+    api.getCampaignState.mockImplementation((id) =>
+      Promise.resolve(id === 'c-1' ? state(id, 1, TASKS, DISCOVERED, SCORED) : state(id, 1, TASKS, 0, 0))
+    );
+
+    renderAt();
+
+    const discovered = await screen.findByText('Leads Discovered');
+    expect(discovered.closest('.metric-card')).toHaveTextContent(`${DISCOVERED} all time`);
+    expect(screen.getByText('of 2 campaigns')).toBeInTheDocument();
+    expect(screen.getByText('2 of 8 planned all time')).toBeInTheDocument();
+    expect(api.getEvents).toHaveBeenCalledWith(expect.objectContaining({ from: expect.any(String) as string }));
+  });
+
+  it('keeps campaigns whose state failed to load', async () => {
+    api.getCampaigns.mockResolvedValue([campaign('c-1', 'Platform leaders', 'Active')]);
+    api.getCampaignState.mockRejectedValue(new Error('Not found'));
+
+    renderAt();
+
+    const row = await screen.findByText('Platform leaders', { selector: 'p' });
+    expect(row.closest('[data-campaign-id]')).toHaveTextContent('0%');
+  });
+
+  it('shows an empty state without campaigns', async () => {
+    api.getCampaigns.mockResolvedValue([]);
+
+    renderAt();
+
+    expect(await screen.findByText('No data yet')).toBeInTheDocument();
+  });
+
+  it('offers a retry when loading fails', async () => {
+    const user = userEvent.setup();
+    api.getCampaigns.mockRejectedValueOnce(new Error('Service unavailable')).mockResolvedValue([]);
+
+    renderAt();
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Failed to load analytics: Service unavailable');
+    await user.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(await screen.findByText('No data yet')).toBeInTheDocument();
+  });
+
+  it('applies campaign and period filters from the URL and compares with the previous period', async () => {
+    api.getCampaigns.mockResolvedValue([
+      campaign('c-1', 'Platform leaders', 'Active'),
+      campaign('c-2', 'Fintech CFOs', 'Active'),
+    ]);
+    api.getCampaignState.mockImplementation((id) => Promise.resolve(state(id, 1, TASKS, 0, 0)));
+    api.getEvents.mockResolvedValue({
+      items: [
+        completed('e-1', 'c-1', '2026-03-03T10:00:00'),
+        completed('e-2', 'c-1', '2026-03-04T10:00:00'),
+        completed('e-3', 'c-1', '2026-02-26T10:00:00'),
+        completed('e-4', 'c-2', '2026-03-03T10:00:00'),
+      ],
+      nextCursor: null,
+    });
+
+    renderAt('?from=2026-03-01&to=2026-03-07&bucket=week&campaigns=c-1');
+
+    const tasks = (await screen.findByText('Tasks Completed')).closest('.metric-card');
+    expect(tasks).toHaveTextContent('+100%');
+    expect(screen.getByText('1 of 4 planned all time')).toBeInTheDocument();
+    expect(screen.getByText('Weekly Activity')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Campaigns' })).toHaveTextContent('Platform leaders');
+    expect(api.getEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ from: new Date('2026-02-22T00:00').toISOString() })
+    );
+  });
+
+  it('charts the funnel of leads discovered in the period and drills into a stage', async () => {
+    const user = userEvent.setup();
+    api.getCampaigns.mockResolvedValue([campaign('c-1', 'Platform leaders', 'Active')]);
+    api.getCampaignState.mockResolvedValue(state('c-1', 1, TASKS, 0, 0));
+    api.getLeads.mockResolvedValue([
+      lead('l-1', 'Ada Lovelace', 'Replied', '2026-03-02T10:00:00'),
+      lead('l-2', 'Alan Turing', 'Scored', '2026-03-03T10:00:00'),
+      lead('l-3', 'Grace Hopper', 'MeetingBooked', '2026-02-01T10:00:00'),
+    ]);
+
+    renderAt('?from=2026-03-01&to=2026-03-07');
+
+    const stages = await screen.findByRole('list', { name: 'Funnel stages' });
+    expect(within(stages).getByRole('button', { name: 'Discovered: 2 leads' })).toBeInTheDocument();
+    expect(within(stages).getByRole('button', { name: 'Meeting booked: 0 leads' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Platform leaders Replied: 1 leads' })).toBeInTheDocument();
+
+    await user.click(within(stages).getByRole('button', { name: 'Connection sent: 1 leads' }));
+
+    const drill = await screen.findByRole('list', { name: 'Stage leads' });
+    expect(within(drill).getByText('Ada Lovelace')).toBeInTheDocument();
+    expect(within(drill).queryByText('Alan Turing')).not.toBeInTheDocument();
+    expect(within(drill).queryByText('Grace Hopper')).not.toBeInTheDocument();
+  });
+
+  it('exports the funnel as CSV with the chosen columns', async () => {
+    const user = userEvent.setup();
+    const blobs: Blob[] = [];
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      blobs.push(blob);
+      return 'blob:funnel';
+    });
+    URL.revokeObjectURL = vi.fn();
+    // jsdom cannot follow the download link
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined);
+    api.getCampaigns.mockResolvedValue([campaign('c-1', 'Platform leaders', 'Active')]);
+    api.getCampaignState.mockResolvedValue(state('c-1', 1, TASKS, 0, 0));
+    api.getLeads.mockResolvedValue([lead('l-1', 'Ada Lovelace', 'Replied', '2026-03-02T10:00:00')]);
+
+    renderAt('?from=2026-03-01&to=2026-03-07');
+
+    await user.click(await screen.findByRole('button', { name: 'Export Funnel' }));
+    const dialog = await screen.findByRole('dialog');
+    await user.click(within(dialog).getByRole('checkbox', { name: 'Conversion from previous (%)' }));
+    await user.click(within(dialog).getByRole('checkbox', { name: 'Of discovered (%)' }));
+    await user.click(within(dialog).getByRole('button', { name: 'Download' }));
+
+    const csv = await readText(blobs[0]);
+    expect(csv).toMatch(/^\uFEFFStage,Leads\r\nDiscovered,1\r\nScored,1\r\n/);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+});
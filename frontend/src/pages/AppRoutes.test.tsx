@@ -0,0 +1,111 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppRoutes } from './AppRoutes';
+
+vi.mock('@/components/realtime/ConnectionIndicator', () => ({ ConnectionIndicator: () => null }));
+
+vi.mock('@/hooks/use-approvals', () => ({
+  useApprovals: () => ({ approvals: [], loading: false, reload: vi.fn(), approve: vi.fn(), reject: vi.fn() }),
+}));
+
+vi.mock('@/hooks/use-settings-form', () => ({
+  useSettingsForm: () => ({ saved: { developerMode: false }, dirty: false }),
+}));
+
+vi.mock('./ChatPage', () => ({
+  ChatPage: ({ thread, onThreadChange }: { thread: string; onThreadChange: (thread: string) => void }) => (
+    <div>
+      <h1>Chat {thread}</h1>
+      <button onClick={() => onThreadChange(OTHER_CAMPAIGN)}>Switch thread</button>
+    </div>
+  ),
+}));
+
+const CAMPAIGN = '3f2b6c1e-8a4d-4e5f-9b7c-1d2e3f4a5b6c';
+const OTHER_CAMPAIGN = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+
+vi.mock('./CampaignsPage', () => ({
+  CampaignsPage: ({ onOpenCampaign }: { onOpenCampaign: (id: string) => void }) => (
+    <button onClick={() => onOpenCampaign('c-1')}>Open campaign</button>
+  ),
+}));
+
+vi.mock('./CampaignDetailPage', () => ({
+  CampaignDetailPage: ({ campaignId, onBack }: { campaignId: string; onBack: () => void }) => (
+    <div>
+      <h1>Campaign {campaignId}</h1>
+      <button onClick={onBack}>Back</button>
+    </div>
+  ),
+}));
+
+function renderAt(path: string): void {
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <AppRoutes />
+    </MemoryRouter>
+  );
+}
+
+describe('AppRoutes', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should open the last selected chat thread from the root path', async () => {
+    window.localStorage.setItem('outreachgenie.chat.thread', CAMPAIGN);
+    renderAt('/');
+
+    expect(await screen.findByRole('heading', { name: `Chat ${CAMPAIGN}` })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /agent chat/i })).toHaveAttribute('aria-current', 'page');
+  });
+
+  it('should remember a thread opened by link or picked on the page', async () => {
+    const user = userEvent.setup();
+    renderAt(`/chat/${CAMPAIGN}`);
+
+    await user.click(await screen.findByRole('button', { name: 'Switch thread' }));
+
+    expect(await screen.findByRole('heading', { name: `Chat ${OTHER_CAMPAIGN}` })).toBeInTheDocument();
+    expect(window.localStorage.getItem('outreachgenie.chat.thread')).toBe(OTHER_CAMPAIGN);
+  });
+
+  it('should show the not found page for a thread that is neither general nor a campaign id', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    window.localStorage.setItem('outreachgenie.chat.thread', CAMPAIGN);
+    renderAt('/chat/not-a-campaign');
+
+    expect(await screen.findByText('404')).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: /^Chat/ })).not.toBeInTheDocument();
+    expect(window.localStorage.getItem('outreachgenie.chat.thread')).toBe(CAMPAIGN);
+    errorSpy.mockRestore();
+  });
+
+  it('should fall back to the general thread when the remembered one is not valid', async () => {
+    window.localStorage.setItem('outreachgenie.chat.thread', 'not-a-campaign');
+    renderAt('/chat');
+
+    expect(await screen.findByRole('heading', { name: 'Chat general' })).toBeInTheDocument();
+  });
+
+  it('should navigate between the campaign list and a campaign', async () => {
+    const user = userEvent.setup();
+    renderAt('/campaigns');
+
+    await user.click(await screen.findByRole('button', { name: 'Open campaign' }));
+
+    expect(await screen.findByRole('heading', { name: 'Campaign c-1' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /campaigns/i })).toHaveAttribute('aria-current', 'page');
+
+    await user.click(screen.getByRole('button', { name: 'Back' }));
+    expect(await screen.findByRole('button', { name: 'Open campaign' })).toBeInTheDocument();
+  });
+
+  it('should show the not found page for unknown paths', async () => {
+    renderAt('/nowhere');
+
+    expect(await screen.findByText('404')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,92 @@
+import { useAppOutlet } from '@/hooks/use-app-outlet';
+import { isThread, loadSelectedThread, saveSelectedThread } from '@/lib/chat-history';
+import { paths } from '@/lib/paths';
+import { lazy, useEffect } from 'react';
+import { Navigate, Route, Routes, useNavigate, useParams } from 'react-router-dom';
+import Index from './Index';
+import NotFound from './NotFound';
+
+// Each page is its own bundle, fetched the first time its route renders
+const AnalyticsPage = lazy(() => import('./AnalyticsPage').then((module) => ({ default: module.AnalyticsPage })));
+const ApprovalsPage = lazy(() => import('./ApprovalsPage').then((module) => ({ default: module.ApprovalsPage })));
+const CampaignDetailPage = lazy(() => import('./CampaignDetailPage').then((module) => ({ default: module.CampaignDetailPage })));
+const CampaignsPage = lazy(() => import('./CampaignsPage').then((module) => ({ default: module.CampaignsPage })));
+const ChatPage = lazy(() => import('./ChatPage').then((module) => ({ default: module.ChatPage })));
+const DeveloperPage = lazy(() => import('./DeveloperPage').then((module) => ({ default: module.DeveloperPage })));
+const EventLogPage = lazy(() => import('./EventLogPage').then((module) => ({ default: module.EventLogPage })));
+const SettingsPage = lazy(() => import('./SettingsPage').then((module) => ({ default: module.SettingsPage })));
+
+function SelectedThreadRedirect(): JSX.Element {
+  return <Navigate to={paths.chat(loadSelectedThread())} replace />;
+}
+
+function ChatRoute(): JSX.Element {
+  const { thread = '' } = useParams();
+  const navigate = useNavigate();
+  const known = isThread(thread);
+
+  useEffect(() => {
+    // Opening a thread by link selects it too, so /chat returns to it next time
+    if (known) {
+      saveSelectedThread(thread);
+    }
+  }, [known, thread]);
+
+  if (!known) {
+    return <NotFound />;
+  }
+  return <ChatPage thread={thread} onThreadChange={(next) => navigate(paths.chat(next))} />;
+}
+
+function CampaignsRoute(): JSX.Element {
+  const navigate = useNavigate();
+  return <CampaignsPage onOpenCampaign={(id) => navigate(paths.campaign(id))} />;
+}
+
+function CampaignDetailRoute(): JSX.Element {
+  const { campaignId = '' } = useParams();
+  const navigate = useNavigate();
+  return <CampaignDetailPage key={campaignId} campaignId={campaignId} onBack={() => navigate(paths.campaigns())} />;
+}
+
+function ApprovalsRoute(): JSX.Element {
+  const { approvals } = useAppOutlet();
+  return <ApprovalsPage queue={approvals} />;
+}
+
+function SettingsRoute(): JSX.Element {
+  const { settings } = useAppOutlet();
+  return <SettingsPage form={settings} />;
+}
+
+function DeveloperRoute(): JSX.Element {
+  const { settings } = useAppOutlet();
+  return <DeveloperPage form={settings} />;
+}
+
+/**
+ * Every page of the app under the shared shell, plus the not-found page outside it.
+ */
+export function AppRoutes(): JSX.Element {
+  return (
+    <Routes>
+      <Route path="/" element={<Index />}>
+        <Route index element={<Navigate to={paths.chat()} replace />} />
+        <Route path="chat">
+          <Route index element={<SelectedThreadRedirect />} />
+          <Route path=":thread" element={<ChatRoute />} />
+        </Route>
+        <Route path="campaigns">
+          <Route index element={<CampaignsRoute />} />
+          <Route path=":campaignId" element={<CampaignDetailRoute />} />
+        </Route>
+        <Route path="approvals" element={<ApprovalsRoute />} />
+        <Route path="analytics" element={<AnalyticsPage />} />
+        <Route path="events" element={<EventLogPage />} />
+        <Route path="settings" element={<SettingsRoute />} />
+        <Route path="developer" element={<DeveloperRoute />} />
+      </Route>
+      <Route path="*" element={<NotFound />} />
+    </Routes>
+  );
+}
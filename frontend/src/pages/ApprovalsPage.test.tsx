@@ -0,0 +1,142 @@
+import { useApprovals } from '@/hooks/use-approvals';
+import type { Campaign, CampaignTask } from '@/lib/api';
+import type { TaskStatusChangedEvent } from '@/lib/signalr';
+import { renderWithQueryClient } from '@/test/render';
+import { act, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApprovalsPage } from './ApprovalsPage';
+
+const { api, hub, handlers } = vi.hoisted(() => {
+  const handlers: Array<(event: TaskStatusChangedEvent) => void> = [];
+  return {
+    handlers,
+    api: {
+      getPendingApprovals: vi.fn<() => Promise<CampaignTask[]>>(),
+      getCampaigns: vi.fn<() => Promise<Campaign[]>>(),
+      approveTask: vi.fn<(campaignId: string, id: string, comment?: string) => Promise<CampaignTask>>(),
+      rejectTask: vi.fn<(campaignId: string, id: string, comment: string) => Promise<CampaignTask>>(),
+    },
+    hub: {
+      onTaskStatusChanged: vi.fn((handler: (event: TaskStatusChangedEvent) => void) => {
+        handlers.push(handler);
+        return () => {
+          const index = handlers.indexOf(handler);
+          if (index !== -1) {
+            handlers.splice(index, 1);
+          }
+        };
+      }),
+    },
+  };
+});
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: api,
+}));
+
+vi.mock('@/lib/signalr', () => ({ signalRHub: hub }));
+
+const mockToast = vi.fn<(options: unknown) => void>();
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: mockToast }),
+  toast: (options: unknown) => mockToast(options),
+}));
+
+function approvalTask(id: string, title: string): CampaignTask {
+  return {
+    id,
+    campaignId: 'c-1',
+    title,
+    description: 'Hi {firstName}, loved your talk on platform teams.',
+    status: 'AwaitingApproval' as CampaignTask['status'],
+    orderIndex: 2,
+    requiresApproval: true,
+    createdAt: '2026-01-01T00:00:00Z',
+    completedAt: null,
+  };
+}
+
+function Harness(): JSX.Element {
+  return <ApprovalsPage queue={useApprovals()} />;
+}
+
+function emit(event: TaskStatusChangedEvent): void {
+  act(() => handlers.forEach((handler) => handler(event)));
+}
+
+describe('ApprovalsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handlers.length = 0;
+    api.getPendingApprovals.mockResolvedValue([approvalTask('t-1', 'Send 20 connection requests')]);
+    api.getCampaigns.mockResolvedValue([
+      { id: 'c-1', name: 'SaaS CTO Outreach', status: 'Active' as Campaign['status'], phase: 'Outreach', targetAudience: '', createdAt: '', updatedAt: '' },
+    ]);
+    api.approveTask.mockResolvedValue({ ...approvalTask('t-1', 'Send 20 connection requests'), status: 'Pending' as CampaignTask['status'] });
+    api.rejectTask.mockResolvedValue({ ...approvalTask('t-1', 'Send 20 connection requests'), status: 'Rejected' as CampaignTask['status'] });
+  });
+
+  it('should list tasks waiting for approval with their campaign', async () => {
+    renderWithQueryClient(<Harness />);
+
+    expect(await screen.findByText('Send 20 connection requests')).toBeInTheDocument();
+    expect(await screen.findByText(/SaaS CTO Outreach/)).toBeInTheDocument();
+    expect(screen.getByText(/loved your talk/)).toBeInTheDocument();
+  });
+
+  it('should approve a task with an optional comment', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<Harness />);
+
+    await user.type(await screen.findByLabelText('Comment'), 'Looks good');
+    await user.click(screen.getByRole('button', { name: /approve/i }));
+
+    expect(api.approveTask).toHaveBeenCalledWith('c-1', 't-1', 'Looks good');
+    expect(await screen.findByText('All caught up')).toBeInTheDocument();
+  });
+
+  it('should require a comment to reject', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<Harness />);
+
+    const reject = await screen.findByRole('button', { name: /reject/i });
+    expect(reject).toBeDisabled();
+
+    await user.type(screen.getByLabelText('Comment'), 'Too pushy, soften the tone');
+    await user.click(reject);
+
+    expect(api.rejectTask).toHaveBeenCalledWith('c-1', 't-1', 'Too pushy, soften the tone');
+  });
+
+  it('should put the task back when the decision fails', async () => {
+    const user = userEvent.setup();
+    api.approveTask.mockRejectedValueOnce(new Error('Server unavailable'));
+    renderWithQueryClient(<Harness />);
+
+    await user.click(await screen.findByRole('button', { name: /approve/i }));
+
+    expect(await screen.findByText('Send 20 connection requests')).toBeInTheDocument();
+    expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({
+      description: 'Failed to approve task: Server unavailable',
+      variant: 'destructive',
+    }));
+  });
+
+  it('should follow live task status changes', async () => {
+    api.getPendingApprovals
+      .mockResolvedValueOnce([approvalTask('t-1', 'Send 20 connection requests')])
+      .mockResolvedValueOnce([approvalTask('t-1', 'Send 20 connection requests'), approvalTask('t-2', 'Post follow-up messages')]);
+    renderWithQueryClient(<Harness />);
+    await screen.findByText('Send 20 connection requests');
+
+    emit({ taskId: 't-2', campaignId: 'c-1', status: 'AwaitingApproval', timestamp: '2026-01-02T00:00:00Z' });
+    expect(await screen.findByText('Post follow-up messages')).toBeInTheDocument();
+
+    emit({ taskId: 't-1', campaignId: 'c-1', status: 'InProgress', timestamp: '2026-01-02T00:00:00Z' });
+    await waitFor(() => {
+      expect(screen.queryByText('Send 20 connection requests')).not.toBeInTheDocument();
+    });
+  });
+});
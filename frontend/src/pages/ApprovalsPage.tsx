@@ -0,0 +1,63 @@
+import { ApprovalCard } from '@/components/approvals/ApprovalCard';
+import { Button } from '@/components/ui/button';
+import { UseApprovalsResult } from '@/hooks/use-approvals';
+import { useCampaigns } from '@/hooks/use-campaign-queries';
+import { RefreshCw, ShieldCheck } from 'lucide-react';
+
+interface ApprovalsPageProps {
+  queue: UseApprovalsResult;
+}
+
+export function ApprovalsPage({ queue }: ApprovalsPageProps): JSX.Element {
+  const { approvals, loading, reload, approve, reject } = queue;
+  const { data: campaigns = [] } = useCampaigns();
+
+  const ordered = [...approvals].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <header className="px-6 py-4 border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="font-semibold text-foreground">Approvals</h2>
+            <p className="text-sm text-muted-foreground">Tasks waiting for your sign-off before the agent acts</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => { void reload(); }} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto p-6">
+        {loading && approvals.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <RefreshCw className="w-6 h-6 mr-3 animate-spin text-muted-foreground" />
+            <p className="text-muted-foreground">Loading approvals...</p>
+          </div>
+        ) : ordered.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center max-w-md">
+              <ShieldCheck className="w-10 h-10 mx-auto mb-3 text-success" />
+              <h3 className="text-lg font-semibold mb-1">All caught up</h3>
+              <p className="text-muted-foreground">No tasks are waiting for approval.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="max-w-3xl mx-auto space-y-4">
+            {ordered.map((task) => (
+              <ApprovalCard
+                key={task.id}
+                task={task}
+                campaignName={campaigns.find((c) => c.id === task.campaignId)?.name}
+                onApprove={(comment) => approve(task, comment)}
+                onReject={(comment) => reject(task, comment)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import type {
+  Artifact,
+  Campaign,
+  CampaignEvent,
+  CampaignQuota,
+  CampaignSenders,
+  CampaignState,
+  CampaignTask,
+  CreateArtifactRequest,
+  ImportLeadsRequest,
+  Lead,
+  LeadScore,
+  Sender,
+} from '@/lib/api';
+import { defaultLimits } from '@/lib/sending-limits';
+import { renderWithQueryClient } from '@/test/render';
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CampaignDetailPage } from './CampaignDetailPage';
+
+const CAMPAIGN_ID = 'c-1';
+const EXPECTED_TASKS = 3;
+const LATEST_VERSION = 2;
+const HIGH_SCORE = 92;
+const LOW_SCORE = 40;
+const FIRST_SCORE = 70;
+const RELOADED = 2;
+const NEXT_VERSION = 3;
+const QUOTA_USED = 12;
+const QUOTA_LIMIT = 20;
+
+const { api } = vi.hoisted(() => ({
+  api: {
+    getCampaign: vi.fn<(id: string) => Promise<Campaign>>(),
+    getCampaignState: vi.fn<(id: string) => Promise<CampaignState>>(),
+    getTasks: vi.fn<(id: string) => Promise<CampaignTask[]>>(),
+    getArtifacts: vi.fn<(id: string) => Promise<Artifact[]>>(),
+    getCampaignEvents: vi.fn<(id: string) => Promise<CampaignEvent[]>>(),
+    getLeads: vi.fn<(id: string) => Promise<Lead[]>>(),
+    getLeadScores: vi.fn<(campaignId: string, leadId: string) => Promise<LeadScore[]>>(),
+    createArtifact: vi.fn<(request: CreateArtifactRequest) => Promise<Artifact>>(),
+    importLeads: vi.fn<(campaignId: string, request: ImportLeadsRequest) => Promise<Lead[]>>(),
+    getSenders: vi.fn<() => Promise<Sender[]>>(),
+    getCampaignQuota: vi.fn<(campaignId: string) => Promise<CampaignQuota>>(),
+    getCampaignSenders: vi.fn<(campaignId: string) => Promise<CampaignSenders>>(),
+    assignCampaignSenders: vi.fn<(campaignId: string, senders: CampaignSenders) => Promise<CampaignSenders>>(),
+  },
+}));
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: api,
+}));
+
+const mockToast = vi.fn<(options: unknown) => void>();
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: mockToast }),
+  toast: (options: unknown) => mockToast(options),
+}));
+
+function task(id: string, title: string, status: string, orderIndex: number): CampaignTask {
+  return {
+    id,
+    campaignId: CAMPAIGN_ID,
+    title,
+    description: `${title} for the campaign`,
+    status: status as CampaignTask['status'],
+    orderIndex,
+    requiresApproval: false,
+    createdAt: '2026-01-01T00:00:00Z',
+    completedAt: null,
+  };
+}
+
+function artifact(id: string, key: string, version: number, content: string): Artifact {
+  return {
+    id,
+    campaignId: CAMPAIGN_ID,
+    type: 'messages',
+    key,
+    content,
+    source: 'Agent' as Artifact['source'],
+    version,
+    createdAt: '2026-01-02T00:00:00Z',
+  };
+}
+
+function lead(id: string, name: string, score: number | null, rationale: string | null): Lead {
+  return {
+    id,
+    campaignId: CAMPAIGN_ID,
+    source: 'Simulated Discovery',
+    score,
+    scoringRationale: rationale,
+    data: JSON.stringify({ Name: name, Company: `${name} Inc` }),
+    createdAt: '2026-01-01T00:00:00Z',
+    scoredAt: score === null ? null : '2026-01-02T00:00:00Z',
+    stage: (score === null ? 'Discovered' : 'Scored') as Lead['stage'],
+    senderId: null,
+  };
+}
+
+describe('CampaignDetailPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    api.getCampaign.mockResolvedValue({
+      id: CAMPAIGN_ID,
+      name: 'SaaS CTO Outreach',
+      status: 'Active' as Campaign['status'],
+      phase: 'Outreach',
+      targetAudience: 'CTOs at B2B SaaS companies',
+      createdAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-02T00:00:00Z',
+    });
+    api.getCampaignState.mockResolvedValue({
+      campaignId: CAMPAIGN_ID,
+      name: 'SaaS CTO Outreach',
+      phase: 'Discovery',
+      completedTasks: 1,
+      totalTasks: 4,
+      currentTask: { id: 't-2', title: 'Discover leads', description: '', status: 'InProgress', orderIndex: 1 },
+      leadsDiscovered: 20,
+      leadsScored: 5,
+      lastUpdated: '2026-01-02T00:00:00Z',
+    });
+    api.getTasks.mockResolvedValue([
+      task('t-3', 'Score leads', 'Blocked', EXPECTED_TASKS - 1),
+      task('t-1', 'Plan campaign', 'Completed', 0),
+      task('t-2', 'Discover leads', 'InProgress', 1),
+    ]);
+    api.getArtifacts.mockResolvedValue([
+      artifact('a-1', 'intro-message', 1, 'Hi there'),
+      artifact('a-2', 'intro-message', LATEST_VERSION, 'Hello {firstName}'),
+    ]);
+    api.getLeads.mockResolvedValue([
+      lead('l-1', 'Ada', LOW_SCORE, 'Small company'),
+      lead('l-2', 'Grace', null, null),
+      lead('l-3', 'Linus', HIGH_SCORE, 'CTO at a fast-growing SaaS company'),
+    ]);
+    api.getLeadScores.mockResolvedValue([
+      { score: FIRST_SCORE, rationale: 'Initial estimate', timestamp: '2026-01-01T00:00:00Z' },
+      { score: HIGH_SCORE, rationale: 'CTO at a fast-growing SaaS company', timestamp: '2026-01-02T00:00:00Z' },
+    ]);
+    api.getCampaignQuota.mockResolvedValue({
+      connections: { used: 0, limit: null },
+      messages: { used: 0, limit: null },
+      nextConnectionAt: '2026-01-02T00:00:00Z',
+      senders: [],
+      checkedAt: '2026-01-02T00:00:00Z',
+    });
+    api.getCampaignEvents.mockResolvedValue([
+      { id: 'e-1', eventType: 'CampaignCreated', campaignId: CAMPAIGN_ID, timestamp: '2026-01-01T00:00:00Z', actor: 'User', payload: '{}' },
+    ]);
+  });
+
+  it('should show campaign progress from the backend state', async () => {
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    expect(await screen.findByRole('heading', { name: 'SaaS CTO Outreach' })).toBeInTheDocument();
+    expect(screen.getByText('1 of 4 tasks completed')).toBeInTheDocument();
+    expect(screen.getByText('Discovery')).toBeInTheDocument();
+    expect(screen.getAllByText('Discover leads').length).toBeGreaterThan(0);
+    expect(screen.getByText('20')).toBeInTheDocument();
+    expect(api.getCampaignState).toHaveBeenCalledWith(CAMPAIGN_ID);
+  });
+
+  it('should list tasks in plan order with their statuses', async () => {
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    const items = await screen.findAllByRole('listitem');
+
+    expect(items).toHaveLength(EXPECTED_TASKS);
+    expect(items.map((item) => item.getAttribute('data-task-status'))).toEqual(['Completed', 'InProgress', 'Blocked']);
+    expect(within(items[EXPECTED_TASKS - 1]).getByText('Score leads for the campaign')).toBeInTheDocument();
+  });
+
+  it('should show artifact versions with the latest content', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    await user.click(await screen.findByRole('tab', { name: /artifacts/i }));
+
+    expect(screen.getByText('v2, v1')).toBeInTheDocument();
+    expect(screen.getByText('Hello {firstName}')).toBeInTheDocument();
+    expect(screen.queryByText('Hi there')).not.toBeInTheDocument();
+  });
+
+  it('should save an edited artifact as a new user version', async () => {
+    const user = userEvent.setup();
+    api.createArtifact.mockResolvedValue({ ...artifact('a-3', 'intro-message', NEXT_VERSION, 'Hello {firstName}!'), source: 'User' as Artifact['source'] });
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    await user.click(await screen.findByRole('tab', { name: /artifacts/i }));
+    await user.click(screen.getByRole('button', { name: 'Edit' }));
+    const editor = screen.getByRole('textbox', { name: 'Content of intro-message' });
+    await user.type(editor, '!');
+    await user.click(screen.getByRole('button', { name: `Save as v${NEXT_VERSION}` }));
+
+    expect(api.createArtifact).toHaveBeenCalledWith({
+      campaignId: CAMPAIGN_ID,
+      type: 'messages',
+      key: 'intro-message',
+      content: 'Hello {firstName}!',
+      source: 'User',
+    });
+    expect(await screen.findByText('Hello {firstName}')).toBeInTheDocument();
+    expect(api.getArtifacts).toHaveBeenCalledTimes(RELOADED);
+  });
+
+  it('should compare two artifact versions side by side', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    await user.click(await screen.findByRole('tab', { name: /artifacts/i }));
+    await user.click(screen.getByRole('button', { name: 'Compare' }));
+
+    const diff = screen.getByRole('table', { name: 'Version diff' });
+    expect(within(diff).getByText('Hi there').closest('tr')).toHaveAttribute('data-diff', 'changed');
+    expect(within(diff).getByText('Hello {firstName}')).toBeInTheDocument();
+    expect(screen.getByText('1 changed line')).toBeInTheDocument();
+  });
+
+  it('should list leads by score with unscored leads last and toggle the sort', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    await user.click(await screen.findByRole('tab', { name: /leads/i }));
+    const rowIds = () => Array.from(document.querySelectorAll('[data-lead-id]')).map((r) => r.getAttribute('data-lead-id'));
+
+    expect(rowIds()).toEqual(['l-3', 'l-1', 'l-2']);
+
+    await user.click(screen.getByRole('button', { name: /score/i }));
+
+    expect(rowIds()).toEqual(['l-1', 'l-3', 'l-2']);
+  });
+
+  it('should open a lead drawer with profile data, rationale and score history', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    await user.click(await screen.findByRole('tab', { name: /leads/i }));
+    await user.click(screen.getByText('Linus'));
+
+    const drawer = await screen.findByRole('dialog');
+    expect(within(drawer).getByText('Linus Inc')).toBeInTheDocument();
+    const history = await within(drawer).findByRole('list', { name: 'Score history' });
+    expect(within(history).getByText('Initial estimate')).toBeInTheDocument();
+    expect(within(history).getByText(`+${HIGH_SCORE - FIRST_SCORE}`)).toBeInTheDocument();
+    expect(api.getLeadScores).toHaveBeenCalledWith(CAMPAIGN_ID, 'l-3');
+  });
+
+  it('should import new leads from a CSV file and report the rows left out', async () => {
+    const user = userEvent.setup();
+    api.importLeads.mockResolvedValue([lead('l-4', 'Margaret Hamilton', null, null)]);
+    const csv = [
+      'Full Name,Company,Email,LinkedIn',
+      'Ada,Ada Inc,ada@example.com,',
+      'Margaret Hamilton,NASA,margaret@nasa.gov,https://linkedin.com/in/mh',
+      ',,nobody@example.com,',
+      'Katherine Johnson,NASA,not-an-email,',
+    ].join('\r\n');
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    await user.click(await screen.findByRole('tab', { name: /leads/i }));
+    await user.click(screen.getByRole('button', { name: 'Import CSV' }));
+    await user.upload(screen.getByLabelText('CSV file'), new File([csv], 'event-list.csv', { type: 'text/csv' }));
+    expect(await screen.findByRole('combobox', { name: 'Field for LinkedIn' })).toHaveTextContent('Profile URL');
+
+    await user.click(screen.getByRole('button', { name: 'Continue' }));
+    const attention = screen.getByRole('list', { name: 'Rows needing attention' });
+    expect(within(attention).getByText('Same name and company as an existing lead')).toBeInTheDocument();
+    expect(within(attention).getByText('A name is required')).toBeInTheDocument();
+    expect(within(attention).getByText('Invalid email address')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Import 1 lead' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Imported 1 lead, 3 rows were not imported');
+    expect(api.importLeads).toHaveBeenCalledWith(CAMPAIGN_ID, {
+      source: 'CSV import',
+      leads: [{ name: 'Margaret Hamilton', company: 'NASA', email: 'margaret@nasa.gov', profileUrl: 'https://linkedin.com/in/mh' }],
+    });
+    expect(api.getLeads).toHaveBeenCalledTimes(RELOADED);
+  });
+
+  it('should show the sending quota and when the next action is allowed', async () => {
+    const checkedAt = new Date('2026-01-02T10:00:00');
+    api.getCampaignQuota.mockResolvedValue({
+      connections: { used: QUOTA_USED, limit: QUOTA_LIMIT },
+      messages: { used: 0, limit: null },
+      nextConnectionAt: new Date('2026-01-02T10:05:00').toISOString(),
+      senders: [
+        {
+          senderId: 's-1',
+          name: 'Ada Recruiter',
+          connections: { used: QUOTA_LIMIT, limit: QUOTA_LIMIT },
+          messages: { used: 1, limit: QUOTA_LIMIT },
+          nextConnectionAt: new Date('2026-01-05T09:00:00').toISOString(),
+          nextMessageAt: checkedAt.toISOString(),
+        },
+      ],
+      checkedAt: checkedAt.toISOString(),
+    });
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    expect(await screen.findByText('Sending quota today')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar', { name: 'Connection requests' })).toBeInTheDocument();
+    expect(screen.getByText('12 of 20')).toBeInTheDocument();
+    expect(screen.getByText('0 sent')).toBeInTheDocument();
+    expect(screen.getByText('10:05 (in 5 minutes)')).toBeInTheDocument();
+    const row = screen.getByRole('row', { name: /ada recruiter/i });
+    expect(row).toHaveTextContent('20 of 20');
+    expect(row).toHaveTextContent('Mon 09:00 (in 3 days)');
+    expect(row).toHaveTextContent('Now');
+  });
+
+  it('should assign senders to the campaign with a rotation', async () => {
+    const user = userEvent.setup();
+    const sender = (id: string, name: string): Sender => ({
+      id,
+      name,
+      avatarUrl: null,
+      limits: defaultLimits('UTC'),
+      createdAt: '2026-01-01T00:00:00Z',
+      credential: { status: 'Valid', last4: 'abcd', savedAt: null, expiresAt: null, verifiedAt: null },
+    });
+    api.getSenders.mockResolvedValue([sender('s-1', 'Ada Recruiter'), sender('s-2', 'Grace Founder')]);
+    api.getCampaignSenders.mockResolvedValue({ senderIds: ['s-1'], rotation: 'RoundRobin' });
+    api.assignCampaignSenders.mockImplementation((_id, senders) => Promise.resolve(senders));
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    await user.click(await screen.findByRole('tab', { name: /senders/i }));
+    await user.click(await screen.findByRole('checkbox', { name: 'Grace Founder' }));
+    await user.click(screen.getByRole('radio', { name: /fill first/i }));
+    await user.click(screen.getByRole('button', { name: 'Save senders' }));
+
+    expect(api.assignCampaignSenders).toHaveBeenCalledWith(CAMPAIGN_ID, {
+      senderIds: ['s-1', 's-2'],
+      rotation: 'FillFirst',
+    });
+  });
+
+  it('should show the event log', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    await user.click(await screen.findByRole('tab', { name: /events/i }));
+
+    expect(screen.getByText('CampaignCreated')).toBeInTheDocument();
+  });
+
+  it('should keep the loaded parts and report failed ones', async () => {
+    api.getTasks.mockRejectedValueOnce(new Error('Server unavailable'));
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={vi.fn()} />);
+
+    expect(await screen.findByText('1 of 4 tasks completed')).toBeInTheDocument();
+    expect(screen.getByText('No tasks yet.')).toBeInTheDocument();
+    expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({
+      description: 'Failed to load campaign tasks: Server unavailable',
+      variant: 'destructive',
+    }));
+  });
+
+  it('should go back to the campaign list', async () => {
+    const user = userEvent.setup();
+    const onBack = vi.fn();
+    renderWithQueryClient(<CampaignDetailPage campaignId={CAMPAIGN_ID} onBack={onBack} />);
+
+    await user.click(await screen.findByRole('button', { name: /back to campaigns/i }));
+
+    expect(onBack).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { ArtifactsPanel } from '@/components/campaign/ArtifactsPanel';
+import { CampaignProgress } from '@/components/campaign/CampaignProgress';
+import { CampaignQuotaPanel } from '@/components/campaign/CampaignQuotaPanel';
+import { CampaignSendersPanel } from '@/components/campaign/CampaignSendersPanel';
+import { CampaignStatusBadge } from '@/components/campaign/CampaignStatusBadge';
+import { EventList } from '@/components/campaign/EventList';
+import { TaskList } from '@/components/campaign/TaskList';
+import { LeadImportDialog } from '@/components/leads/LeadImportDialog';
+import { LeadsTable } from '@/components/leads/LeadsTable';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useCampaignDetail } from '@/hooks/use-campaign-detail';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+
+interface CampaignDetailPageProps {
+  campaignId: string;
+  onBack: () => void;
+}
+
+export function CampaignDetailPage({ campaignId, onBack }: CampaignDetailPageProps): JSX.Element {
+  const { campaign, state, tasks, leads, artifacts, events, loading, reload } = useCampaignDetail(campaignId);
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <header className="px-6 py-4 border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <Button variant="ghost" size="icon" onClick={onBack} aria-label="Back to campaigns">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <h2 className="font-semibold text-foreground truncate">
+                  {campaign?.name ?? state?.name ?? 'Campaign'}
+                </h2>
+                {campaign && <CampaignStatusBadge status={campaign.status} />}
+              </div>
+              <p className="text-sm text-muted-foreground truncate">{campaign?.targetAudience}</p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={reload} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        {loading && !campaign ? (
+          <div className="flex items-center justify-center py-16">
+            <RefreshCw className="w-6 h-6 mr-3 animate-spin text-muted-foreground" />
+            <p className="text-muted-foreground">Loading campaign...</p>
+          </div>
+        ) : (
+          <>
+            {state && <CampaignProgress state={state} />}
+            <CampaignQuotaPanel campaignId={campaignId} />
+
+            <Tabs defaultValue="tasks">
+              <TabsList>
+                <TabsTrigger value="tasks">Tasks ({tasks.length})</TabsTrigger>
+                <TabsTrigger value="leads">Leads ({leads.length})</TabsTrigger>
+                <TabsTrigger value="artifacts">Artifacts ({artifacts.length})</TabsTrigger>
+                <TabsTrigger value="events">Events ({events.length})</TabsTrigger>
+                <TabsTrigger value="senders">Senders</TabsTrigger>
+              </TabsList>
+              <TabsContent value="tasks">
+                <TaskList tasks={tasks} currentTaskId={state?.currentTask?.id} />
+              </TabsContent>
+              <TabsContent value="leads" className="space-y-3">
+                <div className="flex justify-end">
+                  <LeadImportDialog campaignId={campaignId} existing={leads} onImported={reload} />
+                </div>
+                <LeadsTable leads={leads} />
+              </TabsContent>
+              <TabsContent value="artifacts">
+                <ArtifactsPanel artifacts={artifacts} />
+              </TabsContent>
+              <TabsContent value="events">
+                <EventList events={events} />
+              </TabsContent>
+              <TabsContent value="senders">
+                <CampaignSendersPanel campaignId={campaignId} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
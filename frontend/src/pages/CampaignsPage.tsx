@@ -2,7 +2,9 @@
 // Note: This page would require substantial refactoring to split into smaller components
 // while maintaining the cohesive campaigns management interface with dialogs and state logic.
 
-import { Badge } from '@/components/ui/badge';
+import { CampaignStatusBadge } from '@/components/campaign/CampaignStatusBadge';
+import { ExportDialog } from '@/components/export/ExportDialog';
+import { SenderPicker } from '@/components/senders/SenderPicker';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -17,65 +19,31 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { useCampaigns, useCreateCampaign, useDeleteCampaign } from '@/hooks/use-campaign-queries';
+import { useSenders } from '@/hooks/use-sender-queries';
 import { useToast } from '@/hooks/use-toast';
-import { apiClient, ApiError, Campaign, CampaignStatus } from '@/lib/api';
-import { CampaignStateChangedEvent, signalRHub } from '@/lib/signalr';
-import { Pause, Play, Plus, RefreshCw, Trash2 } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { CampaignSenders } from '@/lib/api';
+import { CAMPAIGN_COLUMNS } from '@/lib/export-columns';
+import { NO_SENDERS } from '@/lib/senders';
+import { ListChecks, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+interface CampaignsPageProps {
+  onOpenCampaign?: (id: string) => void;
+}
 
-export function CampaignsPage(): JSX.Element {
-  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
-  const [loading, setLoading] = useState(true);
+export function CampaignsPage({ onOpenCampaign }: CampaignsPageProps = {}): JSX.Element {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newCampaignName, setNewCampaignName] = useState('');
   const [newCampaignAudience, setNewCampaignAudience] = useState('');
+  const [newCampaignSenders, setNewCampaignSenders] = useState<CampaignSenders>(NO_SENDERS);
   const { toast } = useToast();
+  const { data: campaigns = [], isPending: loading, isFetching, refetch } = useCampaigns();
+  const { data: senders = [] } = useSenders();
+  const createCampaign = useCreateCampaign();
+  const deleteCampaign = useDeleteCampaign();
 
-  const loadCampaigns = async (): Promise<void> => {
-    try {
-      setLoading(true);
-      const data = await apiClient.getCampaigns();
-      setCampaigns(data);
-    } catch (error) {
-      const apiError = error as ApiError;
-      toast({
-        title: 'Error',
-        description: `Failed to load campaigns: ${apiError.message}`,
-        variant: 'destructive',
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    void loadCampaigns();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  useEffect(() => {
-    const handleCampaignStateChanged = (event: CampaignStateChangedEvent) => {
-      setCampaigns((prev) =>
-        prev.map((c) =>
-          c.id === event.campaignId
-            ? { ...c, status: event.status as CampaignStatus, updatedAt: event.timestamp }
-            : c
-        )
-      );
-    };
-
-    if (signalRHub.connectionState !== null) {
-      signalRHub.onCampaignStateChanged(handleCampaignStateChanged);
-    }
-
-    return () => {
-      if (signalRHub.connectionState !== null) {
-        signalRHub.offAll();
-      }
-    };
-  }, []);
-
-  const handleCreateCampaign = async (): Promise<void> => {
+  const handleCreateCampaign = (): void => {
     if (!newCampaignName.trim() || !newCampaignAudience.trim()) {
       toast({
         title: 'Validation Error',
@@ -85,101 +53,24 @@ export function CampaignsPage(): JSX.Element {
       return;
     }
 
-    try {
-      const campaign = await apiClient.createCampaign({
-        name: newCampaignName,
-        targetAudience: newCampaignAudience,
-      });
-      setCampaigns((prev) => [campaign, ...prev]);
-      setIsCreateDialogOpen(false);
-      setNewCampaignName('');
-      setNewCampaignAudience('');
-      toast({
-        title: 'Success',
-        description: 'Campaign created successfully',
-      });
-    } catch (error) {
-      const apiError = error as ApiError;
-      toast({
-        title: 'Error',
-        description: `Failed to create campaign: ${apiError.message}`,
-        variant: 'destructive',
-      });
-    }
-  };
-
-  const handlePauseCampaign = async (id: string): Promise<void> => {
-    try {
-      await apiClient.pauseCampaign(id);
-      toast({
-        title: 'Success',
-        description: 'Campaign paused',
-      });
-    } catch (error) {
-      const apiError = error as ApiError;
-      toast({
-        title: 'Error',
-        description: `Failed to pause campaign: ${apiError.message}`,
-        variant: 'destructive',
-      });
-    }
-  };
-
-  const handleResumeCampaign = async (id: string): Promise<void> => {
-    try {
-      await apiClient.resumeCampaign(id);
-      toast({
-        title: 'Success',
-        description: 'Campaign resumed',
-      });
-    } catch (error) {
-      const apiError = error as ApiError;
-      toast({
-        title: 'Error',
-        description: `Failed to resume campaign: ${apiError.message}`,
-        variant: 'destructive',
-      });
-    }
+    createCampaign.mutate(
+      { name: newCampaignName, targetAudience: newCampaignAudience, ...newCampaignSenders },
+      {
+        onSuccess: () => {
+          setIsCreateDialogOpen(false);
+          setNewCampaignName('');
+          setNewCampaignAudience('');
+          setNewCampaignSenders(NO_SENDERS);
+        },
+      }
+    );
   };
 
-  const handleDeleteCampaign = async (id: string): Promise<void> => {
+  const handleDeleteCampaign = (id: string): void => {
     // Using window.confirm which is allowed as a dialog, not alert
     // eslint-disable-next-line no-alert
-    if (!window.confirm('Are you sure you want to delete this campaign?')) {
-      return;
-    }
-
-    try {
-      await apiClient.deleteCampaign(id);
-      setCampaigns((prev) => prev.filter((c) => c.id !== id));
-      toast({
-        title: 'Success',
-        description: 'Campaign deleted',
-      });
-    } catch (error) {
-      const apiError = error as ApiError;
-      toast({
-        title: 'Error',
-        description: `Failed to delete campaign: ${apiError.message}`,
-        variant: 'destructive',
-      });
-    }
-  };
-
-  const getStatusBadgeVariant = (status: CampaignStatus): 'default' | 'secondary' | 'destructive' | 'outline' => {
-    switch (status) {
-      case CampaignStatus.Initializing:
-        return 'secondary';
-      case CampaignStatus.Active:
-        return 'default';
-      case CampaignStatus.Paused:
-        return 'secondary';
-      case CampaignStatus.Completed:
-        return 'outline';
-      case CampaignStatus.Draft:
-        return 'secondary';
-      default:
-        return 'outline';
+    if (window.confirm('Are you sure you want to delete this campaign?')) {
+      deleteCampaign.mutate(id);
     }
   };
 
@@ -193,13 +84,14 @@ export function CampaignsPage(): JSX.Element {
             <p className="text-sm text-muted-foreground">Manage your LinkedIn outreach campaigns</p>
           </div>
           <div className="flex gap-2">
+            <ExportDialog title="Campaigns" items={campaigns} columns={CAMPAIGN_COLUMNS} />
             <Button
               variant="outline"
               size="sm"
-              onClick={() => { void loadCampaigns(); }}
-              disabled={loading}
+              onClick={() => { void refetch(); }}
+              disabled={isFetching}
             >
-              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
               Refresh
             </Button>
             <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
@@ -236,12 +128,16 @@ export function CampaignsPage(): JSX.Element {
                       rows={4}
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label>Senders</Label>
+                    <SenderPicker senders={senders} value={newCampaignSenders} onChange={setNewCampaignSenders} />
+                  </div>
                 </div>
                 <DialogFooter>
                   <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
                     Cancel
                   </Button>
-                  <Button onClick={() => { void handleCreateCampaign(); }}>
+                  <Button onClick={handleCreateCampaign} disabled={createCampaign.isPending}>
                     Create Campaign
                   </Button>
                 </DialogFooter>
@@ -280,14 +176,20 @@ export function CampaignsPage(): JSX.Element {
                 <CardHeader>
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
-                      <CardTitle className="text-base">{campaign.name}</CardTitle>
+                      <CardTitle className="text-base">
+                        <button
+                          type="button"
+                          className="text-left hover:underline underline-offset-2"
+                          onClick={() => onOpenCampaign?.(campaign.id)}
+                        >
+                          {campaign.name}
+                        </button>
+                      </CardTitle>
                       <CardDescription className="mt-1">
                         {campaign.targetAudience}
                       </CardDescription>
                     </div>
-                    <Badge variant={getStatusBadgeVariant(campaign.status)}>
-                      {campaign.status}
-                    </Badge>
+                    <CampaignStatusBadge status={campaign.status} />
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -296,32 +198,18 @@ export function CampaignsPage(): JSX.Element {
                     <span>Updated: {new Date(campaign.updatedAt).toLocaleDateString()}</span>
                   </div>
                   <div className="flex gap-2">
-                    {campaign.status === CampaignStatus.Active && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => { void handlePauseCampaign(campaign.id); }}
-                        className="flex-1"
-                      >
-                        <Pause className="w-4 h-4 mr-1" />
-                        Pause
-                      </Button>
-                    )}
-                    {(campaign.status === CampaignStatus.Paused || campaign.status === CampaignStatus.Draft) && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => { void handleResumeCampaign(campaign.id); }}
-                        className="flex-1"
-                      >
-                        <Play className="w-4 h-4 mr-1" />
-                        {campaign.status === CampaignStatus.Draft ? 'Start' : 'Resume'}
-                      </Button>
-                    )}
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => { void handleDeleteCampaign(campaign.id); }}
+                      onClick={() => onOpenCampaign?.(campaign.id)}
+                      aria-label={`Open ${campaign.name}`}
+                    >
+                      <ListChecks className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteCampaign(campaign.id)}
                     >
                       <Trash2 className="w-4 h-4" />
                     </Button>
@@ -1,49 +1,87 @@
-/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, no-magic-numbers */
-import * as api from '@/lib/api';
-import { render, screen, waitFor } from '@testing-library/react';
+/* eslint-disable @typescript-eslint/no-unsafe-assignment */
+import type { StreamChatOptions } from '@/lib/agent-chat';
+import type { AgentEvent } from '@/lib/agent-events';
+import type { Artifact, Campaign, CampaignTask, ChatMessageDto, CreateArtifactRequest, CreateTaskRequest } from '@/lib/api';
+import { GENERAL_THREAD } from '@/lib/chat-history';
+import { renderWithQueryClient } from '@/test/render';
+import { screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { ChatPage } from './ChatPage';
 
-// Mock the API client
-vi.mock('@/lib/api', () => ({
+const { mockStreamChat, mockGetCampaigns, mockGetChatHistory, mockGetArtifacts, mockCreateArtifact, mockCreateTask } =
+  vi.hoisted(() => ({
+    mockStreamChat: vi.fn<(messages: unknown[], options?: StreamChatOptions) => AsyncGenerator<AgentEvent>>(),
+    mockGetCampaigns: vi.fn<() => Promise<Campaign[]>>(),
+    mockGetChatHistory: vi.fn<(campaignId?: string) => Promise<ChatMessageDto[]>>(),
+    mockGetArtifacts: vi.fn<(campaignId: string, type?: string) => Promise<Artifact[]>>(),
+    mockCreateArtifact: vi.fn<(request: CreateArtifactRequest) => Promise<Artifact>>(),
+    mockCreateTask: vi.fn<(campaignId: string, request: CreateTaskRequest) => Promise<CampaignTask>>(),
+  }));
+
+// Mock the REST API client
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
   apiClient: {
-    sendMessage: vi.fn(),
+    getCampaigns: mockGetCampaigns,
+    getChatHistory: mockGetChatHistory,
+    getArtifacts: mockGetArtifacts,
+    createArtifact: mockCreateArtifact,
+    createTask: mockCreateTask,
   },
-  ApiError: class ApiError extends Error {
-    constructor(public statusCode: number, message: string, public details?: unknown) {
-      super(message);
+}));
+
+// Mock the streaming agent client (network boundary)
+vi.mock('@/lib/agent-chat', () => ({
+  AgentChatClient: class {
+    streamChat(messages: unknown[], options?: StreamChatOptions): AsyncGenerator<AgentEvent> {
+      return mockStreamChat(messages, options);
     }
   },
 }));
 
 // Mock useToast hook
-const mockToast = vi.fn();
+const mockToast = vi.fn<(options: unknown) => void>();
 vi.mock('@/hooks/use-toast', () => ({
   useToast: () => ({ toast: mockToast }),
+  toast: (options: unknown) => mockToast(options),
 }));
 
+function textUpdate(text: string): AgentEvent {
+  return { type: 'text_delta', delta: text };
+}
+
+async function* streamOf(...events: AgentEvent[]): AsyncGenerator<AgentEvent> {
+  for (const event of events) {
+    yield await Promise.resolve(event);
+  }
+}
+
+function renderChat(thread = GENERAL_THREAD): void {
+  renderWithQueryClient(<ChatPage thread={thread} onThreadChange={vi.fn()} />);
+}
+
 describe('ChatPage', () => {
-  let mockSendMessage: ReturnType<typeof vi.fn>;
-  
   beforeEach(() => {
     vi.clearAllMocks();
-    // Use spyOn to avoid unbound method issues
-    mockSendMessage = vi.spyOn(api.apiClient, 'sendMessage').mockImplementation(vi.fn());
+    window.localStorage.clear();
+    mockGetCampaigns.mockResolvedValue([]);
+    mockGetChatHistory.mockResolvedValue([]);
+    mockGetArtifacts.mockResolvedValue([]);
   });
 
-  it('should render empty chat interface', () => {
-    render(<ChatPage />);
-    
+  it('should render empty chat interface', async () => {
+    renderChat();
+
     expect(screen.getByText('LinkedIn Outreach Agent')).toBeInTheDocument();
     expect(screen.getByText('AI-powered campaign automation')).toBeInTheDocument();
-    expect(screen.getByText('How can I help you today?')).toBeInTheDocument();
+    expect(await screen.findByText('How can I help you today?')).toBeInTheDocument();
   });
 
-  it('should render suggested actions', () => {
-    render(<ChatPage />);
-    
-    expect(screen.getByRole('button', { name: /start new campaign/i })).toBeInTheDocument();
+  it('should render suggested actions', async () => {
+    renderChat();
+
+    expect(await screen.findByRole('button', { name: /start new campaign/i })).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /find prospects/i })).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /draft messages/i })).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /analyze audience/i })).toBeInTheDocument();
@@ -51,29 +89,25 @@ describe('ChatPage', () => {
 
   it('should send user message when clicking suggested action', async () => {
     const user = userEvent.setup();
-    const mockResponse = {
-      messageId: '123',
-      content: 'Agent response',
-      timestamp: '2026-01-11T15:00:00Z',
-    };
-    
-    mockSendMessage.mockResolvedValueOnce(mockResponse);
-    
-    render(<ChatPage />);
-    
-    const button = screen.getByRole('button', { name: /find prospects/i });
+    mockStreamChat.mockReturnValueOnce(
+      streamOf({ type: 'run_started' }, textUpdate('Agent response'), { type: 'run_finished', status: 'completed' })
+    );
+
+    renderChat();
+
+    const button = await screen.findByRole('button', { name: /find prospects/i });
     await user.click(button);
-    
+
     // User message should appear
     await waitFor(() => {
       expect(screen.getByText(/find and analyze potential prospects/i)).toBeInTheDocument();
     });
-    
-    // API should be called
-    expect(mockSendMessage).toHaveBeenCalledWith(
-      expect.stringContaining('prospects')
-    );
-    
+
+    // Agent should be called with the conversation
+    expect(mockStreamChat).toHaveBeenCalledWith([
+      expect.objectContaining({ role: 'user', content: expect.stringContaining('prospects') }),
+    ], expect.objectContaining({ signal: expect.any(AbortSignal) }));
+
     // Agent response should appear
     await waitFor(() => {
       expect(screen.getByText('Agent response')).toBeInTheDocument();
@@ -82,52 +116,138 @@ describe('ChatPage', () => {
 
   it('should show typing indicator while waiting for response', async () => {
     const user = userEvent.setup();
-    let resolvePromise: (value: unknown) => void;
-    const promise = new Promise((resolve) => {
+    let resolvePromise: () => void = () => undefined;
+    const pending = new Promise<void>((resolve) => {
       resolvePromise = resolve;
     });
-    
-    mockSendMessage.mockReturnValueOnce(promise);
-    
-    render(<ChatPage />);
-    
-    const button = screen.getByRole('button', { name: /analyze audience/i });
+
+    mockStreamChat.mockReturnValueOnce((async function* () {
+      yield { type: 'run_started' } as AgentEvent;
+      await pending;
+      yield textUpdate('Response');
+      yield { type: 'run_finished', status: 'completed' } as AgentEvent;
+    })());
+
+    renderChat();
+
+    const button = await screen.findByRole('button', { name: /analyze audience/i });
     await user.click(button);
-    
+
     // Typing indicator should be visible
     await waitFor(() => {
-      const dots = screen.getAllByRole('generic').filter(el => 
+      const dots = screen.getAllByRole('generic').filter(el =>
         el.className?.includes('animate-bounce')
       );
       expect(dots.length).toBeGreaterThan(0);
     });
-    
-    // Resolve the promise
-    if (resolvePromise) {
-      resolvePromise({
-        messageId: '123',
-        content: 'Response',
-        timestamp: '2026-01-11T15:00:00Z',
-      });
-    }
-    
+
+    // Let the stream continue
+    resolvePromise();
+
     // Typing indicator should disappear
     await waitFor(() => {
       expect(screen.getByText('Response')).toBeInTheDocument();
     });
   });
 
+  it('should render tool calls as structured entries instead of text', async () => {
+    const user = userEvent.setup();
+    mockStreamChat.mockReturnValueOnce(
+      streamOf(
+        { type: 'run_started' },
+        { type: 'tool_call_started', callId: 'call-1', name: 'DiscoverLeads', arguments: { count: 20 }, status: 'running' },
+        { type: 'tool_call_finished', callId: 'call-1', result: '20 leads found' },
+        textUpdate('Found your leads.'),
+        { type: 'run_finished', status: 'completed' }
+      )
+    );
+
+    renderChat();
+
+    await user.click(await screen.findByRole('button', { name: /find prospects/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Found your leads.')).toBeInTheDocument();
+    });
+    expect(screen.getByText('DiscoverLeads')).toBeInTheDocument();
+    expect(screen.getByText(/20 leads found/)).toBeInTheDocument();
+    expect(screen.getByText('count: 20')).toBeInTheDocument();
+    expect(screen.queryByText(/using tool/i)).not.toBeInTheDocument();
+  });
+
+  it('should stop an in-flight run and keep the partial answer', async () => {
+    const user = userEvent.setup();
+    mockStreamChat.mockImplementationOnce(async function* (_messages, options) {
+      yield textUpdate('Partial answer');
+      await new Promise((resolve) => options?.signal?.addEventListener('abort', resolve));
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    });
+
+    renderChat();
+
+    await user.click(await screen.findByRole('button', { name: /find prospects/i }));
+    await waitFor(() => {
+      expect(screen.getByText('Partial answer')).toBeInTheDocument();
+    });
+
+    await user.click(screen.getByRole('button', { name: /stop agent run/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Stopped')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Partial answer')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText(/ask the agent/i)).not.toBeDisabled();
+    expect(mockToast).not.toHaveBeenCalled();
+  });
+
+  it('should load the campaign thread and send its id with every run', async () => {
+    const user = userEvent.setup();
+    mockGetCampaigns.mockResolvedValue([
+      { id: 'campaign-1', name: 'SaaS CTOs', status: 'Active' as Campaign['status'], phase: 'Outreach', targetAudience: 'CTOs', createdAt: '2026-01-11T00:00:00Z', updatedAt: '2026-01-11T00:00:00Z' },
+    ]);
+    mockGetChatHistory.mockResolvedValue([
+      { id: 'h1', campaignId: 'campaign-1', role: 'User', content: 'Find CTOs', timestamp: '2026-01-11T15:00:00Z' },
+      { id: 'h2', campaignId: 'campaign-1', role: 'Assistant', content: 'Found 20 CTOs', timestamp: '2026-01-11T15:00:05Z' },
+    ]);
+    mockStreamChat.mockReturnValueOnce(
+      streamOf(textUpdate('Scored them'), { type: 'run_finished', status: 'completed' })
+    );
+
+    renderChat('campaign-1');
+
+    await waitFor(() => {
+      expect(screen.getByText('Found 20 CTOs')).toBeInTheDocument();
+    });
+    expect(mockGetChatHistory).toHaveBeenCalledWith('campaign-1');
+
+    await user.type(screen.getByPlaceholderText(/ask the agent/i), 'Score them{Enter}');
+
+    await waitFor(() => {
+      expect(screen.getByText('Scored them')).toBeInTheDocument();
+    });
+    expect(mockStreamChat).toHaveBeenCalledWith(
+      [
+        { role: 'user', content: 'Find CTOs' },
+        { role: 'assistant', content: 'Found 20 CTOs' },
+        { role: 'user', content: 'Score them' },
+      ],
+      expect.objectContaining({ campaignId: 'campaign-1' })
+    );
+  });
+
   it('should display error toast when API call fails', async () => {
     const user = userEvent.setup();
-    const mockError: InstanceType<typeof api.ApiError> = new api.ApiError(500, 'Internal Server Error');
-    
-    mockSendMessage.mockRejectedValueOnce(mockError);
-    
-    render(<ChatPage />);
-    
-    const button = screen.getByRole('button', { name: /draft messages/i });
+    mockStreamChat.mockImplementationOnce(async function* () {
+      await Promise.resolve();
+      yield* [];
+      throw new Error('Internal Server Error');
+    });
+
+    renderChat();
+
+    const button = await screen.findByRole('button', { name: /draft messages/i });
     await user.click(button);
-    
+
     // Toast should be called with error
     await waitFor(() => {
       expect(mockToast).toHaveBeenCalledWith(
@@ -138,7 +258,7 @@ describe('ChatPage', () => {
         })
       );
     });
-    
+
     // Error message should be displayed in chat
     await waitFor(() => {
       expect(screen.getByText(/sorry, i encountered an error/i)).toBeInTheDocument();
@@ -147,15 +267,17 @@ describe('ChatPage', () => {
 
   it('should handle network errors with connection message', async () => {
     const user = userEvent.setup();
-    const mockError: InstanceType<typeof api.ApiError> = new api.ApiError(0, 'Network failure');
-    
-    mockSendMessage.mockRejectedValueOnce(mockError);
-    
-    render(<ChatPage />);
-    
-    const button = screen.getByRole('button', { name: /start new campaign/i });
+    mockStreamChat.mockImplementationOnce(async function* () {
+      await Promise.resolve();
+      yield* [];
+      throw new TypeError('Network failure');
+    });
+
+    renderChat();
+
+    const button = await screen.findByRole('button', { name: /start new campaign/i });
     await user.click(button);
-    
+
     // Toast should mention backend connection
     await waitFor(() => {
       expect(mockToast).toHaveBeenCalledWith(
@@ -168,67 +290,136 @@ describe('ChatPage', () => {
 
   it('should send message from text input', async () => {
     const user = userEvent.setup();
-    const mockResponse = {
-      messageId: '456',
-      content: 'Custom response',
-      timestamp: '2026-01-11T15:00:00Z',
-    };
-    
-    mockSendMessage.mockResolvedValueOnce(mockResponse);
-    
-    render(<ChatPage />);
-    
+    mockStreamChat.mockReturnValueOnce(
+      streamOf(textUpdate('Custom response'), { type: 'run_finished', status: 'completed' })
+    );
+
+    renderChat();
+    // Sending waits until the conversation has loaded
+    await screen.findByText('How can I help you today?');
+
     const input = screen.getByPlaceholderText(/ask the agent/i);
     await user.type(input, 'Hello agent{Enter}');
-    
+
     // Verify message was sent via Enter key
     await waitFor(() => {
-      expect(mockSendMessage).toHaveBeenCalledWith(expect.stringContaining('Hello'));
+      expect(mockStreamChat).toHaveBeenCalledWith([
+        expect.objectContaining({ content: expect.stringContaining('Hello') }),
+      ], expect.objectContaining({ signal: expect.any(AbortSignal) }));
     });
   });
 
   it('should clear input after sending message', async () => {
     const user = userEvent.setup();
-    const mockResponse = {
-      messageId: '789',
-      content: 'Response',
-      timestamp: '2026-01-11T15:00:00Z',
-    };
-    
-    mockSendMessage.mockResolvedValueOnce(mockResponse);
-    
-    render(<ChatPage />);
-    
-    const button = screen.getByRole('button', { name: /optimize campaign/i });
+    mockStreamChat.mockReturnValueOnce(
+      streamOf(textUpdate('Response'), { type: 'run_finished', status: 'completed' })
+    );
+
+    renderChat();
+
+    const button = await screen.findByRole('button', { name: /optimize campaign/i });
     await user.click(button);
-    
+
     // Message should be sent
     await waitFor(() => {
-      expect(mockSendMessage).toHaveBeenCalled();
+      expect(mockStreamChat).toHaveBeenCalled();
     });
   });
 
   it('should scroll to bottom when new messages appear', async () => {
     const user = userEvent.setup();
-    const mockResponse = {
-      messageId: '999',
-      content: 'Scroll test',
-      timestamp: '2026-01-11T15:00:00Z',
-    };
-    
-    mockSendMessage.mockResolvedValueOnce(mockResponse);
-    
+    mockStreamChat.mockReturnValueOnce(
+      streamOf(textUpdate('Scroll test'), { type: 'run_finished', status: 'completed' })
+    );
+
     const scrollIntoViewMock = vi.fn();
     Element.prototype.scrollIntoView = scrollIntoViewMock;
-    
-    render(<ChatPage />);
-    
-    const button = screen.getByRole('button', { name: /review connections/i });
+
+    renderChat();
+
+    const button = await screen.findByRole('button', { name: /review connections/i });
     await user.click(button);
-    
+
     // ScrollIntoView should be called
     await waitFor(() => {
       expect(scrollIntoViewMock).toHaveBeenCalled();
     });
   });
+
+  it('should propose a plan in plan mode and create its tasks only once approved', async () => {
+    const user = userEvent.setup();
+    const planReply = '```plan\n{"tasks":[{"title":"Find CTOs"},{"title":"Send invites"},{"title":"Follow up"}]}\n```';
+    mockStreamChat
+      .mockReturnValueOnce(streamOf({ type: 'run_started', runId: 'run-1' }, textUpdate(planReply), { type: 'run_finished', status: 'completed' }))
+      .mockReturnValueOnce(streamOf(textUpdate('Starting'), { type: 'run_finished', status: 'completed' }));
+    mockCreateArtifact.mockImplementation((request) =>
+      Promise.resolve({ ...request, id: 'p1', version: 1, createdAt: '' })
+    );
+    mockCreateTask.mockResolvedValue({} as CampaignTask);
+
+    renderChat('campaign-1');
+    await screen.findByText('How can I help you today?');
+
+    await user.click(await screen.findByRole('switch', { name: /plan mode/i }));
+    await user.type(screen.getByPlaceholderText(/ask the agent/i), 'Plan the campaign{Enter}');
+
+    expect(await screen.findByText('Proposed plan')).toBeInTheDocument();
+    expect(mockStreamChat).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({ planMode: true }));
+    expect(mockCreateTask).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Remove task 2' }));
+    await user.click(screen.getByRole('button', { name: 'Move task 2 up' }));
+    await user.click(screen.getByRole('checkbox', { name: 'Task 1 requires approval' }));
+    await user.click(screen.getByRole('button', { name: /approve & execute/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Starting')).toBeInTheDocument();
+    });
+    const stored = JSON.parse(mockCreateArtifact.mock.calls[0]?.[0].content ?? '{}') as { status: string; messageId: string };
+    expect(stored).toMatchObject({ status: 'approved', messageId: 'run-1' });
+    expect(mockCreateTask.mock.calls.map(([, task]) => `${task.orderIndex}:${task.title}:${task.requiresApproval}:${task.planId}`)).toEqual([
+      '0:Follow up:true:run-1',
+      '1:Find CTOs:false:run-1',
+    ]);
+    expect(mockCreateArtifact.mock.invocationCallOrder[0]).toBeGreaterThan(Math.max(...mockCreateTask.mock.invocationCallOrder));
+    expect(mockStreamChat).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({ planMode: false }));
+    expect(screen.getByText('Approved')).toBeInTheDocument();
+  });
+
+  it('should only store the approval once every task exists, retrying under the same plan', async () => {
+    const user = userEvent.setup();
+    const planReply = '```plan\n{"tasks":[{"title":"Find CTOs"},{"title":"Send invites"}]}\n```';
+    mockStreamChat.mockReturnValueOnce(
+      streamOf({ type: 'run_started', runId: 'run-1' }, textUpdate(planReply), { type: 'run_finished', status: 'completed' })
+    );
+    mockCreateArtifact.mockImplementation((request) =>
+      Promise.resolve({ ...request, id: 'p1', version: 1, createdAt: '' })
+    );
+    mockCreateTask
+      .mockResolvedValueOnce({} as CampaignTask)
+      .mockRejectedValueOnce(new Error('Network down'))
+      .mockResolvedValue({} as CampaignTask);
+
+    renderChat('campaign-1');
+    await user.click(await screen.findByRole('switch', { name: /plan mode/i }));
+    await user.type(screen.getByPlaceholderText(/ask the agent/i), 'Plan the campaign{Enter}');
+    await user.click(await screen.findByRole('button', { name: /approve & execute/i }));
+
+    await waitFor(() => {
+      expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ description: expect.stringContaining('1 of 2 tasks created') }));
+    });
+    expect(mockCreateArtifact).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: /approve & execute/i }));
+
+    await waitFor(() => {
+      expect(mockCreateArtifact).toHaveBeenCalledTimes(1);
+    });
+    expect(mockCreateTask.mock.calls.map(([, task]) => `${task.orderIndex}:${task.planId}`)).toEqual([
+      '0:run-1',
+      '1:run-1',
+      '0:run-1',
+      '1:run-1',
+    ]);
+  });
 });
@@ -0,0 +1,70 @@
+import { useSettingsForm } from '@/hooks/use-settings-form';
+import type { SettingsDto } from '@/lib/api';
+import { DEFAULT_SETTINGS } from '@/lib/settings';
+import { renderWithQueryClient } from '@/test/render';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DeveloperPage } from './DeveloperPage';
+
+const { api } = vi.hoisted(() => ({
+  api: {
+    getSettings: vi.fn<() => Promise<SettingsDto>>(),
+    updateSettings: vi.fn<(settings: SettingsDto) => Promise<void>>(),
+  },
+}));
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: api,
+}));
+
+const STORED: SettingsDto = { ...DEFAULT_SETTINGS, developerMode: true, apiEndpoint: 'http://localhost:5104', modelName: 'gpt-4o' };
+
+function DeveloperRoute(): JSX.Element {
+  return <DeveloperPage form={useSettingsForm()} />;
+}
+
+describe('DeveloperPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    api.getSettings.mockResolvedValue(STORED);
+    api.updateSettings.mockResolvedValue(undefined);
+  });
+
+  it('should load the stored settings and save changes through the API', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<DeveloperRoute />);
+
+    const model = screen.getByLabelText('Model Name');
+    await waitFor(() => expect(model).toHaveValue('gpt-4o'));
+    const save = screen.getByRole('button', { name: /save developer settings/i });
+    expect(save).toBeDisabled();
+
+    await user.clear(model);
+    await user.type(model, 'gpt-4.1');
+    expect(screen.getByRole('status')).toHaveTextContent('You have unsaved changes.');
+    await user.click(save);
+
+    await waitFor(() => expect(api.updateSettings).toHaveBeenCalledWith({ ...STORED, modelName: 'gpt-4.1' }));
+    await waitFor(() => expect(screen.queryByRole('status')).not.toBeInTheDocument());
+  });
+
+  it('should block saving until invalid settings are fixed', async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<DeveloperRoute />);
+
+    const endpoint = screen.getByLabelText('API Endpoint');
+    await waitFor(() => expect(endpoint).toHaveValue('http://localhost:5104'));
+    await user.clear(endpoint);
+    await user.type(endpoint, 'not a url');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Enter a valid URL');
+    expect(endpoint).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByRole('button', { name: /save developer settings/i })).toBeDisabled();
+
+    await user.click(screen.getByRole('button', { name: 'Discard' }));
+    expect(endpoint).toHaveValue('http://localhost:5104');
+    expect(api.updateSettings).not.toHaveBeenCalled();
+  });
+});
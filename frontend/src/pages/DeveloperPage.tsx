@@ -3,24 +3,26 @@
 // while maintaining the cohesive developer settings interface with multiple configuration sections.
 
 import { useState } from 'react';
-import { Terminal, Server, Cpu, Save, RefreshCw, Bug, FileJson } from 'lucide-react';
+import { Terminal, Server, Cpu, RefreshCw, Bug, FileJson } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
-import { Settings } from '@/types/agent';
+import { SettingsFieldError } from '@/components/settings/SettingsFieldError';
+import { SettingsSaveBar } from '@/components/settings/SettingsSaveBar';
+import { SettingsForm } from '@/hooks/use-settings-form';
+import { MAX_TOKENS, TEMPERATURE } from '@/lib/settings';
 import { toast } from '@/hooks/use-toast';
 import { Textarea } from '@/components/ui/textarea';
 
 const TEST_DELAY_MS = 1000;
 const TEMPERATURE_DECIMAL_PLACES = 2;
 const TEMPERATURE_SLIDER_MULTIPLIER = 100;
-const TEMPERATURE_SLIDER_MAX = 200;
+const TEMPERATURE_SLIDER_STEP = 5;
 
 interface DeveloperPageProps {
-  settings: Settings;
-  onSettingsChange: (settings: Settings) => void;
+  form: SettingsForm;
 }
 
 const sampleManifest = `{
@@ -42,8 +44,8 @@ const sampleManifest = `{
   ]
 }`;
 
-export function DeveloperPage({ settings, onSettingsChange }: DeveloperPageProps): JSX.Element {
-  const [localSettings, setLocalSettings] = useState(settings);
+export function DeveloperPage({ form }: DeveloperPageProps): JSX.Element {
+  const { settings, errors, update } = form;
   const [manifest, setManifest] = useState(sampleManifest);
   const [logs, setLogs] = useState<string[]>([
     '[INFO] Agent initialized successfully',
@@ -53,18 +55,6 @@ export function DeveloperPage({ settings, onSettingsChange }: DeveloperPageProps
     '[DEBUG] Ready for user input',
   ]);
 
-  const handleSave = () => {
-    onSettingsChange(localSettings);
-    toast({
-      title: 'Developer settings saved',
-      description: 'Configuration has been updated.',
-    });
-  };
-
-  const updateSetting = <K extends keyof Settings>(key: K, value: Settings[K]) => {
-    setLocalSettings((prev) => ({ ...prev, [key]: value }));
-  };
-
   const addLog = (message: string) => {
     setLogs((prev) => [...prev, `[${new Date().toLocaleTimeString()}] ${message}`]);
   };
@@ -111,21 +101,27 @@ export function DeveloperPage({ settings, onSettingsChange }: DeveloperPageProps
               <Label htmlFor="api-endpoint">API Endpoint</Label>
               <Input
                 id="api-endpoint"
-                value={localSettings.apiEndpoint}
-                onChange={(e) => updateSetting('apiEndpoint', e.target.value)}
+                value={settings.apiEndpoint}
+                onChange={(e) => update('apiEndpoint', e.target.value)}
                 placeholder="https://api.example.com/v1"
                 className="font-mono text-sm"
+                aria-invalid={Boolean(errors.apiEndpoint)}
+                aria-describedby="api-endpoint-error"
               />
+              <SettingsFieldError id="api-endpoint-error" message={errors.apiEndpoint} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="model-name">Model Name</Label>
               <Input
                 id="model-name"
-                value={localSettings.modelName}
-                onChange={(e) => updateSetting('modelName', e.target.value)}
+                value={settings.modelName}
+                onChange={(e) => update('modelName', e.target.value)}
                 placeholder="gpt-4-turbo"
                 className="font-mono text-sm"
+                aria-invalid={Boolean(errors.modelName)}
+                aria-describedby="model-name-error"
               />
+              <SettingsFieldError id="model-name-error" message={errors.modelName} />
             </div>
             <Button variant="outline" className="w-full gap-2" onClick={handleTestConnection}>
               <RefreshCw className="w-4 h-4" />
@@ -147,30 +143,32 @@ export function DeveloperPage({ settings, onSettingsChange }: DeveloperPageProps
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <Label>Max Tokens</Label>
-                <span className="text-sm font-mono text-muted-foreground">{localSettings.maxTokens}</span>
+                <span className="text-sm font-mono text-muted-foreground">{settings.maxTokens}</span>
               </div>
               <Slider
-                value={[localSettings.maxTokens]}
-                onValueChange={([value]) => updateSetting('maxTokens', value)}
-                max={8192}
-                min={256}
-                step={256}
+                value={[settings.maxTokens]}
+                onValueChange={([value]) => update('maxTokens', value)}
+                max={MAX_TOKENS.max}
+                min={MAX_TOKENS.min}
+                step={MAX_TOKENS.step}
                 className="w-full"
               />
+              <SettingsFieldError id="max-tokens-error" message={errors.maxTokens} />
             </div>
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <Label>Temperature</Label>
-                <span className="text-sm font-mono text-muted-foreground">{localSettings.temperature.toFixed(TEMPERATURE_DECIMAL_PLACES)}</span>
+                <span className="text-sm font-mono text-muted-foreground">{settings.temperature.toFixed(TEMPERATURE_DECIMAL_PLACES)}</span>
               </div>
               <Slider
-                value={[localSettings.temperature * TEMPERATURE_SLIDER_MULTIPLIER]}
-                onValueChange={([value]) => updateSetting('temperature', value / TEMPERATURE_SLIDER_MULTIPLIER)}
-                max={TEMPERATURE_SLIDER_MAX}
-                min={0}
-                step={5}
+                value={[settings.temperature * TEMPERATURE_SLIDER_MULTIPLIER]}
+                onValueChange={([value]) => update('temperature', value / TEMPERATURE_SLIDER_MULTIPLIER)}
+                max={TEMPERATURE.max * TEMPERATURE_SLIDER_MULTIPLIER}
+                min={TEMPERATURE.min * TEMPERATURE_SLIDER_MULTIPLIER}
+                step={TEMPERATURE_SLIDER_STEP}
                 className="w-full"
               />
+              <SettingsFieldError id="temperature-error" message={errors.temperature} />
             </div>
           </CardContent>
         </Card>
@@ -224,12 +222,7 @@ export function DeveloperPage({ settings, onSettingsChange }: DeveloperPageProps
       </div>
 
       {/* Save Button */}
-      <div className="flex justify-end">
-        <Button onClick={handleSave} className="gap-2">
-          <Save className="w-4 h-4" />
-          Save Developer Settings
-        </Button>
-      </div>
+      <SettingsSaveBar form={form} label="Save Developer Settings" />
     </div>
   );
 }
@@ -0,0 +1,133 @@
+import type { Campaign, CampaignEvent, EventPage, EventQuery } from '@/lib/api';
+import { renderWithQueryClient } from '@/test/render';
+import { act, fireEvent, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventLogPage } from './EventLogPage';
+
+const { api } = vi.hoisted(() => ({
+  api: {
+    getEvents: vi.fn<(query?: EventQuery) => Promise<EventPage>>(),
+    getCampaigns: vi.fn<() => Promise<Campaign[]>>(),
+  },
+}));
+
+vi.mock('@/lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  apiClient: api,
+}));
+
+const mockToast = vi.fn<(options: unknown) => void>();
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: mockToast }),
+  toast: (options: unknown) => mockToast(options),
+}));
+
+const observers: Array<(entries: Array<{ isIntersecting: boolean }>) => void> = [];
+const OriginalIntersectionObserver = global.IntersectionObserver;
+
+class CapturingObserver {
+  constructor(callback: (entries: Array<{ isIntersecting: boolean }>) => void) {
+    observers.push(callback);
+  }
+  observe(): void {}
+  disconnect(): void {}
+}
+
+function auditEvent(id: string, eventType: string, timestamp: string, payload = '{}'): CampaignEvent {
+  return { id, eventType, campaignId: 'c-1', timestamp, actor: 'Agent', payload };
+}
+
+const campaign = { id: 'c-1', name: 'Platform leaders' } as Campaign;
+
+describe('EventLogPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    observers.length = 0;
+    global.IntersectionObserver = CapturingObserver as unknown as typeof IntersectionObserver;
+    api.getCampaigns.mockResolvedValue([campaign]);
+  });
+
+  afterEach(() => {
+    global.IntersectionObserver = OriginalIntersectionObserver;
+  });
+
+  it('lists the newest events with their campaign', async () => {
+    api.getEvents.mockResolvedValue({
+      items: [auditEvent('e-2', 'LeadsDiscoveredEvent', '2026-03-02T10:00:00Z')],
+      nextCursor: null,
+    });
+
+    renderWithQueryClient(<EventLogPage />);
+
+    const row = await screen.findByText('LeadsDiscoveredEvent');
+    expect(within(row.closest('tr') as HTMLElement).getByText('Platform leaders')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Load older events' })).not.toBeInTheDocument();
+  });
+
+  it('loads the next page from the cursor when scrolled to the end', async () => {
+    api.getEvents
+      .mockResolvedValueOnce({
+        items: [auditEvent('e-2', 'TaskCompletedEvent', '2026-03-02T10:00:00Z')],
+        nextCursor: '2026-03-02T10:00:00Z',
+      })
+      .mockResolvedValueOnce({
+        items: [auditEvent('e-1', 'CampaignCreatedEvent', '2026-03-01T10:00:00Z')],
+        nextCursor: null,
+      });
+
+    renderWithQueryClient(<EventLogPage />);
+    await screen.findByText('TaskCompletedEvent');
+    await waitFor(() => expect(observers).toHaveLength(1));
+
+    act(() => observers[0]([{ isIntersecting: true }]));
+
+    expect(await screen.findByText('CampaignCreatedEvent')).toBeInTheDocument();
+    expect(api.getEvents).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: '2026-03-02T10:00:00Z' }));
+    expect(screen.getByText('TaskCompletedEvent')).toBeInTheDocument();
+  });
+
+  it('restarts from the first page when the time range changes', async () => {
+    api.getEvents.mockResolvedValue({ items: [], nextCursor: null });
+
+    renderWithQueryClient(<EventLogPage />);
+    await screen.findByText('No events match these filters.');
+
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2026-03-01T09:30' } });
+
+    await waitFor(() =>
+      expect(api.getEvents).toHaveBeenLastCalledWith(
+        expect.objectContaining({ from: new Date('2026-03-01T09:30').toISOString() })
+      )
+    );
+    expect(api.getEvents.mock.lastCall?.[0]).not.toHaveProperty('cursor');
+  });
+
+  it('inspects the JSON payload of a selected event', async () => {
+    const user = userEvent.setup();
+    api.getEvents.mockResolvedValue({
+      items: [auditEvent('e-3', 'LeadScoredEvent', '2026-03-03T10:00:00Z', '{"LeadId":"l-9","Score":"87","Tags":["cto"]}')],
+      nextCursor: null,
+    });
+
+    renderWithQueryClient(<EventLogPage />);
+    await user.click(await screen.findByText('LeadScoredEvent'));
+
+    const dialog = await screen.findByRole('dialog');
+    expect(within(dialog).getByText('"l-9"')).toBeInTheDocument();
+    expect(within(dialog).getByText('"87"')).toBeInTheDocument();
+    expect(within(dialog).getByText('Tags:')).toBeInTheDocument();
+  });
+
+  it('reports a failed load', async () => {
+    api.getEvents.mockRejectedValue(new Error('Service unavailable'));
+
+    renderWithQueryClient(<EventLogPage />);
+
+    await waitFor(() =>
+      expect(mockToast).toHaveBeenCalledWith(
+        expect.objectContaining({ description: 'Failed to load events: Service unavailable', variant: 'destructive' })
+      )
+    );
+  });
+});
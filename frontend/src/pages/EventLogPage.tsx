@@ -0,0 +1,93 @@
+import { EventDetailSheet } from '@/components/events/EventDetailSheet';
+import { EventLogFilterBar } from '@/components/events/EventLogFilterBar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCampaigns } from '@/hooks/use-campaign-queries';
+import { useEventLog } from '@/hooks/use-event-log';
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll';
+import { CampaignEvent } from '@/lib/api';
+import { DEFAULT_EVENT_LOG_FILTERS, EventLogFilters } from '@/lib/event-log';
+import { RefreshCw } from 'lucide-react';
+import { useState } from 'react';
+
+/**
+ * Audit log explorer: every event the agent, users and the system appended, newest first,
+ * filterable and loaded page by page as the list scrolls.
+ */
+export function EventLogPage(): JSX.Element {
+  const [filters, setFilters] = useState<EventLogFilters>(DEFAULT_EVENT_LOG_FILTERS);
+  const [selected, setSelected] = useState<CampaignEvent | null>(null);
+  const { data: campaigns = [] } = useCampaigns();
+  const { events, loading, hasMore, loadMore } = useEventLog(filters);
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(loadMore, hasMore && !loading);
+
+  const campaignName = (id: string | null) => campaigns.find((c) => c.id === id)?.name;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <header className="px-6 py-4 border-b border-border bg-card/50 backdrop-blur-sm space-y-3">
+        <div>
+          <h2 className="font-semibold text-foreground">Event Log</h2>
+          <p className="text-sm text-muted-foreground">Append-only record of what happened in every campaign, and who did it</p>
+        </div>
+        <EventLogFilterBar filters={filters} campaigns={campaigns} onChange={setFilters} />
+      </header>
+
+      <div className="flex-1 overflow-auto p-6">
+        {!loading && events.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">No events match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Campaign</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow
+                  key={event.id}
+                  data-event-id={event.id}
+                  className="cursor-pointer"
+                  onClick={() => setSelected(event)}
+                >
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                    {new Date(event.timestamp).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="font-medium">{event.eventType}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-xs">{event.actor}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{campaignName(event.campaignId) ?? '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center py-6 text-muted-foreground">
+            <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+            Loading events...
+          </div>
+        )}
+        {hasMore && !loading && (
+          <div ref={sentinelRef} className="flex justify-center py-4">
+            <Button variant="outline" size="sm" onClick={loadMore}>Load older events</Button>
+          </div>
+        )}
+      </div>
+
+      <EventDetailSheet
+        event={selected}
+        campaignName={selected ? campaignName(selected.campaignId) : undefined}
+        onClose={() => setSelected(null)}
+      />
+    </div>
+  );
+}
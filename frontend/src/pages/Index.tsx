@@ -1,53 +1,39 @@
 import { Sidebar } from '@/components/layout/Sidebar';
-import { AnalyticsPage } from '@/pages/AnalyticsPage';
-import { CampaignsPage } from '@/pages/CampaignsPage';
-import { ChatPage } from '@/pages/ChatPage';
-import { DeveloperPage } from '@/pages/DeveloperPage';
-import { SettingsPage } from '@/pages/SettingsPage';
-import { Settings } from '@/types/agent';
-import { useState } from 'react';
+import { AppOutletContext } from '@/hooks/use-app-outlet';
+import { useApprovals } from '@/hooks/use-approvals';
+import { useSettingsForm } from '@/hooks/use-settings-form';
+import { Loader2 } from 'lucide-react';
+import { Suspense } from 'react';
+import { Outlet } from 'react-router-dom';
 
-const defaultSettings: Settings = {
-  developerMode: false,
-  apiEndpoint: 'https://api.linkedin-agent.ai/v1',
-  modelName: 'gpt-4-turbo',
-  maxTokens: 4096,
-  temperature: 0.7,
-  linkedInCookie: '',
-  autoSave: true,
-  notifications: true,
-};
+function PageLoader(): JSX.Element {
+  return (
+    <div className="flex flex-1 items-center justify-center text-muted-foreground">
+      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+      Loading...
+    </div>
+  );
+}
 
+/**
+ * App shell: the sidebar next to whichever page the URL selects.
+ */
 const Index = (): JSX.Element => {
-  const [currentPage, setCurrentPage] = useState('chat');
-  const [settings, setSettings] = useState<Settings>(defaultSettings);
-
-  const renderPage = () => {
-    switch (currentPage) {
-      case 'chat':
-        return <ChatPage />;
-      case 'campaigns':
-        return <CampaignsPage />;
-      case 'analytics':
-        return <AnalyticsPage />;
-      case 'settings':
-        return <SettingsPage settings={settings} onSettingsChange={setSettings} />;
-      case 'developer':
-        return <DeveloperPage settings={settings} onSettingsChange={setSettings} />;
-      default:
-        return <ChatPage />;
-    }
-  };
+  const settings = useSettingsForm();
+  const approvals = useApprovals();
+  const context: AppOutletContext = { settings, approvals };
 
   return (
     <div className="flex h-screen bg-background overflow-hidden">
       <Sidebar
-        currentPage={currentPage}
-        onNavigate={setCurrentPage}
-        developerMode={settings.developerMode}
+        developerMode={settings.saved.developerMode}
+        approvalCount={approvals.approvals.length}
+        unsavedSettings={settings.dirty}
       />
       <main className="flex-1 flex flex-col overflow-hidden">
-        {renderPage()}
+        <Suspense fallback={<PageLoader />}>
+          <Outlet context={context} />
+        </Suspense>
       </main>
     </div>
   );
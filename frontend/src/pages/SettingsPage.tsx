@@ -1,36 +1,20 @@
-/* eslint-disable max-lines */
-// Note: This page would require substantial refactoring to split into smaller components
-// while maintaining the cohesive settings interface with multiple configuration sections.
-
-import { useState } from 'react';
-import { Bell, Shield, User, Code2, Linkedin, Save } from 'lucide-react';
+import { Bell, Shield, Users, Code2, Gauge } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { Settings } from '@/types/agent';
-import { toast } from '@/hooks/use-toast';
+import { ConnectionDetails } from '@/components/realtime/ConnectionDetails';
+import { SendersPanel } from '@/components/senders/SendersPanel';
+import { CampaignLimitsPanel } from '@/components/settings/CampaignLimitsPanel';
+import { SettingsSaveBar } from '@/components/settings/SettingsSaveBar';
+import { SettingsForm } from '@/hooks/use-settings-form';
+import { useConnectionStatus } from '@/hooks/use-connection-status';
 
 interface SettingsPageProps {
-  settings: Settings;
-  onSettingsChange: (settings: Settings) => void;
+  form: SettingsForm;
 }
 
-export function SettingsPage({ settings, onSettingsChange }: SettingsPageProps): JSX.Element {
-  const [localSettings, setLocalSettings] = useState(settings);
-
-  const handleSave = () => {
-    onSettingsChange(localSettings);
-    toast({
-      title: 'Settings saved',
-      description: 'Your preferences have been updated successfully.',
-    });
-  };
-
-  const updateSetting = <K extends keyof Settings>(key: K, value: Settings[K]) => {
-    setLocalSettings((prev) => ({ ...prev, [key]: value }));
-  };
+export function SettingsPage({ form }: SettingsPageProps): JSX.Element {
+  const { settings, update } = form;
+  const connection = useConnectionStatus();
 
   return (
     <div className="p-6 space-y-6 overflow-y-auto h-full max-w-4xl">
@@ -42,35 +26,32 @@ export function SettingsPage({ settings, onSettingsChange }: SettingsPageProps):
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <User className="w-5 h-5 text-primary" />
-            Profile Settings
+            <Users className="w-5 h-5 text-primary" />
+            LinkedIn Senders
           </CardTitle>
-          <CardDescription>Configure your LinkedIn connection and profile</CardDescription>
+          <CardDescription>The LinkedIn accounts your campaigns send outreach from</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="linkedin-cookie">LinkedIn Session Cookie</Label>
-              <Input
-                id="linkedin-cookie"
-                type="password"
-                value={localSettings.linkedInCookie}
-                onChange={(e) => updateSetting('linkedInCookie', e.target.value)}
-                placeholder="li_at cookie value"
-              />
-            </div>
-          </div>
-          <div className="flex items-center gap-3 p-4 rounded-xl bg-accent/50">
-            <Linkedin className="w-5 h-5 text-primary" />
-            <div className="flex-1">
-              <p className="text-sm font-medium text-foreground">LinkedIn Connection</p>
-              <p className="text-xs text-muted-foreground">Status: Connected</p>
-            </div>
-            <div className="w-2 h-2 rounded-full bg-success" />
+          <SendersPanel backendOffline={connection.status === 'offline'} />
+          <div className="p-4 rounded-xl border border-border">
+            <ConnectionDetails {...connection} />
           </div>
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="w-5 h-5 text-primary" />
+            Campaign Sending Limits
+          </CardTitle>
+          <CardDescription>Keep a campaign below its senders&apos; limits, across every account it uses</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CampaignLimitsPanel />
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -86,8 +67,8 @@ export function SettingsPage({ settings, onSettingsChange }: SettingsPageProps):
               <p className="text-sm text-muted-foreground">Receive alerts for campaign updates</p>
             </div>
             <Switch
-              checked={localSettings.notifications}
-              onCheckedChange={(checked) => updateSetting('notifications', checked)}
+              checked={settings.notifications}
+              onCheckedChange={(checked) => update('notifications', checked)}
             />
           </div>
           <div className="flex items-center justify-between">
@@ -96,8 +77,8 @@ export function SettingsPage({ settings, onSettingsChange }: SettingsPageProps):
               <p className="text-sm text-muted-foreground">Automatically save chat history</p>
             </div>
             <Switch
-              checked={localSettings.autoSave}
-              onCheckedChange={(checked) => updateSetting('autoSave', checked)}
+              checked={settings.autoSave}
+              onCheckedChange={(checked) => update('autoSave', checked)}
             />
           </div>
         </CardContent>
@@ -118,14 +99,14 @@ export function SettingsPage({ settings, onSettingsChange }: SettingsPageProps):
               <p className="text-sm text-muted-foreground">Enable advanced settings and debugging tools</p>
             </div>
             <Switch
-              checked={localSettings.developerMode}
-              onCheckedChange={(checked) => updateSetting('developerMode', checked)}
+              checked={settings.developerMode}
+              onCheckedChange={(checked) => update('developerMode', checked)}
             />
           </div>
         </CardContent>
       </Card>
 
-      {localSettings.developerMode && (
+      {settings.developerMode && (
         <Card className="border-primary/20 bg-accent/30">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -138,31 +119,26 @@ export function SettingsPage({ settings, onSettingsChange }: SettingsPageProps):
             <div className="grid grid-cols-2 gap-4">
               <div className="p-3 rounded-lg bg-card">
                 <p className="text-xs text-muted-foreground mb-1">API Endpoint</p>
-                <p className="text-sm font-mono text-foreground truncate">{localSettings.apiEndpoint}</p>
+                <p className="text-sm font-mono text-foreground truncate">{settings.apiEndpoint}</p>
               </div>
               <div className="p-3 rounded-lg bg-card">
                 <p className="text-xs text-muted-foreground mb-1">Model</p>
-                <p className="text-sm font-mono text-foreground">{localSettings.modelName}</p>
+                <p className="text-sm font-mono text-foreground">{settings.modelName}</p>
               </div>
               <div className="p-3 rounded-lg bg-card">
                 <p className="text-xs text-muted-foreground mb-1">Max Tokens</p>
-                <p className="text-sm font-mono text-foreground">{localSettings.maxTokens}</p>
+                <p className="text-sm font-mono text-foreground">{settings.maxTokens}</p>
               </div>
               <div className="p-3 rounded-lg bg-card">
                 <p className="text-xs text-muted-foreground mb-1">Temperature</p>
-                <p className="text-sm font-mono text-foreground">{localSettings.temperature}</p>
+                <p className="text-sm font-mono text-foreground">{settings.temperature}</p>
               </div>
             </div>
           </CardContent>
         </Card>
       )}
 
-      <div className="flex justify-end">
-        <Button onClick={handleSave} className="gap-2">
-          <Save className="w-4 h-4" />
-          Save Settings
-        </Button>
-      </div>
+      <SettingsSaveBar form={form} label="Save Settings" />
     </div>
   );
 }
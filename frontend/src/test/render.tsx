@@ -0,0 +1,13 @@
+import { createQueryClient } from '@/lib/query-client';
+import { QueryClientProvider } from '@tanstack/react-query';
+import { render, RenderResult } from '@testing-library/react';
+import { ReactElement } from 'react';
+
+/**
+ * Render inside a fresh query cache with the app's error handling, minus the retries.
+ */
+export function renderWithQueryClient(ui: ReactElement): RenderResult {
+  const client = createQueryClient();
+  client.setDefaultOptions({ queries: { retry: false }, mutations: { retry: false } });
+  return render(<QueryClientProvider client={client}>{ui}</QueryClientProvider>);
+}
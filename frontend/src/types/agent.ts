@@ -5,13 +5,18 @@ export interface Message {
   timestamp: Date;
   tools?: ToolCall[];
   attachments?: FileAttachment[];
+  stopped?: boolean;
 }
 
+export type ToolCallStatus = 'pending' | 'running' | 'completed' | 'error';
+
 export interface ToolCall {
   id: string;
   name: string;
-  status: 'pending' | 'running' | 'completed' | 'error';
+  status: ToolCallStatus;
+  arguments?: Record<string, unknown>;
   result?: string;
+  error?: string;
 }
 
 export interface FileAttachment {
@@ -35,19 +40,8 @@ export interface Campaign {
 export interface CampaignMetrics {
   totalCampaigns: number;
   activeCampaigns: number;
-  totalMessages: number;
-  responseRate: number;
-  connectionsGained: number;
-  meetingsBooked: number;
-}
-
-export interface Settings {
-  developerMode: boolean;
-  apiEndpoint: string;
-  modelName: string;
-  maxTokens: number;
-  temperature: number;
-  linkedInCookie: string;
-  autoSave: boolean;
-  notifications: boolean;
+  leadsDiscovered: number;
+  leadsScored: number;
+  tasksCompleted: number;
+  totalTasks: number;
 }
@@ -13,6 +13,11 @@ export default defineConfig(({ mode }) => ({
         target: 'http://localhost:5063',
         changeOrigin: true,
         secure: false,
+      },
+      '/hubs': {
+        target: 'http://localhost:5063',
+        changeOrigin: true,
+        ws: true,
       }
     }
   },